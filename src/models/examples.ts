@@ -11,6 +11,7 @@ import {
   ClozeCard,
   VideoCard,
   TriviaCard,
+  SpeakingCard,
   VocabularyEntry,
   VocabularyModule,
   UserProgress,
@@ -116,6 +117,20 @@ export const exampleTriviaCard: TriviaCard = {
   tags: ['food', 'culture', 'spanish'],
 };
 
+/**
+ * Example speaking card for pronunciation practice.
+ */
+export const exampleSpeakingCard: SpeakingCard = {
+  cardId: 'perro-001-speak-01',
+  type: CardType.SPEAKING,
+  prompt: 'Say the Spanish word for "dog"',
+  expectedAnswer: 'perro',
+  alternateAnswers: ['el perro'],
+  referenceAudioUrl: '/modules/spanish-animals/audio/perro.mp3',
+  hint: 'Roll the double r',
+  tags: ['animals', 'pronunciation'],
+};
+
 // =============================================================================
 // EXAMPLE PROGRESS
 // =============================================================================
@@ -8,6 +8,7 @@ import {
   isClozeCard,
   isVideoCard,
   isTriviaCard,
+  isSpeakingCard,
   isSuccess,
   isFailure,
   type Card,
@@ -21,6 +22,7 @@ import {
   exampleClozeCard,
   exampleVideoCard,
   exampleTriviaCard,
+  exampleSpeakingCard,
   exampleVocabularyEntry,
   exampleVocabularyModule,
   exampleNewProgress,
@@ -75,6 +77,11 @@ describe('Card Types', () => {
       expect(isTriviaCard(exampleTriviaCard)).toBe(true);
       expect(isTriviaCard(exampleClozeCard)).toBe(false);
     });
+
+    it('should identify SpeakingCard correctly', () => {
+      expect(isSpeakingCard(exampleSpeakingCard)).toBe(true);
+      expect(isSpeakingCard(exampleAudioCard)).toBe(false);
+    });
   });
 
   describe('Card structure', () => {
@@ -257,10 +264,11 @@ describe('ValidationResult', () => {
 describe('Card ID conventions', () => {
   it('should follow naming pattern', () => {
     // Pattern: entry-type-number (e.g., "perro-001-img-01")
-    const pattern = /^[\w-]+-\d{3}-(img|audio|def|cloze|video|trivia)-\d{2}$/;
+    const pattern = /^[\w-]+-\d{3}-(img|audio|def|cloze|video|trivia|speak)-\d{2}$/;
 
     expect(exampleImageCard.cardId).toMatch(pattern);
     expect(exampleClozeCard.cardId).toMatch(pattern);
+    expect(exampleSpeakingCard.cardId).toMatch(pattern);
   });
 });
 
@@ -280,6 +288,8 @@ describe('Discriminated union pattern', () => {
           return `Video: ${card.videoUrl}`;
         case CardType.TRIVIA:
           return `Trivia: ${card.question}`;
+        case CardType.SPEAKING:
+          return `Speaking: ${card.prompt}`;
       }
     };
 
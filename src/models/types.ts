@@ -18,6 +18,11 @@ export enum CardType {
   CLOZE = 'cloze',
   VIDEO = 'video',
   TRIVIA = 'trivia',
+  SPEAKING = 'speaking',
+  /** Derived recognition card (see ReverseCard); never authored in module files */
+  REVERSE = 'reverse',
+  /** Derived exercise spanning several entries (see MatchingCard); never authored in module files */
+  MATCHING = 'matching',
 }
 
 /**
@@ -89,6 +94,18 @@ export interface DefinitionCard extends BaseCard {
   exampleSentence?: string;
 }
 
+/**
+ * One blank of a ClozeCard that asks several blanks at once.
+ */
+export interface ClozeBlank {
+  /** The word that fills the blank */
+  answer: string;
+  /** Alternative acceptable answers */
+  alternateAnswers?: string[];
+  /** Hint for this blank (e.g., "verb") */
+  hint?: string;
+}
+
 /**
  * Card with a fill-in-the-blank sentence.
  * Tests understanding in context.
@@ -105,6 +122,11 @@ export interface ClozeCard extends BaseCard {
   alternateAnswers?: string[];
   /** Position of the blank in the sentence (word index) */
   blankPosition?: number;
+  /**
+   * Blanks in sentence order, one per "___", when the card asks several at
+   * once. `blank` and `expectedAnswer` then list every answer.
+   */
+  blanks?: ClozeBlank[];
 }
 
 /**
@@ -143,11 +165,102 @@ export interface TriviaCard extends BaseCard {
   explanation?: string;
 }
 
+/**
+ * Card that asks the user to say the term aloud.
+ * The recording is transcribed by a SpeechRecognizer and the transcript is
+ * checked like a typed answer; the entry's pronunciation is shown as the reference.
+ */
+export interface SpeakingCard extends BaseCard {
+  type: CardType.SPEAKING;
+  /** Question or instruction (e.g., "Say the word for dog") */
+  prompt: string;
+  /** What the user should say */
+  expectedAnswer: string;
+  /** Alternative acceptable answers */
+  alternateAnswers?: string[];
+  /** URL or relative path to a model recording of the term */
+  referenceAudioUrl?: string;
+}
+
 /**
  * Union type representing any card type in the system.
  * Use type guards or switch on `type` to narrow.
  */
-export type Card = ImageCard | AudioCard | DefinitionCard | ClozeCard | VideoCard | TriviaCard;
+export type Card = ImageCard | AudioCard | DefinitionCard | ClozeCard | VideoCard | TriviaCard | SpeakingCard;
+
+/**
+ * Card types that module authors write. Reverse cards are generated from
+ * these at study time.
+ */
+export type AuthoredCardType = Card['type'];
+
+/** Every authored card type, in CardType order */
+export const AUTHORED_CARD_TYPES: readonly AuthoredCardType[] = Object.values(CardType).filter(
+  (type): type is AuthoredCardType => type !== CardType.REVERSE && type !== CardType.MATCHING
+);
+
+/**
+ * Recognition card derived from a DefinitionCard or ImageCard: shows the
+ * term and asks for its meaning (the definition, or the picture). Authored
+ * cards test production (meaning → term); reverse cards test the other
+ * direction and are scheduled by `VocabularyEntry.reverseProgress`.
+ */
+export interface ReverseCard extends BaseCard {
+  type: CardType.REVERSE;
+  /** The authored card this one reverses */
+  sourceCardId: string;
+  /** What the learner is asked for */
+  answerKind: 'definition' | 'image';
+  /** The term shown to the learner */
+  term: string;
+  /** Phonetic pronunciation shown with the term */
+  pronunciation?: string;
+  /** Audio of the term, played with it when available */
+  audioUrl?: string;
+  /** Question or instruction (e.g., "What does this word mean?") */
+  prompt: string;
+  /** The definition, or the URL of the picture */
+  expectedAnswer: string;
+  /** Alternative acceptable answers */
+  alternateAnswers?: string[];
+}
+
+/**
+ * Any card that can be studied: authored cards plus derived reverse cards.
+ */
+export type StudyCard = Card | ReverseCard;
+
+/**
+ * One pair of a matching exercise: a term and the picture or definition it
+ * goes with.
+ */
+export interface MatchingPair {
+  entryId: string;
+  /** The ImageCard or DefinitionCard the pair comes from */
+  sourceCardId: string;
+  term: string;
+  /** The definition, or the URL of the picture */
+  match: string;
+}
+
+/**
+ * Matching exercise derived from the DefinitionCards or ImageCards of
+ * several entries: the learner pairs each term with its definition or
+ * picture. Unlike other cards it spans entries, so it is not a StudyCard;
+ * each pair is graded and scheduled on its own entry.
+ */
+export interface MatchingCard {
+  cardId: string;
+  type: CardType.MATCHING;
+  /** What the terms are matched with */
+  matchKind: 'definition' | 'image';
+  /** Instruction (e.g., "Match each word with its meaning") */
+  prompt: string;
+  /** Pairs in the order the terms are shown */
+  pairs: MatchingPair[];
+  /** Definitions or pictures in the order they are shown */
+  matches: string[];
+}
 
 // =============================================================================
 // CORE DOMAIN TYPES
@@ -166,10 +279,20 @@ export interface VocabularyEntry {
   cards: Card[];
   /** User's learning progress for this entry */
   progress?: UserProgress;
+  /** Progress in the recognition direction (reverse cards), scheduled apart from `progress` */
+  reverseProgress?: UserProgress;
+  /** Per-card answer statistics, keyed by cardId */
+  cardProgress?: Record<string, CardProgress>;
   /** Optional phonetic pronunciation */
   pronunciation?: string;
   /** Optional notes added by user */
   userNotes?: string;
+  /** Memory aids added by the user (from their UserCustomization) */
+  mnemonics?: string;
+  /** Personal tags added by the user (from their UserCustomization) */
+  userTags?: string[];
+  /** Ids of the cards the user added (from their UserCustomization) */
+  customCardIds?: string[];
   /** Difficulty level (1-5, where 1 is easiest) */
   difficulty?: number;
   /** ISO 8601 timestamp when entry was created */
@@ -207,6 +330,29 @@ export interface VocabularyModule {
   license?: string;
 }
 
+/**
+ * A learner's personal layer over one entry of an official module: notes,
+ * mnemonics, tags, extra accepted answers and cards of their own. It is
+ * stored apart from module content, keyed by moduleId and entryId, so it
+ * survives module updates, and is merged into the entry on read.
+ */
+export interface UserCustomization {
+  moduleId: string;
+  entryId: string;
+  /** Personal notes (shown instead of the module's `userNotes`) */
+  notes?: string;
+  /** Memory aids */
+  mnemonics?: string;
+  /** Cards created by the user for this entry */
+  customCards?: Card[];
+  /** Extra accepted answers for the entry's official cards, keyed by cardId */
+  extraAnswers?: Record<string, string[]>;
+  /** Personal categorization tags */
+  tags?: string[];
+  /** ISO 8601 timestamp of the last change */
+  updatedAt: string;
+}
+
 // =============================================================================
 // PROGRESS TRACKING TYPES
 // =============================================================================
@@ -226,9 +372,21 @@ export enum ReviewQuality {
   EASY = 5,
 }
 
+/**
+ * Identifier of the scheduling algorithm that owns a progress record.
+ */
+export type SchedulerId = 'sm2' | 'fsrs';
+
+/**
+ * Opaque, scheduler-specific memory state stored alongside UserProgress.
+ * Its keys are defined by the scheduler named in `UserProgress.schedulerId`.
+ */
+export type SchedulerState = Record<string, number>;
+
 /**
  * Tracks a user's learning progress for a specific vocabulary entry.
- * Based on the SM-2 spaced repetition algorithm.
+ * Defaults to the SM-2 spaced repetition algorithm; other schedulers keep
+ * their own state in `schedulerState`.
  */
 export interface UserProgress {
   /** Number of days until next review */
@@ -251,6 +409,92 @@ export interface UserProgress {
   streak: number;
   /** Whether the entry is considered mastered (e.g., interval > 21 days) */
   mastered: boolean;
+  /** Scheduler that produced this record (absent on legacy records, which are SM-2) */
+  schedulerId?: SchedulerId;
+  /** Additional state required by non-SM-2 schedulers */
+  schedulerState?: SchedulerState;
+}
+
+/**
+ * How well an entry is known, derived from its UserProgress (see
+ * classifyMastery). Finer-grained than `UserProgress.mastered`.
+ */
+export enum MasteryLevel {
+  /** Never reviewed */
+  NEW = 'new',
+  /** Reviewed, fewer than 3 consecutive correct reviews */
+  LEARNING = 'learning',
+  /** 3-5 consecutive correct reviews */
+  YOUNG = 'young',
+  /** 6 or more consecutive correct reviews */
+  MATURE = 'mature',
+  /** Review interval of 180 days or more */
+  MASTERED = 'mastered',
+}
+
+/**
+ * Answer statistics for a single card of an entry.
+ * Purely informational: due dates are always driven by the entry's
+ * UserProgress, never by individual cards.
+ */
+export interface CardProgress {
+  /** The card these statistics belong to */
+  cardId: string;
+  /** Type of the card (kept so statistics can be grouped without the entry) */
+  cardType: CardType;
+  /** Number of times the card has been answered */
+  shownCount: number;
+  /** Number of answers rated with a passing quality */
+  correctCount: number;
+  /** ISO 8601 timestamp of the most recent answer */
+  lastShown: string | null;
+  /** Mean response time in milliseconds, over the timed answers */
+  averageResponseTime: number;
+  /** Number of answers with a measured response time (absent on older records, where every answer was timed) */
+  timedCount?: number;
+  /** Quality of the most recent answer */
+  lastQuality: ReviewQuality | null;
+}
+
+/**
+ * Which way an entry is studied.
+ * - `production`: meaning shown, term recalled (authored cards, `progress`)
+ * - `recognition`: term shown, meaning picked (reverse cards, `reverseProgress`)
+ */
+export type StudyDirection = 'production' | 'recognition';
+
+/**
+ * One rated answer, as it happened. Review log entries are only ever
+ * appended, never edited, so the full history of an entry can be audited or
+ * replayed through another scheduler to rebuild its UserProgress.
+ */
+export interface ReviewLogEntry {
+  moduleId: string;
+  entryId: string;
+  cardId: string;
+  cardType: CardType;
+  /** Which progress the answer counts towards */
+  direction: StudyDirection;
+  /** What the user typed, picked or said */
+  userAnswer: string;
+  /** Confidence of the answer check (ValidationResult.confidence, 0-1) */
+  confidence: number;
+  answerMode: AnswerMode;
+  /** Quality the answer was rated with, after any answer-mode cap */
+  quality: ReviewQuality;
+  /** Response time in milliseconds */
+  responseTime?: number;
+  /** ISO 8601 timestamp of the rating */
+  reviewedAt: string;
+  /**
+   * Whether the answer rescheduled the entry; false for repeats of a failed
+   * entry within a session, which are practice only
+   */
+  rescheduled: boolean;
+  /** Progress in `direction` before the answer (null before the first review) */
+  progressBefore: UserProgress | null;
+  /** Progress in `direction` after the answer (equal to progressBefore when not rescheduled) */
+  progressAfter: UserProgress;
 }
 
 /**
@@ -259,7 +503,7 @@ export interface UserProgress {
  */
 export interface SessionState {
   /** The current card being displayed (null if session not started) */
-  currentCard: Card | null;
+  currentCard: StudyCard | null;
   /** The current entry being tested */
   currentEntry: VocabularyEntry | null;
   /** Queue of entries waiting to be reviewed */
@@ -274,8 +518,50 @@ export interface SessionState {
   endTime: string | null;
   /** Whether the session is currently active */
   isActive: boolean;
-  /** ID of the module being studied */
+  /** ID of the module being studied (the first one in a multi-module session) */
   moduleId: string;
+  /** Every module a multi-module session draws from (absent for single-module sessions) */
+  moduleIds?: string[];
+  /** Statistics of a multi-module session per module, keyed by moduleId */
+  moduleStats?: Record<string, SessionStats>;
+}
+
+/**
+ * How a multi-module session orders entries from its modules.
+ * - `round_robin`: one entry from each module in turn
+ * - `random`: modules picked at random, weighted by their remaining entries
+ * - `blocked`: all entries of one module, then the next
+ */
+export type InterleaveMode = 'round_robin' | 'random' | 'blocked';
+
+/**
+ * A saved selection of what to study across modules: entries of the listed
+ * modules carrying at least one of the tags. The user's tags, card tags and
+ * module tags all count. A missing criterion matches everything.
+ */
+export interface StudyFilter {
+  /** Modules to draw from (default: every installed module) */
+  moduleIds?: string[];
+  /** Tags of which an entry needs at least one (default: no tag required) */
+  tags?: string[];
+}
+
+/**
+ * How the learner answers a card: by typing the answer (recall), by
+ * picking it among generated options (recognition), or by saying it aloud.
+ */
+export type AnswerMode = 'typed' | 'multiple_choice' | 'spoken';
+
+/**
+ * What a speech recognizer heard.
+ */
+export interface SpeechRecognitionResult {
+  /** Most likely transcript */
+  transcript: string;
+  /** Less likely transcripts, best first */
+  alternatives?: string[];
+  /** Recognizer confidence in `transcript` (0-1), when reported */
+  confidence?: number;
 }
 
 /**
@@ -294,6 +580,8 @@ export interface SessionStats {
   averageResponseTime: number;
   /** Total time spent in session in milliseconds */
   totalTime: number;
+  /** Answers given per answer mode (absent on sessions recorded before answer modes existed) */
+  answerModes?: Partial<Record<AnswerMode, number>>;
 }
 
 // =============================================================================
@@ -326,7 +614,17 @@ export interface SessionStats {
  */
 export type Result<T> =
   | { success: true; data: T }
-  | { success: false; error: string; code?: string };
+  | { success: false; error: string; code?: string; fieldErrors?: FieldError[] };
+
+/**
+ * A single problem found while validating structured data.
+ */
+export interface FieldError {
+  /** Path to the offending field (e.g., "entries[0].cards[1].imageUrl") */
+  path: string;
+  /** Description of the problem */
+  message: string;
+}
 
 /**
  * Result of validating a user's answer against expected answer.
@@ -346,6 +644,21 @@ export interface ValidationResult {
   responseTime?: number;
   /** Suggested quality rating based on confidence */
   suggestedQuality: ReviewQuality;
+  /** How the answer was given (absent means typed) */
+  answerMode?: AnswerMode;
+  /** Outcome of each blank, for cloze cards with several blanks */
+  blankResults?: BlankValidationResult[];
+}
+
+/**
+ * Outcome of one blank of a multi-blank cloze answer.
+ */
+export interface BlankValidationResult {
+  isCorrect: boolean;
+  /** Confidence score of the match (0-1) */
+  confidence: number;
+  userAnswer: string;
+  expectedAnswer: string;
 }
 
 /**
@@ -412,6 +725,20 @@ export function isTriviaCard(card: Card): card is TriviaCard {
   return card.type === CardType.TRIVIA;
 }
 
+/**
+ * Type guard to check if a card is a SpeakingCard.
+ */
+export function isSpeakingCard(card: Card): card is SpeakingCard {
+  return card.type === CardType.SPEAKING;
+}
+
+/**
+ * Type guard to check if a card is a derived ReverseCard.
+ */
+export function isReverseCard(card: StudyCard): card is ReverseCard {
+  return card.type === CardType.REVERSE;
+}
+
 /**
  * Type guard to check if a Result is successful.
  */
@@ -422,6 +749,8 @@ export function isSuccess<T>(result: Result<T>): result is { success: true; data
 /**
  * Type guard to check if a Result is a failure.
  */
-export function isFailure<T>(result: Result<T>): result is { success: false; error: string; code?: string } {
+export function isFailure<T>(
+  result: Result<T>
+): result is { success: false; error: string; code?: string; fieldErrors?: FieldError[] } {
   return result.success === false;
 }
@@ -0,0 +1,6 @@
+/**
+ * Mastery levels and learning metrics for dashboards.
+ */
+
+export * from './masteryLevels';
+export * from './learningMetrics';
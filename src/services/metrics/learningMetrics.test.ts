@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import {
+  exampleCompletedSessionState,
+  exampleLearningProgress,
+  type SessionState,
+  type UserProgress,
+  type VocabularyEntry,
+  type VocabularyModule,
+} from '../../models';
+import { computeLearningMetrics, computeStreak, INVALID_TIME_ZONE, toStudyDay } from './learningMetrics';
+
+const NOW = new Date('2025-03-10T12:00:00Z');
+
+function reviewed(repetitions: number, lastReview: string, correctCount: number, totalReviews: number): UserProgress {
+  return {
+    ...exampleLearningProgress,
+    repetitions,
+    interval: repetitions * 3,
+    lastReview,
+    nextReview: '2025-03-12T00:00:00Z',
+    correctCount,
+    totalReviews,
+  };
+}
+
+function entry(id: string, progress?: UserProgress): VocabularyEntry {
+  return { entryId: id, term: id, cards: [], progress };
+}
+
+function session(startTime: string, totalTime: number, totalReviewed = 5): SessionState {
+  return {
+    ...exampleCompletedSessionState,
+    startTime,
+    stats: { ...exampleCompletedSessionState.stats, totalTime, totalReviewed },
+  };
+}
+
+const animals: VocabularyModule = {
+  moduleId: 'animals',
+  title: 'Animals',
+  language: 'es',
+  version: '1.0.0',
+  entries: [
+    entry('perro', reviewed(4, '2025-03-09T10:00:00Z', 4, 5)),
+    entry('gato', { ...reviewed(1, '2025-03-08T10:00:00Z', 1, 3), nextReview: '2025-03-09T00:00:00Z' }),
+    entry('pez'),
+  ],
+};
+const colors: VocabularyModule = { ...animals, moduleId: 'colors', title: 'Colors', entries: [entry('rojo')] };
+
+describe('learningMetrics', () => {
+  it('should compute study days in the given time zone', () => {
+    expect(toStudyDay('2025-03-09T23:30:00Z', 'UTC')).toBe('2025-03-09');
+    expect(toStudyDay('2025-03-09T23:30:00Z', 'Europe/Madrid')).toBe('2025-03-10');
+    expect(toStudyDay('2025-03-10T02:00:00Z', 'America/New_York')).toBe('2025-03-09');
+  });
+
+  it('should compute the current and longest streaks', () => {
+    const streak = computeStreak(
+      [
+        '2025-03-01T10:00:00Z',
+        '2025-03-02T10:00:00Z',
+        '2025-03-03T10:00:00Z',
+        '2025-03-08T10:00:00Z',
+        '2025-03-09T10:00:00Z',
+        '2025-03-09T18:00:00Z',
+        '2025-03-20T10:00:00Z',
+      ],
+      NOW,
+      'UTC'
+    );
+    expect(streak).toEqual({
+      currentDays: 2,
+      longestDays: 3,
+      studiedToday: false,
+      lastStudyDay: '2025-03-09',
+      studyDays: 5,
+    });
+  });
+
+  it('should break the streak after a full day without study', () => {
+    const streak = computeStreak(['2025-03-07T10:00:00Z', '2025-03-08T10:00:00Z'], NOW, 'UTC');
+    expect(streak).toMatchObject({ currentDays: 0, longestDays: 2 });
+    expect(computeStreak([], NOW, 'UTC')).toEqual({
+      currentDays: 0,
+      longestDays: 0,
+      studiedToday: false,
+      lastStudyDay: null,
+      studyDays: 0,
+    });
+  });
+
+  it('should join days that only meet in the learner time zone', () => {
+    // 23:30 UTC on the 8th is already the 9th in Madrid
+    const timestamps = ['2025-03-08T23:30:00Z', '2025-03-10T08:00:00Z'];
+    expect(computeStreak(timestamps, NOW, 'UTC').currentDays).toBe(1);
+    expect(computeStreak(timestamps, NOW, 'Europe/Madrid')).toMatchObject({ currentDays: 2, studiedToday: true });
+  });
+
+  it('should aggregate per-module and cross-module metrics into a snapshot', () => {
+    const result = computeLearningMetrics(
+      [animals, colors],
+      [session('2025-03-10T08:00:00Z', 600000), session('2025-03-01T08:00:00Z', 60000, 0)],
+      NOW,
+      { timeZone: 'UTC' }
+    );
+    if (!result.success) throw new Error(result.error);
+
+    expect(result.data.modules[0]).toEqual({
+      moduleId: 'animals',
+      title: 'Animals',
+      entryCount: 3,
+      levels: { new: 1, learning: 1, young: 1, mature: 0, mastered: 0 },
+      wordsLearned: 1,
+      wordsInProgress: 1,
+      wordsNew: 1,
+      dueCount: 1,
+      totalReviews: 8,
+      correctCount: 5,
+      accuracy: 5 / 8,
+    });
+    expect(result.data.modules[1].accuracy).toBeUndefined();
+    expect(result.data.totals).toMatchObject({ entryCount: 4, wordsNew: 2, wordsLearned: 1 });
+    expect(result.data).toMatchObject({
+      generatedAt: NOW.toISOString(),
+      timeZone: 'UTC',
+      totalTime: 600000,
+      sessionCount: 1,
+      streak: { currentDays: 3, studiedToday: true, studyDays: 3 },
+    });
+  });
+
+  it('should reject unknown time zones', () => {
+    const result = computeLearningMetrics([animals], [], NOW, { timeZone: 'Mars/Olympus_Mons' });
+    expect(result).toMatchObject({ success: false, code: INVALID_TIME_ZONE });
+  });
+});
@@ -0,0 +1,268 @@
+/**
+ * Learning metrics.
+ * Builds the dashboard figures of the learning-mechanics doc: words learned,
+ * in progress and new, per module and across modules, plus the daily study
+ * streak, total study time and average accuracy. Everything is computed
+ * from data already stored (entry progress and completed sessions) and
+ * returned as plain snapshot objects.
+ *
+ * Study days are calendar days in a configurable time zone, so a review at
+ * 23:30 and another at 00:30 local time count as two days even when both
+ * fall on the same UTC date.
+ */
+
+import type { Result, SessionState, VocabularyEntry, VocabularyModule } from '../../models';
+import { compact } from '../../utils/compact';
+import { isDue } from '../spacedRepetition/sm2Algorithm';
+import { countMasteryLevels, type MasteryCounts } from './masteryLevels';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Error code returned when the requested time zone is not a valid IANA zone */
+export const INVALID_TIME_ZONE = 'INVALID_TIME_ZONE';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Counts and accuracy for a set of entries.
+ */
+export interface EntryMetrics {
+  entryCount: number;
+  /** Entries per mastery level */
+  levels: MasteryCounts;
+  /** Young, Mature or Mastered entries (3+ consecutive correct reviews) */
+  wordsLearned: number;
+  /** Learning entries */
+  wordsInProgress: number;
+  /** Entries never reviewed */
+  wordsNew: number;
+  /** Reviewed entries whose next review is due (new entries are not counted) */
+  dueCount: number;
+  totalReviews: number;
+  correctCount: number;
+  /** correctCount / totalReviews (0-1), absent before the first review */
+  accuracy?: number;
+}
+
+/**
+ * Metrics of one module.
+ */
+export interface ModuleMetrics extends EntryMetrics {
+  moduleId: string;
+  title: string;
+}
+
+/**
+ * Consecutive days with study activity.
+ */
+export interface StreakSnapshot {
+  /** Days in the streak ending today, or yesterday when nothing was studied yet today */
+  currentDays: number;
+  /** Longest streak ever */
+  longestDays: number;
+  studiedToday: boolean;
+  /** Most recent study day (YYYY-MM-DD), or null if never studied */
+  lastStudyDay: string | null;
+  /** Number of distinct study days */
+  studyDays: number;
+}
+
+/**
+ * Everything a dashboard shows, at one point in time.
+ */
+export interface LearningMetricsSnapshot {
+  /** ISO 8601 timestamp the snapshot was computed at */
+  generatedAt: string;
+  /** IANA time zone study days were computed in */
+  timeZone: string;
+  modules: ModuleMetrics[];
+  /** Metrics across all modules */
+  totals: EntryMetrics;
+  streak: StreakSnapshot;
+  /** Time spent in completed sessions, in milliseconds */
+  totalTime: number;
+  /** Completed sessions with at least one answer */
+  sessionCount: number;
+}
+
+/**
+ * Options for computing metrics.
+ */
+export interface LearningMetricsOptions {
+  /** IANA time zone of the learner (default: the environment's) */
+  timeZone?: string;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const dayFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function dayFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = dayFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' });
+    dayFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/** Days since the epoch of a YYYY-MM-DD day */
+function dayNumber(day: string): number {
+  const [year, month, date] = day.split('-').map(Number);
+  return Date.UTC(year, month - 1, date) / DAY_MS;
+}
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    dayFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Timestamps of every review recorded on an entry */
+function entryActivity(entry: VocabularyEntry): string[] {
+  return [
+    entry.progress?.lastReview,
+    entry.reverseProgress?.lastReview,
+    ...Object.values(entry.cardProgress ?? {}).map((card) => card.lastShown),
+  ].filter((timestamp): timestamp is string => typeof timestamp === 'string');
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * The calendar day (YYYY-MM-DD) of a timestamp in a time zone.
+ *
+ * @throws RangeError if `timeZone` is not a valid IANA time zone
+ */
+export function toStudyDay(timestamp: string | Date, timeZone: string): string {
+  const parts = dayFormatter(timeZone).formatToParts(new Date(timestamp));
+  const part = (type: Intl.DateTimeFormatPartTypes): string => parts.find((p) => p.type === type)?.value ?? '';
+  return `${part('year')}-${part('month')}-${part('day')}`;
+}
+
+/**
+ * Computes study streaks from activity timestamps. Activity after `now` is
+ * ignored. The current streak survives until the end of the day after the
+ * last study day, so it does not drop to zero in the morning.
+ *
+ * @throws RangeError if `timeZone` is not a valid IANA time zone
+ *
+ * @example
+ * ```typescript
+ * computeStreak(['2025-03-01T20:00:00Z', '2025-03-02T08:00:00Z'], new Date('2025-03-03T07:00:00Z'), 'UTC');
+ * // { currentDays: 2, longestDays: 2, studiedToday: false, lastStudyDay: '2025-03-02', studyDays: 2 }
+ * ```
+ */
+export function computeStreak(timestamps: Iterable<string>, now: Date, timeZone: string): StreakSnapshot {
+  const today = dayNumber(toStudyDay(now, timeZone));
+  const days = [...new Set([...timestamps].map((timestamp) => dayNumber(toStudyDay(timestamp, timeZone))))]
+    .filter((day) => day <= today)
+    .sort((a, b) => a - b);
+
+  let longestDays = 0;
+  let run = 0;
+  days.forEach((day, i) => {
+    run = i > 0 && day === days[i - 1] + 1 ? run + 1 : 1;
+    longestDays = Math.max(longestDays, run);
+  });
+
+  const last = days[days.length - 1];
+  const currentDays = last !== undefined && last >= today - 1 ? run : 0;
+  return {
+    currentDays,
+    longestDays,
+    studiedToday: last === today,
+    lastStudyDay: last === undefined ? null : new Date(last * DAY_MS).toISOString().slice(0, 10),
+    studyDays: days.length,
+  };
+}
+
+/**
+ * Counts entries per mastery level and sums their answers.
+ */
+export function computeEntryMetrics(entries: VocabularyEntry[], now: Date): EntryMetrics {
+  const levels = countMasteryLevels(entries);
+  let dueCount = 0;
+  let totalReviews = 0;
+  let correctCount = 0;
+  for (const { progress } of entries) {
+    if (!progress || progress.totalReviews === 0) continue;
+    if (isDue(progress, now)) dueCount++;
+    totalReviews += progress.totalReviews;
+    correctCount += progress.correctCount;
+  }
+
+  return compact({
+    entryCount: entries.length,
+    levels,
+    wordsLearned: levels.young + levels.mature + levels.mastered,
+    wordsInProgress: levels.learning,
+    wordsNew: levels.new,
+    dueCount,
+    totalReviews,
+    correctCount,
+    accuracy: totalReviews > 0 ? correctCount / totalReviews : undefined,
+  });
+}
+
+/**
+ * Computes the metrics of one module from its entries' progress.
+ */
+export function computeModuleMetrics(module: VocabularyModule, now: Date): ModuleMetrics {
+  return { moduleId: module.moduleId, title: module.title, ...computeEntryMetrics(module.entries, now) };
+}
+
+/**
+ * Computes a dashboard snapshot from modules loaded with their progress and
+ * the completed sessions. Study days come from session start times and from
+ * the review timestamps stored on entries.
+ *
+ * @example
+ * ```typescript
+ * const result = computeLearningMetrics(modules, await sessions.getRecentSessions(365), new Date(), {
+ *   timeZone: 'Europe/Madrid',
+ * });
+ * if (result.success) console.log(result.data.totals.wordsLearned, result.data.streak.currentDays);
+ * ```
+ */
+export function computeLearningMetrics(
+  modules: VocabularyModule[],
+  sessions: SessionState[],
+  now: Date,
+  options: LearningMetricsOptions = {}
+): Result<LearningMetricsSnapshot> {
+  const timeZone = options.timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+  if (!isValidTimeZone(timeZone)) {
+    return { success: false, error: `"${timeZone}" is not a valid time zone`, code: INVALID_TIME_ZONE };
+  }
+
+  const studied = sessions.filter((session) => session.stats.totalReviewed > 0);
+  const entries = modules.flatMap((module) => module.entries);
+  const activity = [...studied.map((session) => session.startTime), ...entries.flatMap(entryActivity)];
+
+  return {
+    success: true,
+    data: {
+      generatedAt: now.toISOString(),
+      timeZone,
+      modules: modules.map((module) => computeModuleMetrics(module, now)),
+      totals: computeEntryMetrics(entries, now),
+      streak: computeStreak(activity, now, timeZone),
+      totalTime: studied.reduce((sum, session) => sum + session.stats.totalTime, 0),
+      sessionCount: studied.length,
+    },
+  };
+}
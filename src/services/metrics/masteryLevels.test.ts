@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { MasteryLevel, exampleLearningProgress, type UserProgress, type VocabularyEntry } from '../../models';
+import { classifyMastery, countMasteryLevels } from './masteryLevels';
+
+function progress(repetitions: number, interval: number, totalReviews = repetitions + 1): UserProgress {
+  return { ...exampleLearningProgress, repetitions, interval, totalReviews };
+}
+
+describe('masteryLevels', () => {
+  it('should classify entries by repetitions and interval', () => {
+    expect(classifyMastery(undefined)).toBe(MasteryLevel.NEW);
+    expect(classifyMastery(progress(0, 0, 0))).toBe(MasteryLevel.NEW);
+    expect(classifyMastery(progress(0, 1))).toBe(MasteryLevel.LEARNING);
+    expect(classifyMastery(progress(2, 6))).toBe(MasteryLevel.LEARNING);
+    expect(classifyMastery(progress(3, 15))).toBe(MasteryLevel.YOUNG);
+    expect(classifyMastery(progress(6, 40))).toBe(MasteryLevel.MATURE);
+    expect(classifyMastery(progress(5, 180))).toBe(MasteryLevel.MASTERED);
+  });
+
+  it('should count entries per level', () => {
+    const entry = (id: string, entryProgress?: UserProgress): VocabularyEntry => ({
+      entryId: id,
+      term: id,
+      cards: [],
+      progress: entryProgress,
+    });
+
+    expect(countMasteryLevels([entry('a'), entry('b', progress(1, 1)), entry('c', progress(9, 200))])).toEqual({
+      [MasteryLevel.NEW]: 1,
+      [MasteryLevel.LEARNING]: 1,
+      [MasteryLevel.YOUNG]: 0,
+      [MasteryLevel.MATURE]: 0,
+      [MasteryLevel.MASTERED]: 1,
+    });
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Mastery levels.
+ * Classifies entries into the New / Learning / Young / Mature / Mastered
+ * levels of the learning-mechanics doc from their UserProgress.
+ */
+
+import { MasteryLevel, type UserProgress, type VocabularyEntry } from '../../models';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Consecutive correct reviews from which an entry is Young */
+export const YOUNG_REPETITIONS = 3;
+
+/** Consecutive correct reviews from which an entry is Mature */
+export const MATURE_REPETITIONS = 6;
+
+/** Review interval (days) from which an entry is Mastered */
+export const MASTERED_INTERVAL_DAYS = 180;
+
+/** Every level, from least to best known */
+export const MASTERY_LEVELS: readonly MasteryLevel[] = Object.values(MasteryLevel);
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Number of entries at each level.
+ */
+export type MasteryCounts = Record<MasteryLevel, number>;
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Classifies an entry from its progress. Entries without progress, or never
+ * reviewed, are New; an interval of MASTERED_INTERVAL_DAYS or more makes an
+ * entry Mastered whatever its repetitions; otherwise the number of
+ * consecutive correct reviews decides. A failed review resets repetitions,
+ * so a lapsed entry drops back to Learning.
+ *
+ * @example
+ * ```typescript
+ * classifyMastery({ ...progress, repetitions: 4, interval: 20 }); // MasteryLevel.YOUNG
+ * ```
+ */
+export function classifyMastery(progress: UserProgress | undefined): MasteryLevel {
+  if (!progress || progress.totalReviews === 0) return MasteryLevel.NEW;
+  if (progress.interval >= MASTERED_INTERVAL_DAYS) return MasteryLevel.MASTERED;
+  if (progress.repetitions >= MATURE_REPETITIONS) return MasteryLevel.MATURE;
+  if (progress.repetitions >= YOUNG_REPETITIONS) return MasteryLevel.YOUNG;
+  return MasteryLevel.LEARNING;
+}
+
+/**
+ * Counts entries per level, from their production progress.
+ */
+export function countMasteryLevels(entries: Iterable<VocabularyEntry>): MasteryCounts {
+  const counts = Object.fromEntries(MASTERY_LEVELS.map((level) => [level, 0])) as MasteryCounts;
+  for (const entry of entries) {
+    counts[classifyMastery(entry.progress)]++;
+  }
+  return counts;
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import initSqlJs from 'sql.js';
+import { strFromU8, unzipSync } from 'fflate';
+import { AUTHORED_CARD_TYPES, exampleVocabularyModule, type UserProgress, type VocabularyModule } from '../../models';
+import { ANKI_NOTE_FIELDS, exportAnkiPackage } from './ankiExporter';
+import { importAnkiPackage } from './ankiImporter';
+
+const NOW = new Date('2025-03-01T12:00:00Z');
+
+const reviewed: UserProgress = {
+  interval: 6,
+  easeFactor: 2.6,
+  repetitions: 2,
+  lastReview: '2025-02-27T12:00:00.000Z',
+  nextReview: '2025-03-05T12:00:00.000Z',
+  totalReviews: 3,
+  correctCount: 2,
+  incorrectCount: 1,
+  streak: 2,
+  mastered: false,
+};
+
+const module: VocabularyModule = {
+  ...exampleVocabularyModule,
+  entries: exampleVocabularyModule.entries.map((entry, i) => ({ ...entry, progress: i === 0 ? reviewed : undefined })),
+};
+
+async function readPackage(data: Uint8Array) {
+  const files = unzipSync(data);
+  const SQL = await initSqlJs();
+  const db = new SQL.Database(files['collection.anki2']);
+  const query = (sql: string) => db.exec(sql)[0]?.values ?? [];
+  return { files, db, query };
+}
+
+describe('ankiExporter', () => {
+  it('should write one note per entry with a card per card type', async () => {
+    const { db, query } = await readPackage((await exportAnkiPackage(module, NOW)).apkg);
+
+    const [[models]] = query('SELECT models FROM col');
+    const [noteType] = Object.values(JSON.parse(String(models))) as { name: string; tmpls: { name: string }[] }[];
+    expect(noteType.name).toBe('VocabOne');
+    expect(noteType.tmpls.map((template) => template.name)).toEqual(AUTHORED_CARD_TYPES);
+
+    const notes = query('SELECT guid, tags, flds, sfld FROM notes ORDER BY id');
+    expect(notes.map(([guid]) => guid)).toEqual(['spanish-animals-basics/perro-001', 'spanish-animals-basics/gato-002']);
+    const perroFields = String(notes[0][2]).split('\x1f');
+    expect(perroFields[ANKI_NOTE_FIELDS.indexOf('Image')]).toBe('<img src="perro.jpg">');
+    expect(perroFields[ANKI_NOTE_FIELDS.indexOf('Sentence')]).toBe('Mi ___ es muy amigable.');
+    expect(notes[0][1]).toBe(' animals pets ');
+    expect(notes[1][3]).toBe('gato');
+
+    const ords = query('SELECT nid, ord FROM cards ORDER BY nid, ord').map(([, ord]) => ord);
+    expect(ords).toEqual([0, 2, 3, 0, 1]);
+    db.close();
+  });
+
+  it('should warn about cards that do not fit in a note', async () => {
+    const [perro, gato] = module.entries;
+    const second = { ...perro.cards[0], cardId: 'perro-001-img-02' };
+    const { apkg, warnings } = await exportAnkiPackage(
+      { ...module, entries: [{ ...perro, cards: [...perro.cards, second] }, gato] },
+      NOW
+    );
+    expect(warnings).toEqual([{ entryId: perro.entryId, cardId: 'perro-001-img-02', message: expect.any(String) }]);
+
+    const { db, query } = await readPackage(apkg);
+    expect(query('SELECT COUNT(*) FROM cards')).toEqual([[5]]);
+    db.close();
+    expect((await exportAnkiPackage(module, NOW)).warnings).toEqual([]);
+  });
+
+  it('should carry progress over to Anki scheduling only when asked', async () => {
+    const withProgress = await readPackage((await exportAnkiPackage(module, NOW, { includeProgress: true })).apkg);
+    const cards = withProgress.query('SELECT type, queue, due, ivl, factor, reps, lapses FROM cards ORDER BY id');
+    expect(cards[0]).toEqual([2, 2, 4, 6, 2600, 3, 1]);
+    expect(cards[3]).toEqual([0, 0, 2, 0, 0, 0, 0]);
+    withProgress.db.close();
+
+    const withoutProgress = await readPackage((await exportAnkiPackage(module, NOW)).apkg);
+    expect(withoutProgress.query('SELECT DISTINCT type FROM cards')).toEqual([[0]]);
+    withoutProgress.db.close();
+  });
+
+  it('should bundle provided media and import back', async () => {
+    const media = new Map([['/modules/spanish-animals/media/gato.jpg', new Uint8Array([7, 7])]]);
+    const { apkg: data } = await exportAnkiPackage(module, NOW, { media });
+    const files = unzipSync(data);
+    expect(JSON.parse(strFromU8(files['media']))).toEqual({ '0': 'gato.jpg' });
+    expect(files['0']).toEqual(new Uint8Array([7, 7]));
+
+    const result = await importAnkiPackage(data, {
+      moduleId: 'reimported',
+      title: 'Reimported',
+      language: 'es',
+      mapping: {
+        term: 'Term',
+        pronunciation: 'Pronunciation',
+        image: 'Image',
+        audio: 'Audio',
+        definition: 'Definition',
+      },
+    });
+    if (!result.success) throw new Error(result.error);
+    expect(result.data.module.entries.map((entry) => [entry.term, entry.pronunciation])).toEqual([
+      ['perro', '/ˈpe.ro/'],
+      ['gato', '/ˈɡa.to/'],
+    ]);
+    expect(result.data.media.get('gato.jpg')).toEqual(new Uint8Array([7, 7]));
+  });
+});
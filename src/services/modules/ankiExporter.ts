@@ -0,0 +1,390 @@
+/**
+ * Anki package exporter.
+ * Writes a VocabularyModule as an .apkg that Anki 2.1 can import: one note per
+ * VocabularyEntry using a "VocabOne" note type with one card template per
+ * CardType, the module's media bundled alongside, and optionally the learner's
+ * schedule carried over onto the Anki cards. A note holds one card of each
+ * type; further cards are reported as warnings.
+ */
+
+import { strToU8, zipSync, type Zippable } from 'fflate';
+import {
+  CardType,
+  type AuthoredCardType,
+  type Card,
+  type UserProgress,
+  type VocabularyEntry,
+  type VocabularyModule,
+} from '../../models';
+import {
+  ANKI_COLLECTION_SCHEMA,
+  ANKI_EXPORT_COLLECTION_FILE,
+  ANKI_FIELD_SEPARATOR,
+  ANKI_SCHEMA_VERSION,
+  defaultSqliteLoader,
+  type SqliteLoader,
+} from './ankiFormat';
+import { firstCardOfEachType, toPlainText, type ExportIssue } from './importMapping';
+import { MediaFileNames } from './mediaFiles';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Name of the note type written to exported packages */
+export const ANKI_NOTE_TYPE_NAME = 'VocabOne';
+
+/** Note fields of the exported note type, in order */
+export const ANKI_NOTE_FIELDS = [
+  'Term',
+  'Pronunciation',
+  'Image',
+  'Image Prompt',
+  'Audio',
+  'Audio Prompt',
+  'Definition',
+  'Sentence',
+  'Sentence Answer',
+  'Video',
+  'Video Prompt',
+  'Question',
+  'Question Answer',
+  'Explanation',
+  'Speaking Prompt',
+] as const;
+
+type AnkiFieldName = (typeof ANKI_NOTE_FIELDS)[number];
+
+/**
+ * One card template per card type. Anki only creates a card when the
+ * template's `field` is non-empty, so a note gets exactly the card types its
+ * entry has.
+ */
+interface AnkiTemplate {
+  type: AuthoredCardType;
+  /** Field that holds the card's content */
+  field: AnkiFieldName;
+  /** Text shown under media content */
+  prompt?: AnkiFieldName;
+  /** Field revealed on the back of the card */
+  answer: AnkiFieldName;
+  /** Extra back-side content */
+  extra?: AnkiFieldName;
+}
+
+const ANKI_TEMPLATES: AnkiTemplate[] = [
+  { type: CardType.IMAGE, field: 'Image', prompt: 'Image Prompt', answer: 'Term' },
+  { type: CardType.AUDIO, field: 'Audio', prompt: 'Audio Prompt', answer: 'Term' },
+  { type: CardType.DEFINITION, field: 'Definition', answer: 'Term' },
+  { type: CardType.CLOZE, field: 'Sentence', answer: 'Sentence Answer' },
+  { type: CardType.VIDEO, field: 'Video', prompt: 'Video Prompt', answer: 'Term' },
+  { type: CardType.TRIVIA, field: 'Question', answer: 'Question Answer', extra: 'Explanation' },
+  { type: CardType.SPEAKING, field: 'Speaking Prompt', answer: 'Term', extra: 'Pronunciation' },
+];
+
+const ANKI_CSS = '.card { font-family: arial; font-size: 20px; text-align: center; }\n.prompt { margin-top: 1em; }';
+
+/** Anki card `type`/`queue` values */
+const ANKI_NEW = 0;
+const ANKI_REVIEW = 2;
+
+/** Id of the deck options group every Anki collection has */
+const DEFAULT_DECK_CONFIG_ID = 1;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Options controlling what is written to an exported package.
+ */
+export interface AnkiExportOptions {
+  /** Deck name in Anki (default: the module title) */
+  deckName?: string;
+  /**
+   * Carry each entry's UserProgress (interval, ease, due date) over to all of
+   * its Anki cards. Entries without progress are exported as new cards.
+   */
+  includeProgress?: boolean;
+  /**
+   * Media to bundle, keyed by the URL cards reference. Cards whose media is
+   * not provided still reference the file by name.
+   */
+  media?: Map<string, Uint8Array>;
+  /** Loads the SQLite engine (default: sql.js with its standard settings) */
+  loadSqlite?: SqliteLoader;
+}
+
+/**
+ * Output of `exportAnkiPackage`.
+ */
+export interface AnkiExport {
+  /** The .apkg file */
+  apkg: Uint8Array;
+  /** Cards that did not fit in their entry's note */
+  warnings: ExportIssue[];
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Note fields for an entry holding `cards`, at most one of each type.
+ */
+function noteFields(entry: VocabularyEntry, cards: Card[], media: MediaFileNames): Record<AnkiFieldName, string> {
+  const fields = Object.fromEntries(ANKI_NOTE_FIELDS.map((name) => [name, ''])) as Record<AnkiFieldName, string>;
+  fields.Term = escapeHtml(entry.term);
+  fields.Pronunciation = escapeHtml(entry.pronunciation ?? '');
+
+  for (const card of cards) {
+    switch (card.type) {
+      case CardType.IMAGE:
+        fields.Image = `<img src="${escapeHtml(media.name(card.imageUrl))}">`;
+        fields['Image Prompt'] = escapeHtml(card.prompt);
+        break;
+      case CardType.AUDIO:
+        fields.Audio = `[sound:${media.name(card.audioUrl)}]`;
+        fields['Audio Prompt'] = escapeHtml(card.prompt);
+        break;
+      case CardType.VIDEO:
+        fields.Video = `[sound:${media.name(card.videoUrl)}]`;
+        fields['Video Prompt'] = escapeHtml(card.prompt);
+        break;
+      case CardType.DEFINITION:
+        fields.Definition = escapeHtml(card.definition);
+        break;
+      case CardType.CLOZE:
+        fields.Sentence = escapeHtml(card.sentence);
+        fields['Sentence Answer'] = escapeHtml(card.expectedAnswer);
+        break;
+      case CardType.TRIVIA:
+        fields.Question = escapeHtml(card.question);
+        fields['Question Answer'] = escapeHtml(card.expectedAnswer);
+        fields.Explanation = escapeHtml(card.explanation ?? '');
+        break;
+      case CardType.SPEAKING:
+        fields['Speaking Prompt'] = escapeHtml(card.prompt);
+        break;
+    }
+  }
+  return fields;
+}
+
+function buildNoteType(id: number, deckId: number, modSeconds: number): object {
+  return {
+    id,
+    name: ANKI_NOTE_TYPE_NAME,
+    type: 0,
+    mod: modSeconds,
+    usn: -1,
+    sortf: 0,
+    did: deckId,
+    flds: ANKI_NOTE_FIELDS.map((name, ord) => ({
+      name,
+      ord,
+      sticky: false,
+      rtl: false,
+      font: 'Arial',
+      size: 20,
+      media: [],
+    })),
+    tmpls: ANKI_TEMPLATES.map((template, ord) => {
+      const content = template.prompt
+        ? `{{${template.field}}}<div class="prompt">{{${template.prompt}}}</div>`
+        : `<div class="prompt">{{${template.field}}}</div>`;
+      const extra = template.extra ? `<div>{{${template.extra}}}</div>` : '';
+      return {
+        name: template.type,
+        ord,
+        qfmt: `{{#${template.field}}}${content}{{/${template.field}}}`,
+        afmt: `{{FrontSide}}<hr id=answer>{{${template.answer}}}${extra}`,
+        did: null,
+        bqfmt: '',
+        bafmt: '',
+      };
+    }),
+    req: ANKI_TEMPLATES.map((template, ord) => [ord, 'any', [ANKI_NOTE_FIELDS.indexOf(template.field)]]),
+    css: ANKI_CSS,
+    latexPre: '\\documentclass[12pt]{article}\n\\begin{document}\n',
+    latexPost: '\\end{document}',
+    tags: [],
+    vers: [],
+  };
+}
+
+function buildDeck(id: number, name: string, modSeconds: number): object {
+  return {
+    id,
+    name,
+    desc: '',
+    mod: modSeconds,
+    usn: -1,
+    collapsed: false,
+    browserCollapsed: false,
+    newToday: [0, 0],
+    revToday: [0, 0],
+    lrnToday: [0, 0],
+    timeToday: [0, 0],
+    dyn: 0,
+    conf: DEFAULT_DECK_CONFIG_ID,
+    extendNew: 0,
+    extendRev: 0,
+  };
+}
+
+/**
+ * Scheduling columns of an Anki card for an entry's progress. Review due
+ * dates are day numbers counted from the collection's creation day.
+ */
+function cardSchedule(progress: UserProgress | undefined, position: number, creationDay: number) {
+  if (!progress || progress.lastReview === null) {
+    return { type: ANKI_NEW, queue: ANKI_NEW, due: position, ivl: 0, factor: 0, reps: 0, lapses: 0, data: '' };
+  }
+  const memory =
+    progress.schedulerId === 'fsrs' && progress.schedulerState
+      ? JSON.stringify({ s: progress.schedulerState.stability, d: progress.schedulerState.difficulty })
+      : '';
+  return {
+    type: ANKI_REVIEW,
+    queue: ANKI_REVIEW,
+    due: Math.floor((Date.parse(progress.nextReview) - creationDay) / DAY_MS),
+    ivl: Math.max(1, Math.round(progress.interval)),
+    factor: Math.round(progress.easeFactor * 1000),
+    reps: progress.totalReviews,
+    lapses: progress.incorrectCount,
+    data: memory,
+  };
+}
+
+/**
+ * Anki's duplicate-detection checksum: the first 8 hex digits of the SHA-1
+ * of the note's plain-text sort field.
+ */
+async function fieldChecksum(text: string): Promise<number> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-1', strToU8(text)));
+  return ((digest[0] << 24) | (digest[1] << 16) | (digest[2] << 8) | digest[3]) >>> 0;
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Writes a VocabularyModule as an Anki .apkg package.
+ * `now` stamps creation and modification times and anchors due dates.
+ *
+ * @example
+ * ```typescript
+ * const { apkg, warnings } = await exportAnkiPackage(module, new Date(), { includeProgress: true, media });
+ * download(new Blob([apkg]), `${module.moduleId}.apkg`);
+ * ```
+ */
+export async function exportAnkiPackage(
+  module: VocabularyModule,
+  now: Date,
+  options: AnkiExportOptions = {}
+): Promise<AnkiExport> {
+  const SQL = await (options.loadSqlite ?? defaultSqliteLoader)();
+  const db = new SQL.Database();
+  const nowMs = now.getTime();
+  const modSeconds = Math.floor(nowMs / 1000);
+  const creationDay = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  const noteTypeId = nowMs;
+  const deckId = nowMs + 1;
+  const media = new MediaFileNames();
+  const warnings: ExportIssue[] = [];
+
+  try {
+    db.run(ANKI_COLLECTION_SCHEMA);
+
+    let cardId = nowMs;
+    for (const [i, entry] of module.entries.entries()) {
+      const noteId = nowMs + i;
+      const { cards, dropped } = firstCardOfEachType(entry);
+      warnings.push(...dropped);
+      const fields = noteFields(entry, cards, media);
+      const values = ANKI_NOTE_FIELDS.map((name) => fields[name]);
+      const sortField = toPlainText(values[0]);
+      const tags = [...new Set(entry.cards.flatMap((card) => card.tags ?? []))];
+
+      db.run('INSERT INTO notes VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)', [
+        noteId,
+        `${module.moduleId}/${entry.entryId}`,
+        noteTypeId,
+        modSeconds,
+        -1,
+        tags.length > 0 ? ` ${tags.join(' ')} ` : '',
+        values.join(ANKI_FIELD_SEPARATOR),
+        sortField,
+        await fieldChecksum(sortField),
+        0,
+        '',
+      ]);
+
+      const schedule = cardSchedule(options.includeProgress ? entry.progress : undefined, i + 1, creationDay);
+      for (const [ord, template] of ANKI_TEMPLATES.entries()) {
+        if (fields[template.field] === '') continue;
+        db.run('INSERT INTO cards VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)', [
+          cardId++,
+          noteId,
+          deckId,
+          ord,
+          modSeconds,
+          -1,
+          schedule.type,
+          schedule.queue,
+          schedule.due,
+          schedule.ivl,
+          schedule.factor,
+          schedule.reps,
+          schedule.lapses,
+          0,
+          0,
+          0,
+          0,
+          schedule.data,
+        ]);
+      }
+    }
+
+    const deckName = options.deckName ?? module.title;
+    const config = {
+      curDeck: deckId,
+      activeDecks: [deckId],
+      curModel: String(noteTypeId),
+      nextPos: module.entries.length + 1,
+    };
+    db.run('INSERT INTO col VALUES (1, ?, ?, ?, ?, 0, 0, 0, ?, ?, ?, ?, ?)', [
+      Math.floor(creationDay / 1000),
+      nowMs,
+      nowMs,
+      ANKI_SCHEMA_VERSION,
+      JSON.stringify(config),
+      JSON.stringify({ [noteTypeId]: buildNoteType(noteTypeId, deckId, modSeconds) }),
+      JSON.stringify({ 1: buildDeck(1, 'Default', modSeconds), [deckId]: buildDeck(deckId, deckName, modSeconds) }),
+      JSON.stringify({ [DEFAULT_DECK_CONFIG_ID]: { id: DEFAULT_DECK_CONFIG_ID, name: 'Default', mod: 0, usn: 0 } }),
+      '{}',
+    ]);
+
+    const files: Zippable = { [ANKI_EXPORT_COLLECTION_FILE]: db.export() };
+    const index: Record<string, string> = {};
+    for (const [url, name] of media.entries()) {
+      const content = options.media?.get(url);
+      if (!content) continue;
+      const member = String(Object.keys(index).length);
+      index[member] = name;
+      files[member] = content;
+    }
+    files['media'] = strToU8(JSON.stringify(index));
+    return { apkg: zipSync(files), warnings };
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Constants describing the Anki package (.apkg) format, shared by the Anki
+ * importer and exporter. Packages hold a schema 11 collection database that
+ * every Anki 2.1 release can read.
+ */
+
+import initSqlJs, { type SqlJsStatic } from 'sql.js';
+
+/** Separator between note field values in the `notes.flds` column */
+export const ANKI_FIELD_SEPARATOR = '\x1f';
+
+/** Collection file names, newest format first */
+export const ANKI_COLLECTION_FILES = ['collection.anki21', 'collection.anki2'];
+
+/** Collection file written by the exporter; every Anki 2.1 release reads it */
+export const ANKI_EXPORT_COLLECTION_FILE = 'collection.anki2';
+
+/** Zstandard-compressed collection written by Anki 2.1.50+ with "support older versions" off */
+export const ANKI_COMPRESSED_COLLECTION_FILE = 'collection.anki21b';
+
+/** Collection schema version written by the exporter */
+export const ANKI_SCHEMA_VERSION = 11;
+
+/**
+ * Loads the sql.js SQLite engine. Browsers typically pass `locateFile` to
+ * point sql.js at the bundled sql-wasm.wasm.
+ */
+export type SqliteLoader = () => Promise<SqlJsStatic>;
+
+/** Loads sql.js with its standard settings */
+export const defaultSqliteLoader: SqliteLoader = () => initSqlJs();
+
+/** Table definitions of a schema 11 collection */
+export const ANKI_COLLECTION_SCHEMA = `
+CREATE TABLE col (
+  id integer PRIMARY KEY, crt integer NOT NULL, mod integer NOT NULL, scm integer NOT NULL,
+  ver integer NOT NULL, dty integer NOT NULL, usn integer NOT NULL, ls integer NOT NULL,
+  conf text NOT NULL, models text NOT NULL, decks text NOT NULL, dconf text NOT NULL, tags text NOT NULL
+);
+CREATE TABLE notes (
+  id integer PRIMARY KEY, guid text NOT NULL, mid integer NOT NULL, mod integer NOT NULL,
+  usn integer NOT NULL, tags text NOT NULL, flds text NOT NULL, sfld integer NOT NULL,
+  csum integer NOT NULL, flags integer NOT NULL, data text NOT NULL
+);
+CREATE TABLE cards (
+  id integer PRIMARY KEY, nid integer NOT NULL, did integer NOT NULL, ord integer NOT NULL,
+  mod integer NOT NULL, usn integer NOT NULL, type integer NOT NULL, queue integer NOT NULL,
+  due integer NOT NULL, ivl integer NOT NULL, factor integer NOT NULL, reps integer NOT NULL,
+  lapses integer NOT NULL, left integer NOT NULL, odue integer NOT NULL, odid integer NOT NULL,
+  flags integer NOT NULL, data text NOT NULL
+);
+CREATE TABLE revlog (
+  id integer PRIMARY KEY, cid integer NOT NULL, usn integer NOT NULL, ease integer NOT NULL,
+  ivl integer NOT NULL, lastIvl integer NOT NULL, factor integer NOT NULL, time integer NOT NULL,
+  type integer NOT NULL
+);
+CREATE TABLE graves (usn integer NOT NULL, oid integer NOT NULL, type integer NOT NULL);
+CREATE INDEX ix_notes_usn ON notes (usn);
+CREATE INDEX ix_cards_usn ON cards (usn);
+CREATE INDEX ix_revlog_usn ON revlog (usn);
+CREATE INDEX ix_cards_nid ON cards (nid);
+CREATE INDEX ix_cards_sched ON cards (did, queue, due);
+CREATE INDEX ix_revlog_cid ON revlog (cid);
+CREATE INDEX ix_notes_csum ON notes (csum);
+`;
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import initSqlJs from 'sql.js';
+import { strToU8, zipSync } from 'fflate';
+import { CardType } from '../../models';
+import { importAnkiPackage } from './ankiImporter';
+import { ImportErrorCode } from './importMapping';
+
+const metadata = { moduleId: 'spanish-core', title: 'Spanish Core', language: 'es' };
+
+const NOTE_TYPES = {
+  '1': { name: 'Basic', flds: [{ name: 'Back', ord: 1 }, { name: 'Front', ord: 0 }, { name: 'Audio', ord: 2 }] },
+  '2': { name: 'Cloze', flds: [{ name: 'Text', ord: 0 }, { name: 'Extra', ord: 1 }] },
+};
+
+async function buildPackage(notes: [number, string, string[]][]): Promise<Uint8Array> {
+  const SQL = await initSqlJs();
+  const db = new SQL.Database();
+  db.run('CREATE TABLE col (models TEXT)');
+  db.run('CREATE TABLE notes (id INTEGER PRIMARY KEY, mid INTEGER, tags TEXT, flds TEXT)');
+  db.run('INSERT INTO col VALUES (?)', [JSON.stringify(NOTE_TYPES)]);
+  notes.forEach(([mid, tags, fields], i) => {
+    db.run('INSERT INTO notes VALUES (?, ?, ?, ?)', [i + 1, mid, tags, fields.join('\x1f')]);
+  });
+  const collection = db.export();
+  db.close();
+  return zipSync({
+    'collection.anki2': collection,
+    media: strToU8(JSON.stringify({ '0': 'perro.mp3' })),
+    '0': new Uint8Array([1, 2, 3]),
+  });
+}
+
+describe('ankiImporter', () => {
+  it('should import notes with fields mapped by name and bundled media', async () => {
+    const data = await buildPackage([
+      [1, ' animals ', ['<b>perro</b>', 'dog', '[sound:perro.mp3]']],
+      [1, '', ['gato', 'cat', '[sound:gato.mp3]']],
+      [2, 'grammar', ['El {{c1::gato}} duerme.', '']],
+    ]);
+    const result = await importAnkiPackage(data, {
+      ...metadata,
+      mapping: { term: 'Front', definition: 'Back', audio: 'Audio' },
+    });
+    if (!result.success) throw new Error(result.error);
+
+    const [perro, gato] = result.data.module.entries;
+    expect(perro.term).toBe('perro');
+    expect(perro.cards).toEqual([
+      {
+        cardId: 'perro-001-audio-01',
+        type: CardType.AUDIO,
+        audioUrl: '/modules/spanish-core/media/perro.mp3',
+        prompt: 'What word do you hear?',
+        expectedAnswer: 'perro',
+        tags: ['animals'],
+      },
+      {
+        cardId: 'perro-001-def-01',
+        type: CardType.DEFINITION,
+        definition: 'dog',
+        expectedAnswer: 'perro',
+        tags: ['animals'],
+      },
+    ]);
+    expect(gato.entryId).toBe('gato-002');
+    expect(result.data.media).toEqual(new Map([['perro.mp3', new Uint8Array([1, 2, 3])]]));
+    expect(result.data.report).toMatchObject({
+      totalRows: 3,
+      importedRows: 2,
+      skipped: [{ row: 3, message: 'note type "Cloze" has no field "Front"' }],
+      warnings: [{ row: 2, message: 'media file "gato.mp3" is not in the package' }],
+    });
+  });
+
+  it('should filter by note type and convert cloze deletions', async () => {
+    const data = await buildPackage([
+      [1, '', ['perro', 'dog', '']],
+      [2, '', ['Mi {{c1::perro::animal}} come.', '']],
+    ]);
+    const options = { ...metadata, noteType: 'Cloze', mapping: { term: 0, cloze: 'Text' } };
+    const result = await importAnkiPackage(data, options);
+    if (!result.success) throw new Error(result.error);
+
+    expect(result.data.module.entries).toHaveLength(1);
+    expect(result.data.module.entries[0].cards[0]).toMatchObject({
+      type: CardType.CLOZE,
+      sentence: 'Mi ___ come.',
+      blank: 'perro',
+      hint: 'animal',
+      expectedAnswer: 'perro',
+    });
+  });
+
+  it('should report packages it cannot read', async () => {
+    const options = { ...metadata, mapping: { term: 'Front' } };
+    expect(await importAnkiPackage(strToU8('not a zip'), options)).toMatchObject({
+      success: false,
+      code: ImportErrorCode.INVALID_ARCHIVE,
+    });
+    expect(await importAnkiPackage(zipSync({ media: strToU8('{}') }), options)).toMatchObject({
+      success: false,
+      code: ImportErrorCode.MISSING_COLLECTION,
+    });
+    expect(await importAnkiPackage(zipSync({ 'collection.anki21b': new Uint8Array([0]) }), options)).toMatchObject({
+      success: false,
+      code: ImportErrorCode.UNSUPPORTED_COLLECTION,
+    });
+  });
+});
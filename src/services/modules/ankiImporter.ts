@@ -0,0 +1,153 @@
+/**
+ * Anki package importer.
+ * An .apkg file is a zip archive holding the collection as an SQLite database
+ * (`collection.anki21`, or `collection.anki2` from older Anki versions), a
+ * `media` JSON index mapping numbered archive members to file names, and the
+ * media files themselves. Each note becomes one VocabularyEntry.
+ */
+
+import type { SqlJsStatic } from 'sql.js';
+import { strFromU8, unzipSync, type Unzipped } from 'fflate';
+import type { Result } from '../../models';
+import {
+  ANKI_COLLECTION_FILES,
+  ANKI_COMPRESSED_COLLECTION_FILE,
+  ANKI_FIELD_SEPARATOR,
+  defaultSqliteLoader,
+  type SqliteLoader,
+} from './ankiFormat';
+import { ImportBuilder, ImportErrorCode, type ImportModuleOptions, type ImportResult } from './importMapping';
+
+/**
+ * Options for importing an Anki package.
+ */
+export interface AnkiImportOptions extends ImportModuleOptions {
+  /** Only import notes of this note type (e.g. "Basic", "Cloze"); default: all */
+  noteType?: string;
+  /** Loads the SQLite engine (default: sql.js with its standard settings) */
+  loadSqlite?: SqliteLoader;
+}
+
+/** Note type ("model") as stored in the collection's `col.models` JSON */
+interface AnkiNoteType {
+  name: string;
+  flds: { name: string; ord: number }[];
+}
+
+interface AnkiNote {
+  noteTypeId: string;
+  tags: string[];
+  values: string[];
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function failure(error: string, code: ImportErrorCode): Result<never> {
+  return { success: false, error, code };
+}
+
+function readMediaIndex(files: Unzipped): Map<string, string> {
+  const raw = files['media'];
+  const index: Record<string, string> = raw ? JSON.parse(strFromU8(raw)) : {};
+  return new Map(Object.entries(index).map(([member, name]) => [name, member]));
+}
+
+function readCollection(
+  SQL: SqlJsStatic,
+  collection: Uint8Array
+): { noteTypes: Record<string, AnkiNoteType>; notes: AnkiNote[] } {
+  const db = new SQL.Database(collection);
+  try {
+    const [models] = db.exec('SELECT models FROM col');
+    const noteTypes = JSON.parse(String(models.values[0][0])) as Record<string, AnkiNoteType>;
+    const [rows] = db.exec('SELECT mid, tags, flds FROM notes ORDER BY id');
+    const notes = (rows?.values ?? []).map(([mid, tags, flds]) => ({
+      noteTypeId: String(mid),
+      tags: String(tags ?? '')
+        .split(/\s+/)
+        .filter((tag) => tag !== ''),
+      values: String(flds ?? '').split(ANKI_FIELD_SEPARATOR),
+    }));
+    return { noteTypes, notes };
+  } finally {
+    db.close();
+  }
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Imports an Anki .apkg package as a VocabularyModule.
+ * The mapping refers to note fields by name (e.g. "Front") or position. Notes
+ * whose type lacks the term field, or with no non-empty mapped card field,
+ * are skipped and listed in the report; media referenced by imported cards
+ * is returned keyed by file name.
+ *
+ * @example
+ * ```typescript
+ * const result = await importAnkiPackage(new Uint8Array(await file.arrayBuffer()), {
+ *   moduleId: 'spanish-core',
+ *   title: 'Spanish Core',
+ *   language: 'es',
+ *   mapping: { term: 'Front', definition: 'Back', audio: 'Audio' },
+ * });
+ * ```
+ */
+export async function importAnkiPackage(data: Uint8Array, options: AnkiImportOptions): Promise<Result<ImportResult>> {
+  let files: Unzipped;
+  let mediaIndex: Map<string, string>;
+  try {
+    files = unzipSync(data);
+    mediaIndex = readMediaIndex(files);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return failure(`Not a valid Anki package: ${reason}`, ImportErrorCode.INVALID_ARCHIVE);
+  }
+
+  const collectionFile = ANKI_COLLECTION_FILES.find((name) => files[name]);
+  if (!collectionFile) {
+    return files[ANKI_COMPRESSED_COLLECTION_FILE]
+      ? failure(
+          'Compressed Anki collections are not supported; export with "Support older Anki versions" enabled',
+          ImportErrorCode.UNSUPPORTED_COLLECTION
+        )
+      : failure('The package contains no Anki collection', ImportErrorCode.MISSING_COLLECTION);
+  }
+
+  let collection: ReturnType<typeof readCollection>;
+  try {
+    const SQL = await (options.loadSqlite ?? defaultSqliteLoader)();
+    collection = readCollection(SQL, files[collectionFile]);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return failure(`Cannot read the Anki collection: ${reason}`, ImportErrorCode.INVALID_ARCHIVE);
+  }
+
+  const builder = new ImportBuilder(options);
+  const termField = options.mapping.term;
+  collection.notes.forEach((note, i) => {
+    const row = i + 1;
+    const noteType = collection.noteTypes[note.noteTypeId];
+    if (options.noteType !== undefined && noteType?.name !== options.noteType) return;
+
+    const names = noteType ? [...noteType.flds].sort((a, b) => a.ord - b.ord).map((field) => field.name) : [];
+    if (typeof termField === 'string' && !names.includes(termField)) {
+      builder.skip(row, `note type "${noteType?.name ?? note.noteTypeId}" has no field "${termField}"`);
+      return;
+    }
+    builder.addRow({ row, names, values: note.values, tags: note.tags });
+  });
+
+  const media = new Map<string, Uint8Array>();
+  for (const [name, row] of builder.mediaReferences) {
+    const member = mediaIndex.get(name);
+    const content = member === undefined ? undefined : files[member];
+    if (content) media.set(name, content);
+    else builder.warn(row, `media file "${name}" is not in the package`);
+  }
+  return builder.finish(media);
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { CardType } from '../../models';
+import { generateClozeCards, hasClozeMarkers, parseClozeMarkers } from './clozeMarkup';
+
+describe('clozeMarkup', () => {
+  it('should detect inline markers', () => {
+    expect(hasClozeMarkers('Mi {{perro}} come.')).toBe(true);
+    expect(hasClozeMarkers('Mi ___ come.')).toBe(false);
+  });
+
+  it('should parse answers, alternates, hints and numbers', () => {
+    const markers = parseClozeMarkers('El {{c2::perro}} {{c1::corre|corría::verb}} y {{ladra::sound}}.');
+    expect(markers.map(({ number, answer, alternateAnswers, hint }) => ({ number, answer, alternateAnswers, hint })))
+      .toEqual([
+        { number: 2, answer: 'perro', alternateAnswers: undefined, hint: undefined },
+        { number: 1, answer: 'corre', alternateAnswers: ['corría'], hint: 'verb' },
+        { number: 3, answer: 'ladra', alternateAnswers: undefined, hint: 'sound' },
+      ]);
+  });
+
+  it('should generate one card per cloze number with the other blanks filled in', () => {
+    const cards = generateClozeCards(
+      { cardId: 'perro-001-cloze-01', hint: 'animals', tags: ['grammar'] },
+      'El {{perro}} {{corre|corría::verb}} en el parque.'
+    );
+
+    expect(cards).toEqual([
+      {
+        cardId: 'perro-001-cloze-01-c1',
+        type: CardType.CLOZE,
+        hint: 'animals',
+        tags: ['grammar'],
+        sentence: 'El ___ corre en el parque.',
+        blank: 'perro',
+        expectedAnswer: 'perro',
+        blankPosition: 1,
+      },
+      {
+        cardId: 'perro-001-cloze-01-c2',
+        type: CardType.CLOZE,
+        hint: 'verb',
+        tags: ['grammar'],
+        sentence: 'El perro ___ en el parque.',
+        blank: 'corre',
+        expectedAnswer: 'corre',
+        alternateAnswers: ['corría'],
+        blankPosition: 2,
+      },
+    ]);
+  });
+
+  it('should ask markers sharing a number together', () => {
+    const [card] = generateClozeCards(
+      { cardId: 'ser-001-cloze-01' },
+      'Yo {{c1::soy::ser}} y tú {{c1::eres|sos::ser}}.'
+    );
+
+    expect(card.cardId).toBe('ser-001-cloze-01');
+    expect(card.sentence).toBe('Yo ___ y tú ___.');
+    expect(card.expectedAnswer).toBe('soy, eres');
+    expect(card.blanks).toEqual([
+      { answer: 'soy', hint: 'ser' },
+      { answer: 'eres', alternateAnswers: ['sos'], hint: 'ser' },
+    ]);
+  });
+});
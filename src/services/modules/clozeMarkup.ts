@@ -0,0 +1,143 @@
+/**
+ * Inline cloze markup.
+ * Instead of a "___" placeholder plus `missing_word`, module authors can mark
+ * the words to blank out directly in a cloze sentence, Anki style:
+ *
+ * - `{{perro}}`: a blank
+ * - `{{perro::animal}}`: a blank with a hint
+ * - `{{c1::corre|corría::verb}}`: a numbered blank with an alternate answer and a hint
+ *
+ * Every cloze number becomes one ClozeCard. Markers sharing a number are
+ * blanked together on their card; the other markers show their answer.
+ * Unnumbered markers each get the next free number.
+ */
+
+import { CardType, type ClozeBlank, type ClozeCard } from '../../models';
+import { compact } from '../../utils/compact';
+import { CLOZE_BLANK } from './importMapping';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Inline marker: {{answer}}, {{answer::hint}} or {{c1::answer|alternate::hint}} */
+const CLOZE_MARKER_PATTERN = /\{\{(?:c(\d+)::)?(.+?)(?:::(.*?))?\}\}/g;
+
+/** Separates the accepted answers inside a marker */
+const ALTERNATE_SEPARATOR = '|';
+
+/** Joins the answers of a card with several blanks in `blank` and `expectedAnswer` */
+const ANSWER_LIST_SEPARATOR = ', ';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * A marker found in a cloze sentence.
+ */
+export interface ClozeMarker extends ClozeBlank {
+  /** Cloze number; markers sharing a number are asked on the same card */
+  number: number;
+  /** Offset of the marker in the sentence */
+  index: number;
+  /** Length of the marker, braces included */
+  length: number;
+}
+
+/**
+ * Fields every generated card inherits from the authored card.
+ */
+export interface ClozeCardBase {
+  cardId: string;
+  /** Hint for cards whose blank has none of its own */
+  hint?: string;
+  tags?: string[];
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * The sentence as shown on the card for `number`: its markers become blanks
+ * and every other marker is replaced by its answer.
+ */
+function renderSentence(text: string, markers: ClozeMarker[], number: number): string {
+  let sentence = '';
+  let offset = 0;
+  for (const marker of markers) {
+    sentence += text.slice(offset, marker.index) + (marker.number === number ? CLOZE_BLANK : marker.answer);
+    offset = marker.index + marker.length;
+  }
+  return sentence + text.slice(offset);
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Whether a cloze sentence uses inline markers.
+ */
+export function hasClozeMarkers(text: string): boolean {
+  return new RegExp(CLOZE_MARKER_PATTERN.source).test(text);
+}
+
+/**
+ * Lists the markers of a cloze sentence in order of appearance.
+ */
+export function parseClozeMarkers(text: string): ClozeMarker[] {
+  const matches = [...text.matchAll(CLOZE_MARKER_PATTERN)];
+  let nextNumber = Math.max(0, ...matches.map((match) => Number(match[1] ?? 0)));
+
+  return matches.map((match) => {
+    const [answer, ...alternateAnswers] = match[2].split(ALTERNATE_SEPARATOR).map((part) => part.trim());
+    return compact({
+      number: match[1] !== undefined ? Number(match[1]) : ++nextNumber,
+      answer,
+      alternateAnswers: alternateAnswers.length > 0 ? alternateAnswers : undefined,
+      hint: match[3]?.trim() || undefined,
+      index: match.index,
+      length: match[0].length,
+    });
+  });
+}
+
+/**
+ * Generates one ClozeCard per cloze number of a marked-up sentence, in
+ * number order. A sentence with a single cloze number keeps the authored
+ * card id; otherwise ids get a "-c<number>" suffix ("perro-001-cloze-01-c2").
+ *
+ * @example
+ * ```typescript
+ * const cards = generateClozeCards({ cardId: 'correr-001-cloze-01' }, 'El {{c1::perro}} {{c2::corre::verb}}.');
+ * // cards[1].sentence: 'El perro ___.', cards[1].expectedAnswer: 'corre', cards[1].hint: 'verb'
+ * ```
+ */
+export function generateClozeCards(base: ClozeCardBase, text: string): ClozeCard[] {
+  const markers = parseClozeMarkers(text);
+  const numbers = [...new Set(markers.map((marker) => marker.number))].sort((a, b) => a - b);
+
+  return numbers.map((number) => {
+    const blanks: ClozeBlank[] = markers
+      .filter((marker) => marker.number === number)
+      .map(({ answer, alternateAnswers, hint }) => compact({ answer, alternateAnswers, hint }));
+    const single = blanks.length === 1 ? blanks[0] : undefined;
+    const sentence = renderSentence(text, markers, number);
+    const answers = blanks.map((blank) => blank.answer).join(ANSWER_LIST_SEPARATOR);
+
+    return compact({
+      cardId: numbers.length === 1 ? base.cardId : `${base.cardId}-c${number}`,
+      type: CardType.CLOZE,
+      hint: single?.hint ?? base.hint,
+      tags: base.tags,
+      sentence,
+      blank: answers,
+      expectedAnswer: answers,
+      alternateAnswers: single?.alternateAnswers,
+      blankPosition: sentence.split(/\s+/).findIndex((word) => word.includes(CLOZE_BLANK)),
+      blanks: single ? undefined : blanks,
+    });
+  });
+}
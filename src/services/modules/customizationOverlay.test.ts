@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CardType,
+  exampleTriviaCard,
+  exampleVocabularyEntry,
+  exampleVocabularyModule,
+  type UserCustomization,
+} from '../../models';
+import {
+  applyCustomization,
+  applyModuleCustomizations,
+  CustomizationConflictKind,
+  resolveCustomizationConflicts,
+} from './customizationOverlay';
+
+const NOW = new Date('2025-03-01T09:00:00Z');
+const MODULE_ID = 'spanish-animals-basics';
+
+const customCard = { ...exampleTriviaCard, cardId: 'perro-001-trivia-01', expectedAnswer: 'perro' };
+
+function overlay(changes: Partial<UserCustomization> = {}): UserCustomization {
+  return { moduleId: MODULE_ID, entryId: 'perro-001', updatedAt: '2025-02-01T00:00:00Z', ...changes };
+}
+
+describe('customizationOverlay', () => {
+  it('should merge notes, mnemonics, tags, extra answers and custom cards into the entry', () => {
+    const { entry, conflicts } = applyCustomization(
+      exampleVocabularyEntry,
+      overlay({
+        notes: "Not 'pero'",
+        mnemonics: 'A PERRO PURRs? No, it barks',
+        tags: ['pets'],
+        extraAnswers: { 'perro-001-img-01': ['perrito', 'el perro'] },
+        customCards: [customCard],
+      })
+    );
+
+    expect(conflicts).toEqual([]);
+    expect(entry).toMatchObject({
+      userNotes: "Not 'pero'",
+      mnemonics: 'A PERRO PURRs? No, it barks',
+      userTags: ['pets'],
+      customCardIds: ['perro-001-trivia-01'],
+    });
+    expect(entry.cards.map((card) => card.cardId)).toEqual([
+      'perro-001-img-01',
+      'perro-001-def-01',
+      'perro-001-cloze-01',
+      'perro-001-trivia-01',
+    ]);
+    expect(entry.cards[0].alternateAnswers).toEqual(['el perro', 'un perro', 'perrito']);
+    expect(exampleVocabularyEntry.cards[0].alternateAnswers).toEqual(['el perro', 'un perro']);
+  });
+
+  it('should return the entry unchanged without a customization', () => {
+    expect(applyCustomization(exampleVocabularyEntry, undefined)).toEqual({
+      entry: exampleVocabularyEntry,
+      conflicts: [],
+    });
+  });
+
+  it('should leave out and report parts that no longer fit the entry', () => {
+    const taken = { ...customCard, cardId: 'perro-001-def-01', type: CardType.TRIVIA as const };
+    const { entry, conflicts } = applyCustomization(
+      exampleVocabularyEntry,
+      overlay({ extraAnswers: { 'perro-001-audio-01': ['perrito'] }, customCards: [taken] })
+    );
+
+    expect(entry.cards).toHaveLength(3);
+    expect(entry.cards[1].type).toBe(CardType.DEFINITION);
+    expect(entry.customCardIds).toBeUndefined();
+    expect(conflicts.map(({ kind, cardId }) => ({ kind, cardId }))).toEqual([
+      { kind: CustomizationConflictKind.CARD_REMOVED, cardId: 'perro-001-audio-01' },
+      { kind: CustomizationConflictKind.CARD_ID_TAKEN, cardId: 'perro-001-def-01' },
+    ]);
+  });
+
+  it('should merge overlays into a module and report removed entries', () => {
+    const { module, conflicts } = applyModuleCustomizations(exampleVocabularyModule, [
+      overlay({ notes: 'woof' }),
+      overlay({ entryId: 'lobo-009', notes: 'gone' }),
+      overlay({ moduleId: 'other-module', entryId: 'gato-002', notes: 'ignored' }),
+    ]);
+
+    expect(module.entries.find((entry) => entry.entryId === 'perro-001')?.userNotes).toBe('woof');
+    expect(module.entries.find((entry) => entry.entryId === 'gato-002')?.userNotes).toBeUndefined();
+    expect(conflicts).toEqual([
+      { kind: CustomizationConflictKind.ENTRY_REMOVED, moduleId: MODULE_ID, entryId: 'lobo-009' },
+    ]);
+  });
+
+  it('should resolve card conflicts by dropping stale answers and renaming custom cards', () => {
+    const taken = { ...customCard, cardId: 'perro-001-def-01' };
+    const resolved = resolveCustomizationConflicts(
+      overlay({
+        extraAnswers: { 'perro-001-audio-01': ['perrito'], 'perro-001-def-01': ['can'] },
+        customCards: [taken, customCard],
+      }),
+      exampleVocabularyEntry,
+      NOW
+    );
+
+    expect(resolved.extraAnswers).toEqual({ 'perro-001-def-01': ['can'] });
+    expect(resolved.customCards?.map((card) => card.cardId)).toEqual(['perro-001-trivia-02', 'perro-001-trivia-01']);
+    expect(resolved.updatedAt).toBe(NOW.toISOString());
+    expect(applyCustomization(exampleVocabularyEntry, resolved).conflicts).toEqual([]);
+  });
+
+  it('should keep a customization without conflicts as is', () => {
+    const customization = overlay({ customCards: [customCard] });
+    expect(resolveCustomizationConflicts(customization, exampleVocabularyEntry, NOW)).toBe(customization);
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * User customization overlay.
+ * Official module content is never edited by the learner. Their notes,
+ * mnemonics, tags, extra accepted answers and own cards live in a
+ * UserCustomization per entry and are merged on read into the effective
+ * entry studied and shown. Since modules are updated independently, an
+ * overlay can fall out of step with its entry: the entry may be removed, a
+ * card with extra answers may disappear, or an official card may take the id
+ * of a custom card. Those parts are left out of the merge and reported as
+ * conflicts, which resolveCustomizationConflicts can clean up.
+ */
+
+import type { Card, UserCustomization, VocabularyEntry, VocabularyModule } from '../../models';
+import { compact } from '../../utils/compact';
+import { createCardId } from './importMapping';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/**
+ * Ways an overlay can disagree with its entry.
+ */
+export enum CustomizationConflictKind {
+  /** The entry is no longer in the module; nothing of the overlay is applied */
+  ENTRY_REMOVED = 'entry_removed',
+  /** Extra answers refer to a card the entry no longer has; they are not applied */
+  CARD_REMOVED = 'card_removed',
+  /** A custom card has the id of an official card; the official card is kept */
+  CARD_ID_TAKEN = 'card_id_taken',
+}
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * A part of an overlay that could not be applied.
+ */
+export interface CustomizationConflict {
+  kind: CustomizationConflictKind;
+  moduleId: string;
+  entryId: string;
+  /** The card concerned, for card conflicts */
+  cardId?: string;
+}
+
+/**
+ * An entry with its overlay applied.
+ */
+export interface CustomizedEntry {
+  entry: VocabularyEntry;
+  conflicts: CustomizationConflict[];
+}
+
+/**
+ * A module with the overlays of its entries applied.
+ */
+export interface CustomizedModule {
+  module: VocabularyModule;
+  /** Conflicts of every overlay, removed entries included */
+  conflicts: CustomizationConflict[];
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/** Adds answers to a card's alternates, skipping ones it already accepts */
+function withExtraAnswers(card: Card, extra: string[]): Card {
+  const accepted = new Set([card.expectedAnswer, ...(card.alternateAnswers ?? [])]);
+  const added: string[] = [];
+  for (const answer of extra) {
+    if (accepted.has(answer)) continue;
+    accepted.add(answer);
+    added.push(answer);
+  }
+  return added.length > 0 ? { ...card, alternateAnswers: [...(card.alternateAnswers ?? []), ...added] } : card;
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Merges an overlay into its entry: extra answers are added to the official
+ * cards, custom cards follow them, and notes, mnemonics and tags are copied
+ * onto the entry (overlay notes replace the module's `userNotes`).
+ *
+ * @example
+ * ```typescript
+ * const { entry, conflicts } = applyCustomization(perro, {
+ *   moduleId: 'spanish-animals-basics',
+ *   entryId: 'perro-001',
+ *   extraAnswers: { 'perro-001-img-01': ['perrito'] },
+ *   updatedAt: '2025-01-10T00:00:00Z',
+ * });
+ * // entry.cards[0].alternateAnswers ends with 'perrito', conflicts: []
+ * ```
+ */
+export function applyCustomization(
+  entry: VocabularyEntry,
+  customization: UserCustomization | undefined
+): CustomizedEntry {
+  if (!customization) return { entry, conflicts: [] };
+
+  const { moduleId, entryId } = customization;
+  const conflicts: CustomizationConflict[] = [];
+  const officialIds = new Set(entry.cards.map((card) => card.cardId));
+
+  for (const cardId of Object.keys(customization.extraAnswers ?? {})) {
+    if (officialIds.has(cardId)) continue;
+    conflicts.push({ kind: CustomizationConflictKind.CARD_REMOVED, moduleId, entryId, cardId });
+  }
+  const customCards = (customization.customCards ?? []).filter((card) => {
+    if (!officialIds.has(card.cardId)) return true;
+    conflicts.push({ kind: CustomizationConflictKind.CARD_ID_TAKEN, moduleId, entryId, cardId: card.cardId });
+    return false;
+  });
+
+  const cards = entry.cards.map((card) => {
+    const extra = customization.extraAnswers?.[card.cardId];
+    return extra ? withExtraAnswers(card, extra) : card;
+  });
+
+  return {
+    entry: compact({
+      ...entry,
+      cards: [...cards, ...customCards],
+      userNotes: customization.notes ?? entry.userNotes,
+      mnemonics: customization.mnemonics,
+      userTags: customization.tags,
+      customCardIds: customCards.length > 0 ? customCards.map((card) => card.cardId) : undefined,
+    }),
+    conflicts,
+  };
+}
+
+/**
+ * Merges the overlays of a module's entries into the module. Overlays of
+ * entries the module no longer has are reported as ENTRY_REMOVED; overlays
+ * of other modules are ignored. The result is a read model: store the
+ * module content and the overlays separately, never the merged module.
+ */
+export function applyModuleCustomizations(
+  module: VocabularyModule,
+  customizations: UserCustomization[]
+): CustomizedModule {
+  const byEntry = new Map(
+    customizations
+      .filter((customization) => customization.moduleId === module.moduleId)
+      .map((customization) => [customization.entryId, customization])
+  );
+  const conflicts: CustomizationConflict[] = [];
+
+  const entries = module.entries.map((entry) => {
+    const customized = applyCustomization(entry, byEntry.get(entry.entryId));
+    byEntry.delete(entry.entryId);
+    conflicts.push(...customized.conflicts);
+    return customized.entry;
+  });
+  for (const { moduleId, entryId } of byEntry.values()) {
+    conflicts.push({ kind: CustomizationConflictKind.ENTRY_REMOVED, moduleId, entryId });
+  }
+
+  return { module: { ...module, entries }, conflicts };
+}
+
+/**
+ * Brings an overlay back in step with its entry: extra answers for cards
+ * the entry no longer has are dropped, and custom cards whose id an official
+ * card took get the next free id of their type. Progress recorded under a
+ * renamed custom card's old id is not carried over.
+ *
+ * @returns The overlay unchanged when it has no card conflicts
+ */
+export function resolveCustomizationConflicts(
+  customization: UserCustomization,
+  entry: VocabularyEntry,
+  now: Date
+): UserCustomization {
+  const officialIds = new Set(entry.cards.map((card) => card.cardId));
+  const extraAnswers = Object.entries(customization.extraAnswers ?? {}).filter(([cardId]) => officialIds.has(cardId));
+  const taken = new Set([...officialIds, ...(customization.customCards ?? []).map((card) => card.cardId)]);
+  const conflicting = (customization.customCards ?? []).some((card) => officialIds.has(card.cardId));
+  if (!conflicting && extraAnswers.length === Object.keys(customization.extraAnswers ?? {}).length) {
+    return customization;
+  }
+
+  const customCards = customization.customCards?.map((card) => {
+    if (!officialIds.has(card.cardId)) return card;
+    let sequence = 1;
+    while (taken.has(createCardId(entry.entryId, card.type, sequence))) sequence++;
+    const cardId = createCardId(entry.entryId, card.type, sequence);
+    taken.add(cardId);
+    return { ...card, cardId };
+  });
+
+  return compact({
+    ...customization,
+    customCards,
+    extraAnswers: extraAnswers.length > 0 ? Object.fromEntries(extraAnswers) : undefined,
+    updatedAt: now.toISOString(),
+  });
+}
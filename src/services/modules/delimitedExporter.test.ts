@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CardType,
+  exampleImageCard,
+  exampleVocabularyModule,
+  type VocabularyEntry,
+  type VocabularyModule,
+} from '../../models';
+import { DELIMITED_EXPORT_MAPPING, exportDelimited } from './delimitedExporter';
+import { importDelimited, parseDelimited } from './delimitedImporter';
+
+const raton: VocabularyEntry = {
+  entryId: 'raton-003',
+  term: 'ratón',
+  cards: [
+    {
+      cardId: 'raton-003-trivia-01',
+      type: CardType.TRIVIA,
+      question: 'Which animal says "squeak", in Spanish?',
+      expectedAnswer: 'ratón',
+    },
+  ],
+};
+
+const module: VocabularyModule = { ...exampleVocabularyModule, entries: [...exampleVocabularyModule.entries, raton] };
+
+function parse(text: string, delimiter = ','): string[][] {
+  const result = parseDelimited(text, delimiter);
+  if (!result.success) throw new Error(result.error);
+  return result.data;
+}
+
+describe('delimitedExporter', () => {
+  it('should write one quoted row per entry', () => {
+    const [header, perro, , ratonRow] = parse(exportDelimited(module).text);
+    expect(header).toEqual([
+      'entry_id',
+      'term',
+      'pronunciation',
+      'image',
+      'audio',
+      'definition',
+      'cloze',
+      'video',
+      'question',
+      'question_answer',
+      'tags',
+    ]);
+    expect(perro[6]).toBe('Mi {{c1::perro}} es muy amigable.');
+    expect(perro[10]).toBe('animals pets');
+    expect(ratonRow[8]).toBe('Which animal says "squeak", in Spanish?');
+  });
+
+  it('should append progress columns on request', () => {
+    const rows = parse(exportDelimited(module, { delimiter: '\t', includeProgress: true }).text, '\t');
+    const header = rows[0];
+    const perro = Object.fromEntries(header.map((column, i) => [column, rows[1][i]]));
+    expect(perro.interval).toBe('6');
+    expect(perro.ease_factor).toBe('2.6');
+    expect(perro.next_review).toBe(exampleVocabularyModule.entries[0].progress?.nextReview);
+    expect(rows[3][header.indexOf('interval')]).toBe('');
+  });
+
+  it('should import back with the export mapping', () => {
+    const result = importDelimited(exportDelimited(exampleVocabularyModule).text, {
+      moduleId: 'reimported',
+      title: 'Reimported',
+      language: 'es',
+      mapping: DELIMITED_EXPORT_MAPPING,
+    });
+    if (!result.success) throw new Error(result.error);
+    const [perro, gato] = result.data.module.entries;
+    expect(perro.cards.map((card) => card.type)).toEqual([CardType.IMAGE, CardType.DEFINITION, CardType.CLOZE]);
+    expect(perro.cards[2]).toMatchObject({ sentence: 'Mi ___ es muy amigable.', blank: 'perro' });
+    expect(gato.cards.map((card) => card.type)).toEqual([CardType.IMAGE, CardType.AUDIO]);
+    expect(gato.cards[0]).toMatchObject({ imageUrl: '/modules/spanish-animals/media/gato.jpg' });
+  });
+
+  it('should carry the schedule through an export and import', () => {
+    const [perro, gato] = exampleVocabularyModule.entries;
+    const unreviewed = { ...exampleVocabularyModule, entries: [perro, { ...gato, progress: undefined }] };
+    const result = importDelimited(exportDelimited(unreviewed, { includeProgress: true }).text, {
+      moduleId: 'reimported',
+      title: 'Reimported',
+      language: 'es',
+      mapping: DELIMITED_EXPORT_MAPPING,
+    });
+    if (!result.success) throw new Error(result.error);
+    const [perroEntry, gatoEntry] = result.data.module.entries;
+    expect(perroEntry.progress).toEqual(perro.progress);
+    expect(gatoEntry).not.toHaveProperty('progress');
+    expect(result.data.report.warnings).toEqual([]);
+  });
+
+  it('should carry the scheduler and its state through an export and import', () => {
+    const [perro] = exampleVocabularyModule.entries;
+    const fsrs: VocabularyEntry = {
+      ...perro,
+      progress: { ...perro.progress!, schedulerId: 'fsrs', schedulerState: { stability: 12.5, difficulty: 4.2 } },
+    };
+    const { text } = exportDelimited({ ...exampleVocabularyModule, entries: [fsrs] }, { includeProgress: true });
+    const result = importDelimited(text, {
+      moduleId: 'reimported',
+      title: 'Reimported',
+      language: 'es',
+      mapping: DELIMITED_EXPORT_MAPPING,
+    });
+    if (!result.success) throw new Error(result.error);
+    expect(result.data.module.entries[0].progress).toEqual(fsrs.progress);
+  });
+
+  it('should warn about cards that do not fit in a row', () => {
+    const [perro] = exampleVocabularyModule.entries;
+    const second = { ...exampleImageCard, cardId: 'perro-001-img-02', imageUrl: '/media/perro-2.jpg' };
+    const { text, warnings } = exportDelimited({
+      ...exampleVocabularyModule,
+      entries: [{ ...perro, cards: [...perro.cards, second] }],
+    });
+    expect(parse(text)[1][3]).toBe(exampleImageCard.imageUrl);
+    expect(warnings).toEqual([{ entryId: perro.entryId, cardId: 'perro-001-img-02', message: expect.any(String) }]);
+    expect(exportDelimited(module).warnings).toEqual([]);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * CSV/TSV exporter.
+ * Writes one row per VocabularyEntry for spreadsheets and analysis. Column
+ * names match DELIMITED_EXPORT_MAPPING so an exported file can be imported
+ * again with `importDelimited`, which also restores the progress columns.
+ * A row holds one card of each type; further cards are reported as warnings.
+ */
+
+import { CardType, type Card, type VocabularyEntry, type VocabularyModule } from '../../models';
+import { firstCardOfEachType, formatCloze, type ExportIssue, type ImportFieldMapping } from './importMapping';
+
+/** Content columns, one per card type plus entry fields */
+export const DELIMITED_EXPORT_COLUMNS = [
+  'entry_id',
+  'term',
+  'pronunciation',
+  'image',
+  'audio',
+  'definition',
+  'cloze',
+  'video',
+  'question',
+  'question_answer',
+  'tags',
+] as const;
+
+/** Progress columns appended when `includeProgress` is set */
+export const DELIMITED_PROGRESS_COLUMNS = [
+  'interval',
+  'ease_factor',
+  'repetitions',
+  'next_review',
+  'last_review',
+  'total_reviews',
+  'correct_count',
+  'incorrect_count',
+  'streak',
+  'mastered',
+  'scheduler_id',
+  'scheduler_state',
+] as const;
+
+/** Mapping that re-imports an exported file with `importDelimited` */
+export const DELIMITED_EXPORT_MAPPING: ImportFieldMapping = {
+  term: 'term',
+  pronunciation: 'pronunciation',
+  image: 'image',
+  audio: 'audio',
+  definition: 'definition',
+  cloze: 'cloze',
+  tags: 'tags',
+};
+
+/**
+ * Options controlling the exported file.
+ */
+export interface DelimitedExportOptions {
+  /** Field separator (default: comma; use "\t" for TSV) */
+  delimiter?: string;
+  /** Append each entry's UserProgress columns (blank for unreviewed entries) */
+  includeProgress?: boolean;
+}
+
+/**
+ * Output of `exportDelimited`.
+ */
+export interface DelimitedExport {
+  /** The CSV/TSV file */
+  text: string;
+  /** Cards that did not fit in their entry's row */
+  warnings: ExportIssue[];
+}
+
+type Column = (typeof DELIMITED_EXPORT_COLUMNS)[number] | (typeof DELIMITED_PROGRESS_COLUMNS)[number];
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function quote(value: string, delimiter: string): string {
+  const needsQuotes = value.includes(delimiter) || /["\r\n]/.test(value) || value.trim() !== value;
+  return needsQuotes ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Row values for an entry holding `cards`, at most one of each type.
+ */
+function entryRow(entry: VocabularyEntry, cards: Card[]): Partial<Record<Column, string>> {
+  const first = <T extends CardType>(type: T) =>
+    cards.find((card): card is Extract<Card, { type: T }> => card.type === type);
+  const progress = entry.progress;
+  const trivia = first(CardType.TRIVIA);
+  const cloze = first(CardType.CLOZE);
+
+  return {
+    entry_id: entry.entryId,
+    term: entry.term,
+    pronunciation: entry.pronunciation,
+    image: first(CardType.IMAGE)?.imageUrl,
+    audio: first(CardType.AUDIO)?.audioUrl,
+    definition: first(CardType.DEFINITION)?.definition,
+    cloze: cloze ? formatCloze(cloze) : undefined,
+    video: first(CardType.VIDEO)?.videoUrl,
+    question: trivia?.question,
+    question_answer: trivia?.expectedAnswer,
+    tags: [...new Set(entry.cards.flatMap((card) => card.tags ?? []))].join(' '),
+    interval: progress?.interval.toString(),
+    ease_factor: progress?.easeFactor.toString(),
+    repetitions: progress?.repetitions.toString(),
+    next_review: progress?.nextReview,
+    last_review: progress?.lastReview ?? undefined,
+    total_reviews: progress?.totalReviews.toString(),
+    correct_count: progress?.correctCount.toString(),
+    incorrect_count: progress?.incorrectCount.toString(),
+    streak: progress?.streak.toString(),
+    mastered: progress?.mastered.toString(),
+    scheduler_id: progress?.schedulerId,
+    scheduler_state: progress?.schedulerState && JSON.stringify(progress.schedulerState),
+  };
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Writes a module as CSV (or TSV with `delimiter: '\t'`), one row per entry
+ * after a header row. Rows end with CRLF as RFC 4180 specifies.
+ */
+export function exportDelimited(module: VocabularyModule, options: DelimitedExportOptions = {}): DelimitedExport {
+  const delimiter = options.delimiter ?? ',';
+  const columns: Column[] = [
+    ...DELIMITED_EXPORT_COLUMNS,
+    ...(options.includeProgress ? DELIMITED_PROGRESS_COLUMNS : []),
+  ];
+  const warnings: ExportIssue[] = [];
+  const rows = module.entries.map((entry) => {
+    const { cards, dropped } = firstCardOfEachType(entry);
+    warnings.push(...dropped);
+    const values = entryRow(entry, cards);
+    return columns.map((column) => quote(values[column] ?? '', delimiter)).join(delimiter);
+  });
+  const text = [columns.join(delimiter), ...rows].map((row) => `${row}\r\n`).join('');
+  return { text, warnings };
+}
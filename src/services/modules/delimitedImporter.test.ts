@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { CardType } from '../../models';
+import { DELIMITED_PROGRESS_COLUMNS } from './delimitedExporter';
+import { detectDelimiter, importDelimited, parseDelimited } from './delimitedImporter';
+import { ImportErrorCode } from './importMapping';
+
+const metadata = { moduleId: 'spanish-animals', title: 'Spanish Animals', language: 'es' };
+
+describe('delimitedImporter', () => {
+  it('should parse quoted fields, embedded newlines and CRLF line endings', () => {
+    const text = '\uFEFFterm,sentence\r\n"perro","Mi ""perro"",\ncome."\r\n\r\ngato,x\r\n';
+    expect(parseDelimited(text, ',')).toEqual({
+      success: true,
+      data: [
+        ['term', 'sentence'],
+        ['perro', 'Mi "perro",\ncome.'],
+        ['gato', 'x'],
+      ],
+    });
+  });
+
+  it('should reject unterminated quotes', () => {
+    expect(parseDelimited('a,"b\nc', ',')).toMatchObject({ success: false, code: ImportErrorCode.MALFORMED_FILE });
+  });
+
+  it('should detect the delimiter from the first line', () => {
+    expect(detectDelimiter('term\tdefinition\nperro\tdog, hound')).toBe('\t');
+    expect(detectDelimiter('term;"a, b"\n')).toBe(';');
+    expect(detectDelimiter('term\n')).toBe(',');
+  });
+
+  it('should import mapped columns as cards', () => {
+    const text = [
+      'Spanish\tEnglish\tExample\tPicture',
+      'perro\ta dog\tEl {{c1::perro}} ladra.\tperro.jpg',
+      'gato\t\tEl gato duerme.\t',
+      '\ta bird\t\t',
+    ].join('\n');
+    const result = importDelimited(text, {
+      ...metadata,
+      mapping: { term: 'Spanish', definition: 'English', cloze: 'Example', image: 'Picture' },
+    });
+    if (!result.success) throw new Error(result.error);
+
+    const [perro, gato] = result.data.module.entries;
+    expect(perro.cards.map((card) => card.type)).toEqual([CardType.IMAGE, CardType.DEFINITION, CardType.CLOZE]);
+    expect(gato.cards).toEqual([
+      {
+        cardId: 'gato-002-cloze-01',
+        type: CardType.CLOZE,
+        sentence: 'El ___ duerme.',
+        blank: 'gato',
+        blankPosition: 1,
+        expectedAnswer: 'gato',
+      },
+    ]);
+    expect(result.data.report.skipped).toEqual([{ row: 4, message: 'term is empty' }]);
+  });
+
+  it('should drop malformed progress columns with a warning', () => {
+    const progressColumns = DELIMITED_PROGRESS_COLUMNS.join(',');
+    const text = [
+      `term,definition,${progressColumns}`,
+      'perro,a dog,6,2.6,2,2025-03-12T12:00:00.000Z,,2,2,0,2,false',
+      'gato,a cat,soon,2.5,1,2025-03-12T12:00:00.000Z,,1,1,0,1,false',
+    ].join('\n');
+    const result = importDelimited(text, { ...metadata, mapping: { term: 'term', definition: 'definition' } });
+    if (!result.success) throw new Error(result.error);
+
+    const [perro, gato] = result.data.module.entries;
+    expect(perro.progress).toMatchObject({ interval: 6, easeFactor: 2.6, lastReview: null, mastered: false });
+    expect(gato).not.toHaveProperty('progress');
+    expect(result.data.report.warnings).toEqual([{ row: 3, message: expect.stringContaining('interval') }]);
+  });
+
+  it('should address columns by position when there is no header', () => {
+    const options = { ...metadata, hasHeader: false, mapping: { term: 0, definition: 1 } };
+    const result = importDelimited('perro,a dog\n', options);
+    expect(result.success && result.data.module.entries[0].cards[0]).toMatchObject({ definition: 'a dog' });
+  });
+
+  it('should reject mappings that name missing columns', () => {
+    const result = importDelimited('term,definition\nperro,dog\n', { ...metadata, mapping: { term: 'Word' } });
+    expect(result).toMatchObject({ success: false, code: ImportErrorCode.UNKNOWN_FIELD });
+  });
+
+  it('should report invalid module metadata', () => {
+    const result = importDelimited('term,definition\nperro,dog\n', {
+      ...metadata,
+      moduleId: 'Not Kebab',
+      mapping: { term: 'term', definition: 'definition' },
+    });
+    expect(result).toMatchObject({ success: false, fieldErrors: [{ path: 'moduleId' }] });
+  });
+});
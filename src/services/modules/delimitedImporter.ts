@@ -0,0 +1,203 @@
+/**
+ * CSV/TSV importer.
+ * Reads a delimited spreadsheet export (RFC 4180 quoting) and converts each
+ * row into a VocabularyEntry using a user-chosen column mapping. Files that
+ * have the progress columns written by `exportDelimited` keep each entry's
+ * schedule.
+ */
+
+import type { Result, UserProgress } from '../../models';
+import { compact } from '../../utils/compact';
+import { validateProgress } from '../validation/modelValidator';
+import { DELIMITED_PROGRESS_COLUMNS } from './delimitedExporter';
+import {
+  ImportBuilder,
+  ImportErrorCode,
+  type FieldRef,
+  type ImportModuleOptions,
+  type ImportResult,
+} from './importMapping';
+
+/** Delimiters considered when none is given, in order of preference on ties */
+const CANDIDATE_DELIMITERS = ['\t', ',', ';'];
+
+/**
+ * Options for importing a delimited file.
+ */
+export interface DelimitedImportOptions extends ImportModuleOptions {
+  /** Field separator (default: detected from the first line) */
+  delimiter?: string;
+  /**
+   * Whether the first row holds column names (default: true). Without a
+   * header, the mapping must refer to columns by zero-based position.
+   */
+  hasHeader?: boolean;
+}
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+/**
+ * Guesses the delimiter from the first line: whichever of tab, comma and
+ * semicolon occurs most often outside quotes (comma if none occurs).
+ */
+export function detectDelimiter(text: string): string {
+  const counts = new Map(CANDIDATE_DELIMITERS.map((delimiter) => [delimiter, 0]));
+  let quoted = false;
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    else if (!quoted && (char === '\n' || char === '\r')) break;
+    else if (!quoted && counts.has(char)) counts.set(char, counts.get(char)! + 1);
+  }
+  const [best, count] = [...counts].reduce((a, b) => (b[1] > a[1] ? b : a));
+  return count > 0 ? best : ',';
+}
+
+/**
+ * Splits delimited text into rows of fields. Quoted fields may contain the
+ * delimiter, line breaks and doubled quotes. A leading byte order mark and
+ * completely empty lines are dropped.
+ */
+export function parseDelimited(text: string, delimiter: string): Result<string[][]> {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    return {
+      success: false,
+      error: `Unterminated quoted field in row ${rows.length + 1}`,
+      code: ImportErrorCode.MALFORMED_FILE,
+    };
+  }
+  if (field !== '' || row.length > 0) endRow();
+  return { success: true, data: rows };
+}
+
+type ProgressColumn = (typeof DELIMITED_PROGRESS_COLUMNS)[number];
+
+/**
+ * Parses the JSON scheduler state column; text that is not JSON is passed on
+ * for validation to reject.
+ */
+function parseSchedulerState(text: string): unknown {
+  if (text === '') return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Reads the progress columns of a row. Rows with a blank interval have not
+ * been reviewed and yield no progress.
+ */
+function readProgress(names: string[], values: string[]): Result<UserProgress | undefined> {
+  const read = (column: ProgressColumn) => values[names.indexOf(column)]?.trim() ?? '';
+  const number = (column: ProgressColumn) => (read(column) === '' ? undefined : Number(read(column)));
+  if (read('interval') === '') return { success: true, data: undefined };
+
+  const mastered = read('mastered');
+  return validateProgress(compact({
+    interval: number('interval'),
+    easeFactor: number('ease_factor'),
+    repetitions: number('repetitions'),
+    lastReview: read('last_review') || null,
+    nextReview: read('next_review') || undefined,
+    totalReviews: number('total_reviews'),
+    correctCount: number('correct_count'),
+    incorrectCount: number('incorrect_count'),
+    streak: number('streak'),
+    mastered: mastered === 'true' ? true : mastered === 'false' ? false : mastered,
+    schedulerId: read('scheduler_id') || undefined,
+    schedulerState: parseSchedulerState(read('scheduler_state')),
+  }));
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Imports a CSV or TSV file as a VocabularyModule.
+ * Rows without a term or without any non-empty mapped card field are skipped
+ * and listed in the report. When the header has every progress column of
+ * `exportDelimited`, rows keep their UserProgress; malformed progress is
+ * dropped with a warning.
+ *
+ * @example
+ * ```typescript
+ * const result = importDelimited(await file.text(), {
+ *   moduleId: 'spanish-animals',
+ *   title: 'Spanish Animals',
+ *   language: 'es',
+ *   mapping: { term: 'Spanish', definition: 'English', image: 'Picture' },
+ * });
+ * if (result.success) console.log(result.data.report.skipped);
+ * ```
+ */
+export function importDelimited(text: string, options: DelimitedImportOptions): Result<ImportResult> {
+  const parsed = parseDelimited(text, options.delimiter ?? detectDelimiter(text));
+  if (!parsed.success) return parsed;
+
+  const hasHeader = options.hasHeader ?? true;
+  const [header, ...body] = hasHeader ? parsed.data : [[], ...parsed.data];
+  const names = (header ?? []).map((name) => name.trim());
+  const width = Math.max(names.length, ...body.map((values) => values.length));
+
+  const refs = Object.values(options.mapping).filter((ref): ref is FieldRef => ref !== undefined);
+  const unknown = refs.find((ref) => (typeof ref === 'number' ? ref < 0 || ref >= width : !names.includes(ref)));
+  if (unknown !== undefined) {
+    return {
+      success: false,
+      error: `Column ${typeof unknown === 'number' ? unknown : `"${unknown}"`} is not in the file`,
+      code: ImportErrorCode.UNKNOWN_FIELD,
+    };
+  }
+
+  const builder = new ImportBuilder(options);
+  const firstRow = hasHeader ? 2 : 1;
+  const withProgress = DELIMITED_PROGRESS_COLUMNS.every((column) => names.includes(column));
+  body.forEach((values, i) => {
+    const row = firstRow + i;
+    const progress = withProgress ? readProgress(names, values) : { success: true as const, data: undefined };
+    if (!progress.success) builder.warn(row, `progress columns ignored: ${progress.error}`);
+    builder.addRow({ row, names, values, progress: progress.success ? progress.data : undefined });
+  });
+  return builder.finish();
+}
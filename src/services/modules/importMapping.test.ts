@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import { CardType, type ClozeCard } from '../../models';
+import {
+  ImportBuilder,
+  ImportErrorCode,
+  convertCloze,
+  createCardId,
+  createEntryId,
+  extractMediaReference,
+  formatCloze,
+  slugify,
+  toPlainText,
+} from './importMapping';
+
+describe('importMapping', () => {
+  it('should convert rich text fields to plain text', () => {
+    expect(toPlainText('<b>el</b>&nbsp;perro<br/>[sound:perro.mp3] &amp; &#233;')).toBe('el perro & é');
+  });
+
+  it('should find media references in Anki and plain fields', () => {
+    expect(extractMediaReference('<div><img src="golden retriever.jpg"></div>')).toBe('golden retriever.jpg');
+    expect(extractMediaReference('[sound:perro.mp3]')).toBe('perro.mp3');
+    expect(extractMediaReference(' https://example.com/perro.jpg ')).toBe('https://example.com/perro.jpg');
+    expect(extractMediaReference('<br>')).toBeUndefined();
+  });
+
+  it('should turn the first Anki cloze deletion into the blank', () => {
+    expect(convertCloze('El {{c2::gato}} y el {{c1::perro::animal}} juegan.', 'perro')).toEqual({
+      sentence: 'El gato y el ___ juegan.',
+      blank: 'perro',
+      hint: 'animal',
+      blankPosition: 4,
+    });
+  });
+
+  it('should write every blank of a cloze card as a deletion', () => {
+    const card: ClozeCard = {
+      cardId: 'ser-001-cloze-01',
+      type: CardType.CLOZE,
+      sentence: 'Yo ___ y tú ___.',
+      blank: 'soy, eres',
+      expectedAnswer: 'soy, eres',
+      blanks: [{ answer: 'soy', hint: 'ser' }, { answer: 'eres' }],
+    };
+    expect(formatCloze(card)).toBe('Yo {{c1::soy::ser}} y tú {{c2::eres}}.');
+  });
+
+  it('should import every numbered deletion of a cloze field as a card', () => {
+    const builder = new ImportBuilder({
+      moduleId: 'spanish-verbs',
+      title: 'Spanish Verbs',
+      language: 'es',
+      mapping: { term: 'term', cloze: 'sentence', tags: 'tags' },
+    });
+    const names = ['term', 'sentence', 'tags'];
+    builder.addRow({ row: 1, names, values: ['ser', 'Yo {{c1::soy::ser}} y tú {{c2::eres}}.', 'verbs'] });
+
+    const result = builder.finish();
+    if (!result.success) throw new Error(result.error);
+    expect(result.data.module.entries[0].cards).toEqual([
+      {
+        cardId: 'ser-001-cloze-01-c1',
+        type: CardType.CLOZE,
+        hint: 'ser',
+        tags: ['verbs'],
+        sentence: 'Yo ___ y tú eres.',
+        blank: 'soy',
+        expectedAnswer: 'soy',
+        blankPosition: 1,
+      },
+      {
+        cardId: 'ser-001-cloze-01-c2',
+        type: CardType.CLOZE,
+        tags: ['verbs'],
+        sentence: 'Yo soy y tú ___.',
+        blank: 'eres',
+        expectedAnswer: 'eres',
+        blankPosition: 4,
+      },
+    ]);
+    expect(result.data.report.warnings).toEqual([]);
+  });
+
+  it('should blank the term in sentences without cloze syntax', () => {
+    expect(convertCloze('Mi Perro come.', 'perro')).toEqual({
+      sentence: 'Mi ___ come.',
+      blank: 'Perro',
+      blankPosition: 1,
+    });
+    expect(convertCloze('Mi gato come.', 'perro')).toBeUndefined();
+  });
+
+  it('should generate ids in the documented format', () => {
+    expect(slugify('Señor Pérez!')).toBe('senor-perez');
+    expect(slugify('犬')).toBe('entry');
+    expect(createEntryId('el perro', 7)).toBe('el-perro-007');
+    expect(createCardId('perro-001', CardType.IMAGE, 1)).toBe('perro-001-img-01');
+  });
+
+  it('should build entries and report skipped rows', () => {
+    const builder = new ImportBuilder({
+      moduleId: 'spanish-animals',
+      title: 'Spanish Animals',
+      language: 'es',
+      mapping: { term: 'term', definition: 'meaning', image: 'picture', tags: 'tags' },
+    });
+    const names = ['term', 'meaning', 'picture', 'tags'];
+    builder.addRow({ row: 1, names, values: ['perro', 'dog', 'perro.jpg', 'animals pets'] });
+    builder.addRow({ row: 2, names, values: ['', 'cat', '', ''] });
+    builder.addRow({ row: 3, names, values: ['gato', '', '', ''] });
+
+    const result = builder.finish();
+    if (!result.success) throw new Error(result.error);
+    const [perro] = result.data.module.entries;
+    expect(perro.entryId).toBe('perro-001');
+    expect(perro.cards.map((card) => card.cardId)).toEqual(['perro-001-img-01', 'perro-001-def-01']);
+    expect(perro.cards[0]).toMatchObject({
+      imageUrl: '/modules/spanish-animals/media/perro.jpg',
+      tags: ['animals', 'pets'],
+    });
+    expect(builder.mediaReferences).toEqual(new Map([['perro.jpg', 1]]));
+    expect(result.data.report).toEqual({
+      totalRows: 3,
+      importedRows: 1,
+      skipped: [
+        { row: 2, message: 'term is empty' },
+        { row: 3, message: 'no mapped card fields have content' },
+      ],
+      warnings: [],
+    });
+  });
+
+  it('should fail when nothing can be imported', () => {
+    const builder = new ImportBuilder({ moduleId: 'empty', title: 'Empty', language: 'es', mapping: { term: 0 } });
+    builder.addRow({ row: 1, names: [], values: [''] });
+    expect(builder.finish()).toMatchObject({ success: false, code: ImportErrorCode.NO_ENTRIES });
+  });
+});
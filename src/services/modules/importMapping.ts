@@ -0,0 +1,526 @@
+/**
+ * Field mapping shared by the third-party deck importers (Anki, CSV/TSV).
+ * Each importer reads its source into rows of field values; this module turns
+ * each row into a VocabularyEntry according to the user's field mapping,
+ * generates entry and card ids, and reports rows that could not be imported.
+ * The matching exporters use its field conversions in the other direction.
+ */
+
+import {
+  CardType,
+  type Card,
+  type ClozeCard,
+  type Result,
+  type UserProgress,
+  type VocabularyEntry,
+  type VocabularyModule,
+} from '../../models';
+import { compact } from '../../utils/compact';
+import { stripAccents } from '../validation/fuzzyMatcher';
+import { validateModule } from '../validation/modelValidator';
+import { generateClozeCards } from './clozeMarkup';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Module version assigned to imported decks unless one is given */
+export const DEFAULT_IMPORT_VERSION = '1.0.0';
+
+/** Prompt shown on generated image cards */
+export const IMAGE_CARD_PROMPT = 'What is this?';
+
+/** Prompt shown on generated audio cards */
+export const AUDIO_CARD_PROMPT = 'What word do you hear?';
+
+/** Placeholder that replaces the missing word in cloze sentences */
+export const CLOZE_BLANK = '___';
+
+/** Card type abbreviation used in generated card ids (e.g. "perro-001-img-01") */
+export const CARD_ID_SUFFIXES: Record<CardType, string> = {
+  [CardType.IMAGE]: 'img',
+  [CardType.AUDIO]: 'audio',
+  [CardType.DEFINITION]: 'def',
+  [CardType.CLOZE]: 'cloze',
+  [CardType.VIDEO]: 'video',
+  [CardType.TRIVIA]: 'trivia',
+  [CardType.SPEAKING]: 'speak',
+  [CardType.REVERSE]: 'rev',
+  [CardType.MATCHING]: 'match',
+};
+
+/** Longest slug used for generated entry ids */
+const MAX_SLUG_LENGTH = 40;
+
+/** Anki cloze deletion: {{c1::answer}} or {{c1::answer::hint}} */
+const CLOZE_DELETION_PATTERN = /\{\{c(\d+)::(.*?)(?:::(.*?))?\}\}/g;
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+/**
+ * Error codes returned in `Result.code` when a deck cannot be imported.
+ */
+export enum ImportErrorCode {
+  /** The file is not a readable zip archive or database */
+  INVALID_ARCHIVE = 'INVALID_ARCHIVE',
+  /** The package contains no Anki collection */
+  MISSING_COLLECTION = 'MISSING_COLLECTION',
+  /** The collection uses a format this build cannot read */
+  UNSUPPORTED_COLLECTION = 'UNSUPPORTED_COLLECTION',
+  /** A delimited file is malformed (e.g. an unterminated quoted field) */
+  MALFORMED_FILE = 'MALFORMED_FILE',
+  /** The field mapping names a column the file does not have */
+  UNKNOWN_FIELD = 'UNKNOWN_FIELD',
+  /** No row could be turned into an entry */
+  NO_ENTRIES = 'NO_ENTRIES',
+}
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Reference to a source field: its name (column header or Anki field name)
+ * or its zero-based position.
+ */
+export type FieldRef = string | number;
+
+/**
+ * Which source field feeds which part of the generated entry.
+ * Every mapped field that is non-empty in a row produces one card.
+ */
+export interface ImportFieldMapping {
+  /** The vocabulary term (required; also the expected answer of every card) */
+  term: FieldRef;
+  /** Text for a DefinitionCard */
+  definition?: FieldRef;
+  /** Cloze sentence; each Anki cloze number ({{c1::...}}, {{c2::...}}) becomes a ClozeCard */
+  cloze?: FieldRef;
+  /** Image file name, URL or Anki `<img src>` for an ImageCard */
+  image?: FieldRef;
+  /** Audio file name, URL or Anki `[sound:...]` for an AudioCard */
+  audio?: FieldRef;
+  /** Phonetic pronunciation */
+  pronunciation?: FieldRef;
+  /** Whitespace- or comma-separated tags added to every card */
+  tags?: FieldRef;
+}
+
+/**
+ * Module metadata and mapping for an import.
+ */
+export interface ImportModuleOptions {
+  /** Kebab-case id of the module to create */
+  moduleId: string;
+  /** Module title */
+  title: string;
+  /** ISO 639-1 language code */
+  language: string;
+  /** Module version (default: 1.0.0) */
+  version?: string;
+  description?: string;
+  author?: string;
+  license?: string;
+  tags?: string[];
+  /** Source field for each part of an entry */
+  mapping: ImportFieldMapping;
+  /** Prefix for relative media file names (default: /modules/<moduleId>/media/) */
+  mediaBaseUrl?: string;
+  /** Timestamp recorded as the module's creation time */
+  now?: Date;
+}
+
+/**
+ * A problem with one source row. Rows are numbered from 1 in source order
+ * (for delimited files the header, if any, is row 1).
+ */
+export interface ImportIssue {
+  row: number;
+  message: string;
+}
+
+/**
+ * What happened to each source row.
+ */
+export interface ImportReport {
+  /** Rows read from the source */
+  totalRows: number;
+  /** Rows that became entries */
+  importedRows: number;
+  /** Rows that were not imported, with the reason */
+  skipped: ImportIssue[];
+  /** Imported rows with fields that were ignored */
+  warnings: ImportIssue[];
+}
+
+/**
+ * Output of a successful import.
+ */
+export interface ImportResult {
+  module: VocabularyModule;
+  report: ImportReport;
+  /** Media files bundled with the source, keyed by the file name cards reference */
+  media: Map<string, Uint8Array>;
+}
+
+/**
+ * A card an exporter left out of its file.
+ */
+export interface ExportIssue {
+  entryId: string;
+  cardId: string;
+  message: string;
+}
+
+/**
+ * One source row as read by an importer.
+ */
+export interface ImportRow {
+  /** 1-based row number used in the report */
+  row: number;
+  /** Field names in source order (may be empty when fields are positional) */
+  names: string[];
+  /** Field values in source order */
+  values: string[];
+  /** Tags attached to the row by the source format */
+  tags?: string[];
+  /** Schedule carried by the source, kept on the entry */
+  progress?: UserProgress;
+}
+
+// =============================================================================
+// TEXT HELPERS
+// =============================================================================
+
+function decodeEntity(entity: string, name: string): string {
+  if (name.startsWith('#')) {
+    const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+    return Number.isNaN(code) ? entity : String.fromCodePoint(code);
+  }
+  return HTML_ENTITIES[name.toLowerCase()] ?? entity;
+}
+
+/**
+ * Converts a rich-text field (as Anki stores them) to plain text: drops tags
+ * and `[sound:...]` references, decodes entities and collapses whitespace.
+ */
+export function toPlainText(value: string): string {
+  return value
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/<[^>]*>/g, '')
+    .replace(/\[sound:[^\]]*\]/g, '')
+    .replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, decodeEntity)
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Extracts a media file reference from a field: the `src` of the first
+ * `<img>`, the first `[sound:...]`, or the plain field text.
+ */
+export function extractMediaReference(value: string): string | undefined {
+  const image = /<img\b[^>]*\bsrc\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i.exec(value);
+  if (image) return toPlainText(image[1] ?? image[2] ?? image[3]);
+  const sound = /\[sound:([^\]]+)\]/.exec(value);
+  if (sound) return sound[1].trim();
+  const text = toPlainText(value);
+  return text === '' ? undefined : text;
+}
+
+/**
+ * Whether a media reference is already a URL rather than a bundled file name.
+ */
+export function isMediaUrl(reference: string): boolean {
+  return /^([a-z][a-z0-9+.-]*:|\/)/i.test(reference);
+}
+
+/**
+ * Converts a cloze field to a sentence with a single blank.
+ * The first deletion of the lowest-numbered Anki cloze ({{c1::...}}) becomes
+ * the blank and any other deletions are filled in. Without Anki syntax, the
+ * first occurrence of the term is blanked. Returns undefined if neither applies.
+ */
+export function convertCloze(
+  value: string,
+  term: string
+): { sentence: string; blank: string; hint?: string; blankPosition: number } | undefined {
+  const deletions = [...value.matchAll(CLOZE_DELETION_PATTERN)];
+  let sentence: string;
+  let blank: string;
+  let hint: string | undefined;
+
+  if (deletions.length > 0) {
+    const target = deletions.reduce((lowest, match) => (Number(match[1]) < Number(lowest[1]) ? match : lowest));
+    blank = toPlainText(target[2]);
+    hint = target[3] ? toPlainText(target[3]) : undefined;
+    sentence = toPlainText(
+      value.replace(CLOZE_DELETION_PATTERN, (_match, _n, answer: string, _hint, offset: number) =>
+        offset === target.index ? CLOZE_BLANK : answer
+      )
+    );
+  } else {
+    const text = toPlainText(value);
+    const position = text.toLocaleLowerCase().indexOf(term.toLocaleLowerCase());
+    if (term === '' || position < 0) return undefined;
+    blank = text.slice(position, position + term.length);
+    sentence = text.slice(0, position) + CLOZE_BLANK + text.slice(position + term.length);
+  }
+
+  if (blank === '') return undefined;
+  const blankPosition = sentence.split(/\s+/).findIndex((word) => word.includes(CLOZE_BLANK));
+  return compact({ sentence, blank, hint, blankPosition });
+}
+
+/**
+ * Writes a cloze card back as an Anki-style sentence ("Mi {{c1::perro}} come.").
+ * The first run of two or more underscores is taken as the blank, or one run
+ * per blank on cards with several blanks, numbered c1, c2, … so that each
+ * imports back as a card; sentences without one are returned unchanged.
+ */
+export function formatCloze(card: ClozeCard): string {
+  const blanks = card.blanks ?? [{ answer: card.blank, hint: card.hint }];
+  let next = 0;
+  return card.sentence.replace(/_{2,}/g, (placeholder) => {
+    const blank = blanks[next++];
+    if (!blank) return placeholder;
+    return blank.hint ? `{{c${next}::${blank.answer}::${blank.hint}}}` : `{{c${next}::${blank.answer}}}`;
+  });
+}
+
+/**
+ * Splits an entry's cards into the first card of each type, which the
+ * third-party formats hold one field set for, and issues naming the others.
+ */
+export function firstCardOfEachType(entry: VocabularyEntry): { cards: Card[]; dropped: ExportIssue[] } {
+  const cards = new Map<CardType, Card>();
+  const dropped: ExportIssue[] = [];
+  for (const card of entry.cards) {
+    if (!cards.has(card.type)) {
+      cards.set(card.type, card);
+    } else {
+      dropped.push({
+        entryId: entry.entryId,
+        cardId: card.cardId,
+        message: `not exported: only the first ${card.type} card of an entry is kept`,
+      });
+    }
+  }
+  return { cards: [...cards.values()], dropped };
+}
+
+// =============================================================================
+// ID GENERATION
+// =============================================================================
+
+/**
+ * Lowercase ASCII slug of a term for use in ids ("Señor Pérez" → "senor-perez").
+ * Terms without any ASCII letters or digits become "entry".
+ */
+export function slugify(text: string): string {
+  const slug = stripAccents(text)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, MAX_SLUG_LENGTH)
+    .replace(/-+$/, '');
+  return slug || 'entry';
+}
+
+/**
+ * Generates an entry id from a term and a 1-based sequence number ("perro-001").
+ */
+export function createEntryId(term: string, sequence: number): string {
+  return `${slugify(term)}-${String(sequence).padStart(3, '0')}`;
+}
+
+/**
+ * Generates a card id from its entry id, type and a 1-based sequence number
+ * ("perro-001-img-01").
+ */
+export function createCardId(entryId: string, type: CardType, sequence: number): string {
+  return `${entryId}-${CARD_ID_SUFFIXES[type]}-${String(sequence).padStart(2, '0')}`;
+}
+
+// =============================================================================
+// BUILDER
+// =============================================================================
+
+/**
+ * Reads a field from a row by name or position.
+ */
+export function readField(row: ImportRow, ref: FieldRef | undefined): string {
+  if (ref === undefined) return '';
+  const index = typeof ref === 'number' ? ref : row.names.indexOf(ref);
+  return row.values[index] ?? '';
+}
+
+function splitTags(value: string): string[] {
+  return toPlainText(value)
+    .split(/[\s,]+/)
+    .filter((tag) => tag !== '');
+}
+
+/**
+ * Accumulates entries and the import report while an importer walks its rows.
+ */
+export class ImportBuilder {
+  private readonly entries: VocabularyEntry[] = [];
+  private readonly report: ImportReport = { totalRows: 0, importedRows: 0, skipped: [], warnings: [] };
+  private readonly mediaBaseUrl: string;
+
+  /** Bundled media file names referenced by imported cards, with the first row using each */
+  readonly mediaReferences = new Map<string, number>();
+
+  constructor(private readonly options: ImportModuleOptions) {
+    this.mediaBaseUrl = options.mediaBaseUrl ?? `/modules/${options.moduleId}/media/`;
+  }
+
+  /**
+   * Records a row that will not be imported.
+   */
+  skip(row: number, message: string): void {
+    this.report.totalRows += 1;
+    this.report.skipped.push({ row, message });
+  }
+
+  /**
+   * Records a problem with a row that was still imported.
+   */
+  warn(row: number, message: string): void {
+    this.report.warnings.push({ row, message });
+  }
+
+  /**
+   * Converts one row into an entry, or records why it was skipped.
+   */
+  addRow(row: ImportRow): void {
+    const { mapping } = this.options;
+    const term = toPlainText(readField(row, mapping.term));
+    if (term === '') {
+      this.skip(row.row, 'term is empty');
+      return;
+    }
+
+    const entryId = createEntryId(term, this.entries.length + 1);
+    const tags = [...(row.tags ?? []), ...splitTags(readField(row, mapping.tags))];
+    const shared = compact({ tags: tags.length > 0 ? tags : undefined });
+    const cards: Card[] = [];
+
+    const image = this.mediaUrl(row, mapping.image, 'image');
+    if (image) {
+      cards.push({
+        cardId: createCardId(entryId, CardType.IMAGE, 1),
+        type: CardType.IMAGE,
+        imageUrl: image,
+        prompt: IMAGE_CARD_PROMPT,
+        expectedAnswer: term,
+        ...shared,
+      });
+    }
+
+    const audio = this.mediaUrl(row, mapping.audio, 'audio');
+    if (audio) {
+      cards.push({
+        cardId: createCardId(entryId, CardType.AUDIO, 1),
+        type: CardType.AUDIO,
+        audioUrl: audio,
+        prompt: AUDIO_CARD_PROMPT,
+        expectedAnswer: term,
+        ...shared,
+      });
+    }
+
+    const definition = toPlainText(readField(row, mapping.definition));
+    if (definition !== '') {
+      cards.push({
+        cardId: createCardId(entryId, CardType.DEFINITION, 1),
+        type: CardType.DEFINITION,
+        definition,
+        expectedAnswer: term,
+        ...shared,
+      });
+    }
+
+    // Anki deletions become one card per cloze number; otherwise the term is blanked
+    const clozeField = readField(row, mapping.cloze);
+    if (toPlainText(clozeField) !== '') {
+      const clozeId = createCardId(entryId, CardType.CLOZE, 1);
+      const deletions = new RegExp(CLOZE_DELETION_PATTERN.source).test(clozeField)
+        ? generateClozeCards({ cardId: clozeId, ...shared }, toPlainText(clozeField))
+        : [];
+      const cloze = deletions.length === 0 ? convertCloze(clozeField, term) : undefined;
+      if (deletions.length > 0) {
+        cards.push(...deletions);
+      } else if (cloze) {
+        cards.push({ cardId: clozeId, type: CardType.CLOZE, ...cloze, expectedAnswer: cloze.blank, ...shared });
+      } else {
+        this.warn(row.row, 'cloze field has no {{c1::...}} deletion and does not contain the term');
+      }
+    }
+
+    if (cards.length === 0) {
+      this.skip(row.row, 'no mapped card fields have content');
+      return;
+    }
+
+    const pronunciation = toPlainText(readField(row, mapping.pronunciation));
+    this.entries.push(
+      compact({ entryId, term, cards, pronunciation: pronunciation || undefined, progress: row.progress })
+    );
+    this.report.totalRows += 1;
+    this.report.importedRows += 1;
+  }
+
+  /**
+   * Validates the assembled module and returns it with the report.
+   */
+  finish(media: Map<string, Uint8Array> = new Map()): Result<ImportResult> {
+    if (this.entries.length === 0) {
+      return {
+        success: false,
+        error: `No rows could be imported (${this.report.skipped.length} skipped)`,
+        code: ImportErrorCode.NO_ENTRIES,
+      };
+    }
+
+    const { options } = this;
+    const timestamp = options.now?.toISOString();
+    const validation = validateModule(
+      compact({
+        moduleId: options.moduleId,
+        title: options.title,
+        language: options.language,
+        entries: this.entries,
+        version: options.version ?? DEFAULT_IMPORT_VERSION,
+        description: options.description,
+        author: options.author,
+        license: options.license,
+        tags: options.tags,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      })
+    );
+    if (!validation.success) return validation;
+    return { success: true, data: { module: validation.data, report: this.report, media } };
+  }
+
+  private mediaUrl(row: ImportRow, ref: FieldRef | undefined, kind: string): string | undefined {
+    const value = readField(row, ref);
+    if (value.trim() === '') return undefined;
+    const reference = extractMediaReference(value);
+    if (!reference) {
+      this.warn(row.row, `${kind} field has no file reference`);
+      return undefined;
+    }
+    if (isMediaUrl(reference)) return reference;
+    if (!this.mediaReferences.has(reference)) this.mediaReferences.set(reference, row.row);
+    return this.mediaBaseUrl + reference;
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Module file import and export.
+ */
+
+export * from './moduleSchema';
+export * from './moduleParser';
+export * from './clozeMarkup';
+export * from './moduleExporter';
+export * from './importMapping';
+export * from './delimitedImporter';
+export * from './ankiImporter';
+export * from './ankiFormat';
+export * from './ankiExporter';
+export * from './delimitedExporter';
+export * from './mediaFiles';
+export * from './modulePackage';
+export * from './moduleUpgrade';
+export * from './moduleMigrations';
+export * from './customizationOverlay';
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { CardType, exampleVocabularyModule } from '../../models';
+import { isSafeArchivePath, mapMediaUrls, MediaFileNames, mediaMimeType } from './mediaFiles';
+
+describe('mediaFiles', () => {
+  it('should guess MIME types from extensions', () => {
+    expect(mediaMimeType('media/perro.JPG')).toBe('image/jpeg');
+    expect(mediaMimeType('media/gato.mp3')).toBe('audio/mpeg');
+    expect(mediaMimeType('media/readme')).toBe('application/octet-stream');
+  });
+
+  it('should only accept plain relative archive paths', () => {
+    expect(isSafeArchivePath('media/perro.jpg')).toBe(true);
+    for (const path of ['', '/etc/passwd', '../evil.js', 'media/../../x', 'media//x', './x', 'C:x', 'media\\x']) {
+      expect(isSafeArchivePath(path)).toBe(false);
+    }
+  });
+
+  it('should rewrite image, audio and video URLs only', () => {
+    const module = mapMediaUrls(exampleVocabularyModule, (url) => url.toUpperCase());
+    const [perro, gato] = module.entries;
+    expect(perro.cards[0]).toMatchObject({
+      type: CardType.IMAGE,
+      imageUrl: '/MODULES/SPANISH-ANIMALS/MEDIA/PERRO.JPG',
+    });
+    expect(perro.cards[1]).toEqual(exampleVocabularyModule.entries[0].cards[1]);
+    expect(gato.cards[1]).toMatchObject({ type: CardType.AUDIO, audioUrl: '/MODULES/SPANISH-ANIMALS/MEDIA/GATO.MP3' });
+  });
+
+  it('should give each URL a unique file name', () => {
+    const names = new MediaFileNames();
+    expect(names.name('/a/perro.jpg?v=2')).toBe('perro.jpg');
+    expect(names.name('/b/perro.jpg')).toBe('2-perro.jpg');
+    expect(names.name('/a/perro.jpg?v=2')).toBe('perro.jpg');
+    expect(names.entries()).toHaveLength(2);
+  });
+});
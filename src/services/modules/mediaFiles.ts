@@ -0,0 +1,90 @@
+/**
+ * Helpers for the media files cards reference (images, audio, video):
+ * naming files inside packages, guessing MIME types, checking package paths
+ * and rewriting card URLs.
+ */
+
+import { CardType, type Card, type VocabularyModule } from '../../models';
+
+/** MIME types of the media formats cards may reference, by file extension */
+export const MEDIA_MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  m4a: 'audio/mp4',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+};
+
+/** MIME type used for unrecognized extensions */
+export const DEFAULT_MEDIA_MIME_TYPE = 'application/octet-stream';
+
+/**
+ * Guesses a file's MIME type from its extension.
+ */
+export function mediaMimeType(path: string): string {
+  const extension = path.split('.').pop()?.toLowerCase() ?? '';
+  return MEDIA_MIME_TYPES[extension] ?? DEFAULT_MEDIA_MIME_TYPE;
+}
+
+/**
+ * Whether a path inside an archive is a plain relative path: no absolute or
+ * drive prefix, no backslashes, and no empty, "." or ".." segments.
+ */
+export function isSafeArchivePath(path: string): boolean {
+  if (path === '' || path.startsWith('/') || /[\\:\0]/.test(path)) return false;
+  return path.split('/').every((segment) => segment !== '' && segment !== '.' && segment !== '..');
+}
+
+/**
+ * Returns a module with every card media URL passed through `rewrite`.
+ */
+export function mapMediaUrls(module: VocabularyModule, rewrite: (url: string) => string): VocabularyModule {
+  const mapCard = (card: Card): Card => {
+    switch (card.type) {
+      case CardType.IMAGE:
+        return { ...card, imageUrl: rewrite(card.imageUrl) };
+      case CardType.AUDIO:
+        return { ...card, audioUrl: rewrite(card.audioUrl) };
+      case CardType.VIDEO:
+        return { ...card, videoUrl: rewrite(card.videoUrl) };
+      case CardType.SPEAKING:
+        return card.referenceAudioUrl ? { ...card, referenceAudioUrl: rewrite(card.referenceAudioUrl) } : card;
+      default:
+        return card;
+    }
+  };
+  return { ...module, entries: module.entries.map((entry) => ({ ...entry, cards: entry.cards.map(mapCard) })) };
+}
+
+/**
+ * Assigns each media URL a unique file name (its last path segment, prefixed
+ * with a counter on collisions).
+ */
+export class MediaFileNames {
+  private readonly byUrl = new Map<string, string>();
+  private readonly used = new Set<string>();
+
+  name(url: string): string {
+    const existing = this.byUrl.get(url);
+    if (existing) return existing;
+
+    const base = url.split(/[?#]/)[0].split('/').pop() || 'media';
+    let name = base;
+    for (let n = 2; this.used.has(name); n++) name = `${n}-${base}`;
+    this.byUrl.set(url, name);
+    this.used.add(name);
+    return name;
+  }
+
+  /** Every URL named so far with its file name */
+  entries(): [string, string][] {
+    return [...this.byUrl];
+  }
+}
@@ -0,0 +1,220 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import {
+  exampleImageCard,
+  exampleAudioCard,
+  exampleDefinitionCard,
+  exampleClozeCard,
+  exampleVideoCard,
+  exampleTriviaCard,
+  exampleNewProgress,
+  exampleLearningProgress,
+  exampleMasteredProgress,
+  exampleVocabularyEntry,
+  exampleMasteredEntry,
+  exampleVocabularyModule,
+  CardType,
+  ReviewQuality,
+  type Card,
+  type VocabularyEntry,
+  type VocabularyModule,
+} from '../../models';
+import { generateClozeCards } from './clozeMarkup';
+import { exportModule, exportModuleJson } from './moduleExporter';
+import { importModule, importModuleJson } from './moduleParser';
+import { ModuleErrorCode } from './moduleSchema';
+
+function stripUserData(module: VocabularyModule): VocabularyModule {
+  return {
+    ...module,
+    entries: module.entries.map((entry) => {
+      const stripped = { ...entry };
+      delete stripped.progress;
+      delete stripped.reverseProgress;
+      delete stripped.cardProgress;
+      delete stripped.userNotes;
+      return stripped;
+    }),
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Arbitraries derived from the example fixtures
+// -----------------------------------------------------------------------------
+
+const text = fc.string({ minLength: 1, maxLength: 20 }).filter((s) => s.trim() !== '');
+
+const cardArb: fc.Arbitrary<Card> = fc
+  .record({
+    base: fc.constantFrom<Card>(
+      exampleImageCard,
+      exampleAudioCard,
+      exampleDefinitionCard,
+      exampleClozeCard,
+      exampleVideoCard,
+      exampleTriviaCard
+    ),
+    expectedAnswer: text,
+    alternateAnswers: fc.option(fc.array(text, { maxLength: 3 }), { nil: undefined }),
+    hint: fc.option(text, { nil: undefined }),
+  })
+  .map(({ base, expectedAnswer, alternateAnswers, hint }) => {
+    const card: Card = { ...base, expectedAnswer };
+    delete card.alternateAnswers;
+    delete card.hint;
+    if (alternateAnswers) card.alternateAnswers = alternateAnswers;
+    if (hint) card.hint = hint;
+    return card;
+  });
+
+const entryArb: fc.Arbitrary<VocabularyEntry> = fc
+  .record({
+    base: fc.constantFrom(exampleVocabularyEntry, exampleMasteredEntry),
+    cards: fc.array(cardArb, { minLength: 1, maxLength: 4 }),
+    difficulty: fc.option(fc.integer({ min: 1, max: 5 }), { nil: undefined }),
+    progress: fc.option(fc.constantFrom(exampleNewProgress, exampleLearningProgress, exampleMasteredProgress), {
+      nil: undefined,
+    }),
+    reverseProgress: fc.option(fc.constantFrom(exampleLearningProgress, exampleMasteredProgress), { nil: undefined }),
+    userNotes: fc.option(text, { nil: undefined }),
+  })
+  .map(({ base, cards, difficulty, progress, reverseProgress, userNotes }) => {
+    const entry: VocabularyEntry = {
+      ...base,
+      cards: cards.map((card, i) => ({ ...card, cardId: `${base.entryId}-card-${i}` })),
+    };
+    delete entry.difficulty;
+    delete entry.progress;
+    if (difficulty !== undefined) entry.difficulty = difficulty;
+    if (progress) entry.progress = progress;
+    if (reverseProgress) entry.reverseProgress = reverseProgress;
+    if (userNotes) entry.userNotes = userNotes;
+    return entry;
+  });
+
+const moduleArb: fc.Arbitrary<VocabularyModule> = fc
+  .record({
+    title: text,
+    entries: fc.array(entryArb, { minLength: 1, maxLength: 5 }),
+  })
+  .map(({ title, entries }) => ({
+    ...exampleVocabularyModule,
+    title,
+    entries: entries.map((entry, i) => ({
+      ...entry,
+      entryId: `entry-${i}`,
+      cards: entry.cards.map((card, j) => ({ ...card, cardId: `entry-${i}-card-${j}` })),
+    })),
+  }));
+
+describe('moduleExporter', () => {
+  it('should write the snake_case schema shape', () => {
+    const file = exportModule(exampleVocabularyModule);
+    expect(file.schema_version).toBe('1.1.0');
+    expect(file.module_metadata).toMatchObject({
+      module_id: 'spanish-animals-basics',
+      language: 'es',
+      created_date: '2025-01-01T00:00:00Z',
+    });
+    expect(file.vocabulary_entries[0].cards[0]).toEqual({
+      card_id: 'perro-001-img-01',
+      card_type: 'image',
+      tags: ['animals', 'pets'],
+      content: {
+        image_url: '/modules/spanish-animals/media/perro.jpg',
+        alt_text: 'A golden retriever sitting in a park',
+        prompt_text: 'What animal is this?',
+        expected_answer: 'perro',
+        hint: 'It is a common household pet that barks',
+        alternative_answers: ['el perro', 'un perro'],
+      },
+    });
+  });
+
+  it('should strip per-user fields by default', () => {
+    const file = exportModule(exampleVocabularyModule);
+    expect(file.vocabulary_entries.every((entry) => entry.user_additions === undefined)).toBe(true);
+  });
+
+  it('should include progress when opted in', () => {
+    const file = exportModule(exampleVocabularyModule, { includeUserData: true });
+    expect(file.vocabulary_entries[0].user_additions?.progress?.ease_factor).toBe(exampleLearningProgress.easeFactor);
+  });
+
+  it('should carry recognition progress and card statistics with user data', () => {
+    const studied: VocabularyEntry = {
+      ...exampleVocabularyEntry,
+      reverseProgress: exampleMasteredProgress,
+      cardProgress: {
+        'perro-001-def-01-rev': {
+          cardId: 'perro-001-def-01-rev',
+          cardType: CardType.REVERSE,
+          shownCount: 3,
+          correctCount: 2,
+          lastShown: '2025-01-05T10:00:00.000Z',
+          averageResponseTime: 2500,
+          timedCount: 2,
+          lastQuality: ReviewQuality.GOOD,
+        },
+      },
+    };
+    const module = { ...exampleVocabularyModule, entries: [studied] };
+    const additions = exportModule(module, { includeUserData: true }).vocabulary_entries[0].user_additions;
+    expect(additions?.reverse_progress?.interval).toBe(exampleMasteredProgress.interval);
+    expect(additions?.card_stats?.['perro-001-def-01-rev']).toMatchObject({ card_type: 'reverse', shown_count: 3 });
+    expect(importModuleJson(exportModuleJson(module, { includeUserData: true }))).toEqual({
+      success: true,
+      data: module,
+    });
+
+    const broken = exportModule(module, { includeUserData: true });
+    broken.vocabulary_entries[0].user_additions!.card_stats!['perro-001-def-01-rev'].last_quality = 4;
+    expect(importModule(broken)).toMatchObject({ success: false, code: ModuleErrorCode.INVALID_FORMAT });
+  });
+
+  it('should round-trip the example module through JSON', () => {
+    const withUserData = importModuleJson(exportModuleJson(exampleVocabularyModule, { includeUserData: true }));
+    expect(withUserData).toEqual({ success: true, data: exampleVocabularyModule });
+
+    const shared = importModuleJson(exportModuleJson(exampleVocabularyModule));
+    expect(shared).toEqual({ success: true, data: stripUserData(exampleVocabularyModule) });
+  });
+
+  it('should round-trip cloze cards generated from inline markup', () => {
+    const cards = generateClozeCards(
+      { cardId: 'ser-001-cloze-01' },
+      '{{c1::Yo}} {{c2::soy::ser}} y tú {{c2::eres|sos::ser}}.'
+    );
+    const module: VocabularyModule = {
+      ...exampleVocabularyModule,
+      entries: [{ entryId: 'ser-001', term: 'ser', cards }],
+    };
+    expect(exportModule(module).vocabulary_entries[0].cards[1].content.blanks).toEqual([
+      { answer: 'soy', hint: 'ser' },
+      { answer: 'eres', alternative_answers: ['sos'], hint: 'ser' },
+    ]);
+    expect(importModuleJson(exportModuleJson(module))).toEqual({ success: true, data: module });
+  });
+
+  it('should round-trip any module built from the example fixtures', () => {
+    fc.assert(
+      fc.property(moduleArb, (module) => {
+        expect(importModule(exportModule(module, { includeUserData: true }))).toEqual({ success: true, data: module });
+        expect(importModule(exportModule(module))).toEqual({ success: true, data: stripUserData(module) });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should be idempotent when exporting an imported file', () => {
+    fc.assert(
+      fc.property(moduleArb, (module) => {
+        const file = exportModule(module, { includeUserData: true });
+        const reimported = importModule(file);
+        if (!reimported.success) throw new Error(reimported.error);
+        expect(exportModule(reimported.data, { includeUserData: true })).toEqual(file);
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * Module exporter.
+ * Converts a VocabularyModule back into the published snake_case schema
+ * format. Output is the exact inverse of the importer in moduleParser.ts.
+ */
+
+import {
+  CardType,
+  type Card,
+  type CardProgress,
+  type UserProgress,
+  type VocabularyEntry,
+  type VocabularyModule,
+} from '../../models';
+import { compact } from '../../utils/compact';
+import {
+  SCHEMA_DIFFICULTY_LEVELS,
+  SCHEMA_VERSION,
+  type SchemaCard,
+  type SchemaCardContent,
+  type SchemaCardStats,
+  type SchemaDifficulty,
+  type SchemaModuleFile,
+  type SchemaProgress,
+  type SchemaUserAdditions,
+  type SchemaVocabularyEntry,
+} from './moduleSchema';
+
+/**
+ * Options controlling what is written to an exported module file.
+ */
+export interface ModuleExportOptions {
+  /**
+   * Include per-user data (`userNotes`, `progress`, `reverseProgress` and
+   * `cardProgress`) under `user_additions`. Off by default so exported
+   * modules can be shared.
+   */
+  includeUserData?: boolean;
+}
+
+// =============================================================================
+// MAPPERS
+// =============================================================================
+
+function exportCardContent(card: Card): SchemaCardContent {
+  const shared = { hint: card.hint, alternative_answers: card.alternateAnswers };
+
+  switch (card.type) {
+    case CardType.IMAGE:
+      return compact({
+        image_url: card.imageUrl,
+        alt_text: card.altText,
+        prompt_text: card.prompt,
+        expected_answer: card.expectedAnswer,
+        ...shared,
+      });
+    case CardType.AUDIO:
+      return compact({
+        audio_url: card.audioUrl,
+        duration_seconds: card.duration,
+        prompt_text: card.prompt,
+        expected_answer: card.expectedAnswer,
+        ...shared,
+      });
+    case CardType.VIDEO:
+      return compact({
+        video_url: card.videoUrl,
+        duration_seconds: card.duration,
+        playback_settings: card.loop === undefined ? undefined : { loop: card.loop },
+        prompt_text: card.prompt,
+        expected_answer: card.expectedAnswer,
+        ...shared,
+      });
+    case CardType.DEFINITION:
+      return compact({
+        definition: card.definition,
+        part_of_speech: card.partOfSpeech,
+        example_sentence: card.exampleSentence,
+        expected_answer: card.expectedAnswer,
+        ...shared,
+      });
+    case CardType.CLOZE:
+      return compact({
+        sentence: card.sentence,
+        missing_word: card.blank,
+        missing_word_position: card.blankPosition,
+        blanks: card.blanks?.map((blank) =>
+          compact({ answer: blank.answer, alternative_answers: blank.alternateAnswers, hint: blank.hint })
+        ),
+        expected_answer: card.expectedAnswer,
+        ...shared,
+      });
+    case CardType.TRIVIA:
+      return compact({
+        question: card.question,
+        explanation: card.explanation,
+        expected_answer: card.expectedAnswer,
+        ...shared,
+      });
+    case CardType.SPEAKING:
+      return compact({
+        prompt_text: card.prompt,
+        reference_audio_url: card.referenceAudioUrl,
+        expected_answer: card.expectedAnswer,
+        ...shared,
+      });
+  }
+}
+
+function exportCard(card: Card): SchemaCard {
+  return compact({
+    card_id: card.cardId,
+    card_type: card.type,
+    tags: card.tags,
+    content: exportCardContent(card),
+  });
+}
+
+/**
+ * Writes difficulty as a schema label when one maps exactly, otherwise as the
+ * raw 1-5 number (which the importer also accepts).
+ */
+function exportDifficulty(difficulty: number | undefined): SchemaDifficulty | number | undefined {
+  if (difficulty === undefined) return undefined;
+  const label = (Object.keys(SCHEMA_DIFFICULTY_LEVELS) as SchemaDifficulty[]).find(
+    (key) => SCHEMA_DIFFICULTY_LEVELS[key] === difficulty
+  );
+  return label ?? difficulty;
+}
+
+function exportProgress(progress: UserProgress): SchemaProgress {
+  return compact({
+    interval: progress.interval,
+    ease_factor: progress.easeFactor,
+    repetitions: progress.repetitions,
+    last_review: progress.lastReview,
+    next_review: progress.nextReview,
+    total_reviews: progress.totalReviews,
+    correct_count: progress.correctCount,
+    incorrect_count: progress.incorrectCount,
+    streak: progress.streak,
+    mastered: progress.mastered,
+    scheduler_id: progress.schedulerId,
+    scheduler_state: progress.schedulerState,
+  });
+}
+
+function exportCardStats(stats: CardProgress): SchemaCardStats {
+  return compact({
+    card_type: stats.cardType,
+    shown_count: stats.shownCount,
+    correct_count: stats.correctCount,
+    last_shown: stats.lastShown,
+    average_response_time_ms: stats.averageResponseTime,
+    timed_count: stats.timedCount,
+    last_quality: stats.lastQuality,
+  });
+}
+
+function exportUserAdditions(entry: VocabularyEntry): SchemaUserAdditions | undefined {
+  const { userNotes, progress, reverseProgress, cardProgress } = entry;
+  if (!userNotes && !progress && !reverseProgress && !cardProgress) return undefined;
+  return compact({
+    personal_notes: userNotes,
+    progress: progress ? exportProgress(progress) : undefined,
+    reverse_progress: reverseProgress ? exportProgress(reverseProgress) : undefined,
+    card_stats: cardProgress
+      ? Object.fromEntries(Object.entries(cardProgress).map(([cardId, stats]) => [cardId, exportCardStats(stats)]))
+      : undefined,
+  });
+}
+
+function exportEntry(entry: VocabularyEntry, options: ModuleExportOptions): SchemaVocabularyEntry {
+  return compact({
+    entry_id: entry.entryId,
+    term: entry.term,
+    pronunciation: entry.pronunciation,
+    difficulty: exportDifficulty(entry.difficulty),
+    created_at: entry.createdAt,
+    updated_at: entry.updatedAt,
+    cards: entry.cards.map(exportCard),
+    user_additions: options.includeUserData ? exportUserAdditions(entry) : undefined,
+  });
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Converts a VocabularyModule into the published module file format.
+ * Per-user fields are stripped unless `includeUserData` is set.
+ */
+export function exportModule(module: VocabularyModule, options: ModuleExportOptions = {}): SchemaModuleFile {
+  return {
+    schema_version: SCHEMA_VERSION,
+    module_metadata: compact({
+      module_id: module.moduleId,
+      title: module.title,
+      version: module.version,
+      language: module.language,
+      description: module.description,
+      author: module.author,
+      license: module.license,
+      tags: module.tags,
+      created_date: module.createdAt,
+      updated_date: module.updatedAt,
+    }),
+    vocabulary_entries: module.entries.map((entry) => exportEntry(entry, options)),
+  };
+}
+
+/**
+ * Serializes a VocabularyModule to module file JSON text.
+ */
+export function exportModuleJson(module: VocabularyModule, options: ModuleExportOptions = {}): string {
+  return JSON.stringify(exportModule(module, options), null, 2);
+}
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { compareVersions } from '../../utils/version';
+import { migrateModuleFile, SCHEMA_MIGRATIONS, type RawModuleFile, type SchemaMigration } from './moduleMigrations';
+import { importModule } from './moduleParser';
+import { ModuleErrorCode, SCHEMA_VERSION } from './moduleSchema';
+
+/**
+ * One fixture per schema version (fixtures/module-v<version>.json), all
+ * describing the same module. Every migration's `from` version needs one.
+ */
+const fixtures = new Map(
+  Object.entries(import.meta.glob('./fixtures/module-v*.json', { eager: true, import: 'default' })).map(
+    ([path, data]) => [path.match(/module-v(.+)\.json$/)![1], data as RawModuleFile]
+  )
+);
+
+function currentModule() {
+  const result = importModule(fixtures.get(SCHEMA_VERSION));
+  if (!result.success) throw new Error(result.error);
+  return result.data;
+}
+
+describe('moduleMigrations', () => {
+  it('should have a fixture for the current schema that imports as is', () => {
+    expect(currentModule().entries).toHaveLength(2);
+  });
+
+  it('should chain registered migrations up to the current schema', () => {
+    SCHEMA_MIGRATIONS.forEach((migration, i) => {
+      expect(compareVersions(migration.to, migration.from)).toBeGreaterThan(0);
+      expect(migration.to).toBe(SCHEMA_MIGRATIONS[i + 1]?.from ?? SCHEMA_VERSION);
+    });
+  });
+
+  it.each(SCHEMA_MIGRATIONS.map((migration) => [migration.from, migration.to]))(
+    'should migrate the %s fixture to the current module',
+    (from) => {
+      expect(fixtures.has(from)).toBe(true);
+      expect(importModule(fixtures.get(from))).toEqual({ success: true, data: currentModule() });
+    }
+  );
+
+  describe('migrateModuleFile', () => {
+    const current = fixtures.get(SCHEMA_VERSION)!;
+    const migrations: SchemaMigration[] = [
+      {
+        from: '0.8.0',
+        to: '0.9.0',
+        description: 'Rename "entries" to "vocabulary_entries"',
+        migrate: ({ entries, ...file }) => ({ ...file, vocabulary_entries: entries }),
+      },
+      {
+        from: '0.9.0',
+        to: '1.0.0',
+        description: 'Rename "metadata" to "module_metadata"',
+        migrate: ({ metadata, ...file }) => ({ ...file, module_metadata: metadata }),
+      },
+    ];
+    const legacy: RawModuleFile = {
+      schema_version: '0.8.0',
+      metadata: current.module_metadata,
+      entries: current.vocabulary_entries,
+    };
+
+    const migrated = { ...current, schema_version: '1.0.0' };
+
+    it('should apply migrations in order without touching the input', () => {
+      const snapshot = structuredClone(legacy);
+      expect(migrateModuleFile(legacy, migrations, '1.0.0')).toEqual({ success: true, data: migrated });
+      expect(legacy).toEqual(snapshot);
+    });
+
+    it('should start from a middle version', () => {
+      const file = { ...legacy, schema_version: '0.9.0', vocabulary_entries: legacy.entries, entries: undefined };
+      const result = migrateModuleFile(JSON.parse(JSON.stringify(file)), migrations, '1.0.0');
+      expect(result).toEqual({ success: true, data: migrated });
+    });
+
+    it('should leave current and patch-level versions alone', () => {
+      expect(migrateModuleFile(current)).toEqual({ success: true, data: current });
+      const patched = { ...current, schema_version: '1.1.3' };
+      expect(migrateModuleFile(patched)).toEqual({ success: true, data: patched });
+    });
+
+    it('should read files without a version as the first published schema', () => {
+      const unversioned = { ...current };
+      delete unversioned.schema_version;
+      expect(migrateModuleFile(unversioned)).toEqual({ success: true, data: current });
+    });
+
+    it('should reject files newer than the app supports', () => {
+      for (const version of ['1.2.0', '2.0.0']) {
+        const result = importModule({ ...current, schema_version: version });
+        expect(result).toMatchObject({ success: false, code: ModuleErrorCode.UNSUPPORTED_SCHEMA_VERSION });
+        expect(!result.success && result.error).toContain('newer than the supported 1.1.0');
+      }
+    });
+
+    it('should reject versions no migration covers', () => {
+      expect(migrateModuleFile({ ...legacy, schema_version: '0.5.0' }, migrations, '1.0.0')).toMatchObject({
+        success: false,
+        code: ModuleErrorCode.UNSUPPORTED_SCHEMA_VERSION,
+      });
+      expect(migrateModuleFile({ ...current, schema_version: 'one' })).toMatchObject({
+        success: false,
+        code: ModuleErrorCode.INVALID_FORMAT,
+      });
+    });
+
+    it('should report migrations that throw', () => {
+      const broken: SchemaMigration = {
+        from: '0.9.0',
+        to: '1.0.0',
+        description: 'Broken',
+        migrate: () => {
+          throw new Error('metadata missing');
+        },
+      };
+      const result = migrateModuleFile({ schema_version: '0.9.0' }, [broken], '1.0.0');
+      expect(result).toMatchObject({ success: false, code: ModuleErrorCode.MIGRATION_FAILED });
+      expect(!result.success && result.error).toBe('Migrating schema 0.9.0 to 1.0.0 failed: metadata missing');
+    });
+  });
+});
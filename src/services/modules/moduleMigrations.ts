@@ -0,0 +1,136 @@
+/**
+ * Module file schema migrations.
+ * Module files declare the schema they were written with in `schema_version`
+ * (absent means "1.0.0"). Before a file is parsed, the registered migrations
+ * are applied in order to bring it up to SCHEMA_VERSION, so the parser only
+ * ever sees the current shape.
+ *
+ * Adding a migration: bump SCHEMA_VERSION, append a migration from the
+ * previous version, and add a fixture file for the previous version under
+ * ./fixtures (see moduleMigrations.test.ts).
+ */
+
+import type { Result } from '../../models';
+import { compareVersions, isSameMinorVersion } from '../../utils/version';
+import { SEMVER_PATTERN } from '../validation/modelValidator';
+import { ModuleErrorCode, SCHEMA_VERSION } from './moduleSchema';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Schema version assumed for files without `schema_version` */
+export const DEFAULT_SCHEMA_VERSION = '1.0.0';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * A parsed module file of any schema version, before validation.
+ */
+export type RawModuleFile = Record<string, unknown>;
+
+/**
+ * Converts module files from one schema version to the next.
+ */
+export interface SchemaMigration {
+  /** Schema version this migration reads */
+  from: string;
+  /** Schema version this migration produces */
+  to: string;
+  /** What changed in the format */
+  description: string;
+  /**
+   * Returns the file in the `to` shape. Receives a private copy, so it may
+   * modify its argument. `schema_version` is updated by the runner.
+   */
+  migrate: (file: RawModuleFile) => RawModuleFile;
+}
+
+// =============================================================================
+// REGISTRY
+// =============================================================================
+
+/**
+ * Every schema migration, oldest first. Each `from` must equal the previous
+ * migration's `to`, and the last `to` must be SCHEMA_VERSION.
+ */
+export const SCHEMA_MIGRATIONS: readonly SchemaMigration[] = [
+  {
+    from: '1.0.0',
+    to: '1.1.0',
+    description:
+      'Add speaking cards, multi-blank cloze cards (content.blanks), and reverse_progress and card_stats ' +
+      'under user_additions',
+    // Only additions: every 1.0.0 file is a valid 1.1.0 file
+    migrate: (file) => file,
+  },
+];
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Brings a parsed module file up to the target schema version.
+ *
+ * Files that differ from the target only by patch version need no migration.
+ * Files from a newer major or minor version than the app supports fail with
+ * UNSUPPORTED_SCHEMA_VERSION, as do older files no migration covers. A
+ * migration that throws fails with MIGRATION_FAILED.
+ *
+ * @param data - The parsed JSON of a module file
+ * @param migrations - Ordered migrations (default: SCHEMA_MIGRATIONS)
+ * @param target - Schema version to migrate to (default: SCHEMA_VERSION)
+ */
+export function migrateModuleFile(
+  data: unknown,
+  migrations: readonly SchemaMigration[] = SCHEMA_MIGRATIONS,
+  target: string = SCHEMA_VERSION
+): Result<RawModuleFile> {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return { success: false, error: 'module file must be a JSON object', code: ModuleErrorCode.INVALID_TYPE };
+  }
+
+  const declared = (data as RawModuleFile).schema_version ?? DEFAULT_SCHEMA_VERSION;
+  if (typeof declared !== 'string' || !SEMVER_PATTERN.test(declared)) {
+    return {
+      success: false,
+      error: 'schema_version must be a semantic version (e.g. "1.0.0")',
+      code: ModuleErrorCode.INVALID_FORMAT,
+    };
+  }
+  if (compareVersions(declared, target) > 0 && !isSameMinorVersion(declared, target)) {
+    return {
+      success: false,
+      error: `schema_version ${declared} is newer than the supported ${target}; update the app to open this module`,
+      code: ModuleErrorCode.UNSUPPORTED_SCHEMA_VERSION,
+    };
+  }
+
+  let file = data as RawModuleFile;
+  let version = declared;
+  while (!isSameMinorVersion(version, target)) {
+    const migration = migrations.find((candidate) => candidate.from === version);
+    if (!migration || compareVersions(migration.to, version) <= 0) {
+      return {
+        success: false,
+        error: `schema_version ${version} is not supported and cannot be migrated to ${target}`,
+        code: ModuleErrorCode.UNSUPPORTED_SCHEMA_VERSION,
+      };
+    }
+    try {
+      file = { ...migration.migrate(structuredClone(file)), schema_version: migration.to };
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        error: `Migrating schema ${migration.from} to ${migration.to} failed: ${reason}`,
+        code: ModuleErrorCode.MIGRATION_FAILED,
+      };
+    }
+    version = migration.to;
+  }
+  return { success: true, data: file };
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import { CardType, exampleVocabularyModule } from '../../models';
+import { createModulePackage, PackageErrorCode, readModulePackage, sha256Hex } from './modulePackage';
+
+const NOW = new Date('2025-03-01T12:00:00Z');
+const PERRO = '/modules/spanish-animals/media/perro.jpg';
+const media = new Map([[PERRO, new Uint8Array([1, 2, 3])]]);
+
+async function repack(edit: (files: Record<string, Uint8Array>) => void): Promise<Uint8Array> {
+  const files = unzipSync(await createModulePackage(exampleVocabularyModule, NOW, { media }));
+  edit(files);
+  return zipSync(files);
+}
+
+describe('modulePackage', () => {
+  it('should bundle media with a manifest of sizes and hashes', async () => {
+    const files = unzipSync(await createModulePackage(exampleVocabularyModule, NOW, { media }));
+    expect(Object.keys(files).sort()).toEqual(['manifest.json', 'media/perro.jpg', 'module.json']);
+
+    const manifest = JSON.parse(strFromU8(files['manifest.json']));
+    expect(manifest).toMatchObject({
+      format_version: 1,
+      module_id: 'spanish-animals-basics',
+      created_at: NOW.toISOString(),
+    });
+    expect(manifest.files).toContainEqual({
+      path: 'media/perro.jpg',
+      size: 3,
+      sha256: await sha256Hex(new Uint8Array([1, 2, 3])),
+    });
+  });
+
+  it('should read back a package with bundled media referenced by path', async () => {
+    const result = await readModulePackage(await createModulePackage(exampleVocabularyModule, NOW, { media }));
+    if (!result.success) throw new Error(result.error);
+
+    const [perro, gato] = result.data.module.entries;
+    expect(perro.cards[0]).toMatchObject({ type: CardType.IMAGE, imageUrl: 'media/perro.jpg' });
+    expect(gato.cards[0]).toMatchObject({ imageUrl: '/modules/spanish-animals/media/gato.jpg' });
+    expect(perro.progress).toBeUndefined();
+    expect(result.data.media).toEqual(new Map([['media/perro.jpg', new Uint8Array([1, 2, 3])]]));
+  });
+
+  it('should reject altered, unlisted and missing files', async () => {
+    const altered = await readModulePackage(
+      await repack((files) => (files['media/perro.jpg'] = new Uint8Array([9, 9, 9])))
+    );
+    expect(altered).toMatchObject({ success: false, code: PackageErrorCode.INTEGRITY_MISMATCH });
+
+    const unlisted = await readModulePackage(await repack((files) => (files['media/extra.png'] = new Uint8Array([0]))));
+    expect(unlisted).toMatchObject({ success: false, code: PackageErrorCode.INTEGRITY_MISMATCH });
+
+    const missing = await readModulePackage(await repack((files) => delete files['media/perro.jpg']));
+    expect(missing).toMatchObject({ success: false, code: PackageErrorCode.MISSING_MEDIA });
+  });
+
+  it('should accept directory entries', async () => {
+    const packaged = await repack((files) => (files['media/'] = new Uint8Array(0)));
+    expect(Object.keys(unzipSync(packaged))).toContain('media/');
+    expect((await readModulePackage(packaged)).success).toBe(true);
+  });
+
+  it('should reject path traversal', async () => {
+    const result = await readModulePackage(await repack((files) => (files['../evil.js'] = strToU8('alert(1)'))));
+    expect(result).toMatchObject({ success: false, code: PackageErrorCode.UNSAFE_PATH });
+
+    const directory = await readModulePackage(await repack((files) => (files['../'] = new Uint8Array(0))));
+    expect(directory).toMatchObject({ success: false, code: PackageErrorCode.UNSAFE_PATH });
+  });
+
+  it('should reject a manifest describing another module or version', async () => {
+    const editManifest = (changes: Record<string, string>) =>
+      repack((files) => {
+        const manifest = JSON.parse(strFromU8(files['manifest.json']));
+        files['manifest.json'] = strToU8(JSON.stringify({ ...manifest, ...changes }));
+      });
+
+    const otherModule = await readModulePackage(await editManifest({ module_id: 'spanish-food' }));
+    expect(otherModule).toMatchObject({ success: false, code: PackageErrorCode.INVALID_MANIFEST });
+    const otherVersion = await readModulePackage(await editManifest({ module_version: '9.0.0' }));
+    expect(otherVersion).toMatchObject({ success: false, code: PackageErrorCode.INVALID_MANIFEST });
+  });
+
+  it('should reject newer formats and non-zip data', async () => {
+    const newer = await readModulePackage(
+      await repack((files) => {
+        const manifest = JSON.parse(strFromU8(files['manifest.json']));
+        files['manifest.json'] = strToU8(JSON.stringify({ ...manifest, format_version: 99 }));
+      })
+    );
+    expect(newer).toMatchObject({ success: false, code: PackageErrorCode.UNSUPPORTED_PACKAGE_VERSION });
+
+    const garbage = await readModulePackage(strToU8('not a zip'));
+    expect(garbage).toMatchObject({ success: false, code: PackageErrorCode.INVALID_PACKAGE });
+  });
+});
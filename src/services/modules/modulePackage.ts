@@ -0,0 +1,287 @@
+/**
+ * Self-contained module packages (.vocabone).
+ * A package is a zip archive holding the module file, the media its cards
+ * reference under `media/`, and a manifest listing every file with its size
+ * and SHA-256 so a reader can verify the package before installing it.
+ * Cards inside a package refer to bundled media by package path
+ * (e.g. "media/perro.jpg").
+ */
+
+import { strFromU8, strToU8, unzipSync, zipSync, type Unzipped } from 'fflate';
+import type { Result, VocabularyModule } from '../../models';
+import { isSafeArchivePath, mapMediaUrls, MediaFileNames } from './mediaFiles';
+import { exportModuleJson } from './moduleExporter';
+import { importModuleJson } from './moduleParser';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Package format version written to new manifests */
+export const PACKAGE_FORMAT_VERSION = 1;
+
+/** File extension of module packages */
+export const PACKAGE_FILE_EXTENSION = '.vocabone';
+
+/** Name of the manifest inside a package */
+export const PACKAGE_MANIFEST_FILE = 'manifest.json';
+
+/** Name of the module file inside a package */
+export const PACKAGE_MODULE_FILE = 'module.json';
+
+/** Folder holding bundled media inside a package */
+export const PACKAGE_MEDIA_FOLDER = 'media/';
+
+/**
+ * Error codes returned when a package cannot be read.
+ */
+export enum PackageErrorCode {
+  /** The data is not a zip archive */
+  INVALID_PACKAGE = 'INVALID_PACKAGE',
+  /** The manifest is missing, malformed, or describes another module or version */
+  INVALID_MANIFEST = 'INVALID_MANIFEST',
+  /** The package was written by a newer format version */
+  UNSUPPORTED_PACKAGE_VERSION = 'UNSUPPORTED_PACKAGE_VERSION',
+  /** A file path is absolute or escapes the package */
+  UNSAFE_PATH = 'UNSAFE_PATH',
+  /** A file's size or hash differs from the manifest, or is not listed in it */
+  INTEGRITY_MISMATCH = 'INTEGRITY_MISMATCH',
+  /** A file listed in the manifest, or referenced by a card, is missing */
+  MISSING_MEDIA = 'MISSING_MEDIA',
+}
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * One file listed in a package manifest.
+ */
+export interface PackageFileEntry {
+  path: string;
+  /** Size in bytes */
+  size: number;
+  /** Hex-encoded SHA-256 of the contents */
+  sha256: string;
+}
+
+/**
+ * The manifest.json of a package (snake_case, like the module file format).
+ */
+export interface PackageManifest {
+  format_version: number;
+  module_id: string;
+  module_version: string;
+  created_at: string;
+  /** Every other file in the package, module file included */
+  files: PackageFileEntry[];
+}
+
+/**
+ * Options controlling what is written to a package.
+ */
+export interface ModulePackageOptions {
+  /**
+   * Media contents by the URL cards use for them. Cards pointing at these URLs
+   * are rewritten to the bundled copy; other URLs are kept as they are.
+   */
+  media?: Map<string, Uint8Array>;
+  /** Include per-user data in the module file (see ModuleExportOptions) */
+  includeUserData?: boolean;
+}
+
+/**
+ * A verified package.
+ */
+export interface ModulePackage {
+  /** The module, with bundled media referenced by package path */
+  module: VocabularyModule;
+  manifest: PackageManifest;
+  /** Bundled media contents by package path */
+  media: Map<string, Uint8Array>;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function failure(error: string, code: PackageErrorCode): Result<never> {
+  return { success: false, error, code };
+}
+
+/**
+ * Hex-encoded SHA-256 of some bytes.
+ */
+export async function sha256Hex(data: Uint8Array): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+  return Array.from(digest, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function isFileEntry(value: unknown): value is PackageFileEntry {
+  if (typeof value !== 'object' || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.path === 'string' &&
+    Number.isInteger(entry.size) &&
+    typeof entry.sha256 === 'string' &&
+    /^[0-9a-f]{64}$/.test(entry.sha256)
+  );
+}
+
+function parseManifest(json: string): Result<PackageManifest> {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return failure('The package manifest is not valid JSON', PackageErrorCode.INVALID_MANIFEST);
+  }
+
+  const manifest = (typeof data === 'object' && data !== null ? data : {}) as Record<string, unknown>;
+  if (!Number.isInteger(manifest.format_version)) {
+    return failure('The package manifest has no format_version', PackageErrorCode.INVALID_MANIFEST);
+  }
+  if ((manifest.format_version as number) > PACKAGE_FORMAT_VERSION) {
+    return failure(
+      `Package format ${manifest.format_version} is newer than the supported format ${PACKAGE_FORMAT_VERSION}`,
+      PackageErrorCode.UNSUPPORTED_PACKAGE_VERSION
+    );
+  }
+  if (
+    typeof manifest.module_id !== 'string' ||
+    typeof manifest.module_version !== 'string' ||
+    typeof manifest.created_at !== 'string' ||
+    !Array.isArray(manifest.files) ||
+    !manifest.files.every(isFileEntry)
+  ) {
+    return failure('The package manifest is malformed', PackageErrorCode.INVALID_MANIFEST);
+  }
+  return { success: true, data: manifest as unknown as PackageManifest };
+}
+
+/**
+ * Checks every archive member against the manifest: paths must be safe,
+ * every file must be listed, and sizes and hashes must match. Directory
+ * entries (names ending in "/") are allowed and need no listing.
+ */
+async function verifyFiles(files: Unzipped, manifest: PackageManifest): Promise<Result<void>> {
+  const listed = new Map(manifest.files.map((entry) => [entry.path, entry]));
+  const archived = Object.keys(files).map((path) => (path.endsWith('/') ? path.slice(0, -1) : path));
+  const unsafe = [...archived, ...listed.keys()].find((path) => !isSafeArchivePath(path));
+  if (unsafe !== undefined) {
+    return failure(`Unsafe path in package: "${unsafe}"`, PackageErrorCode.UNSAFE_PATH);
+  }
+
+  for (const path of Object.keys(files)) {
+    if (path !== PACKAGE_MANIFEST_FILE && !listed.has(path) && !path.endsWith('/')) {
+      return failure(`"${path}" is not listed in the manifest`, PackageErrorCode.INTEGRITY_MISMATCH);
+    }
+  }
+
+  for (const entry of manifest.files) {
+    const data = files[entry.path];
+    if (!data) return failure(`"${entry.path}" is missing from the package`, PackageErrorCode.MISSING_MEDIA);
+    if (data.length !== entry.size || (await sha256Hex(data)) !== entry.sha256) {
+      return failure(`"${entry.path}" does not match the manifest`, PackageErrorCode.INTEGRITY_MISMATCH);
+    }
+  }
+  return { success: true, data: undefined };
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Writes a module and its media as a .vocabone package.
+ *
+ * @example
+ * ```typescript
+ * const data = await createModulePackage(module, new Date(), {
+ *   media: new Map([['/modules/spanish/media/perro.jpg', perroBytes]]),
+ * });
+ * ```
+ */
+export async function createModulePackage(
+  module: VocabularyModule,
+  now: Date,
+  options: ModulePackageOptions = {}
+): Promise<Uint8Array> {
+  const media = options.media ?? new Map<string, Uint8Array>();
+  const names = new MediaFileNames();
+  const packaged = mapMediaUrls(module, (url) =>
+    media.has(url) ? `${PACKAGE_MEDIA_FOLDER}${names.name(url)}` : url
+  );
+
+  const contents: Record<string, Uint8Array> = {
+    [PACKAGE_MODULE_FILE]: strToU8(exportModuleJson(packaged, { includeUserData: options.includeUserData })),
+  };
+  for (const [url, name] of names.entries()) {
+    contents[`${PACKAGE_MEDIA_FOLDER}${name}`] = media.get(url) as Uint8Array;
+  }
+
+  const files: PackageFileEntry[] = [];
+  for (const [path, data] of Object.entries(contents)) {
+    files.push({ path, size: data.length, sha256: await sha256Hex(data) });
+  }
+  const manifest: PackageManifest = {
+    format_version: PACKAGE_FORMAT_VERSION,
+    module_id: module.moduleId,
+    module_version: module.version,
+    created_at: now.toISOString(),
+    files,
+  };
+
+  return zipSync({ [PACKAGE_MANIFEST_FILE]: strToU8(JSON.stringify(manifest, null, 2)), ...contents });
+}
+
+/**
+ * Reads and verifies a .vocabone package. Fails without returning anything
+ * if any file is unlisted, altered, missing, or has an unsafe path, if the
+ * manifest names another module id or version than the bundled module, or if
+ * a card refers to a package path that is not bundled.
+ */
+export async function readModulePackage(data: Uint8Array): Promise<Result<ModulePackage>> {
+  let files: Unzipped;
+  try {
+    files = unzipSync(data);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return failure(`Not a valid module package: ${reason}`, PackageErrorCode.INVALID_PACKAGE);
+  }
+
+  const manifestFile = files[PACKAGE_MANIFEST_FILE];
+  if (!manifestFile) return failure('The package has no manifest', PackageErrorCode.INVALID_MANIFEST);
+  const manifest = parseManifest(strFromU8(manifestFile));
+  if (!manifest.success) return manifest;
+
+  const verified = await verifyFiles(files, manifest.data);
+  if (!verified.success) return verified;
+
+  const moduleFile = files[PACKAGE_MODULE_FILE];
+  if (!moduleFile) return failure('The package has no module file', PackageErrorCode.INVALID_PACKAGE);
+  const module = importModuleJson(strFromU8(moduleFile));
+  if (!module.success) return module;
+  if (module.data.moduleId !== manifest.data.module_id || module.data.version !== manifest.data.module_version) {
+    return failure(
+      `The manifest describes ${manifest.data.module_id} ${manifest.data.module_version}, ` +
+        `but the package holds ${module.data.moduleId} ${module.data.version}`,
+      PackageErrorCode.INVALID_MANIFEST
+    );
+  }
+
+  const media = new Map<string, Uint8Array>();
+  for (const { path } of manifest.data.files) {
+    if (path.startsWith(PACKAGE_MEDIA_FOLDER)) media.set(path, files[path]);
+  }
+
+  const missing: string[] = [];
+  mapMediaUrls(module.data, (url) => {
+    if (url.startsWith(PACKAGE_MEDIA_FOLDER) && !media.has(url)) missing.push(url);
+    return url;
+  });
+  if (missing.length > 0) {
+    return failure(`Media referenced by cards is not bundled: ${missing.join(', ')}`, PackageErrorCode.MISSING_MEDIA);
+  }
+
+  return { success: true, data: { module: module.data, manifest: manifest.data, media } };
+}
@@ -0,0 +1,212 @@
+import { describe, it, expect } from 'vitest';
+import { CardType, isFailure, isSuccess } from '../../models';
+import { importModule, importModuleJson } from './moduleParser';
+import { ModuleErrorCode, type SchemaModuleFile } from './moduleSchema';
+
+function buildModuleFile(): SchemaModuleFile {
+  return {
+    schema_version: '1.0.0',
+    module_metadata: {
+      module_id: 'spanish-animals-basics',
+      title: 'Spanish Animals - Basics',
+      version: '1.0.0',
+      language: 'es',
+      author: 'VocabOne Team',
+      tags: ['spanish', 'animals'],
+    },
+    vocabulary_entries: [
+      {
+        entry_id: 'perro-001',
+        term: 'perro',
+        difficulty: 'beginner',
+        cards: [
+          {
+            card_id: 'perro-001-img-01',
+            card_type: 'image',
+            content: {
+              image_url: 'images/golden-retriever.jpg',
+              alt_text: 'A golden retriever sitting in grass',
+              prompt_text: '¿Qué animal es este?',
+              expected_answer: 'perro',
+              alternative_answers: ['can', 'chucho'],
+            },
+          },
+          {
+            card_id: 'perro-001-cloze-01',
+            card_type: 'cloze',
+            content: {
+              sentence: 'Mi vecino pasea a su ____ todas las mañanas.',
+              missing_word: 'perro',
+              context_clues: 'mascota, animal',
+            },
+          },
+          {
+            card_id: 'perro-001-video-01',
+            card_type: 'video',
+            content: {
+              video_url: 'videos/dog.mp4',
+              duration_seconds: 8,
+              prompt_text: '¿Qué animal ves?',
+              expected_answer: 'perro',
+              playback_settings: { autoplay: true, loop: true },
+            },
+          },
+        ],
+        user_additions: { personal_notes: '' },
+      },
+    ],
+  };
+}
+
+describe('moduleParser', () => {
+  it('should map a schema module into the domain model', () => {
+    const result = importModule(buildModuleFile());
+    expect(isSuccess(result)).toBe(true);
+    if (!result.success) return;
+
+    const module = result.data;
+    expect(module.moduleId).toBe('spanish-animals-basics');
+    expect(module.language).toBe('es');
+    expect(module.author).toBe('VocabOne Team');
+
+    const [entry] = module.entries;
+    expect(entry.entryId).toBe('perro-001');
+    expect(entry.difficulty).toBe(1);
+    expect(entry.userNotes).toBeUndefined();
+    expect(entry.cards[0]).toEqual({
+      cardId: 'perro-001-img-01',
+      type: CardType.IMAGE,
+      imageUrl: 'images/golden-retriever.jpg',
+      altText: 'A golden retriever sitting in grass',
+      prompt: '¿Qué animal es este?',
+      expectedAnswer: 'perro',
+      alternateAnswers: ['can', 'chucho'],
+    });
+  });
+
+  it('should default the cloze expected answer to the missing word and use clues as hint', () => {
+    const result = importModule(buildModuleFile());
+    if (!result.success) throw new Error(result.error);
+    const cloze = result.data.entries[0].cards[1];
+    expect(cloze).toMatchObject({
+      type: CardType.CLOZE,
+      blank: 'perro',
+      expectedAnswer: 'perro',
+      hint: 'mascota, animal',
+    });
+  });
+
+  it('should expand inline cloze markup into one card per cloze number', () => {
+    const file = buildModuleFile();
+    file.vocabulary_entries[0].cards[1].content = {
+      sentence: 'El {{c1::perro}} {{c2::corre|corría::verb}} y {{c2::ladra}}.',
+      context_clues: 'mascota',
+    };
+    const result = importModule(file);
+    if (!result.success) throw new Error(result.error);
+
+    const cards = result.data.entries[0].cards;
+    expect(cards.map((card) => card.cardId)).toEqual([
+      'perro-001-img-01',
+      'perro-001-cloze-01-c1',
+      'perro-001-cloze-01-c2',
+      'perro-001-video-01',
+    ]);
+    expect(cards[1]).toMatchObject({ sentence: 'El ___ corre y ladra.', expectedAnswer: 'perro', hint: 'mascota' });
+    expect(cards[2]).toMatchObject({
+      sentence: 'El perro ___ y ___.',
+      blanks: [{ answer: 'corre', alternateAnswers: ['corría'], hint: 'verb' }, { answer: 'ladra' }],
+    });
+  });
+
+  it('should read video playback settings', () => {
+    const result = importModule(buildModuleFile());
+    if (!result.success) throw new Error(result.error);
+    expect(result.data.entries[0].cards[2]).toMatchObject({ duration: 8, loop: true });
+  });
+
+  it('should read speaking cards', () => {
+    const file = buildModuleFile();
+    file.vocabulary_entries[0].cards.push({
+      card_id: 'perro-001-speak-01',
+      card_type: 'speaking',
+      content: {
+        prompt_text: 'Di la palabra',
+        expected_answer: 'perro',
+        reference_audio_url: 'audio/perro.mp3',
+      },
+    });
+    const result = importModule(file);
+    if (!result.success) throw new Error(result.error);
+    expect(result.data.entries[0].cards[3]).toEqual({
+      cardId: 'perro-001-speak-01',
+      type: CardType.SPEAKING,
+      prompt: 'Di la palabra',
+      expectedAnswer: 'perro',
+      referenceAudioUrl: 'audio/perro.mp3',
+    });
+  });
+
+  it('should report the JSON path of a missing card field', () => {
+    const file = buildModuleFile();
+    delete file.vocabulary_entries[0].cards[0].content.image_url;
+    const result = importModule(file);
+    expect(isFailure(result)).toBe(true);
+    if (result.success) return;
+    expect(result.error).toBe('vocabulary_entries[0].cards[0].content.image_url missing');
+    expect(result.code).toBe(ModuleErrorCode.MISSING_FIELD);
+  });
+
+  it.each([
+    ['module_id', 'Spanish Animals', ModuleErrorCode.INVALID_FORMAT],
+    ['language', 'spa', ModuleErrorCode.INVALID_FORMAT],
+    ['version', '1.0', ModuleErrorCode.INVALID_FORMAT],
+    ['title', 42, ModuleErrorCode.INVALID_TYPE],
+  ])('should reject invalid module_metadata.%s', (field, value, code) => {
+    const file = buildModuleFile();
+    (file.module_metadata as unknown as Record<string, unknown>)[field] = value;
+    const result = importModule(file);
+    expect(result).toMatchObject({ success: false, code });
+    if (!result.success) expect(result.error).toContain(`module_metadata.${field}`);
+  });
+
+  it('should reject unknown card types', () => {
+    const file = buildModuleFile();
+    file.vocabulary_entries[0].cards[0].card_type = 'hologram';
+    expect(importModule(file)).toMatchObject({ success: false, code: ModuleErrorCode.UNKNOWN_CARD_TYPE });
+  });
+
+  it('should reject empty entry and card arrays', () => {
+    const file = buildModuleFile();
+    file.vocabulary_entries[0].cards = [];
+    expect(importModule(file)).toMatchObject({
+      success: false,
+      code: ModuleErrorCode.EMPTY_ARRAY,
+      error: 'vocabulary_entries[0].cards must not be empty',
+    });
+  });
+
+  it('should reject duplicate entry and card ids', () => {
+    const file = buildModuleFile();
+    file.vocabulary_entries.push(structuredClone(file.vocabulary_entries[0]));
+    expect(importModule(file)).toMatchObject({ success: false, code: ModuleErrorCode.DUPLICATE_ID });
+
+    const cards = buildModuleFile();
+    cards.vocabulary_entries[0].cards[1].card_id = 'perro-001-img-01';
+    expect(importModule(cards)).toMatchObject({ success: false, code: ModuleErrorCode.DUPLICATE_ID });
+  });
+
+  it('should reject unsupported schema versions', () => {
+    const file = buildModuleFile();
+    file.schema_version = '2.0.0';
+    expect(importModule(file)).toMatchObject({
+      success: false,
+      code: ModuleErrorCode.UNSUPPORTED_SCHEMA_VERSION,
+    });
+  });
+
+  it('should report invalid JSON text', () => {
+    expect(importModuleJson('{ not json')).toMatchObject({ success: false, code: ModuleErrorCode.INVALID_JSON });
+    expect(isSuccess(importModuleJson(JSON.stringify(buildModuleFile())))).toBe(true);
+  });
+});
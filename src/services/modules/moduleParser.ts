@@ -0,0 +1,480 @@
+/**
+ * Module importer.
+ * Validates a module file in the published snake_case schema format and maps
+ * it into the camelCase VocabularyModule domain model.
+ */
+
+import {
+  AUTHORED_CARD_TYPES,
+  CardType,
+  ReviewQuality,
+  type AuthoredCardType,
+  type Card,
+  type CardProgress,
+  type ClozeBlank,
+  type Result,
+  type SchedulerId,
+  type UserProgress,
+  type VocabularyEntry,
+  type VocabularyModule,
+} from '../../models';
+import { compact } from '../../utils/compact';
+import { KEBAB_CASE_PATTERN, LANGUAGE_CODE_PATTERN, SEMVER_PATTERN } from '../validation/modelValidator';
+import { generateClozeCards, hasClozeMarkers } from './clozeMarkup';
+import { migrateModuleFile } from './moduleMigrations';
+import { ModuleErrorCode, SCHEMA_DIFFICULTY_LEVELS, type SchemaDifficulty } from './moduleSchema';
+
+const MAX_TITLE_LENGTH = 100;
+
+const CARD_TYPES = new Set<string>(AUTHORED_CARD_TYPES);
+const STATS_CARD_TYPES = new Set<string>(Object.values(CardType));
+const REVIEW_QUALITIES = new Set<unknown>(Object.values(ReviewQuality));
+const SCHEDULER_IDS = new Set<string>(['sm2', 'fsrs'] satisfies SchedulerId[]);
+
+// =============================================================================
+// FIELD READERS
+// =============================================================================
+
+/**
+ * Raised internally when the file is invalid; converted to a failed Result
+ * at the public boundary.
+ */
+class ModuleParseError extends Error {
+  constructor(
+    message: string,
+    readonly code: ModuleErrorCode
+  ) {
+    super(message);
+  }
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function fail(message: string, code: ModuleErrorCode): never {
+  throw new ModuleParseError(message, code);
+}
+
+function requireField(obj: JsonObject, key: string, path: string): unknown {
+  const value = obj[key];
+  if (value === undefined || value === null) {
+    fail(`${join(path, key)} missing`, ModuleErrorCode.MISSING_FIELD);
+  }
+  return value;
+}
+
+function readObject(obj: JsonObject, key: string, path: string): JsonObject {
+  const value = requireField(obj, key, path);
+  if (!isObject(value)) fail(`${join(path, key)} must be an object`, ModuleErrorCode.INVALID_TYPE);
+  return value;
+}
+
+function readOptionalObject(obj: JsonObject, key: string, path: string): JsonObject | undefined {
+  if (obj[key] === undefined || obj[key] === null) return undefined;
+  return readObject(obj, key, path);
+}
+
+function readString(obj: JsonObject, key: string, path: string): string {
+  const value = requireField(obj, key, path);
+  if (typeof value !== 'string') fail(`${join(path, key)} must be a string`, ModuleErrorCode.INVALID_TYPE);
+  if (value.trim() === '') fail(`${join(path, key)} must not be empty`, ModuleErrorCode.INVALID_FORMAT);
+  return value;
+}
+
+function readOptionalString(obj: JsonObject, key: string, path: string): string | undefined {
+  const value = obj[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') fail(`${join(path, key)} must be a string`, ModuleErrorCode.INVALID_TYPE);
+  return value;
+}
+
+function readOptionalNumber(obj: JsonObject, key: string, path: string): number | undefined {
+  const value = obj[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    fail(`${join(path, key)} must be a number`, ModuleErrorCode.INVALID_TYPE);
+  }
+  return value;
+}
+
+function readOptionalBoolean(obj: JsonObject, key: string, path: string): boolean | undefined {
+  const value = obj[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'boolean') fail(`${join(path, key)} must be a boolean`, ModuleErrorCode.INVALID_TYPE);
+  return value;
+}
+
+function readArray(obj: JsonObject, key: string, path: string): unknown[] {
+  const value = requireField(obj, key, path);
+  if (!Array.isArray(value)) fail(`${join(path, key)} must be an array`, ModuleErrorCode.INVALID_TYPE);
+  if (value.length === 0) fail(`${join(path, key)} must not be empty`, ModuleErrorCode.EMPTY_ARRAY);
+  return value;
+}
+
+function readOptionalStringArray(obj: JsonObject, key: string, path: string): string[] | undefined {
+  const value = obj[key];
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value)) fail(`${join(path, key)} must be an array`, ModuleErrorCode.INVALID_TYPE);
+  value.forEach((item, i) => {
+    if (typeof item !== 'string') fail(`${join(path, key)}[${i}] must be a string`, ModuleErrorCode.INVALID_TYPE);
+  });
+  return value as string[];
+}
+
+function readPattern(obj: JsonObject, key: string, path: string, pattern: RegExp, description: string): string {
+  const value = readString(obj, key, path);
+  if (!pattern.test(value)) fail(`${join(path, key)} must be ${description}`, ModuleErrorCode.INVALID_FORMAT);
+  return value;
+}
+
+// =============================================================================
+// MAPPERS
+// =============================================================================
+
+function parseClozeBlanks(content: JsonObject, path: string): ClozeBlank[] | undefined {
+  if (content.blanks === undefined || content.blanks === null) return undefined;
+  return readArray(content, 'blanks', path).map((raw, i) => {
+    const blankPath = `${join(path, 'blanks')}[${i}]`;
+    if (!isObject(raw)) fail(`${blankPath} must be an object`, ModuleErrorCode.INVALID_TYPE);
+    return compact({
+      answer: readString(raw, 'answer', blankPath),
+      alternateAnswers: readOptionalStringArray(raw, 'alternative_answers', blankPath),
+      hint: readOptionalString(raw, 'hint', blankPath),
+    });
+  });
+}
+
+/**
+ * Parses one card of a module file. Cloze cards written with inline markers
+ * expand into one card per cloze number (see clozeMarkup).
+ */
+function parseCard(raw: unknown, path: string): Card[] {
+  if (!isObject(raw)) fail(`${path} must be an object`, ModuleErrorCode.INVALID_TYPE);
+
+  const cardId = readString(raw, 'card_id', path);
+  const cardType = readString(raw, 'card_type', path);
+  if (!CARD_TYPES.has(cardType)) {
+    fail(`${join(path, 'card_type')} "${cardType}" is not a supported card type`, ModuleErrorCode.UNKNOWN_CARD_TYPE);
+  }
+  const tags = readOptionalStringArray(raw, 'tags', path);
+
+  const contentPath = join(path, 'content');
+  const content = readObject(raw, 'content', path);
+  const hint = readOptionalString(content, 'hint', contentPath);
+  const alternateAnswers = readOptionalStringArray(content, 'alternative_answers', contentPath);
+  const base = { cardId, hint, tags };
+
+  switch (cardType as AuthoredCardType) {
+    case CardType.IMAGE:
+      return [
+        compact({
+          ...base,
+          type: CardType.IMAGE,
+          imageUrl: readString(content, 'image_url', contentPath),
+          prompt: readString(content, 'prompt_text', contentPath),
+          expectedAnswer: readString(content, 'expected_answer', contentPath),
+          alternateAnswers,
+          altText: readOptionalString(content, 'alt_text', contentPath),
+        }),
+      ];
+    case CardType.AUDIO:
+      return [
+        compact({
+          ...base,
+          type: CardType.AUDIO,
+          audioUrl: readString(content, 'audio_url', contentPath),
+          prompt: readString(content, 'prompt_text', contentPath),
+          expectedAnswer: readString(content, 'expected_answer', contentPath),
+          alternateAnswers,
+          duration: readOptionalNumber(content, 'duration_seconds', contentPath),
+        }),
+      ];
+    case CardType.VIDEO: {
+      const playback = readOptionalObject(content, 'playback_settings', contentPath);
+      return [
+        compact({
+          ...base,
+          type: CardType.VIDEO,
+          videoUrl: readString(content, 'video_url', contentPath),
+          prompt: readString(content, 'prompt_text', contentPath),
+          expectedAnswer: readString(content, 'expected_answer', contentPath),
+          alternateAnswers,
+          duration: readOptionalNumber(content, 'duration_seconds', contentPath),
+          loop: playback ? readOptionalBoolean(playback, 'loop', join(contentPath, 'playback_settings')) : undefined,
+        }),
+      ];
+    }
+    case CardType.DEFINITION:
+      return [
+        compact({
+          ...base,
+          type: CardType.DEFINITION,
+          definition: readString(content, 'definition', contentPath),
+          expectedAnswer: readString(content, 'expected_answer', contentPath),
+          alternateAnswers,
+          partOfSpeech: readOptionalString(content, 'part_of_speech', contentPath),
+          exampleSentence: readOptionalString(content, 'example_sentence', contentPath),
+        }),
+      ];
+    case CardType.CLOZE: {
+      const sentence = readString(content, 'sentence', contentPath);
+      const clozeHint = hint ?? readOptionalString(content, 'context_clues', contentPath);
+      if (hasClozeMarkers(sentence)) {
+        return generateClozeCards({ cardId, hint: clozeHint, tags }, sentence);
+      }
+      const blank = readString(content, 'missing_word', contentPath);
+      return [
+        compact({
+          ...base,
+          type: CardType.CLOZE,
+          hint: clozeHint,
+          sentence,
+          blank,
+          expectedAnswer: readOptionalString(content, 'expected_answer', contentPath) ?? blank,
+          alternateAnswers,
+          blankPosition: readOptionalNumber(content, 'missing_word_position', contentPath),
+          blanks: parseClozeBlanks(content, contentPath),
+        }),
+      ];
+    }
+    case CardType.TRIVIA:
+      return [
+        compact({
+          ...base,
+          type: CardType.TRIVIA,
+          question: readString(content, 'question', contentPath),
+          expectedAnswer: readString(content, 'expected_answer', contentPath),
+          alternateAnswers,
+          explanation: readOptionalString(content, 'explanation', contentPath),
+        }),
+      ];
+    case CardType.SPEAKING:
+      return [
+        compact({
+          ...base,
+          type: CardType.SPEAKING,
+          prompt: readString(content, 'prompt_text', contentPath),
+          expectedAnswer: readString(content, 'expected_answer', contentPath),
+          alternateAnswers,
+          referenceAudioUrl: readOptionalString(content, 'reference_audio_url', contentPath),
+        }),
+      ];
+  }
+}
+
+function parseDifficulty(obj: JsonObject, path: string): number | undefined {
+  const value = obj.difficulty;
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'string' && value in SCHEMA_DIFFICULTY_LEVELS) {
+    return SCHEMA_DIFFICULTY_LEVELS[value as SchemaDifficulty];
+  }
+  if (typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= 5) {
+    return value;
+  }
+  return fail(
+    `${join(path, 'difficulty')} must be "beginner", "intermediate", "advanced" or an integer 1-5`,
+    ModuleErrorCode.INVALID_FORMAT
+  );
+}
+
+function parseProgress(raw: JsonObject, path: string): UserProgress {
+  const number = (key: string): number => {
+    const value = readOptionalNumber(raw, key, path);
+    return value === undefined ? fail(`${join(path, key)} missing`, ModuleErrorCode.MISSING_FIELD) : value;
+  };
+  const lastReview = raw.last_review === null ? null : readString(raw, 'last_review', path);
+  const mastered = readOptionalBoolean(raw, 'mastered', path);
+
+  const schedulerId = readOptionalString(raw, 'scheduler_id', path);
+  if (schedulerId !== undefined && !SCHEDULER_IDS.has(schedulerId)) {
+    fail(`${join(path, 'scheduler_id')} "${schedulerId}" is not a supported scheduler`, ModuleErrorCode.INVALID_FORMAT);
+  }
+  const statePath = join(path, 'scheduler_state');
+  const rawState = readOptionalObject(raw, 'scheduler_state', path);
+  const schedulerState = rawState
+    ? Object.fromEntries(Object.keys(rawState).map((key) => [key, readOptionalNumber(rawState, key, statePath) ?? 0]))
+    : undefined;
+
+  return compact({
+    interval: number('interval'),
+    easeFactor: number('ease_factor'),
+    repetitions: number('repetitions'),
+    lastReview,
+    nextReview: readString(raw, 'next_review', path),
+    totalReviews: number('total_reviews'),
+    correctCount: number('correct_count'),
+    incorrectCount: number('incorrect_count'),
+    streak: number('streak'),
+    mastered: mastered ?? fail(`${join(path, 'mastered')} missing`, ModuleErrorCode.MISSING_FIELD),
+    schedulerId: schedulerId as SchedulerId | undefined,
+    schedulerState,
+  });
+}
+
+function parseCardStats(raw: JsonObject, path: string, cardId: string): CardProgress {
+  const number = (key: string): number => {
+    const value = readOptionalNumber(raw, key, path);
+    return value === undefined ? fail(`${join(path, key)} missing`, ModuleErrorCode.MISSING_FIELD) : value;
+  };
+  const cardType = readString(raw, 'card_type', path);
+  if (!STATS_CARD_TYPES.has(cardType)) {
+    fail(`${join(path, 'card_type')} "${cardType}" is not a card type`, ModuleErrorCode.UNKNOWN_CARD_TYPE);
+  }
+  const lastQuality = raw.last_quality ?? null;
+  if (lastQuality !== null && !REVIEW_QUALITIES.has(lastQuality)) {
+    fail(`${join(path, 'last_quality')} must be a review quality`, ModuleErrorCode.INVALID_FORMAT);
+  }
+
+  return compact({
+    cardId,
+    cardType: cardType as CardType,
+    shownCount: number('shown_count'),
+    correctCount: number('correct_count'),
+    lastShown: raw.last_shown === null ? null : readString(raw, 'last_shown', path),
+    averageResponseTime: number('average_response_time_ms'),
+    timedCount: readOptionalNumber(raw, 'timed_count', path),
+    lastQuality: lastQuality as ReviewQuality | null,
+  });
+}
+
+function parseEntry(raw: unknown, path: string): VocabularyEntry {
+  if (!isObject(raw)) fail(`${path} must be an object`, ModuleErrorCode.INVALID_TYPE);
+
+  const entryId = readString(raw, 'entry_id', path);
+  const term = readString(raw, 'term', path);
+
+  const cardIds = new Set<string>();
+  const cards = readArray(raw, 'cards', path).flatMap((rawCard, i) => {
+    const cardPath = `${join(path, 'cards')}[${i}]`;
+    const parsed = parseCard(rawCard, cardPath);
+    for (const card of parsed) {
+      if (cardIds.has(card.cardId)) {
+        fail(`${join(cardPath, 'card_id')} "${card.cardId}" is duplicated`, ModuleErrorCode.DUPLICATE_ID);
+      }
+      cardIds.add(card.cardId);
+    }
+    return parsed;
+  });
+
+  const additionsPath = join(path, 'user_additions');
+  const additions = readOptionalObject(raw, 'user_additions', path);
+  const rawProgress = additions ? readOptionalObject(additions, 'progress', additionsPath) : undefined;
+  const rawReverse = additions ? readOptionalObject(additions, 'reverse_progress', additionsPath) : undefined;
+  const rawStats = additions ? readOptionalObject(additions, 'card_stats', additionsPath) : undefined;
+  const userNotes = additions ? readOptionalString(additions, 'personal_notes', additionsPath) : undefined;
+  const statsPath = join(additionsPath, 'card_stats');
+  const cardProgress = rawStats
+    ? Object.fromEntries(
+        Object.keys(rawStats).map((cardId) => [
+          cardId,
+          parseCardStats(readObject(rawStats, cardId, statsPath), join(statsPath, cardId), cardId),
+        ])
+      )
+    : undefined;
+
+  return compact({
+    entryId,
+    term,
+    cards,
+    progress: rawProgress ? parseProgress(rawProgress, join(additionsPath, 'progress')) : undefined,
+    reverseProgress: rawReverse ? parseProgress(rawReverse, join(additionsPath, 'reverse_progress')) : undefined,
+    cardProgress,
+    pronunciation: readOptionalString(raw, 'pronunciation', path),
+    userNotes: userNotes || undefined,
+    difficulty: parseDifficulty(raw, path),
+    createdAt: readOptionalString(raw, 'created_at', path),
+    updatedAt: readOptionalString(raw, 'updated_at', path),
+  });
+}
+
+function parseModuleFile(raw: unknown): VocabularyModule {
+  if (!isObject(raw)) fail('module file must be a JSON object', ModuleErrorCode.INVALID_TYPE);
+
+  const metaPath = 'module_metadata';
+  const meta = readObject(raw, 'module_metadata', '');
+  const moduleId = readPattern(meta, 'module_id', metaPath, KEBAB_CASE_PATTERN, 'kebab-case');
+  const title = readString(meta, 'title', metaPath);
+  if (title.length > MAX_TITLE_LENGTH) {
+    fail(`${metaPath}.title must be at most ${MAX_TITLE_LENGTH} characters`, ModuleErrorCode.INVALID_FORMAT);
+  }
+  const version = readPattern(meta, 'version', metaPath, SEMVER_PATTERN, 'a semantic version (e.g. "1.0.0")');
+  const language = readPattern(meta, 'language', metaPath, LANGUAGE_CODE_PATTERN, 'an ISO 639-1 code (e.g. "es")');
+
+  const entryIds = new Set<string>();
+  const entries = readArray(raw, 'vocabulary_entries', '').map((rawEntry, i) => {
+    const entryPath = `vocabulary_entries[${i}]`;
+    const entry = parseEntry(rawEntry, entryPath);
+    if (entryIds.has(entry.entryId)) {
+      fail(`${entryPath}.entry_id "${entry.entryId}" is duplicated`, ModuleErrorCode.DUPLICATE_ID);
+    }
+    entryIds.add(entry.entryId);
+    return entry;
+  });
+
+  return compact({
+    moduleId,
+    title,
+    language,
+    entries,
+    version,
+    description: readOptionalString(meta, 'description', metaPath),
+    author: readOptionalString(meta, 'author', metaPath),
+    tags: readOptionalStringArray(meta, 'tags', metaPath),
+    createdAt: readOptionalString(meta, 'created_date', metaPath),
+    updatedAt: readOptionalString(meta, 'updated_date', metaPath),
+    license: readOptionalString(meta, 'license', metaPath),
+  });
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Validates an already-parsed module file and converts it to a VocabularyModule.
+ * Files written with an older schema are migrated first (see moduleMigrations.ts).
+ * On failure, `error` names the JSON path of the first problem found
+ * (e.g. "vocabulary_entries[3].cards[0].content.image_url missing") and
+ * `code` is a ModuleErrorCode.
+ */
+export function importModule(data: unknown): Result<VocabularyModule> {
+  const migrated = migrateModuleFile(data);
+  if (!migrated.success) return migrated;
+  try {
+    return { success: true, data: parseModuleFile(migrated.data) };
+  } catch (error) {
+    if (error instanceof ModuleParseError) {
+      return { success: false, error: error.message, code: error.code };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Parses module file text and converts it to a VocabularyModule.
+ *
+ * @example
+ * ```typescript
+ * const result = importModuleJson(await file.text());
+ * if (!result.success) {
+ *   console.error(`${result.code}: ${result.error}`);
+ * }
+ * ```
+ */
+export function importModuleJson(json: string): Result<VocabularyModule> {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return { success: false, error: `Invalid JSON: ${reason}`, code: ModuleErrorCode.INVALID_JSON };
+  }
+  return importModule(data);
+}
@@ -0,0 +1,176 @@
+/**
+ * Types describing the published module file format (module-schema-v1.1.0.json).
+ * The file format is snake_case with card fields nested under `content`;
+ * the app's domain types in src/models are camelCase and flattened.
+ */
+
+/** Schema version written by the exporter and accepted by the importer */
+export const SCHEMA_VERSION = '1.1.0';
+
+/**
+ * Error codes returned in `Result.code` when a module file cannot be loaded.
+ */
+export enum ModuleErrorCode {
+  /** The file is not valid JSON */
+  INVALID_JSON = 'INVALID_JSON',
+  /** A required field is absent */
+  MISSING_FIELD = 'MISSING_FIELD',
+  /** A field has the wrong JSON type */
+  INVALID_TYPE = 'INVALID_TYPE',
+  /** A field has the right type but violates a pattern or range */
+  INVALID_FORMAT = 'INVALID_FORMAT',
+  /** A required array is empty */
+  EMPTY_ARRAY = 'EMPTY_ARRAY',
+  /** `card_type` is not a supported card type */
+  UNKNOWN_CARD_TYPE = 'UNKNOWN_CARD_TYPE',
+  /** An entry or card id is used more than once */
+  DUPLICATE_ID = 'DUPLICATE_ID',
+  /** The file declares a schema version this build cannot read */
+  UNSUPPORTED_SCHEMA_VERSION = 'UNSUPPORTED_SCHEMA_VERSION',
+  /** A schema migration failed on the file */
+  MIGRATION_FAILED = 'MIGRATION_FAILED',
+}
+
+/**
+ * Entry difficulty as written in module files.
+ */
+export type SchemaDifficulty = 'beginner' | 'intermediate' | 'advanced';
+
+/**
+ * One blank of a multi-blank cloze card as written in module files.
+ */
+export interface SchemaClozeBlank {
+  answer: string;
+  alternative_answers?: string[];
+  hint?: string;
+}
+
+/**
+ * Card content as written in module files. Which fields apply depends on
+ * the card's `card_type`; see 02-data-schema.md.
+ */
+export interface SchemaCardContent {
+  image_url?: string;
+  alt_text?: string;
+  audio_url?: string;
+  /** Model recording on speaking cards */
+  reference_audio_url?: string;
+  video_url?: string;
+  duration_seconds?: number;
+  playback_settings?: { autoplay?: boolean; loop?: boolean; show_controls?: boolean; mute_by_default?: boolean };
+  prompt_text?: string;
+  definition?: string;
+  part_of_speech?: string;
+  example_sentence?: string;
+  sentence?: string;
+  missing_word?: string;
+  missing_word_position?: number;
+  /** Blanks asked together, one per "___" in `sentence` (written by exports of multi-blank cards) */
+  blanks?: SchemaClozeBlank[];
+  context_clues?: string;
+  question?: string;
+  explanation?: string;
+  expected_answer?: string;
+  alternative_answers?: string[];
+  hint?: string;
+}
+
+/**
+ * A card as written in module files.
+ */
+export interface SchemaCard {
+  card_id: string;
+  card_type: string;
+  tags?: string[];
+  content: SchemaCardContent;
+}
+
+/**
+ * Per-user progress as written in module files (only present on exports
+ * that opt in to including user data).
+ */
+export interface SchemaProgress {
+  interval: number;
+  ease_factor: number;
+  repetitions: number;
+  last_review: string | null;
+  next_review: string;
+  total_reviews: number;
+  correct_count: number;
+  incorrect_count: number;
+  streak: number;
+  mastered: boolean;
+  scheduler_id?: string;
+  scheduler_state?: Record<string, number>;
+}
+
+/**
+ * Per-card answer statistics as written in module files.
+ */
+export interface SchemaCardStats {
+  card_type: string;
+  shown_count: number;
+  correct_count: number;
+  last_shown: string | null;
+  average_response_time_ms: number;
+  timed_count?: number;
+  last_quality: number | null;
+}
+
+/**
+ * Learner customizations attached to an entry.
+ */
+export interface SchemaUserAdditions {
+  personal_notes?: string;
+  progress?: SchemaProgress;
+  /** Progress of the recognition direction (reverse cards) */
+  reverse_progress?: SchemaProgress;
+  /** Card statistics keyed by card_id, derived reverse cards included */
+  card_stats?: Record<string, SchemaCardStats>;
+}
+
+/**
+ * A vocabulary entry as written in module files.
+ */
+export interface SchemaVocabularyEntry {
+  entry_id: string;
+  term: string;
+  pronunciation?: string;
+  difficulty?: SchemaDifficulty | number;
+  created_at?: string;
+  updated_at?: string;
+  cards: SchemaCard[];
+  user_additions?: SchemaUserAdditions;
+}
+
+/**
+ * Module-level metadata as written in module files.
+ */
+export interface SchemaModuleMetadata {
+  module_id: string;
+  title: string;
+  version: string;
+  language: string;
+  description?: string;
+  author?: string;
+  license?: string;
+  tags?: string[];
+  created_date?: string;
+  updated_date?: string;
+}
+
+/**
+ * Top-level shape of a module file.
+ */
+export interface SchemaModuleFile {
+  schema_version?: string;
+  module_metadata: SchemaModuleMetadata;
+  vocabulary_entries: SchemaVocabularyEntry[];
+}
+
+/** Module file difficulty labels and the 1-5 difficulty they map to */
+export const SCHEMA_DIFFICULTY_LEVELS: Record<SchemaDifficulty, number> = {
+  beginner: 1,
+  intermediate: 3,
+  advanced: 5,
+};
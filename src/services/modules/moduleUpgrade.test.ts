@@ -0,0 +1,228 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CardType,
+  ReviewQuality,
+  exampleVocabularyModule,
+  type Card,
+  type UserProgress,
+  type VocabularyEntry,
+  type VocabularyModule,
+} from '../../models';
+import {
+  EntryChangeKind,
+  UpgradeErrorCode,
+  decayProgress,
+  formatUpgradeReport,
+  planModuleUpgrade,
+} from './moduleUpgrade';
+
+const NOW = new Date('2025-03-01T12:00:00Z');
+
+const progress: UserProgress = {
+  interval: 30,
+  easeFactor: 2.6,
+  repetitions: 4,
+  lastReview: '2025-02-10T12:00:00.000Z',
+  nextReview: '2025-03-12T12:00:00.000Z',
+  totalReviews: 5,
+  correctCount: 4,
+  incorrectCount: 1,
+  streak: 4,
+  mastered: true,
+};
+
+const [perro, gato] = exampleVocabularyModule.entries;
+
+const installed: VocabularyModule = {
+  ...exampleVocabularyModule,
+  entries: [
+    {
+      ...perro,
+      progress,
+      userNotes: 'Not "pero"',
+      cardProgress: {
+        'perro-001-img-01': {
+          cardId: 'perro-001-img-01',
+          cardType: CardType.IMAGE,
+          shownCount: 2,
+          correctCount: 2,
+          lastShown: '2025-02-10T12:00:00.000Z',
+          averageResponseTime: 1500,
+          lastQuality: ReviewQuality.GOOD,
+        },
+        'perro-001-def-01': {
+          cardId: 'perro-001-def-01',
+          cardType: CardType.DEFINITION,
+          shownCount: 3,
+          correctCount: 2,
+          lastShown: '2025-02-10T12:00:00.000Z',
+          averageResponseTime: 4000,
+          lastQuality: ReviewQuality.HARD,
+        },
+      },
+    },
+    { ...gato, progress },
+  ],
+};
+
+const raton: VocabularyEntry = {
+  entryId: 'raton-003',
+  term: 'ratón',
+  cards: [
+    { cardId: 'raton-003-def-01', type: CardType.DEFINITION, definition: 'A small rodent', expectedAnswer: 'ratón' },
+  ],
+};
+
+function withCards(entry: VocabularyEntry, update: (card: Card) => Card): VocabularyEntry {
+  return { ...entry, cards: entry.cards.map(update) };
+}
+
+function plan(entries: VocabularyEntry[], version = '1.1.0') {
+  const result = planModuleUpgrade(installed, { ...exampleVocabularyModule, version, entries }, NOW);
+  if (!result.success) throw new Error(result.error);
+  return result.data;
+}
+
+describe('moduleUpgrade', () => {
+  it('should refuse other modules and versions that are not newer', () => {
+    const incoming = { ...exampleVocabularyModule, moduleId: 'other', version: '2.0.0' };
+    const other = planModuleUpgrade(installed, incoming, NOW);
+    expect(other).toMatchObject({ success: false, code: UpgradeErrorCode.MODULE_MISMATCH });
+
+    const same = planModuleUpgrade(installed, exampleVocabularyModule, NOW);
+    expect(same).toMatchObject({ success: false, code: UpgradeErrorCode.VERSION_NOT_NEWER });
+  });
+
+  it('should keep progress and notes of unchanged and cosmetically updated entries', () => {
+    const upgrade = plan([withCards(perro, (card) => ({ ...card, hint: 'Woof' })), gato]);
+    const [perroChange, gatoChange] = upgrade.changes;
+    expect(perroChange).toMatchObject({ kind: EntryChangeKind.UPDATED, progress: 'kept' });
+    expect(perroChange.changedCards).toHaveLength(3);
+    expect(gatoChange).toMatchObject({ kind: EntryChangeKind.UNCHANGED, progress: 'kept' });
+
+    const merged = upgrade.module.entries[0];
+    expect(merged.progress).toEqual(progress);
+    expect(merged.userNotes).toBe('Not "pero"');
+    expect(merged.cards[0].hint).toBe('Woof');
+    expect(Object.keys(merged.cardProgress ?? {})).toEqual(['perro-001-img-01', 'perro-001-def-01']);
+  });
+
+  it('should decay progress when answers change and drop stats of changed cards', () => {
+    const changed = withCards(perro, (card) =>
+      card.type === CardType.DEFINITION ? { ...card, alternateAnswers: ['el perro', 'can'] } : card
+    );
+    const upgrade = plan([changed, gato]);
+    expect(upgrade.changes[0]).toMatchObject({
+      kind: EntryChangeKind.ANSWERS_CHANGED,
+      progress: 'decayed',
+      changedCards: ['perro-001-def-01'],
+    });
+
+    const merged = upgrade.module.entries[0];
+    expect(merged.progress).toMatchObject({
+      interval: 15,
+      repetitions: 1,
+      streak: 0,
+      mastered: false,
+      totalReviews: 5,
+    });
+    expect(merged.progress?.nextReview).toBe('2025-03-12T12:00:00.000Z');
+    expect(Object.keys(merged.cardProgress ?? {})).toEqual(['perro-001-img-01']);
+  });
+
+  it('should decay recognition progress when a definition or picture changes', () => {
+    const reverseStats = (cardId: string) => ({
+      cardId,
+      cardType: CardType.REVERSE,
+      shownCount: 1,
+      correctCount: 1,
+      lastShown: '2025-02-10T12:00:00.000Z',
+      averageResponseTime: 2000,
+      lastQuality: ReviewQuality.GOOD,
+    });
+    const studied: VocabularyEntry = {
+      ...installed.entries[0],
+      reverseProgress: progress,
+      cardProgress: {
+        'perro-001-img-01-rev': reverseStats('perro-001-img-01-rev'),
+        'perro-001-def-01-rev': reverseStats('perro-001-def-01-rev'),
+      },
+    };
+    const redefined = withCards(perro, (card) =>
+      card.type === CardType.DEFINITION ? { ...card, definition: 'A loyal four-legged friend' } : card
+    );
+    const result = planModuleUpgrade(
+      { ...installed, entries: [studied, gato] },
+      { ...exampleVocabularyModule, version: '1.1.0', entries: [redefined, gato] },
+      NOW
+    );
+    if (!result.success) throw new Error(result.error);
+
+    const merged = result.data.module.entries[0];
+    expect(result.data.changes[0]).toMatchObject({ kind: EntryChangeKind.UPDATED, progress: 'decayed' });
+    expect(merged.progress).toEqual(progress);
+    expect(merged.reverseProgress).toMatchObject({ interval: 15, repetitions: 1, totalReviews: 5 });
+    expect(Object.keys(merged.cardProgress ?? {})).toEqual(['perro-001-img-01-rev']);
+
+    const renamed = planModuleUpgrade(
+      { ...installed, entries: [studied, gato] },
+      { ...exampleVocabularyModule, version: '1.1.0', entries: [{ ...perro, term: 'perrito' }, gato] },
+      NOW
+    );
+    expect(renamed.success && renamed.data.module.entries[0]).not.toHaveProperty('reverseProgress');
+  });
+
+  it('should report recognition-only progress as reset when the term changes', () => {
+    const recognized: VocabularyEntry = { ...gato, reverseProgress: progress };
+    const result = planModuleUpgrade(
+      { ...installed, entries: [perro, recognized] },
+      { ...exampleVocabularyModule, version: '1.1.0', entries: [perro, { ...gato, term: 'gatito' }] },
+      NOW
+    );
+    if (!result.success) throw new Error(result.error);
+    expect(result.data.changes[1]).toMatchObject({ kind: EntryChangeKind.TERM_CHANGED, progress: 'reset' });
+    expect(formatUpgradeReport(result.data)).toContain('  gato → gatito: progress reset');
+  });
+
+  it('should reset progress when the term changes but keep notes', () => {
+    const upgrade = plan([{ ...perro, term: 'perrito' }, gato]);
+    expect(upgrade.changes[0]).toMatchObject({
+      kind: EntryChangeKind.TERM_CHANGED,
+      previousTerm: 'perro',
+      progress: 'reset',
+    });
+    expect(upgrade.module.entries[0]).not.toHaveProperty('progress');
+    expect(upgrade.module.entries[0]).not.toHaveProperty('cardProgress');
+    expect(upgrade.module.entries[0].userNotes).toBe('Not "pero"');
+  });
+
+  it('should archive removed entries and report every change', () => {
+    const upgrade = plan([perro, raton]);
+    expect(upgrade.archived).toEqual([installed.entries[1]]);
+    expect(upgrade.module.entries.map((entry) => entry.entryId)).toEqual(['perro-001', 'raton-003']);
+    expect(upgrade.changes.map((change) => change.kind)).toEqual([
+      EntryChangeKind.UNCHANGED,
+      EntryChangeKind.ADDED,
+      EntryChangeKind.REMOVED,
+    ]);
+    expect(formatUpgradeReport(upgrade)).toBe(
+      [
+        'spanish-animals-basics 1.0.0 → 1.1.0',
+        'Added (1):',
+        '  ratón: 1 card(s) added',
+        'Removed (1):',
+        '  gato: 2 card(s) removed, archived with its progress',
+        'Unchanged: 1 entries',
+      ].join('\n')
+    );
+  });
+
+  it('should scale FSRS stability along with the interval', () => {
+    const fsrs: UserProgress = { ...progress, schedulerId: 'fsrs', schedulerState: { stability: 40, difficulty: 5 } };
+    expect(decayProgress(fsrs, 0.25, NOW)).toMatchObject({
+      interval: 8,
+      schedulerState: { stability: 10, difficulty: 5 },
+      nextReview: '2025-03-09T12:00:00.000Z',
+    });
+  });
+});
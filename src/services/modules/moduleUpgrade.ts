@@ -0,0 +1,404 @@
+/**
+ * Module version upgrades.
+ * Installing a new version of a module compares the installed version with
+ * the new one, entry by entry, and carries the learner's data (progress, card
+ * statistics, notes) from the installed entries over to the new content.
+ * Entries are matched by entryId and cards by cardId. The planner
+ * is pure; the plan and its report are shown to the learner before
+ * ModuleRepository.applyUpgrade stores it.
+ */
+
+import { addDays, min } from 'date-fns';
+import type { Card, Result, UserProgress, VocabularyEntry, VocabularyModule } from '../../models';
+import { compact } from '../../utils/compact';
+import { compareVersions } from '../../utils/version';
+import { readMemoryState } from '../spacedRepetition/fsrsAlgorithm';
+import { deriveReverseCards } from '../spacedRepetition/reverseCards';
+import { MASTERY_INTERVAL_DAYS } from '../spacedRepetition/sm2Algorithm';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Share of an entry's interval kept when its answers change */
+export const DEFAULT_ANSWER_CHANGE_DECAY = 0.5;
+
+/**
+ * Error codes returned when an upgrade cannot be planned.
+ */
+export enum UpgradeErrorCode {
+  /** The new module has a different moduleId */
+  MODULE_MISMATCH = 'MODULE_MISMATCH',
+  /** The new version is not greater than the installed one */
+  VERSION_NOT_NEWER = 'VERSION_NOT_NEWER',
+}
+
+/**
+ * How an entry differs between the installed and the new version.
+ */
+export enum EntryChangeKind {
+  /** Only in the new version */
+  ADDED = 'added',
+  /** Only in the installed version; archived with its progress */
+  REMOVED = 'removed',
+  /** Same content in both versions */
+  UNCHANGED = 'unchanged',
+  /** Content changed but the term and every answer are the same */
+  UPDATED = 'updated',
+  /** Same term, but answers of at least one card changed */
+  ANSWERS_CHANGED = 'answers_changed',
+  /** The term itself changed */
+  TERM_CHANGED = 'term_changed',
+}
+
+/**
+ * What happened to the learner's progress on an entry.
+ */
+export type ProgressAction = 'kept' | 'decayed' | 'reset' | 'archived' | 'none';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Options controlling how progress is carried over.
+ */
+export interface ModuleUpgradeOptions {
+  /** Share of the interval kept when an entry's answers change (0-1) */
+  answerChangeDecay?: number;
+}
+
+/**
+ * One entry's difference between the two versions.
+ */
+export interface EntryChange {
+  entryId: string;
+  kind: EntryChangeKind;
+  /** Term in the new version (installed version for removed entries) */
+  term: string;
+  /** Term in the installed version, when it changed */
+  previousTerm?: string;
+  progress: ProgressAction;
+  /** Cards only in the new version */
+  addedCards: string[];
+  /** Cards only in the installed version */
+  removedCards: string[];
+  /** Cards present in both versions whose content changed */
+  changedCards: string[];
+}
+
+/**
+ * Result of merging a new module version with the installed one.
+ */
+export interface ModuleUpgradePlan {
+  moduleId: string;
+  fromVersion: string;
+  toVersion: string;
+  /** The new version with the learner's data merged in */
+  module: VocabularyModule;
+  /** Removed entries with their progress, to be archived */
+  archived: VocabularyEntry[];
+  /** One change per entry of either version, in new-version order then removed entries */
+  changes: EntryChange[];
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function failure(error: string, code: UpgradeErrorCode): Result<never> {
+  return { success: false, error, code };
+}
+
+/** JSON with object keys sorted, so content compares independent of key order */
+function canonical(value: unknown): string {
+  return JSON.stringify(value, (_key, nested: unknown) =>
+    nested && typeof nested === 'object' && !Array.isArray(nested)
+      ? Object.fromEntries(Object.entries(nested).sort(([a], [b]) => a.localeCompare(b)))
+      : nested
+  );
+}
+
+/** An entry's authored content, without learner data and timestamps */
+function entryContent(entry: VocabularyEntry): unknown {
+  const content = { ...entry };
+  delete content.progress;
+  delete content.reverseProgress;
+  delete content.cardProgress;
+  delete content.userNotes;
+  delete content.createdAt;
+  delete content.updatedAt;
+  return content;
+}
+
+function cardAnswers(card: Card): string {
+  return canonical([card.expectedAnswer, ...(card.alternateAnswers ?? [])]);
+}
+
+/**
+ * Scales down the interval of an entry whose answers changed so it comes
+ * back sooner, keeping its review history. FSRS stability is scaled alike.
+ */
+export function decayProgress(progress: UserProgress, factor: number, now: Date): UserProgress {
+  const interval = Math.max(1, Math.round(progress.interval * factor));
+  const memory = readMemoryState(progress.schedulerState);
+  const nextReview = min([new Date(progress.nextReview), addDays(now, interval)]);
+  return compact({
+    ...progress,
+    interval,
+    repetitions: Math.min(progress.repetitions, 1),
+    streak: 0,
+    mastered: interval > MASTERY_INTERVAL_DAYS,
+    nextReview: nextReview.toISOString(),
+    schedulerState: memory
+      ? { ...progress.schedulerState, stability: memory.stability * factor }
+      : progress.schedulerState,
+  });
+}
+
+/** Whether a reverse card kept in the new version asks for a different definition or picture */
+function reverseAnswersChanged(installed: VocabularyEntry, next: VocabularyEntry): boolean {
+  const before = new Map(deriveReverseCards(installed).map((card) => [card.cardId, card.expectedAnswer]));
+  return deriveReverseCards(next).some((card) => {
+    const previous = before.get(card.cardId);
+    return previous !== undefined && previous !== card.expectedAnswer;
+  });
+}
+
+/**
+ * Compares the two versions of an entry. Progress in either direction is
+ * reported: any is reset when the term changes, and it is reported decayed
+ * when the answers of the production or the recognition direction changed.
+ */
+function diffEntry(installed: VocabularyEntry, next: VocabularyEntry): EntryChange {
+  const before = new Map(installed.cards.map((card) => [card.cardId, card]));
+  const after = new Map(next.cards.map((card) => [card.cardId, card]));
+  const common = next.cards.filter((card) => before.has(card.cardId));
+  const studied = Boolean(installed.progress || installed.reverseProgress);
+  const reverseDecayed = Boolean(installed.reverseProgress) && reverseAnswersChanged(installed, next);
+
+  const change: EntryChange = {
+    entryId: next.entryId,
+    kind: EntryChangeKind.UNCHANGED,
+    term: next.term,
+    progress: reverseDecayed ? 'decayed' : studied ? 'kept' : 'none',
+    addedCards: next.cards.filter((card) => !before.has(card.cardId)).map((card) => card.cardId),
+    removedCards: installed.cards.filter((card) => !after.has(card.cardId)).map((card) => card.cardId),
+    changedCards: common
+      .filter((card) => canonical(card) !== canonical(before.get(card.cardId)))
+      .map((card) => card.cardId),
+  };
+
+  if (installed.term !== next.term) {
+    return {
+      ...change,
+      kind: EntryChangeKind.TERM_CHANGED,
+      previousTerm: installed.term,
+      progress: studied ? 'reset' : 'none',
+    };
+  }
+  if (common.some((card) => cardAnswers(card) !== cardAnswers(before.get(card.cardId) as Card))) {
+    return {
+      ...change,
+      kind: EntryChangeKind.ANSWERS_CHANGED,
+      progress: installed.progress ? 'decayed' : change.progress,
+    };
+  }
+  if (canonical(entryContent(installed)) !== canonical(entryContent(next))) {
+    return { ...change, kind: EntryChangeKind.UPDATED };
+  }
+  return change;
+}
+
+/**
+ * Carries the learner's data from the installed entry over to the new one.
+ * Card statistics survive only for cards that still exist with the same
+ * answers. Recognition progress decays when the answer of a reverse card
+ * (a definition or picture) changed, and is otherwise kept.
+ */
+function mergeEntry(
+  installed: VocabularyEntry,
+  next: VocabularyEntry,
+  change: EntryChange,
+  decay: number,
+  now: Date
+): VocabularyEntry {
+  const { progress, reverseProgress, cardProgress, userNotes } = installed;
+  const merged: VocabularyEntry = compact({
+    ...next,
+    progress: undefined,
+    reverseProgress: undefined,
+    cardProgress: undefined,
+    userNotes,
+  });
+  if (change.kind === EntryChangeKind.TERM_CHANGED) return merged;
+
+  const before = new Map(installed.cards.map((card) => [card.cardId, card]));
+  const keptCards = next.cards
+    .filter((card) => {
+      const previous = before.get(card.cardId);
+      return previous && cardAnswers(card) === cardAnswers(previous);
+    })
+    .flatMap((card) => cardProgress?.[card.cardId] ?? []);
+  const decayed = change.kind === EntryChangeKind.ANSWERS_CHANGED;
+
+  const reverseBefore = new Map(deriveReverseCards(installed).map((card) => [card.cardId, card.expectedAnswer]));
+  for (const card of deriveReverseCards(next)) {
+    const stats = cardProgress?.[card.cardId];
+    if (stats && reverseBefore.get(card.cardId) === card.expectedAnswer) keptCards.push(stats);
+  }
+  const reverseDecayed = reverseAnswersChanged(installed, next);
+
+  return compact({
+    ...merged,
+    progress: progress && decayed ? decayProgress(progress, decay, now) : progress,
+    reverseProgress:
+      reverseProgress && reverseDecayed ? decayProgress(reverseProgress, decay, now) : reverseProgress,
+    cardProgress:
+      keptCards.length > 0 ? Object.fromEntries(keptCards.map((stats) => [stats.cardId, stats])) : undefined,
+  });
+}
+
+function describeChange(change: EntryChange): string {
+  const cards = [
+    change.addedCards.length > 0 ? `${change.addedCards.length} card(s) added` : '',
+    change.removedCards.length > 0 ? `${change.removedCards.length} card(s) removed` : '',
+    change.changedCards.length > 0 ? `${change.changedCards.length} card(s) changed` : '',
+  ].filter(Boolean);
+  const progress: Record<ProgressAction, string> = {
+    kept: 'progress kept',
+    decayed: 'progress partially reset',
+    reset: 'progress reset',
+    archived: 'archived with its progress',
+    none: '',
+  };
+  const term = change.previousTerm ? `${change.previousTerm} → ${change.term}` : change.term;
+  const details = [...cards, progress[change.progress]].filter(Boolean).join(', ');
+  return details ? `  ${term}: ${details}` : `  ${term}`;
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Plans the upgrade of an installed module (with progress attached, see
+ * ModuleRepository.getModuleWithProgress) to a newer version. Each entry is
+ * classified by comparing its installed and new content only; earlier
+ * releases are not consulted.
+ *
+ * - Unchanged or cosmetically updated entries keep their progress and notes.
+ * - Entries whose answers changed keep their history, but their interval is
+ *   decayed so they come back sooner. Recognition progress is decayed when a
+ *   definition or picture changed, and reported as such.
+ * - Entries whose term changed start over in both directions; notes are kept.
+ * - Removed entries are returned in `archived` instead of being dropped.
+ *
+ * @example
+ * ```typescript
+ * const plan = planModuleUpgrade(installed, incoming, new Date());
+ * if (plan.success && confirm(formatUpgradeReport(plan.data))) {
+ *   await modules.applyUpgrade(plan.data, new Date());
+ * }
+ * ```
+ */
+export function planModuleUpgrade(
+  installed: VocabularyModule,
+  incoming: VocabularyModule,
+  now: Date,
+  options: ModuleUpgradeOptions = {}
+): Result<ModuleUpgradePlan> {
+  if (installed.moduleId !== incoming.moduleId) {
+    return failure(
+      `Cannot upgrade "${installed.moduleId}" with module "${incoming.moduleId}"`,
+      UpgradeErrorCode.MODULE_MISMATCH
+    );
+  }
+  if (compareVersions(incoming.version, installed.version) <= 0) {
+    return failure(
+      `Version ${incoming.version} is not newer than the installed version ${installed.version}`,
+      UpgradeErrorCode.VERSION_NOT_NEWER
+    );
+  }
+
+  const decay = options.answerChangeDecay ?? DEFAULT_ANSWER_CHANGE_DECAY;
+  const installedEntries = new Map(installed.entries.map((entry) => [entry.entryId, entry]));
+  const incomingIds = new Set(incoming.entries.map((entry) => entry.entryId));
+  const changes: EntryChange[] = [];
+
+  const entries = incoming.entries.map((next) => {
+    const previous = installedEntries.get(next.entryId);
+    if (!previous) {
+      changes.push({
+        entryId: next.entryId,
+        kind: EntryChangeKind.ADDED,
+        term: next.term,
+        progress: 'none',
+        addedCards: next.cards.map((card) => card.cardId),
+        removedCards: [],
+        changedCards: [],
+      });
+      return compact({ ...next, progress: undefined, reverseProgress: undefined, cardProgress: undefined });
+    }
+    const change = diffEntry(previous, next);
+    changes.push(change);
+    return mergeEntry(previous, next, change, decay, now);
+  });
+
+  const archived = installed.entries.filter((entry) => !incomingIds.has(entry.entryId));
+  for (const entry of archived) {
+    changes.push({
+      entryId: entry.entryId,
+      kind: EntryChangeKind.REMOVED,
+      term: entry.term,
+      progress: entry.progress || entry.reverseProgress ? 'archived' : 'none',
+      addedCards: [],
+      removedCards: entry.cards.map((card) => card.cardId),
+      changedCards: [],
+    });
+  }
+
+  return {
+    success: true,
+    data: {
+      moduleId: installed.moduleId,
+      fromVersion: installed.version,
+      toVersion: incoming.version,
+      module: { ...incoming, entries },
+      archived,
+      changes,
+    },
+  };
+}
+
+/**
+ * Describes an upgrade plan as plain text for the learner to review.
+ *
+ * @example
+ * ```text
+ * spanish-animals-basics 1.0.0 → 1.1.0
+ * Added (1):
+ *   ratón: 1 card(s) added
+ * Answers changed (1):
+ *   perro: 1 card(s) changed, progress partially reset
+ * Removed (1):
+ *   gato: archived with its progress
+ * ```
+ */
+export function formatUpgradeReport(plan: ModuleUpgradePlan): string {
+  const sections: [EntryChangeKind, string][] = [
+    [EntryChangeKind.ADDED, 'Added'],
+    [EntryChangeKind.TERM_CHANGED, 'Term changed'],
+    [EntryChangeKind.ANSWERS_CHANGED, 'Answers changed'],
+    [EntryChangeKind.UPDATED, 'Updated'],
+    [EntryChangeKind.REMOVED, 'Removed'],
+  ];
+  const lines = [`${plan.moduleId} ${plan.fromVersion} → ${plan.toVersion}`];
+  for (const [kind, heading] of sections) {
+    const changes = plan.changes.filter((change) => change.kind === kind);
+    if (changes.length > 0) lines.push(`${heading} (${changes.length}):`, ...changes.map(describeChange));
+  }
+  const unchanged = plan.changes.filter((change) => change.kind === EntryChangeKind.UNCHANGED).length;
+  if (unchanged > 0) lines.push(`Unchanged: ${unchanged} entries`);
+  return lines.join('\n');
+}
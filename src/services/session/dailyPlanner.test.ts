@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { exampleLearningProgress, type VocabularyEntry, type VocabularyModule } from '../../models';
+import { forecastReviewLoad, planDailyStudy } from './dailyPlanner';
+
+const NOW = new Date('2025-03-10T09:00:00Z');
+
+function daysFromNow(days: number): string {
+  return new Date(NOW.getTime() + days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+function reviewed(id: string, dueInDays: number): VocabularyEntry {
+  const progress = { ...exampleLearningProgress, nextReview: daysFromNow(dueInDays) };
+  return { entryId: id, term: id, cards: [], progress };
+}
+
+function fresh(id: string, difficulty?: number): VocabularyEntry {
+  return { entryId: id, term: id, cards: [], difficulty };
+}
+
+function module(moduleId: string, entries: VocabularyEntry[]): VocabularyModule {
+  return { moduleId, title: moduleId, language: 'es', version: '1.0.0', entries };
+}
+
+const animals = module('animals', [
+  reviewed('perro', -3),
+  reviewed('gato', -1),
+  reviewed('pez', 4),
+  fresh('caballo', 3),
+  fresh('vaca'),
+]);
+const colors = module('colors', [fresh('rojo', 1), reviewed('azul', -5)]);
+
+describe('dailyPlanner', () => {
+  it('should plan the most overdue reviews and the easiest new entries within the limits', () => {
+    const plan = planDailyStudy([animals, colors], NOW, { reviewLimit: 2, newLimit: 2 });
+
+    expect(plan.reviews.map(({ moduleId, entry }) => `${moduleId}/${entry.entryId}`)).toEqual([
+      'colors/azul',
+      'animals/perro',
+    ]);
+    expect(plan.reviews[0].overdueDays).toBe(5);
+    expect(plan.deferredReviews).toBe(1);
+    expect(plan.newEntries.map(({ entry }) => entry.entryId)).toEqual(['rojo', 'caballo']);
+    expect(plan.remainingNew).toBe(1);
+    expect(plan.generatedAt).toBe(NOW.toISOString());
+    expect(plan.forecast).toHaveLength(30);
+  });
+
+  it('should introduce new entries in module order when asked', () => {
+    const plan = planDailyStudy([animals, colors], NOW, { newLimit: 2, newEntryOrder: 'module' });
+    expect(plan.newEntries.map(({ entry }) => entry.entryId)).toEqual(['caballo', 'vaca']);
+  });
+
+  it('should treat entries with never-reviewed progress as new', () => {
+    const unreviewed = { ...fresh('toro'), progress: { ...exampleLearningProgress, totalReviews: 0 } };
+    const plan = planDailyStudy([module('farm', [unreviewed])], NOW);
+    expect(plan.reviews).toEqual([]);
+    expect(plan.newEntries.map(({ entry }) => entry.entryId)).toEqual(['toro']);
+  });
+
+  it('should forecast reviews by simulating the schedule', () => {
+    const forecast = forecastReviewLoad([module('farm', [fresh('toro')])], NOW, { forecastDays: 8 });
+
+    expect(forecast.map((day) => day.newEntries)).toEqual([1, 0, 0, 0, 0, 0, 0, 0]);
+    // Answered GOOD, a new entry comes back after 1 day, then after 6 more
+    expect(forecast.map((day) => day.reviews)).toEqual([0, 1, 0, 0, 0, 0, 0, 1]);
+    expect(forecast[1]).toMatchObject({ offset: 1, start: daysFromNow(1), overLimit: false });
+  });
+
+  it('should put overdue reviews on the first day and flag days over the review limit', () => {
+    const forecast = forecastReviewLoad([animals, colors], NOW, { reviewLimit: 2, newLimit: 0, forecastDays: 5 });
+
+    expect(forecast.map((day) => day.reviews)).toEqual([3, 0, 0, 0, 1]);
+    expect(forecast.map((day) => day.overLimit)).toEqual([true, false, false, false, false]);
+  });
+
+  it('should show the extra load of adding a module', () => {
+    const installed = forecastReviewLoad([animals], NOW, { newLimit: 5 });
+    const withColors = forecastReviewLoad([animals, colors], NOW, { newLimit: 5 });
+    const total = (days: typeof installed): number => days.reduce((sum, day) => sum + day.reviews, 0);
+    expect(total(withColors)).toBeGreaterThan(total(installed));
+  });
+});
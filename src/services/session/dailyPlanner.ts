@@ -0,0 +1,221 @@
+/**
+ * Daily study planner.
+ * Decides today's workload across every installed module, following the
+ * daily limits of the learning-mechanics doc: due reviews come first, most
+ * overdue first, then new entries up to a limit. It also forecasts how many
+ * reviews each of the coming days will bring, so the learner can see whether
+ * a higher new-entry limit or another module would overload them.
+ *
+ * Only the production direction is planned; recognition reviews of reverse
+ * cards are extra.
+ */
+
+import { addDays } from 'date-fns';
+import { ReviewQuality, type UserProgress, type VocabularyEntry, type VocabularyModule } from '../../models';
+import { reviewWithScheduler } from '../spacedRepetition/scheduler';
+import { createInitialProgress, isDue } from '../spacedRepetition/sm2Algorithm';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** New entries introduced per day */
+export const DEFAULT_NEW_LIMIT = 10;
+
+/** Reviews per day */
+export const DEFAULT_REVIEW_LIMIT = 50;
+
+/** Days covered by the review load forecast */
+export const DEFAULT_FORECAST_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Order in which new entries are introduced.
+ * - `difficulty`: easiest first (entries without a difficulty last), then module order
+ * - `module`: modules in the order given, entries in module order
+ */
+export type NewEntryOrder = 'difficulty' | 'module';
+
+/**
+ * Options for planning the day.
+ */
+export interface DailyPlanOptions {
+  /** New entries per day (default: DEFAULT_NEW_LIMIT) */
+  newLimit?: number;
+  /** Reviews per day (default: DEFAULT_REVIEW_LIMIT) */
+  reviewLimit?: number;
+  /** Order of new entries (default: difficulty) */
+  newEntryOrder?: NewEntryOrder;
+  /** Days to forecast, today included (default: DEFAULT_FORECAST_DAYS) */
+  forecastDays?: number;
+}
+
+/**
+ * An entry selected for today.
+ */
+export interface PlannedEntry {
+  moduleId: string;
+  entry: VocabularyEntry;
+  /** Days since the review was due (0 for new entries) */
+  overdueDays: number;
+}
+
+/**
+ * Expected workload of one forecast day.
+ */
+export interface ReviewForecastDay {
+  /** Days from now (0 is the next 24 hours, overdue reviews included) */
+  offset: number;
+  /** ISO 8601 timestamp the day starts at */
+  start: string;
+  /** Reviews falling due that day */
+  reviews: number;
+  /** New entries introduced that day */
+  newEntries: number;
+  /** Whether the reviews exceed the daily review limit */
+  overLimit: boolean;
+}
+
+/**
+ * Today's workload and the outlook for the coming days.
+ */
+export interface DailyPlan {
+  /** ISO 8601 timestamp the plan was made at */
+  generatedAt: string;
+  /** Due reviews to do today, most overdue first */
+  reviews: PlannedEntry[];
+  /** New entries to introduce today */
+  newEntries: PlannedEntry[];
+  /** Due reviews left for later by the review limit */
+  deferredReviews: number;
+  /** Unreviewed entries left after today's new entries */
+  remainingNew: number;
+  forecast: ReviewForecastDay[];
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+interface ReviewedEntry {
+  moduleId: string;
+  entry: VocabularyEntry;
+  progress: UserProgress;
+}
+
+/** Entries reviewed at least once, with their progress */
+function reviewedEntries(modules: VocabularyModule[]): ReviewedEntry[] {
+  return modules.flatMap(({ moduleId, entries }) =>
+    entries.flatMap((entry) =>
+      entry.progress && entry.progress.totalReviews > 0 ? [{ moduleId, entry, progress: entry.progress }] : []
+    )
+  );
+}
+
+/** Unreviewed entries in introduction order */
+function newEntriesInOrder(modules: VocabularyModule[], order: NewEntryOrder): PlannedEntry[] {
+  const entries = modules.flatMap(({ moduleId, entries }) =>
+    entries.filter((entry) => !entry.progress?.totalReviews).map((entry) => ({ moduleId, entry, overdueDays: 0 }))
+  );
+  if (order === 'module') return entries;
+  // Array.prototype.sort is stable, so ties keep module order
+  return entries.sort((a, b) => (a.entry.difficulty ?? Infinity) - (b.entry.difficulty ?? Infinity));
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Forecasts the reviews of the coming days by simulating the schedule: every
+ * review is assumed to be answered GOOD on the day it falls due, and new
+ * entries are introduced at the daily limit until none are left. Overdue
+ * reviews all land on day 0. The review limit is not applied, so the
+ * forecast shows the full load.
+ *
+ * @example
+ * ```typescript
+ * // Would installing `candidate` push any of the next 30 days over the limit?
+ * const overloaded = forecastReviewLoad([...installed, candidate], new Date()).some((day) => day.overLimit);
+ * ```
+ */
+export function forecastReviewLoad(
+  modules: VocabularyModule[],
+  now: Date,
+  options: DailyPlanOptions = {}
+): ReviewForecastDay[] {
+  const newLimit = options.newLimit ?? DEFAULT_NEW_LIMIT;
+  const reviewLimit = options.reviewLimit ?? DEFAULT_REVIEW_LIMIT;
+  const days = options.forecastDays ?? DEFAULT_FORECAST_DAYS;
+
+  let scheduled = reviewedEntries(modules).map(({ progress }) => progress);
+  const newCount = newEntriesInOrder(modules, 'module').length;
+
+  const forecast: ReviewForecastDay[] = [];
+  for (let offset = 0; offset < days; offset++) {
+    const start = addDays(now, offset);
+    const end = addDays(now, offset + 1);
+    let reviews = 0;
+    scheduled = scheduled.map((progress) => {
+      const due = new Date(progress.nextReview);
+      if (due >= end) return progress;
+      reviews++;
+      return reviewWithScheduler(progress, ReviewQuality.GOOD, due < start ? start : due);
+    });
+
+    const introduced = Math.max(0, Math.min(newLimit, newCount - offset * newLimit));
+    for (let i = 0; i < introduced; i++) {
+      scheduled.push(reviewWithScheduler(createInitialProgress(start), ReviewQuality.GOOD, start));
+    }
+
+    forecast.push({
+      offset,
+      start: start.toISOString(),
+      reviews,
+      newEntries: introduced,
+      overLimit: reviews > reviewLimit,
+    });
+  }
+  return forecast;
+}
+
+/**
+ * Plans today's study across modules: due reviews, most overdue first, up to
+ * the review limit, then new entries up to the new-entry limit. The planned
+ * entries can be passed to a session; the limits are recommendations, so
+ * nothing stops the learner from studying more.
+ *
+ * @example
+ * ```typescript
+ * const plan = planDailyStudy(installed, new Date(), { newLimit: 15 });
+ * console.log(`${plan.reviews.length} reviews, ${plan.newEntries.length} new words today`);
+ * ```
+ */
+export function planDailyStudy(modules: VocabularyModule[], now: Date, options: DailyPlanOptions = {}): DailyPlan {
+  const newLimit = options.newLimit ?? DEFAULT_NEW_LIMIT;
+  const reviewLimit = options.reviewLimit ?? DEFAULT_REVIEW_LIMIT;
+
+  const due = reviewedEntries(modules)
+    .filter(({ progress }) => isDue(progress, now))
+    .map(({ moduleId, entry, progress }) => ({
+      moduleId,
+      entry,
+      overdueDays: (now.getTime() - new Date(progress.nextReview).getTime()) / DAY_MS,
+    }))
+    .sort((a, b) => b.overdueDays - a.overdueDays);
+  const fresh = newEntriesInOrder(modules, options.newEntryOrder ?? 'difficulty');
+
+  return {
+    generatedAt: now.toISOString(),
+    reviews: due.slice(0, reviewLimit),
+    newEntries: fresh.slice(0, newLimit),
+    deferredReviews: Math.max(0, due.length - reviewLimit),
+    remainingNew: Math.max(0, fresh.length - newLimit),
+    forecast: forecastReviewLoad(modules, now, options),
+  };
+}
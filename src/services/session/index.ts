@@ -0,0 +1,8 @@
+/**
+ * Study session orchestration.
+ */
+
+export * from './sessionManager';
+export * from './matchingExercise';
+export * from './dailyPlanner';
+export * from './studyFilter';
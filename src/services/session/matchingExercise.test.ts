@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CardType,
+  ReviewQuality,
+  exampleDefinitionCard,
+  exampleImageCard,
+  exampleNewProgress,
+  exampleTriviaCard,
+  type VocabularyEntry,
+} from '../../models';
+import { replayReviewLog } from '../spacedRepetition/reviewLog';
+import { applyMatchingResult, createMatchingCard, gradeMatching, MATCHING_PROMPTS } from './matchingExercise';
+
+const NOW = new Date('2025-03-01T09:00:00Z');
+
+function newEntry(id: string, term: string, withImage = false): VocabularyEntry {
+  const cards: VocabularyEntry['cards'] = [
+    { ...exampleDefinitionCard, cardId: `${id}-def-01`, definition: `Meaning of ${term}`, expectedAnswer: term },
+  ];
+  if (withImage) cards.push({ ...exampleImageCard, cardId: `${id}-img-01`, imageUrl: `${term}.jpg` });
+  return { entryId: id, term, cards };
+}
+
+const entries = [newEntry('uno-001', 'uno'), newEntry('dos-002', 'dos'), newEntry('tres-003', 'tres', true)];
+
+describe('matchingExercise', () => {
+  it('should pair terms of several entries with their definitions', () => {
+    const card = createMatchingCard(entries, { random: () => 0 });
+
+    expect(card).toMatchObject({
+      type: CardType.MATCHING,
+      matchKind: 'definition',
+      prompt: MATCHING_PROMPTS.definition,
+    });
+    expect(card?.pairs.map((pair) => pair.term).sort()).toEqual(['dos', 'tres', 'uno']);
+    expect(card?.pairs.find((pair) => pair.entryId === 'uno-001')).toEqual({
+      entryId: 'uno-001',
+      sourceCardId: 'uno-001-def-01',
+      term: 'uno',
+      match: 'Meaning of uno',
+    });
+    expect([...card!.matches].sort()).toEqual(card!.pairs.map((pair) => pair.match).sort());
+  });
+
+  it('should limit the number of pairs and skip entries that cannot supply one', () => {
+    const trivia: VocabularyEntry = { entryId: 'paella-001', term: 'paella', cards: [exampleTriviaCard] };
+    const card = createMatchingCard([...entries, trivia], { pairCount: 2, random: () => 0 });
+    expect(card?.pairs).toHaveLength(2);
+    expect(card?.pairs.map((pair) => pair.entryId)).not.toContain('paella-001');
+  });
+
+  it('should leave out entries whose match repeats another one', () => {
+    const twin = { ...newEntry('un-004', 'un'), cards: entries[0].cards };
+    const card = createMatchingCard([...entries, twin], { random: () => 0 });
+    expect(card?.pairs).toHaveLength(3);
+  });
+
+  it('should return null when too few entries offer the requested kind', () => {
+    expect(createMatchingCard(entries, { matchKind: 'image' })).toBeNull();
+  });
+
+  it('should grade each pair on its own', () => {
+    const card = createMatchingCard(entries, { random: () => 0 })!;
+    const result = gradeMatching(card, { 'uno-001': 'Meaning of uno', 'dos-002': 'Meaning of tres' }, 9000);
+
+    expect(result.correctCount).toBe(1);
+    expect(result.accuracy).toBeCloseTo(1 / 3);
+    const byEntry = Object.fromEntries(result.pairResults.map((pair) => [pair.entryId, pair]));
+    expect(byEntry['uno-001']).toMatchObject({ isCorrect: true, quality: ReviewQuality.GOOD });
+    expect(byEntry['dos-002']).toMatchObject({
+      isCorrect: false,
+      chosenMatch: 'Meaning of tres',
+      expectedMatch: 'Meaning of dos',
+      quality: ReviewQuality.AGAIN,
+    });
+    expect(byEntry['tres-003']).toMatchObject({ isCorrect: false, chosenMatch: undefined });
+  });
+
+  it('should review the recognition direction of every matched entry with its own outcome', () => {
+    const learning = [{ ...entries[0], progress: exampleNewProgress }, entries[1], entries[2]];
+    const outsider = newEntry('cuatro-004', 'cuatro');
+    const card = createMatchingCard(learning, { random: () => 0 })!;
+    const result = gradeMatching(card, { 'uno-001': 'Meaning of uno', 'dos-002': 'Meaning of tres' }, 9000);
+    const [uno, dos, tres, cuatro] = applyMatchingResult('numbers', [...learning, outsider], result, NOW).entries;
+
+    expect(uno.reverseProgress).toMatchObject({ repetitions: 1, totalReviews: 1, correctCount: 1 });
+    expect(uno.reverseProgress?.easeFactor).toBeCloseTo(2.36);
+    expect(uno.progress).toBe(exampleNewProgress);
+    expect(dos.reverseProgress).toMatchObject({ repetitions: 0, interval: 1, totalReviews: 1, correctCount: 0 });
+    expect(dos.progress).toBeUndefined();
+    expect(tres.reverseProgress?.totalReviews).toBe(1);
+    expect(uno.cardProgress?.['uno-001-def-01']).toBeUndefined();
+    expect(uno.cardProgress?.['uno-001-def-01-rev']).toMatchObject({
+      cardType: CardType.REVERSE,
+      shownCount: 1,
+      correctCount: 1,
+      averageResponseTime: 3000,
+    });
+    expect(cuatro).toBe(outsider);
+  });
+
+  it('should log every reviewed pair so replay rebuilds recognition progress', () => {
+    const card = createMatchingCard(entries, { random: () => 0 })!;
+    const partial = gradeMatching(card, { 'uno-001': 'Meaning of uno' }, 6000);
+    const first = applyMatchingResult('numbers', entries, partial, NOW);
+    const later = new Date('2025-03-02T09:00:00Z');
+    const answers = { 'uno-001': 'Meaning of uno', 'dos-002': 'Meaning of dos', 'tres-003': 'Meaning of tres' };
+    const second = applyMatchingResult('numbers', first.entries, gradeMatching(card, answers), later);
+
+    const log = [...first.reviewLog, ...second.reviewLog];
+    expect(first.reviewLog.find((entry) => entry.entryId === 'uno-001')).toMatchObject({
+      moduleId: 'numbers',
+      cardId: card.cardId,
+      cardType: CardType.MATCHING,
+      direction: 'recognition',
+      userAnswer: 'Meaning of uno',
+      confidence: 1,
+      answerMode: 'multiple_choice',
+      quality: ReviewQuality.GOOD,
+      responseTime: 2000,
+      rescheduled: true,
+      progressBefore: null,
+    });
+    for (const entry of second.entries) {
+      const entryLog = log.filter((logged) => logged.entryId === entry.entryId);
+      expect(replayReviewLog(entryLog, { direction: 'recognition' })).toEqual(entry.reverseProgress);
+    }
+  });
+});
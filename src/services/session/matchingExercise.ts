@@ -0,0 +1,274 @@
+/**
+ * Matching exercises.
+ * A matching card pairs several terms of a module with their definitions or
+ * pictures, taken from the entries' DefinitionCards or ImageCards. The
+ * learner matches every term, each pair is graded on its own, and each
+ * entry's recognition progress is reviewed with its pair's outcome: like a
+ * reverse card, a pair shows the term and asks for its meaning. Like multiple
+ * choice, the answers are on screen, so a correct pair is rated GOOD at most.
+ */
+
+import {
+  CardType,
+  ReviewQuality,
+  type DefinitionCard,
+  type ImageCard,
+  type MatchingCard,
+  type MatchingPair,
+  type ReviewLogEntry,
+  type VocabularyEntry,
+} from '../../models';
+import { compact } from '../../utils/compact';
+import { recordEntryCardReview } from '../spacedRepetition/cardProgress';
+import { deriveReverseCards } from '../spacedRepetition/reverseCards';
+import { reviewWithScheduler } from '../spacedRepetition/scheduler';
+import { createInitialProgress } from '../spacedRepetition/sm2Algorithm';
+import { DEFAULT_VALIDATION_CONFIG, normalizeAnswer } from '../validation/answerValidator';
+import { MULTIPLE_CHOICE_CORRECT_QUALITY, MULTIPLE_CHOICE_INCORRECT_QUALITY } from '../validation/multipleChoice';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Number of pairs in an exercise */
+export const DEFAULT_PAIR_COUNT = 5;
+
+/** Fewest pairs that make an exercise (one pair is not a choice) */
+export const MIN_PAIR_COUNT = 2;
+
+/** Prefix of matching card ids, followed by the entry ids of the pairs */
+export const MATCHING_CARD_PREFIX = 'matching-';
+
+/** Instructions shown on matching cards, by what terms are matched with */
+export const MATCHING_PROMPTS: Record<MatchingCard['matchKind'], string> = {
+  definition: 'Match each word with its meaning',
+  image: 'Match each word with its picture',
+};
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Options for building a matching exercise.
+ */
+export interface MatchingOptions {
+  /** What terms are matched with (default: whichever more entries can supply, definitions on ties) */
+  matchKind?: MatchingCard['matchKind'];
+  /** Number of pairs (default: DEFAULT_PAIR_COUNT) */
+  pairCount?: number;
+  /** Random number source in [0, 1), used to pick entries and shuffle both columns */
+  random?: () => number;
+}
+
+/**
+ * Outcome of one pair.
+ */
+export interface MatchingPairResult {
+  entryId: string;
+  sourceCardId: string;
+  term: string;
+  /** The definition or picture the term goes with */
+  expectedMatch: string;
+  /** What the learner matched the term with, if anything */
+  chosenMatch?: string;
+  isCorrect: boolean;
+  /** Review quality applied to the entry */
+  quality: ReviewQuality;
+}
+
+/**
+ * Outcome of a whole exercise.
+ */
+export interface MatchingResult {
+  cardId: string;
+  /** One result per pair, in pair order */
+  pairResults: MatchingPairResult[];
+  correctCount: number;
+  /** correctCount / number of pairs (0-1) */
+  accuracy: number;
+  /** Time taken for the whole exercise in milliseconds */
+  responseTime?: number;
+}
+
+/**
+ * Entries updated with an exercise's outcome.
+ */
+export interface AppliedMatchingResult {
+  /** The entries in their original order */
+  entries: VocabularyEntry[];
+  /** One review log entry per reviewed pair, to append to the stored review log */
+  reviewLog: ReviewLogEntry[];
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function normalize(value: string): string {
+  return normalizeAnswer(value, DEFAULT_VALIDATION_CONFIG);
+}
+
+/** The first card of an entry that can supply a match of the given kind */
+function sourceCard(entry: VocabularyEntry, kind: MatchingCard['matchKind']): DefinitionCard | ImageCard | undefined {
+  for (const card of entry.cards) {
+    if (kind === 'definition' && card.type === CardType.DEFINITION) return card;
+    if (kind === 'image' && card.type === CardType.IMAGE) return card;
+  }
+  return undefined;
+}
+
+/**
+ * The pairs every entry could contribute. Entries whose term or match
+ * repeats an earlier one are left out, so every pair has a single answer.
+ */
+function candidatePairs(entries: VocabularyEntry[], kind: MatchingCard['matchKind']): MatchingPair[] {
+  const terms = new Set<string>();
+  const matches = new Set<string>();
+  const pairs: MatchingPair[] = [];
+  for (const entry of entries) {
+    const card = sourceCard(entry, kind);
+    if (!card) continue;
+    const match = card.type === CardType.DEFINITION ? card.definition : card.imageUrl;
+    const termKey = normalize(entry.term);
+    const matchKey = normalize(match);
+    if (terms.has(termKey) || matches.has(matchKey)) continue;
+    terms.add(termKey);
+    matches.add(matchKey);
+    pairs.push({ entryId: entry.entryId, sourceCardId: card.cardId, term: entry.term, match });
+  }
+  return pairs;
+}
+
+/** Fisher-Yates shuffle driven by `random` */
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Builds a matching exercise from the entries of a module (usually the due
+ * ones). Returns null when fewer than MIN_PAIR_COUNT entries can supply a
+ * pair of the requested kind.
+ *
+ * @example
+ * ```typescript
+ * const card = createMatchingCard(module.entries, { matchKind: 'image', random: Math.random });
+ * // card.pairs[0]: { entryId: 'perro-001', term: 'perro', match: '/media/perro.jpg', … }
+ * ```
+ */
+export function createMatchingCard(entries: VocabularyEntry[], options: MatchingOptions = {}): MatchingCard | null {
+  const random = options.random ?? Math.random;
+  const definitions = candidatePairs(entries, 'definition');
+  const images = candidatePairs(entries, 'image');
+  const matchKind = options.matchKind ?? (images.length > definitions.length ? 'image' : 'definition');
+
+  const candidates = matchKind === 'image' ? images : definitions;
+  const pairs = shuffle(candidates, random).slice(0, options.pairCount ?? DEFAULT_PAIR_COUNT);
+  if (pairs.length < MIN_PAIR_COUNT) return null;
+
+  return {
+    cardId: `${MATCHING_CARD_PREFIX}${pairs.map((pair) => pair.entryId).join('+')}`,
+    type: CardType.MATCHING,
+    matchKind,
+    prompt: MATCHING_PROMPTS[matchKind],
+    pairs,
+    matches: shuffle(pairs.map((pair) => pair.match), random),
+  };
+}
+
+/**
+ * Grades the learner's pairing. Each term is correct only when matched with
+ * its own definition or picture; unmatched terms count as wrong.
+ *
+ * @param card - The exercise shown
+ * @param answers - The match picked for each term, by entry id
+ * @param responseTime - Time taken for the whole exercise in milliseconds
+ */
+export function gradeMatching(
+  card: MatchingCard,
+  answers: Record<string, string>,
+  responseTime?: number
+): MatchingResult {
+  const pairResults = card.pairs.map((pair): MatchingPairResult => {
+    const chosenMatch = answers[pair.entryId];
+    const isCorrect = chosenMatch === pair.match;
+    return {
+      entryId: pair.entryId,
+      sourceCardId: pair.sourceCardId,
+      term: pair.term,
+      expectedMatch: pair.match,
+      chosenMatch,
+      isCorrect,
+      quality: isCorrect ? MULTIPLE_CHOICE_CORRECT_QUALITY : MULTIPLE_CHOICE_INCORRECT_QUALITY,
+    };
+  });
+  const correctCount = pairResults.filter((result) => result.isCorrect).length;
+
+  return {
+    cardId: card.cardId,
+    pairResults,
+    correctCount,
+    accuracy: correctCount / pairResults.length,
+    responseTime,
+  };
+}
+
+/**
+ * Feeds a graded exercise back into the entries: each entry of a pair has
+ * its `reverseProgress` reviewed with the pair's quality and the answer
+ * recorded on the reverse card of the card the pair came from. Production
+ * progress is left alone. The exercise time is split evenly across pairs.
+ * Entries without a pair are returned unchanged. Every reviewed pair is
+ * also returned as a review log entry of the exercise card.
+ */
+export function applyMatchingResult(
+  moduleId: string,
+  entries: VocabularyEntry[],
+  result: MatchingResult,
+  now: Date
+): AppliedMatchingResult {
+  const byEntry = new Map(result.pairResults.map((pair) => [pair.entryId, pair]));
+  const responseTime =
+    result.responseTime === undefined ? undefined : result.responseTime / Math.max(result.pairResults.length, 1);
+  const reviewLog: ReviewLogEntry[] = [];
+
+  const updated = entries.map((entry) => {
+    const pair = byEntry.get(entry.entryId);
+    const card = pair && deriveReverseCards(entry).find((reverse) => reverse.sourceCardId === pair.sourceCardId);
+    if (!pair || !card) return entry;
+
+    const reviewed = recordEntryCardReview(entry, card, { quality: pair.quality, responseTime }, now);
+    const progressBefore = entry.reverseProgress ?? null;
+    const reverseProgress = reviewWithScheduler(progressBefore ?? createInitialProgress(now), pair.quality, now);
+    reviewLog.push(
+      compact({
+        moduleId,
+        entryId: entry.entryId,
+        cardId: result.cardId,
+        cardType: CardType.MATCHING,
+        direction: 'recognition',
+        userAnswer: pair.chosenMatch ?? '',
+        confidence: pair.isCorrect ? 1 : 0,
+        answerMode: 'multiple_choice',
+        quality: pair.quality,
+        responseTime,
+        reviewedAt: now.toISOString(),
+        rescheduled: true,
+        progressBefore,
+        progressAfter: reverseProgress,
+      })
+    );
+    return { ...reviewed, reverseProgress };
+  });
+
+  return { entries: updated, reviewLog };
+}
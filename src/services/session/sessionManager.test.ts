@@ -0,0 +1,476 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CardType,
+  ReviewQuality,
+  exampleDefinitionCard,
+  exampleMasteredEntry,
+  exampleSpeakingCard,
+  type Result,
+  type VocabularyEntry,
+} from '../../models';
+import { createCardSelector } from '../spacedRepetition/cardSelector';
+import {
+  createSessionManager,
+  INVALID_TRANSITION,
+  type SessionMachineState,
+} from './sessionManager';
+
+const START = new Date('2025-03-01T09:00:00Z');
+
+function at(seconds: number): Date {
+  return new Date(START.getTime() + seconds * 1000);
+}
+
+function newEntry(id: string, term: string): VocabularyEntry {
+  return {
+    entryId: id,
+    term,
+    cards: [{ ...exampleDefinitionCard, cardId: `${id}-def-01`, expectedAnswer: term, alternateAnswers: [] }],
+  };
+}
+
+function unwrap(result: Result<SessionMachineState>): SessionMachineState {
+  if (!result.success) throw new Error(result.error);
+  return result.data;
+}
+
+const entries = [newEntry('uno-001', 'uno'), newEntry('dos-002', 'dos'), newEntry('tres-003', 'tres')];
+const manager = createSessionManager({ random: () => 0 });
+
+describe('sessionManager', () => {
+  it('should queue due entries and present the first card', () => {
+    const future: VocabularyEntry = {
+      ...exampleMasteredEntry,
+      progress: { ...exampleMasteredEntry.progress!, nextReview: '2099-01-01T00:00:00Z' },
+    };
+    const state = unwrap(manager.start('numbers', [...entries, future], START));
+
+    expect(state.phase).toBe('presenting');
+    expect(state.session.isActive).toBe(true);
+    expect(state.session.currentEntry?.entryId).toBe('uno-001');
+    expect(state.session.currentCard?.cardId).toBe('uno-001-def-01');
+    expect(state.session.queue.map((e) => e.entryId)).toEqual(['dos-002', 'tres-003']);
+  });
+
+  it('should limit the session size', () => {
+    const limited = createSessionManager({ maxEntries: 2 });
+    const state = unwrap(limited.start('numbers', entries, START));
+    expect(state.session.queue).toHaveLength(1);
+  });
+
+  it('should finish immediately when nothing is due', () => {
+    const state = unwrap(manager.start('numbers', [], START));
+    expect(state.phase).toBe('finished');
+    expect(state.session.isActive).toBe(false);
+    expect(state.session.endTime).toBe(START.toISOString());
+  });
+
+  it('should validate answers and update stats', () => {
+    let state = unwrap(manager.start('numbers', entries, START));
+    state = unwrap(manager.submitAnswer(state, 'uno', at(2)));
+
+    expect(state.phase).toBe('answered');
+    expect(state.lastResult?.isCorrect).toBe(true);
+    expect(state.session.stats).toMatchObject({
+      totalReviewed: 1,
+      correctAnswers: 1,
+      accuracy: 100,
+      averageResponseTime: 2000,
+      totalTime: 2000,
+    });
+
+    state = unwrap(manager.rate(state, ReviewQuality.GOOD, at(3)));
+    state = unwrap(manager.submitAnswer(state, 'wrong', at(7)));
+    expect(state.session.stats).toMatchObject({
+      totalReviewed: 2,
+      incorrectAnswers: 1,
+      accuracy: 50,
+      averageResponseTime: 3000,
+    });
+  });
+
+  it('should present cards as multiple choice and record the answer mode', () => {
+    const choices = createSessionManager({ random: () => 0, answerMode: 'multiple_choice', choiceCount: 3 });
+    let state = unwrap(choices.start('numbers', entries, START));
+    expect(state.choices?.options).toHaveLength(3);
+    expect([...state.choices!.options].sort()).toEqual(['dos', 'tres', 'uno']);
+
+    state = unwrap(choices.submitAnswer(state, 'uno', at(1)));
+    expect(state.lastResult).toMatchObject({ isCorrect: true, answerMode: 'multiple_choice' });
+    expect(state.lastResult?.suggestedQuality).toBe(ReviewQuality.GOOD);
+    expect(state.session.stats.answerModes).toEqual({ multiple_choice: 1 });
+
+    // EASY is capped to GOOD, which lowers the ease factor instead of raising it to 2.6
+    state = unwrap(choices.rate(state, ReviewQuality.EASY, at(2)));
+    expect(state.session.completed[0].progress?.easeFactor).toBeCloseTo(2.36);
+  });
+
+  it('should fall back to typing when no distractor is available', () => {
+    const choices = createSessionManager({ random: () => 0, answerMode: 'multiple_choice' });
+    let state = unwrap(choices.start('numbers', entries.slice(0, 1), START));
+    expect(state.choices).toBeNull();
+    state = unwrap(choices.submitAnswer(state, 'uno', at(1)));
+    expect(state.session.stats.answerModes).toEqual({ typed: 1 });
+  });
+
+  it('should score spoken answers to speaking cards and never offer them as multiple choice', () => {
+    const speaking: VocabularyEntry = {
+      entryId: 'perro-001',
+      term: 'perro',
+      pronunciation: '/ˈpe.ro/',
+      cards: [exampleSpeakingCard],
+    };
+    const choices = createSessionManager({ random: () => 0, answerMode: 'multiple_choice' });
+    let state = unwrap(choices.start('animals', [speaking, ...entries], START));
+    expect(state.session.currentCard?.type).toBe(CardType.SPEAKING);
+    expect(state.choices).toBeNull();
+
+    state = unwrap(choices.submitAnswer(state, { transcript: 'gato' }, at(1)));
+    expect(state.lastResult).toMatchObject({ isCorrect: false, answerMode: 'spoken' });
+    expect(state.lastResult?.feedback).toContain('/ˈpe.ro/');
+    expect(state.session.stats.answerModes).toEqual({ spoken: 1 });
+  });
+
+  describe('reverse cards', () => {
+    const defined = (id: string, term: string, definition: string): VocabularyEntry => ({
+      entryId: id,
+      term,
+      cards: [{ ...exampleDefinitionCard, cardId: `${id}-def-01`, expectedAnswer: term, definition }],
+    });
+    const uno = defined('uno-001', 'uno', 'one');
+    const dos = defined('dos-002', 'dos', 'two');
+    const later = { ...exampleMasteredEntry.progress!, nextReview: '2099-01-01T00:00:00Z' };
+    const reversing = createSessionManager({ random: () => 0, requeueOffset: 0, includeReverse: true });
+
+    it('should study due entries in both directions with separate progress', () => {
+      let state = unwrap(reversing.start('numbers', [uno, dos], START));
+      expect(state.session.currentCard?.type).toBe(CardType.DEFINITION);
+      state = unwrap(reversing.submitAnswer(state, 'uno', at(1)));
+      state = unwrap(reversing.rate(state, ReviewQuality.GOOD, at(2)));
+
+      expect(state.session.currentEntry?.entryId).toBe('uno-001');
+      expect(state.session.currentCard).toMatchObject({ type: CardType.REVERSE, term: 'uno', expectedAnswer: 'one' });
+      expect([...state.choices!.options].sort()).toEqual(['one', 'two']);
+
+      state = unwrap(reversing.submitAnswer(state, 'one', at(3)));
+      expect(state.lastResult?.answerMode).toBe('multiple_choice');
+      state = unwrap(reversing.rate(state, ReviewQuality.EASY, at(4)));
+
+      const [completed] = state.session.completed;
+      expect(completed.entryId).toBe('uno-001');
+      expect(completed.progress?.totalReviews).toBe(1);
+      expect(completed.reverseProgress?.totalReviews).toBe(1);
+      expect(completed.reverseProgress?.easeFactor).toBeCloseTo(2.36);
+      expect(completed.cardProgress?.['uno-001-def-01-rev']?.cardType).toBe(CardType.REVERSE);
+      expect(state.session.currentEntry?.entryId).toBe('dos-002');
+    });
+
+    it('should present entries due only for recognition with reverse cards', () => {
+      const state = unwrap(reversing.start('numbers', [{ ...uno, progress: later }, dos], START));
+      expect(state.session.currentEntry?.entryId).toBe('uno-001');
+      expect(state.session.currentCard?.type).toBe(CardType.REVERSE);
+      expect(unwrap(manager.start('numbers', [{ ...uno, progress: later }], START)).phase).toBe('finished');
+    });
+
+    it('should repeat a failed recognition card without touching production progress', () => {
+      let state = unwrap(reversing.start('numbers', [{ ...uno, progress: later }, dos], START));
+      state = unwrap(reversing.submitAnswer(state, 'two', at(1)));
+      state = unwrap(reversing.rate(state, ReviewQuality.AGAIN, at(2)));
+
+      expect(state.session.currentEntry?.entryId).toBe('uno-001');
+      expect(state.session.currentCard?.type).toBe(CardType.REVERSE);
+      expect(state.session.currentEntry?.reverseProgress?.incorrectCount).toBe(1);
+      expect(state.session.currentEntry?.progress).toEqual(later);
+    });
+
+    it('should skip recognition when no other entry offers a distractor', () => {
+      let state = unwrap(reversing.start('numbers', [uno], START));
+      state = unwrap(reversing.submitAnswer(state, 'uno', at(1)));
+      state = unwrap(reversing.rate(state, ReviewQuality.GOOD, at(2)));
+      expect(state.phase).toBe('finished');
+      expect(state.session.completed[0].reverseProgress).toBeUndefined();
+    });
+
+    it('should skip recognition when the other answers only differ in case or accents', () => {
+      let state = unwrap(reversing.start('numbers', [uno, defined('dos-002', 'dos', 'ÓNE')], START));
+      for (const answer of ['uno', 'dos']) {
+        expect(state.session.currentCard?.type).toBe(CardType.DEFINITION);
+        state = unwrap(reversing.submitAnswer(state, answer, at(1)));
+        state = unwrap(reversing.rate(state, ReviewQuality.GOOD, at(2)));
+      }
+      expect(state.phase).toBe('finished');
+      expect(state.session.completed.map((entry) => entry.reverseProgress)).toEqual([undefined, undefined]);
+    });
+  });
+
+  it('should reschedule rated entries and mark them completed', () => {
+    let state = unwrap(manager.start('numbers', entries, START));
+    state = unwrap(manager.submitAnswer(state, 'uno', at(1)));
+    state = unwrap(manager.rate(state, ReviewQuality.GOOD, at(2)));
+
+    const [completed] = state.session.completed;
+    expect(completed.entryId).toBe('uno-001');
+    expect(completed.progress?.repetitions).toBe(1);
+    expect(completed.progress?.lastReview).toBe(at(2).toISOString());
+    expect(state.session.currentEntry?.entryId).toBe('dos-002');
+  });
+
+  it('should re-queue failed entries later in the session without rescheduling twice', () => {
+    const requeueing = createSessionManager({ random: () => 0, requeueOffset: 1 });
+    let state = unwrap(requeueing.start('numbers', entries, START));
+    state = unwrap(requeueing.submitAnswer(state, 'nope', at(1)));
+    state = unwrap(requeueing.rate(state, ReviewQuality.AGAIN, at(2)));
+
+    expect(state.session.currentEntry?.entryId).toBe('dos-002');
+    expect(state.session.queue.map((e) => e.entryId)).toEqual(['uno-001', 'tres-003']);
+
+    state = unwrap(requeueing.submitAnswer(state, 'dos', at(3)));
+    state = unwrap(requeueing.rate(state, ReviewQuality.GOOD, at(4)));
+    state = unwrap(requeueing.submitAnswer(state, 'uno', at(5)));
+    state = unwrap(requeueing.rate(state, ReviewQuality.GOOD, at(6)));
+
+    const uno = state.session.completed.find((e) => e.entryId === 'uno-001');
+    expect(uno?.progress?.totalReviews).toBe(1);
+    expect(uno?.progress?.incorrectCount).toBe(1);
+  });
+
+  it('should record statistics for every answered card, repeats included', () => {
+    const requeueing = createSessionManager({ random: () => 0, requeueOffset: 0 });
+    let state = unwrap(requeueing.start('numbers', [entries[0]], START));
+    state = unwrap(requeueing.submitAnswer(state, 'nope', at(4)));
+    state = unwrap(requeueing.rate(state, ReviewQuality.AGAIN, at(5)));
+    state = unwrap(requeueing.submitAnswer(state, 'uno', at(7)));
+    state = unwrap(requeueing.rate(state, ReviewQuality.GOOD, at(8)));
+
+    const [uno] = state.session.completed;
+    expect(uno.progress?.totalReviews).toBe(1);
+    expect(uno.cardProgress?.['uno-001-def-01']).toEqual({
+      cardId: 'uno-001-def-01',
+      cardType: exampleDefinitionCard.type,
+      shownCount: 2,
+      correctCount: 1,
+      lastShown: at(8).toISOString(),
+      averageResponseTime: 3000,
+      timedCount: 2,
+      lastQuality: ReviewQuality.GOOD,
+    });
+  });
+
+  it('should log every rated answer with the progress before and after it', () => {
+    const requeueing = createSessionManager({ random: () => 0, requeueOffset: 0 });
+    let state = unwrap(requeueing.start('numbers', [entries[0]], START));
+    state = unwrap(requeueing.submitAnswer(state, 'nope', at(4)));
+    state = unwrap(requeueing.rate(state, ReviewQuality.AGAIN, at(5)));
+    state = unwrap(requeueing.submitAnswer(state, 'uno', at(7)));
+    state = unwrap(requeueing.rate(state, ReviewQuality.GOOD, at(8)));
+
+    const [failed, repeat] = state.reviewLog;
+    expect(state.reviewLog).toHaveLength(2);
+    expect(failed).toMatchObject({
+      moduleId: 'numbers',
+      entryId: 'uno-001',
+      cardId: 'uno-001-def-01',
+      cardType: exampleDefinitionCard.type,
+      direction: 'production',
+      userAnswer: 'nope',
+      answerMode: 'typed',
+      quality: ReviewQuality.AGAIN,
+      responseTime: 4000,
+      reviewedAt: at(5).toISOString(),
+      rescheduled: true,
+      progressBefore: null,
+    });
+    expect(failed.confidence).toBeLessThan(1);
+    expect(failed.progressAfter).toEqual(state.session.completed[0].progress);
+    expect(repeat).toMatchObject({ userAnswer: 'uno', confidence: 1, rescheduled: false });
+    expect(repeat.progressBefore).toEqual(failed.progressAfter);
+    expect(repeat.progressAfter).toEqual(failed.progressAfter);
+  });
+
+  it('should show a different card when a failed entry comes back', () => {
+    const twoCards: VocabularyEntry = {
+      ...entries[0],
+      cards: [...entries[0].cards, { ...exampleDefinitionCard, cardId: 'uno-001-def-02', expectedAnswer: 'uno' }],
+    };
+    const selecting = createSessionManager({ cardSelector: createCardSelector({ seed: 5 }), requeueOffset: 0 });
+    let state = unwrap(selecting.start('numbers', [twoCards], START));
+    const firstCard = state.session.currentCard?.cardId;
+    state = unwrap(selecting.submitAnswer(state, 'nope', at(1)));
+    state = unwrap(selecting.rate(state, ReviewQuality.AGAIN, at(2)));
+
+    expect(state.session.currentEntry?.entryId).toBe('uno-001');
+    expect(state.session.currentCard?.cardId).not.toBe(firstCard);
+    expect(state.cardHistory.lastCardIds['uno-001']).toBe(state.session.currentCard?.cardId);
+  });
+
+  it('should skip entries without touching their progress', () => {
+    let state = unwrap(manager.start('numbers', entries, START));
+    state = unwrap(manager.skip(state, at(1)));
+    expect(state.skipped.map((e) => e.entryId)).toEqual(['uno-001']);
+    expect(state.session.currentEntry?.entryId).toBe('dos-002');
+    expect(state.session.stats.totalReviewed).toBe(0);
+  });
+
+  it('should keep the new progress of a failed entry skipped on its repeat', () => {
+    const repeating = createSessionManager({ random: () => 0, requeueOffset: 0 });
+    let state = unwrap(repeating.start('numbers', entries, START));
+    state = unwrap(repeating.submitAnswer(state, 'wrong', at(1)));
+    state = unwrap(repeating.rate(state, ReviewQuality.AGAIN, at(2)));
+    expect(state.session.currentEntry?.entryId).toBe('uno-001');
+    state = unwrap(repeating.skip(state, at(3)));
+
+    expect(state.skipped).toEqual([]);
+    expect(state.session.completed.map((entry) => entry.entryId)).toEqual(['uno-001']);
+    expect(state.session.completed[0].progress?.incorrectCount).toBe(1);
+    expect(state.completedModules).toEqual(['numbers']);
+    expect(state.session.currentEntry?.entryId).toBe('dos-002');
+  });
+
+  it('should finish when the queue is exhausted', () => {
+    let state = unwrap(manager.start('numbers', [entries[0]], START));
+    state = unwrap(manager.submitAnswer(state, 'uno', at(1)));
+    state = unwrap(manager.rate(state, ReviewQuality.EASY, at(10)));
+
+    expect(state.phase).toBe('finished');
+    expect(state.session.isActive).toBe(false);
+    expect(state.session.endTime).toBe(at(10).toISOString());
+    expect(state.session.stats.totalTime).toBe(10000);
+    expect(state.session.currentCard).toBeNull();
+  });
+
+  it('should end early and keep a pending answer', () => {
+    let state = unwrap(manager.start('numbers', entries, START));
+    state = unwrap(manager.submitAnswer(state, 'uno', at(1)));
+    state = unwrap(manager.end(state, at(2)));
+
+    expect(state.phase).toBe('finished');
+    expect(state.session.completed.map((e) => e.entryId)).toEqual(['uno-001']);
+    expect(unwrap(manager.end(state, at(5)))).toBe(state);
+  });
+
+  describe('multi-module sessions', () => {
+    const colors = [newEntry('rojo-001', 'rojo'), newEntry('azul-002', 'azul'), newEntry('verde-003', 'verde')];
+    const sources = [
+      { moduleId: 'numbers', entries },
+      { moduleId: 'colors', entries: colors },
+    ];
+    const order = (state: SessionMachineState): (string | undefined)[] => [
+      state.session.currentEntry?.entryId,
+      ...state.session.queue.map((entry) => entry.entryId),
+    ];
+
+    it('should interleave modules in turn by default', () => {
+      const state = unwrap(manager.startMulti(sources, START));
+      expect(order(state)).toEqual(['uno-001', 'rojo-001', 'dos-002', 'azul-002', 'tres-003', 'verde-003']);
+      expect(state.session).toMatchObject({ moduleId: 'numbers', moduleIds: ['numbers', 'colors'] });
+    });
+
+    it('should study modules one after the other when blocked, within their quotas', () => {
+      const blocked = createSessionManager({ random: () => 0, interleave: 'blocked', moduleQuotas: { numbers: 1 } });
+      const state = unwrap(blocked.startMulti(sources, START));
+      expect(order(state)).toEqual(['uno-001', 'rojo-001', 'azul-002', 'verde-003']);
+    });
+
+    it('should pick modules at random, keeping the order within each module', () => {
+      const randomly = createSessionManager({ random: () => 0.99, interleave: 'random', maxEntries: 4 });
+      const state = unwrap(randomly.startMulti(sources, START));
+      expect(order(state)).toEqual(['rojo-001', 'azul-002', 'verde-003', 'uno-001']);
+    });
+
+    it('should study modules that share an entry id apart', () => {
+      let state = unwrap(manager.startMulti([sources[0], { moduleId: 'more-numbers', entries: [entries[0]] }], START));
+      expect(order(state)).toEqual(['uno-001', 'uno-001', 'dos-002', 'tres-003']);
+      expect(state.queueModules).toEqual(['more-numbers', 'numbers', 'numbers']);
+
+      state = unwrap(manager.submitAnswer(state, 'uno', at(1)));
+      state = unwrap(manager.rate(state, ReviewQuality.GOOD, at(2)));
+      expect(state.currentModuleId).toBe('more-numbers');
+      state = unwrap(manager.submitAnswer(state, 'wrong', at(3)));
+      state = unwrap(manager.rate(state, ReviewQuality.AGAIN, at(4)));
+
+      expect(state.completedModules).toEqual(['numbers']);
+      expect(state.session.completed[0].progress?.correctCount).toBe(1);
+      expect(state.queueModules).toEqual(['numbers', 'more-numbers']);
+      expect(state.reviewLog.map(({ moduleId, rescheduled }) => [moduleId, rescheduled])).toEqual([
+        ['numbers', true],
+        ['more-numbers', true],
+      ]);
+    });
+
+    it('should draw multiple-choice options from every module', () => {
+      const choices = createSessionManager({ random: () => 0, answerMode: 'multiple_choice', choiceCount: 6 });
+      const state = unwrap(choices.startMulti(sources, START));
+      expect([...state.choices!.options].sort()).toEqual(['azul', 'dos', 'rojo', 'tres', 'uno', 'verde']);
+    });
+
+    it('should study recognition of a single-entry module against the other modules', () => {
+      const defined = (entry: VocabularyEntry, definition: string): VocabularyEntry => ({
+        ...entry,
+        cards: [
+          { ...exampleDefinitionCard, cardId: `${entry.entryId}-def-01`, expectedAnswer: entry.term, definition },
+        ],
+        progress: { ...exampleMasteredEntry.progress!, nextReview: '2099-01-01T00:00:00Z' },
+      });
+      const reversing = createSessionManager({ random: () => 0, includeReverse: true });
+      const state = unwrap(
+        reversing.startMulti(
+          [
+            { moduleId: 'numbers', entries: [defined(entries[0], 'one')] },
+            { moduleId: 'colors', entries: [defined(colors[0], 'red')] },
+          ],
+          START
+        )
+      );
+      expect(state.session.currentCard).toMatchObject({ type: CardType.REVERSE, expectedAnswer: 'one' });
+      expect([...state.choices!.options].sort()).toEqual(['one', 'red']);
+    });
+
+    it('should attribute answers and the review log to each module', () => {
+      let state = unwrap(manager.startMulti(sources, START));
+      state = unwrap(manager.submitAnswer(state, 'uno', at(2)));
+      state = unwrap(manager.rate(state, ReviewQuality.GOOD, at(3)));
+      state = unwrap(manager.submitAnswer(state, 'wrong', at(7)));
+      state = unwrap(manager.rate(state, ReviewQuality.AGAIN, at(8)));
+
+      expect(state.session.stats).toMatchObject({ totalReviewed: 2, totalTime: 8000 });
+      expect(state.session.moduleStats?.numbers).toMatchObject({
+        totalReviewed: 1,
+        correctAnswers: 1,
+        accuracy: 100,
+        totalTime: 2000,
+      });
+      expect(state.session.moduleStats?.colors).toMatchObject({
+        totalReviewed: 1,
+        incorrectAnswers: 1,
+        accuracy: 0,
+        totalTime: 4000,
+      });
+      expect(state.reviewLog.map(({ moduleId, entryId }) => `${moduleId}/${entryId}`)).toEqual([
+        'numbers/uno-001',
+        'colors/rojo-001',
+      ]);
+    });
+
+    it('should keep single-module sessions free of module breakdowns', () => {
+      let state = unwrap(manager.start('numbers', entries, START));
+      state = unwrap(manager.submitAnswer(state, 'uno', at(2)));
+      expect(state.session.moduleIds).toBeUndefined();
+      expect(state.session.moduleStats).toBeUndefined();
+    });
+  });
+
+  it('should reject transitions that are invalid in the current phase', () => {
+    const presenting = unwrap(manager.start('numbers', entries, START));
+    expect(manager.rate(presenting, ReviewQuality.GOOD, at(1))).toMatchObject({
+      success: false,
+      code: INVALID_TRANSITION,
+    });
+
+    const answered = unwrap(manager.submitAnswer(presenting, 'uno', at(1)));
+    expect(manager.submitAnswer(answered, 'uno', at(2))).toMatchObject({ success: false, code: INVALID_TRANSITION });
+    expect(manager.skip(answered, at(2))).toMatchObject({ success: false, code: INVALID_TRANSITION });
+
+    const finished = unwrap(manager.end(presenting, at(1)));
+    expect(manager.submitAnswer(finished, 'uno', at(2))).toMatchObject({ success: false, code: INVALID_TRANSITION });
+  });
+});
@@ -0,0 +1,630 @@
+/**
+ * Session manager.
+ * A framework-independent state machine that drives a SessionState from the
+ * initial queue of due entries to completion. Every transition is a pure
+ * function (state in, state out) so it can back a zustand store or be
+ * exercised directly in tests.
+ *
+ * Phases and transitions:
+ *
+ * ```
+ *   start ──► presenting ──submitAnswer──► answered ──rate──► presenting …
+ *                 │  ▲                        │
+ *                 └──┘ skip                   │
+ *   (any) ──end──► finished ◄── queue empty ──┘
+ * ```
+ *
+ * With `includeReverse`, an entry can be due in two directions: production
+ * (its authored cards) and recognition (its derived reverse cards, answered
+ * by multiple choice). Each direction has its own schedule; an entry due in
+ * both is presented for production first and comes back for recognition.
+ *
+ * Every rating is also recorded in `reviewLog`, which the caller appends to
+ * the stored review history when the session ends.
+ *
+ * `startMulti` draws entries from several modules, interleaved and capped
+ * per module as configured. Multiple-choice options come from every module
+ * of the session. Modules may share entry ids, so each entry keeps its
+ * module: answers are counted both in the session stats and in per-module
+ * `moduleStats`, and `completedModules` tells callers where to store the
+ * progress of each completed entry.
+ */
+
+import {
+  CardType,
+  type AnswerMode,
+  type InterleaveMode,
+  type ReverseCard,
+  type ReviewLogEntry,
+  type ReviewQuality,
+  type Result,
+  type SessionState,
+  type SessionStats,
+  type SpeechRecognitionResult,
+  type StudyDirection,
+  type ValidationConfig,
+  type ValidationResult,
+  type VocabularyEntry,
+} from '../../models';
+import { compact } from '../../utils/compact';
+import { weightedIndex } from '../../utils/random';
+import { createInitialProgress, isDue, isPassingQuality } from '../spacedRepetition/sm2Algorithm';
+import { reviewWithScheduler } from '../spacedRepetition/scheduler';
+import {
+  createCardSelector,
+  createSelectionHistory,
+  recordCardShown,
+  type CardPerformance,
+  type CardSelectionHistory,
+  type CardSelector,
+} from '../spacedRepetition/cardSelector';
+import { recordEntryCardReview, toCardPerformance } from '../spacedRepetition/cardProgress';
+import { deriveReverseCards } from '../spacedRepetition/reverseCards';
+import { DEFAULT_VALIDATION_CONFIG, validateAnswer } from '../validation/answerValidator';
+import {
+  generateMultipleChoice,
+  hasDistractor,
+  MULTIPLE_CHOICE_CORRECT_QUALITY,
+  validateChoice,
+  type MultipleChoiceQuestion,
+} from '../validation/multipleChoice';
+import { validateSpokenAnswer } from '../validation/spokenAnswer';
+
+/** Error code returned when a transition is not allowed in the current phase */
+export const INVALID_TRANSITION = 'INVALID_TRANSITION';
+
+/** How many entries later a failed entry is shown again */
+export const DEFAULT_REQUEUE_OFFSET = 3;
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Where the session is in its answer cycle.
+ * - `presenting`: a card is shown and awaits an answer
+ * - `answered`: the answer was checked and awaits a quality rating
+ * - `finished`: the session has ended
+ */
+export type SessionPhase = 'presenting' | 'answered' | 'finished';
+
+/**
+ * Full state of the session state machine.
+ */
+export interface SessionMachineState {
+  /** Public session state consumed by the UI */
+  session: SessionState;
+  /** Current phase */
+  phase: SessionPhase;
+  /** Validation of the most recent answer (null until one is submitted) */
+  lastResult: ValidationResult | null;
+  /** ISO 8601 timestamp when the current card was shown */
+  cardShownAt: string | null;
+  /**
+   * Entries whose progress has already been rescheduled this session: entry
+   * keys (see `entryKey`), suffixed with ":reverse" for recognition progress
+   */
+  scheduled: string[];
+  /** Entries dropped from the session before any of their progress was rescheduled */
+  skipped: VocabularyEntry[];
+  /** Module of each entry in `skipped`, in the same order */
+  skippedModules: string[];
+  /** Cards shown so far, used to vary card selection */
+  cardHistory: CardSelectionHistory;
+  /** Options for the current card in multiple-choice mode (null when it is answered by typing) */
+  choices: MultipleChoiceQuestion | null;
+  /** Entries multiple-choice distractors are drawn from (every entry passed to `start`) */
+  distractorPool: VocabularyEntry[];
+  /** Module of the current entry (null when no card is shown) */
+  currentModuleId: string | null;
+  /** Module of each entry in `session.queue`, in the same order */
+  queueModules: string[];
+  /**
+   * Module of each entry in `session.completed`, in the same order. Modules
+   * may share entry ids, so progress is stored by moduleId and entryId.
+   */
+  completedModules: string[];
+  /** Directions each queued entry still has to pass this session, next first, keyed by entry key */
+  pendingDirections: Record<string, StudyDirection[]>;
+  /** Every rated answer of the session, oldest first, to be appended to the stored review log */
+  reviewLog: ReviewLogEntry[];
+}
+
+/**
+ * Entries of one module to study.
+ */
+export interface SessionSource {
+  moduleId: string;
+  entries: VocabularyEntry[];
+}
+
+/**
+ * Options for a session manager.
+ */
+export interface SessionManagerOptions {
+  /** Answer matching rules */
+  validationConfig?: ValidationConfig;
+  /** Card selection strategy (default: uniform random using `random`) */
+  cardSelector?: CardSelector;
+  /** Learner accuracy passed to the card selector (default: the entry's own card statistics) */
+  performance?: CardPerformance;
+  /** Random number source in [0, 1) for the default card selector */
+  random?: () => number;
+  /** Maximum number of entries to include in a session */
+  maxEntries?: number;
+  /** How many entries later a failed entry is shown again */
+  requeueOffset?: number;
+  /**
+   * How cards are answered (default: typed). In multiple-choice mode, cards
+   * without any usable distractor fall back to typing.
+   */
+  answerMode?: AnswerMode;
+  /** Number of options per multiple-choice question */
+  choiceCount?: number;
+  /**
+   * Also study entries in the recognition direction, using reverse cards
+   * scheduled by `reverseProgress` (default: false). Reverse cards are always
+   * answered by multiple choice, so entries need at least one other entry
+   * that can supply a distractor.
+   */
+  includeReverse?: boolean;
+  /** How a multi-module session orders entries from its modules (default: round_robin) */
+  interleave?: InterleaveMode;
+  /** Most entries taken from a module, keyed by moduleId (applied before `maxEntries`) */
+  moduleQuotas?: Record<string, number>;
+}
+
+/**
+ * Transitions of the session state machine.
+ */
+export interface SessionManager {
+  /** Builds the queue of due entries and presents the first card */
+  start(moduleId: string, entries: VocabularyEntry[], now: Date): Result<SessionMachineState>;
+  /**
+   * Builds the queue from the due entries of several modules and presents
+   * the first card. Modules may share entry ids.
+   */
+  startMulti(sources: SessionSource[], now: Date): Result<SessionMachineState>;
+  /**
+   * Checks the user's answer to the current card: the typed text, the picked
+   * option's text in multiple-choice mode, or what a SpeechRecognizer heard
+   */
+  submitAnswer(
+    state: SessionMachineState,
+    answer: string | SpeechRecognitionResult,
+    now: Date
+  ): Result<SessionMachineState>;
+  /** Rates the answered card, reschedules the entry and moves on (multiple-choice answers are capped at GOOD) */
+  rate(state: SessionMachineState, quality: ReviewQuality, now: Date): Result<SessionMachineState>;
+  /**
+   * Drops the current entry from the session without reviewing it. An entry
+   * already rescheduled this session (a failed entry on its repeat) counts
+   * as completed, so its new progress is kept.
+   */
+  skip(state: SessionMachineState, now: Date): Result<SessionMachineState>;
+  /** Ends the session early (or confirms the end of a finished one) */
+  end(state: SessionMachineState, now: Date): Result<SessionMachineState>;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/** Identifies an entry across the modules of a session */
+function entryKey(moduleId: string, entryId: string): string {
+  return `${moduleId}:${entryId}`;
+}
+
+function emptyStats(): SessionStats {
+  return {
+    totalReviewed: 0,
+    correctAnswers: 0,
+    incorrectAnswers: 0,
+    accuracy: 0,
+    averageResponseTime: 0,
+    totalTime: 0,
+    answerModes: {},
+  };
+}
+
+function invalid(action: string, phase: SessionPhase): Result<SessionMachineState> {
+  return { success: false, error: `Cannot ${action} while session is ${phase}`, code: INVALID_TRANSITION };
+}
+
+/**
+ * Adds one answer to session statistics, with the caller's measure of total time.
+ */
+function addAnswer(
+  previous: SessionStats,
+  result: ValidationResult,
+  responseTime: number | undefined,
+  totalTime: number
+): SessionStats {
+  const mode: AnswerMode = result.answerMode ?? 'typed';
+  const totalReviewed = previous.totalReviewed + 1;
+  const correctAnswers = previous.correctAnswers + (result.isCorrect ? 1 : 0);
+  return {
+    totalReviewed,
+    correctAnswers,
+    incorrectAnswers: previous.incorrectAnswers + (result.isCorrect ? 0 : 1),
+    accuracy: (correctAnswers / totalReviewed) * 100,
+    averageResponseTime: (previous.averageResponseTime * previous.totalReviewed + (responseTime ?? 0)) / totalReviewed,
+    totalTime,
+    answerModes: { ...previous.answerModes, [mode]: (previous.answerModes?.[mode] ?? 0) + 1 },
+  };
+}
+
+/**
+ * Merges per-module queues into one, keeping each module's own order.
+ */
+function interleave<T>(queues: T[][], mode: InterleaveMode, random: () => number): T[] {
+  if (mode === 'blocked') return queues.flat();
+
+  const remaining = queues.map((queue) => [...queue]);
+  const merged: T[] = [];
+  for (let turn = 0; remaining.some((queue) => queue.length > 0); turn++) {
+    const index =
+      mode === 'random' ? weightedIndex(remaining.map((queue) => queue.length), random) : turn % remaining.length;
+    const next = remaining[index].shift();
+    if (next !== undefined) merged.push(next);
+  }
+  return merged;
+}
+
+function elapsed(from: string, now: Date): number {
+  return Math.max(0, now.getTime() - new Date(from).getTime());
+}
+
+function withTime(session: SessionState, now: Date): SessionState {
+  return { ...session, stats: { ...session.stats, totalTime: elapsed(session.startTime, now) } };
+}
+
+/**
+ * Reverse cards of an entry that can be asked: the pool offers a distractor
+ * that generateMultipleChoice would use.
+ */
+function recognitionCards(entry: VocabularyEntry, pool: VocabularyEntry[]): ReverseCard[] {
+  return deriveReverseCards(entry).filter((card) => hasDistractor(card, entry, pool));
+}
+
+/**
+ * Records an entry leaving the session unfinished: as completed if its
+ * progress was rescheduled this session in either direction, so the caller
+ * stores it, as skipped otherwise.
+ */
+function setAside(state: SessionMachineState, entry: VocabularyEntry, moduleId: string): SessionMachineState {
+  const key = entryKey(moduleId, entry.entryId);
+  if (!state.scheduled.includes(key) && !state.scheduled.includes(`${key}:reverse`)) {
+    return { ...state, skipped: [...state.skipped, entry], skippedModules: [...state.skippedModules, moduleId] };
+  }
+  return {
+    ...state,
+    completedModules: [...state.completedModules, moduleId],
+    session: { ...state.session, completed: [...state.session.completed, entry] },
+  };
+}
+
+function finish(state: SessionMachineState, now: Date): SessionMachineState {
+  return {
+    ...state,
+    phase: 'finished',
+    cardShownAt: null,
+    currentModuleId: null,
+    session: {
+      ...withTime(state.session, now),
+      currentCard: null,
+      currentEntry: null,
+      endTime: now.toISOString(),
+      isActive: false,
+    },
+  };
+}
+
+// =============================================================================
+// FACTORY
+// =============================================================================
+
+/**
+ * Creates a session manager.
+ *
+ * @example
+ * ```typescript
+ * const manager = createSessionManager();
+ * let result = manager.start(module.moduleId, module.entries, new Date());
+ * if (result.success) result = manager.submitAnswer(result.data, 'perro', new Date());
+ * if (result.success) result = manager.rate(result.data, result.data.lastResult!.suggestedQuality, new Date());
+ * ```
+ */
+export function createSessionManager(options: SessionManagerOptions = {}): SessionManager {
+  const validationConfig = options.validationConfig ?? DEFAULT_VALIDATION_CONFIG;
+  const cardSelector = options.cardSelector ?? createCardSelector({ random: options.random });
+  const requeueOffset = options.requeueOffset ?? DEFAULT_REQUEUE_OFFSET;
+  const answerMode = options.answerMode ?? 'typed';
+  const random = options.random ?? Math.random;
+
+  /**
+   * Directions in which an entry is due, production first.
+   */
+  function dueDirections(entry: VocabularyEntry, pool: VocabularyEntry[], now: Date): StudyDirection[] {
+    const directions: StudyDirection[] = [];
+    if (entry.cards.length > 0 && isDue(entry.progress ?? createInitialProgress(now), now)) {
+      directions.push('production');
+    }
+    if (
+      options.includeReverse &&
+      isDue(entry.reverseProgress ?? createInitialProgress(now), now) &&
+      recognitionCards(entry, pool).length > 0
+    ) {
+      directions.push('recognition');
+    }
+    return directions;
+  }
+
+  /**
+   * Takes the next entry off the queue when its recognition direction can't
+   * be asked (see setAside).
+   */
+  function dropRecognition(state: SessionMachineState, now: Date): SessionMachineState {
+    const [entry, ...queue] = state.session.queue;
+    const [moduleId, ...queueModules] = state.queueModules;
+    const remaining: SessionMachineState = {
+      ...state,
+      queueModules,
+      pendingDirections: { ...state.pendingDirections, [entryKey(moduleId, entry.entryId)]: [] },
+      session: { ...state.session, queue },
+    };
+    return advance(setAside(remaining, entry, moduleId), now);
+  }
+
+  /**
+   * Presents the next entry in the queue, or finishes when it is empty.
+   */
+  function advance(state: SessionMachineState, now: Date): SessionMachineState {
+    const [next, ...queue] = state.session.queue;
+    const [moduleId, ...queueModules] = state.queueModules;
+    if (!next) return finish(state, now);
+
+    const performance = options.performance ?? toCardPerformance(Object.values(next.cardProgress ?? {}));
+    const recognition = state.pendingDirections[entryKey(moduleId, next.entryId)]?.[0] === 'recognition';
+    const reverseCards = recognition ? recognitionCards(next, state.distractorPool) : [];
+    if (recognition && reverseCards.length === 0) return dropRecognition(state, now);
+
+    const card = recognition
+      ? cardSelector.select(next, state.cardHistory, performance, reverseCards)
+      : cardSelector.select(next, state.cardHistory, performance);
+    // Speaking cards are always answered aloud (or typed), never by picking an option
+    const choices =
+      card.type !== CardType.SPEAKING && (recognition || answerMode === 'multiple_choice')
+        ? generateMultipleChoice(card, next, state.distractorPool, { count: options.choiceCount, random })
+        : null;
+    // Reverse cards are never typed: without options, recognition is left out
+    if (recognition && !choices) return dropRecognition(state, now);
+    return {
+      ...state,
+      phase: 'presenting',
+      lastResult: null,
+      choices,
+      cardShownAt: now.toISOString(),
+      cardHistory: recordCardShown(state.cardHistory, next.entryId, card.cardId, now),
+      currentModuleId: moduleId,
+      queueModules,
+      session: {
+        ...withTime(state.session, now),
+        queue,
+        currentEntry: next,
+        currentCard: card,
+      },
+    };
+  }
+
+  /**
+   * Builds the initial state from one or several modules. Only multi-module
+   * sessions record `moduleIds` and `moduleStats`.
+   */
+  function begin(sources: SessionSource[], now: Date, multiModule: boolean): Result<SessionMachineState> {
+    const distractorPool = sources.flatMap(({ entries }) => entries);
+    const pendingDirections: Record<string, StudyDirection[]> = {};
+    for (const { moduleId, entries } of sources) {
+      for (const entry of entries) {
+        const directions = dueDirections(entry, distractorPool, now);
+        if (directions.length > 0) pendingDirections[entryKey(moduleId, entry.entryId)] = directions;
+      }
+    }
+
+    // Entries are ordered by their most overdue direction
+    const nextReview = (moduleId: string, entry: VocabularyEntry): string => {
+      const direction = pendingDirections[entryKey(moduleId, entry.entryId)][0];
+      const progress = direction === 'production' ? entry.progress : entry.reverseProgress;
+      return progress?.nextReview ?? now.toISOString();
+    };
+    const queues = sources.map(({ moduleId, entries }) =>
+      entries
+        .filter((entry) => pendingDirections[entryKey(moduleId, entry.entryId)] !== undefined)
+        .sort((a, b) => nextReview(moduleId, a).localeCompare(nextReview(moduleId, b)))
+        .slice(0, options.moduleQuotas?.[moduleId])
+        .map((entry) => ({ moduleId, entry }))
+    );
+    const due = interleave(queues, options.interleave ?? 'round_robin', random).slice(0, options.maxEntries);
+    const moduleIds = sources.map(({ moduleId }) => moduleId);
+
+    const initial: SessionMachineState = {
+      phase: 'presenting',
+      lastResult: null,
+      cardShownAt: null,
+      scheduled: [],
+      skipped: [],
+      skippedModules: [],
+      cardHistory: createSelectionHistory(),
+      choices: null,
+      distractorPool,
+      currentModuleId: null,
+      queueModules: due.map(({ moduleId }) => moduleId),
+      completedModules: [],
+      pendingDirections,
+      reviewLog: [],
+      session: compact({
+        currentCard: null,
+        currentEntry: null,
+        queue: due.map(({ entry }) => entry),
+        completed: [],
+        stats: emptyStats(),
+        startTime: now.toISOString(),
+        endTime: null,
+        isActive: true,
+        moduleId: moduleIds[0] ?? '',
+        moduleIds: multiModule ? moduleIds : undefined,
+        moduleStats: multiModule ? Object.fromEntries(moduleIds.map((id) => [id, emptyStats()])) : undefined,
+      }),
+    };
+    return { success: true, data: advance(initial, now) };
+  }
+
+  function start(moduleId: string, entries: VocabularyEntry[], now: Date): Result<SessionMachineState> {
+    return begin([{ moduleId, entries }], now, false);
+  }
+
+  function startMulti(sources: SessionSource[], now: Date): Result<SessionMachineState> {
+    return begin(sources, now, true);
+  }
+
+  function submitAnswer(
+    state: SessionMachineState,
+    answer: string | SpeechRecognitionResult,
+    now: Date
+  ): Result<SessionMachineState> {
+    const { currentCard, currentEntry } = state.session;
+    if (state.phase !== 'presenting' || !currentCard) return invalid('submit an answer', state.phase);
+
+    const responseTime = state.cardShownAt ? elapsed(state.cardShownAt, now) : undefined;
+    const result =
+      typeof answer !== 'string'
+        ? validateSpokenAnswer(currentCard, answer, validationConfig, responseTime, currentEntry?.pronunciation)
+        : state.choices
+          ? validateChoice(state.choices, answer, responseTime)
+          : validateAnswer(currentCard, answer, validationConfig, responseTime);
+    const stats = addAnswer(state.session.stats, result, responseTime, elapsed(state.session.startTime, now));
+
+    // Module statistics sum response times: wall-clock time can't be split between modules
+    let { moduleStats } = state.session;
+    const moduleId = state.currentModuleId;
+    if (moduleStats && moduleId !== null) {
+      const previous = moduleStats[moduleId] ?? emptyStats();
+      const totalTime = previous.totalTime + (responseTime ?? 0);
+      moduleStats = { ...moduleStats, [moduleId]: addAnswer(previous, result, responseTime, totalTime) };
+    }
+
+    return {
+      success: true,
+      data: {
+        ...state,
+        phase: 'answered',
+        lastResult: result,
+        session: compact({ ...state.session, stats, moduleStats }),
+      },
+    };
+  }
+
+  function rate(state: SessionMachineState, rating: ReviewQuality, now: Date): Result<SessionMachineState> {
+    const { currentEntry, currentCard } = state.session;
+    const { lastResult } = state;
+    if (state.phase !== 'answered' || !currentEntry || !currentCard || !lastResult) {
+      return invalid('rate an answer', state.phase);
+    }
+
+    // Recognizing an answer among options is not recall: never rate it EASY
+    const quality =
+      lastResult.answerMode === 'multiple_choice' ? Math.min(rating, MULTIPLE_CHOICE_CORRECT_QUALITY) : rating;
+
+    // Card statistics count every answer, practice repeats included
+    const entry = recordEntryCardReview(
+      currentEntry,
+      currentCard,
+      { quality, responseTime: lastResult.responseTime },
+      now
+    );
+
+    // Only the first review of an entry in a session reschedules it; repeats
+    // of failed entries are practice and leave the schedule untouched. The
+    // recognition direction has its own progress and is scheduled apart.
+    const moduleId = state.currentModuleId ?? state.session.moduleId;
+    const key = entryKey(moduleId, entry.entryId);
+    const reverse = currentCard.type === CardType.REVERSE;
+    const field = reverse ? 'reverseProgress' : 'progress';
+    const scheduleKey = reverse ? `${key}:reverse` : key;
+    const firstReview = !state.scheduled.includes(scheduleKey);
+    const updated: VocabularyEntry = firstReview
+      ? { ...entry, [field]: reviewWithScheduler(entry[field] ?? createInitialProgress(now), quality, now) }
+      : entry;
+    const scheduled = firstReview ? [...state.scheduled, scheduleKey] : state.scheduled;
+
+    const progressBefore = currentEntry[field] ?? null;
+    const logEntry: ReviewLogEntry = compact({
+      moduleId,
+      entryId: entry.entryId,
+      cardId: currentCard.cardId,
+      cardType: currentCard.type,
+      direction: reverse ? 'recognition' : 'production',
+      userAnswer: lastResult.userAnswer,
+      confidence: lastResult.confidence,
+      answerMode: lastResult.answerMode ?? 'typed',
+      quality,
+      responseTime: lastResult.responseTime,
+      reviewedAt: now.toISOString(),
+      rescheduled: firstReview,
+      progressBefore,
+      progressAfter: updated[field] ?? progressBefore ?? createInitialProgress(now),
+    });
+
+    // A passed entry moves on to its next due direction, if any
+    const passed = isPassingQuality(quality);
+    const pending = state.pendingDirections[key] ?? [];
+    const remaining = passed ? pending.slice(1) : pending;
+    const pendingDirections = { ...state.pendingDirections, [key]: remaining };
+
+    let { queue, completed } = state.session;
+    let { queueModules, completedModules } = state;
+    if (passed && remaining.length === 0) {
+      completed = [...completed, updated];
+      completedModules = [...completedModules, moduleId];
+    } else {
+      const position = Math.min(requeueOffset, queue.length);
+      queue = [...queue.slice(0, position), updated, ...queue.slice(position)];
+      queueModules = [...queueModules.slice(0, position), moduleId, ...queueModules.slice(position)];
+    }
+
+    return {
+      success: true,
+      data: advance(
+        {
+          ...state,
+          scheduled,
+          pendingDirections,
+          queueModules,
+          completedModules,
+          reviewLog: [...state.reviewLog, logEntry],
+          session: { ...state.session, queue, completed },
+        },
+        now
+      ),
+    };
+  }
+
+  function skip(state: SessionMachineState, now: Date): Result<SessionMachineState> {
+    const entry = state.session.currentEntry;
+    if (state.phase !== 'presenting' || !entry) return invalid('skip', state.phase);
+    const moduleId = state.currentModuleId ?? state.session.moduleId;
+    return { success: true, data: advance(setAside(state, entry, moduleId), now) };
+  }
+
+  function end(state: SessionMachineState, now: Date): Result<SessionMachineState> {
+    if (state.phase === 'finished') return { success: true, data: state };
+    if (state.phase === 'answered' && state.lastResult) {
+      // Keep the pending answer by rating it with its suggested quality
+      const rated = rate(state, state.lastResult.suggestedQuality, now);
+      if (rated.success) return { success: true, data: finish(rated.data, now) };
+    }
+    return { success: true, data: finish(state, now) };
+  }
+
+  return { start, startMulti, submitAnswer, rate, skip, end };
+}
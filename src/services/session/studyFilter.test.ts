@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { exampleDefinitionCard, type VocabularyEntry, type VocabularyModule } from '../../models';
+import { applyStudyFilter } from './studyFilter';
+
+function entry(id: string, cardTags?: string[], userTags?: string[]): VocabularyEntry {
+  return { entryId: id, term: id, cards: [{ ...exampleDefinitionCard, tags: cardTags }], userTags };
+}
+
+function module(moduleId: string, entries: VocabularyEntry[], tags?: string[]): VocabularyModule {
+  return { moduleId, title: moduleId, language: 'es', version: '1.0.0', entries, tags };
+}
+
+const animals = module('animals', [entry('perro', ['pets']), entry('vaca', ['farm'], ['food']), entry('pez')]);
+const food = module('food', [entry('pan'), entry('queso')], ['food']);
+const colors = module('colors', [entry('rojo')]);
+
+const summary = (modules: VocabularyModule[], filter: Parameters<typeof applyStudyFilter>[1]): string[] =>
+  applyStudyFilter(modules, filter).map(({ moduleId, entries }) => `${moduleId}: ${entries.map((e) => e.entryId)}`);
+
+describe('applyStudyFilter', () => {
+  it('should select every entry of every module without criteria', () => {
+    expect(summary([animals, colors], {})).toEqual(['animals: perro,vaca,pez', 'colors: rojo']);
+  });
+
+  it('should select the listed modules in the listed order', () => {
+    expect(summary([animals, food, colors], { moduleIds: ['colors', 'animals', 'unknown'] })).toEqual([
+      'colors: rojo',
+      'animals: perro,vaca,pez',
+    ]);
+  });
+
+  it('should match user, card and module tags across modules', () => {
+    expect(summary([animals, food, colors], { tags: ['food'] })).toEqual(['animals: vaca', 'food: pan,queso']);
+    expect(summary([animals, food, colors], { tags: ['pets', 'farm'] })).toEqual(['animals: perro,vaca']);
+  });
+
+  it('should combine modules and tags', () => {
+    expect(summary([animals, food], { moduleIds: ['food'], tags: ['food'] })).toEqual(['food: pan,queso']);
+  });
+});
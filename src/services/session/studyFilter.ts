@@ -0,0 +1,54 @@
+/**
+ * Study filters.
+ * Turns a saved StudyFilter into the per-module entry lists a multi-module
+ * session starts from, so a learner can study, say, every entry tagged
+ * "food" across all installed modules.
+ */
+
+import type { StudyFilter, VocabularyEntry, VocabularyModule } from '../../models';
+import type { SessionSource } from './sessionManager';
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/** Tags of an entry: the user's, its cards' and its module's */
+function entryTags(entry: VocabularyEntry, module: VocabularyModule): Set<string> {
+  const cardTags = entry.cards.flatMap((card) => card.tags ?? []);
+  return new Set([...(entry.userTags ?? []), ...cardTags, ...(module.tags ?? [])]);
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Selects the entries a filter matches. Sources follow the order of
+ * `filter.moduleIds` when given, the order of `modules` otherwise; modules
+ * without a matching entry are left out. Pass modules loaded with their
+ * progress and customizations so user tags are taken into account.
+ *
+ * @example
+ * ```typescript
+ * const sources = applyStudyFilter(installed, { tags: ['food'] });
+ * const result = createSessionManager({ interleave: 'random' }).startMulti(sources, new Date());
+ * ```
+ */
+export function applyStudyFilter(modules: VocabularyModule[], filter: StudyFilter): SessionSource[] {
+  const selected = filter.moduleIds
+    ? filter.moduleIds.flatMap((moduleId) => modules.filter((module) => module.moduleId === moduleId))
+    : modules;
+  const tags = filter.tags && filter.tags.length > 0 ? filter.tags : undefined;
+
+  return selected
+    .map((module) => ({
+      moduleId: module.moduleId,
+      entries: tags
+        ? module.entries.filter((entry) => {
+            const own = entryTags(entry, module);
+            return tags.some((tag) => own.has(tag));
+          })
+        : module.entries,
+    }))
+    .filter(({ entries }) => entries.length > 0);
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CardType,
+  ReviewQuality,
+  exampleAudioCard,
+  exampleImageCard,
+  exampleVocabularyEntry,
+  type CardProgress,
+} from '../../models';
+import {
+  cardAccuracy,
+  collectCardProgress,
+  createCardProgress,
+  recordCardReview,
+  recordEntryCardReview,
+  summarizeCardTypes,
+  toCardPerformance,
+  weakestCardTypes,
+} from './cardProgress';
+
+const NOW = new Date('2025-03-01T12:00:00Z');
+
+function stats(cardId: string, cardType: CardType, shownCount: number, correctCount: number): CardProgress {
+  return {
+    cardId,
+    cardType,
+    shownCount,
+    correctCount,
+    lastShown: NOW.toISOString(),
+    averageResponseTime: 1000,
+    lastQuality: ReviewQuality.GOOD,
+  };
+}
+
+describe('cardProgress', () => {
+  it('should start with no answers and unknown accuracy', () => {
+    const progress = createCardProgress(exampleImageCard);
+    expect(progress).toMatchObject({ cardId: exampleImageCard.cardId, cardType: CardType.IMAGE, shownCount: 0 });
+    expect(cardAccuracy(progress)).toBeUndefined();
+  });
+
+  it('should count answers, passing ratings and a running average response time', () => {
+    const card = exampleImageCard;
+    let progress = recordCardReview(undefined, card, { quality: ReviewQuality.GOOD, responseTime: 3000 }, NOW);
+    progress = recordCardReview(progress, card, { quality: ReviewQuality.HARD, responseTime: 1000 }, NOW);
+    progress = recordCardReview(progress, card, { quality: ReviewQuality.EASY }, NOW);
+
+    expect(progress).toEqual({
+      cardId: exampleImageCard.cardId,
+      cardType: CardType.IMAGE,
+      shownCount: 3,
+      correctCount: 2,
+      lastShown: NOW.toISOString(),
+      averageResponseTime: 2000,
+      timedCount: 2,
+      lastQuality: ReviewQuality.EASY,
+    });
+  });
+
+  it('should average response times over timed answers only', () => {
+    const card = exampleImageCard;
+    let progress = recordCardReview(undefined, card, { quality: ReviewQuality.GOOD }, NOW);
+    progress = recordCardReview(progress, card, { quality: ReviewQuality.GOOD, responseTime: 1000 }, NOW);
+    expect(progress).toMatchObject({ shownCount: 2, timedCount: 1, averageResponseTime: 1000 });
+
+    const untimed = { ...stats('b-002-img-01', CardType.IMAGE, 3, 3), averageResponseTime: 0, timedCount: 0 };
+    const legacy = { ...stats('c-003-img-01', CardType.IMAGE, 1, 1), averageResponseTime: 4000 };
+    expect(summarizeCardTypes([progress, untimed, legacy])).toEqual([
+      { cardType: CardType.IMAGE, shownCount: 6, correctCount: 6, accuracy: 1, averageResponseTime: 2500 },
+    ]);
+    expect(summarizeCardTypes([untimed])[0]?.averageResponseTime).toBe(0);
+  });
+
+  it('should update statistics on the entry without touching its schedule', () => {
+    const review = { quality: ReviewQuality.AGAIN };
+    const updated = recordEntryCardReview(exampleVocabularyEntry, exampleImageCard, review, NOW);
+    expect(updated.progress).toBe(exampleVocabularyEntry.progress);
+    expect(updated.cardProgress?.[exampleImageCard.cardId]).toMatchObject({ shownCount: 1, correctCount: 0 });
+    expect(collectCardProgress([updated, exampleVocabularyEntry])).toHaveLength(1);
+  });
+
+  it('should aggregate statistics by card type', () => {
+    const summary = summarizeCardTypes([
+      stats('a-001-img-01', CardType.IMAGE, 4, 4),
+      stats('b-002-img-01', CardType.IMAGE, 6, 2),
+      stats('a-001-audio-01', CardType.AUDIO, 0, 0),
+    ]);
+    expect(summary).toEqual([
+      { cardType: CardType.IMAGE, shownCount: 10, correctCount: 6, accuracy: 0.6, averageResponseTime: 1000 },
+    ]);
+  });
+
+  it('should rank the weakest card types first', () => {
+    const progress = [
+      stats('a-001-img-01', CardType.IMAGE, 10, 9),
+      stats('a-001-audio-01', CardType.AUDIO, 10, 3),
+      stats('a-001-def-01', CardType.DEFINITION, 4, 2),
+      stats('b-002-def-01', CardType.DEFINITION, 2, 1),
+    ];
+    expect(weakestCardTypes(progress).map((s) => s.cardType)).toEqual([
+      CardType.AUDIO,
+      CardType.DEFINITION,
+      CardType.IMAGE,
+    ]);
+    expect(weakestCardTypes(progress, 1).map((s) => s.cardType)).toEqual([CardType.AUDIO]);
+  });
+
+  it('should build the card selector performance table', () => {
+    const performance = toCardPerformance([
+      stats(exampleImageCard.cardId, CardType.IMAGE, 4, 3),
+      stats(exampleAudioCard.cardId, CardType.AUDIO, 0, 0),
+    ]);
+    expect(performance).toEqual({
+      typeAccuracy: { [CardType.IMAGE]: 0.75 },
+      cardAccuracy: { [exampleImageCard.cardId]: 0.75 },
+    });
+  });
+});
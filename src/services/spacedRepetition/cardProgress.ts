@@ -0,0 +1,176 @@
+/**
+ * Card-level progress.
+ * Tracks how the learner does on each individual card of an entry so weak
+ * card types can be surfaced to the card selector and dashboards. Scheduling
+ * stays entry-level: nothing here affects when an entry is due.
+ */
+
+import type { CardProgress, CardType, ReviewQuality, StudyCard, VocabularyEntry } from '../../models';
+import { isPassingQuality } from './sm2Algorithm';
+import type { CardPerformance } from './cardSelector';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Outcome of one answer to a card.
+ */
+export interface CardReview {
+  /** Quality the answer was rated with */
+  quality: ReviewQuality;
+  /** Time taken to answer in milliseconds, when measured */
+  responseTime?: number;
+}
+
+/**
+ * Aggregated statistics for one card type.
+ */
+export interface CardTypeStats {
+  cardType: CardType;
+  /** Number of answers across all cards of this type */
+  shownCount: number;
+  /** Number of passing answers across all cards of this type */
+  correctCount: number;
+  /** correctCount / shownCount (0-1) */
+  accuracy: number;
+  /** Mean response time in milliseconds over the timed answers (0 if none was timed) */
+  averageResponseTime: number;
+}
+
+// =============================================================================
+// UPDATES
+// =============================================================================
+
+/**
+ * Creates statistics for a card that has never been answered.
+ */
+export function createCardProgress(card: StudyCard): CardProgress {
+  return {
+    cardId: card.cardId,
+    cardType: card.type,
+    shownCount: 0,
+    correctCount: 0,
+    lastShown: null,
+    averageResponseTime: 0,
+    timedCount: 0,
+    lastQuality: null,
+  };
+}
+
+/** Answers the average response time is taken over */
+function timedAnswers(progress: CardProgress): number {
+  return progress.timedCount ?? progress.shownCount;
+}
+
+/**
+ * Records one answer to a card and returns the updated statistics.
+ * An answer without a response time counts as shown but leaves the average
+ * unchanged.
+ */
+export function recordCardReview(
+  progress: CardProgress | undefined,
+  card: StudyCard,
+  review: CardReview,
+  now: Date
+): CardProgress {
+  const previous = progress ?? createCardProgress(card);
+  const timed = timedAnswers(previous);
+  const timedCount = review.responseTime === undefined ? timed : timed + 1;
+  const averageResponseTime =
+    review.responseTime === undefined
+      ? previous.averageResponseTime
+      : (previous.averageResponseTime * timed + review.responseTime) / timedCount;
+
+  return {
+    ...previous,
+    cardType: card.type,
+    shownCount: previous.shownCount + 1,
+    correctCount: previous.correctCount + (isPassingQuality(review.quality) ? 1 : 0),
+    lastShown: now.toISOString(),
+    averageResponseTime,
+    timedCount,
+    lastQuality: review.quality,
+  };
+}
+
+/**
+ * Records one answer to a card on its entry and returns the updated entry.
+ */
+export function recordEntryCardReview(
+  entry: VocabularyEntry,
+  card: StudyCard,
+  review: CardReview,
+  now: Date
+): VocabularyEntry {
+  const updated = recordCardReview(entry.cardProgress?.[card.cardId], card, review, now);
+  return { ...entry, cardProgress: { ...entry.cardProgress, [card.cardId]: updated } };
+}
+
+// =============================================================================
+// QUERIES
+// =============================================================================
+
+/**
+ * Share of passing answers for a card (0-1), or undefined if never answered.
+ */
+export function cardAccuracy(progress: CardProgress): number | undefined {
+  return progress.shownCount > 0 ? progress.correctCount / progress.shownCount : undefined;
+}
+
+/**
+ * Aggregates card statistics by card type. Types without answers are omitted.
+ */
+export function summarizeCardTypes(progress: Iterable<CardProgress>): CardTypeStats[] {
+  const totals = new Map<CardType, { shown: number; correct: number; timed: number; time: number }>();
+  for (const card of progress) {
+    if (card.shownCount === 0) continue;
+    const total = totals.get(card.cardType) ?? { shown: 0, correct: 0, timed: 0, time: 0 };
+    total.shown += card.shownCount;
+    total.correct += card.correctCount;
+    total.timed += timedAnswers(card);
+    total.time += card.averageResponseTime * timedAnswers(card);
+    totals.set(card.cardType, total);
+  }
+  return [...totals].map(([cardType, total]) => ({
+    cardType,
+    shownCount: total.shown,
+    correctCount: total.correct,
+    accuracy: total.correct / total.shown,
+    averageResponseTime: total.timed > 0 ? total.time / total.timed : 0,
+  }));
+}
+
+/**
+ * Lists card types from lowest to highest accuracy; ties go to the type
+ * with more answers, since that weakness is better established.
+ */
+export function weakestCardTypes(progress: Iterable<CardProgress>, limit?: number): CardTypeStats[] {
+  return summarizeCardTypes(progress)
+    .sort((a, b) => a.accuracy - b.accuracy || b.shownCount - a.shownCount)
+    .slice(0, limit);
+}
+
+/**
+ * Collects the card statistics stored on a set of entries.
+ */
+export function collectCardProgress(entries: VocabularyEntry[]): CardProgress[] {
+  return entries.flatMap((entry) => Object.values(entry.cardProgress ?? {}));
+}
+
+/**
+ * Builds the accuracy table used by the weakness-weighted card selector.
+ */
+export function toCardPerformance(progress: Iterable<CardProgress>): CardPerformance {
+  const list = [...progress];
+  const typeAccuracy: Partial<Record<CardType, number>> = {};
+  for (const stats of summarizeCardTypes(list)) {
+    typeAccuracy[stats.cardType] = stats.accuracy;
+  }
+  const byCard: Record<string, number> = {};
+  for (const card of list) {
+    const accuracy = cardAccuracy(card);
+    if (accuracy !== undefined) byCard[card.cardId] = accuracy;
+  }
+  return { typeAccuracy, cardAccuracy: byCard };
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CardType,
+  exampleImageCard,
+  exampleAudioCard,
+  exampleDefinitionCard,
+  type Card,
+  type VocabularyEntry,
+} from '../../models';
+import {
+  createCardSelector,
+  createSelectionHistory,
+  recordCardShown,
+  type CardSelectionStrategy,
+  type CardSelectionHistory,
+} from './cardSelector';
+
+const cards: Card[] = [
+  { ...exampleImageCard, cardId: 'perro-001-img-01' },
+  { ...exampleImageCard, cardId: 'perro-001-img-02' },
+  { ...exampleAudioCard, cardId: 'perro-001-audio-01' },
+  { ...exampleDefinitionCard, cardId: 'perro-001-def-01' },
+];
+const entry: VocabularyEntry = { entryId: 'perro-001', term: 'perro', cards };
+
+function simulate(strategy: CardSelectionStrategy, count: number, seed = 1): Card[] {
+  const selector = createCardSelector({ strategy, seed });
+  let history: CardSelectionHistory = createSelectionHistory();
+  const shown: Card[] = [];
+  for (let i = 0; i < count; i++) {
+    const card = selector.select(entry, history, { typeAccuracy: { [CardType.AUDIO]: 0, [CardType.IMAGE]: 1 } });
+    shown.push(card);
+    history = recordCardShown(history, entry.entryId, card.cardId, new Date(Date.UTC(2025, 0, 1, 0, i)));
+  }
+  return shown;
+}
+
+describe('cardSelector', () => {
+  it.each<CardSelectionStrategy>(['random', 'round-robin', 'least-recent', 'weakness-weighted'])(
+    '%s should never repeat a card twice in a row',
+    (strategy) => {
+      const shown = simulate(strategy, 200);
+      for (let i = 1; i < shown.length; i++) {
+        expect(shown[i].cardId).not.toBe(shown[i - 1].cardId);
+      }
+    }
+  );
+
+  it('should be reproducible for a given seed', () => {
+    expect(simulate('random', 20, 7).map((c) => c.cardId)).toEqual(simulate('random', 20, 7).map((c) => c.cardId));
+  });
+
+  it('should return the only card of a single-card entry every time', () => {
+    const single: VocabularyEntry = { ...entry, cards: [cards[0]] };
+    const selector = createCardSelector({ seed: 1 });
+    const history = recordCardShown(createSelectionHistory(), single.entryId, cards[0].cardId, new Date());
+    expect(selector.select(single, history)).toBe(cards[0]);
+  });
+
+  it('round-robin should cycle through card types', () => {
+    const types = simulate('round-robin', 6).map((card) => card.type);
+    expect(types).toEqual([
+      CardType.IMAGE,
+      CardType.AUDIO,
+      CardType.DEFINITION,
+      CardType.IMAGE,
+      CardType.AUDIO,
+      CardType.DEFINITION,
+    ]);
+  });
+
+  it('least-recent should show every card before repeating one', () => {
+    const shown = simulate('least-recent', 8).map((card) => card.cardId);
+    expect(new Set(shown.slice(0, 4)).size).toBe(4);
+    expect(shown.slice(4)).toEqual(shown.slice(0, 4));
+  });
+
+  it('weakness-weighted should favor the weakest card type', () => {
+    const counts = simulate('weakness-weighted', 400).reduce<Record<string, number>>((acc, card) => {
+      acc[card.type] = (acc[card.type] ?? 0) + 1;
+      return acc;
+    }, {});
+    expect(counts[CardType.AUDIO]).toBeGreaterThan(counts[CardType.DEFINITION]);
+    expect(counts[CardType.DEFINITION]).toBeGreaterThan(counts[CardType.IMAGE]);
+  });
+
+  it('should prefer per-card accuracy over per-type accuracy', () => {
+    const selector = createCardSelector({ strategy: 'weakness-weighted', seed: 3 });
+    const picks = Array.from({ length: 50 }, () =>
+      selector.select(entry, createSelectionHistory(), {
+        typeAccuracy: { [CardType.IMAGE]: 1, [CardType.AUDIO]: 1, [CardType.DEFINITION]: 1 },
+        cardAccuracy: { 'perro-001-img-02': 0 },
+      })
+    );
+    expect(picks.filter((card) => card.cardId === 'perro-001-img-02').length).toBeGreaterThan(35);
+  });
+});
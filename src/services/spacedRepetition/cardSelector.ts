@@ -0,0 +1,202 @@
+/**
+ * Card selection.
+ * Chooses which of an entry's cards to present. Every strategy avoids showing
+ * the same card twice in a row for an entry (when the entry has more than one
+ * card) and draws randomness from an injectable, seedable source.
+ */
+
+import { CardType, type Card, type StudyCard, type VocabularyEntry } from '../../models';
+import { createSeededRandom, weightedIndex } from '../../utils/random';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Available selection strategies.
+ * - `random`: uniform pick
+ * - `round-robin`: cycle through the entry's card types in a fixed order
+ * - `least-recent`: pick the card shown longest ago (never-shown cards first)
+ * - `weakness-weighted`: favor cards whose type the learner answers worst
+ */
+export type CardSelectionStrategy = 'random' | 'round-robin' | 'least-recent' | 'weakness-weighted';
+
+/**
+ * What the selector remembers about previously shown cards.
+ */
+export interface CardSelectionHistory {
+  /** Most recently shown card, keyed by entryId */
+  lastCardIds: Record<string, string>;
+  /** ISO 8601 timestamp each card was last shown, keyed by cardId */
+  lastShownAt: Record<string, string>;
+}
+
+/**
+ * Learner accuracy (0-1) used by the weakness-weighted strategy.
+ * Per-card accuracy takes precedence over per-type accuracy.
+ */
+export interface CardPerformance {
+  /** Accuracy by card type */
+  typeAccuracy?: Partial<Record<CardType, number>>;
+  /** Accuracy by cardId */
+  cardAccuracy?: Record<string, number>;
+}
+
+/**
+ * Options for creating a card selector.
+ */
+export interface CardSelectorOptions {
+  /** Selection strategy (default: random) */
+  strategy?: CardSelectionStrategy;
+  /** Seed for a reproducible random sequence; ignored when `random` is given */
+  seed?: number;
+  /** Random number source in [0, 1) */
+  random?: () => number;
+}
+
+/**
+ * Picks a card from an entry.
+ */
+export interface CardSelector {
+  readonly strategy: CardSelectionStrategy;
+  /**
+   * Picks one of `cards` (default: the entry's own cards). Pass the entry's
+   * derived cards (see deriveReverseCards) to choose among those instead.
+   */
+  select<T extends StudyCard = Card>(
+    entry: VocabularyEntry,
+    history?: CardSelectionHistory,
+    performance?: CardPerformance,
+    cards?: readonly T[]
+  ): T;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Accuracy assumed for cards and types with no recorded answers */
+export const UNKNOWN_ACCURACY = 0.5;
+
+/** Minimum weight so well-known cards are still shown occasionally */
+export const MIN_WEAKNESS_WEIGHT = 0.1;
+
+/** Fixed order in which round-robin cycles through card types */
+const TYPE_ORDER: CardType[] = Object.values(CardType);
+
+// =============================================================================
+// HISTORY
+// =============================================================================
+
+/**
+ * Creates an empty selection history.
+ */
+export function createSelectionHistory(): CardSelectionHistory {
+  return { lastCardIds: {}, lastShownAt: {} };
+}
+
+/**
+ * Records that a card was shown and returns the updated history.
+ */
+export function recordCardShown(
+  history: CardSelectionHistory,
+  entryId: string,
+  cardId: string,
+  now: Date
+): CardSelectionHistory {
+  return {
+    lastCardIds: { ...history.lastCardIds, [entryId]: cardId },
+    lastShownAt: { ...history.lastShownAt, [cardId]: now.toISOString() },
+  };
+}
+
+// =============================================================================
+// STRATEGIES
+// =============================================================================
+
+type StrategyFn = <T extends StudyCard>(
+  candidates: T[],
+  pool: readonly T[],
+  entry: VocabularyEntry,
+  history: CardSelectionHistory,
+  performance: CardPerformance,
+  random: () => number
+) => T;
+
+function pickRandom<T extends StudyCard>(cards: T[], random: () => number): T {
+  return cards[Math.floor(random() * cards.length)];
+}
+
+function shownAt(card: StudyCard, history: CardSelectionHistory): number {
+  const value = history.lastShownAt[card.cardId];
+  return value ? new Date(value).getTime() : -Infinity;
+}
+
+function leastRecent<T extends StudyCard>(cards: T[], history: CardSelectionHistory, random: () => number): T {
+  const oldest = Math.min(...cards.map((card) => shownAt(card, history)));
+  return pickRandom(cards.filter((card) => shownAt(card, history) === oldest), random);
+}
+
+const STRATEGIES: Record<CardSelectionStrategy, StrategyFn> = {
+  random: (candidates, _pool, _entry, _history, _performance, random) => pickRandom(candidates, random),
+
+  'round-robin': (candidates, pool, entry, history, _performance, random) => {
+    const lastId = history.lastCardIds[entry.entryId];
+    const lastType = pool.find((card) => card.cardId === lastId)?.type;
+    const types = TYPE_ORDER.filter((type) => candidates.some((card) => card.type === type));
+    const start = lastType ? TYPE_ORDER.indexOf(lastType) : -1;
+    const nextType = types.find((type) => TYPE_ORDER.indexOf(type) > start) ?? types[0];
+    return leastRecent(candidates.filter((card) => card.type === nextType), history, random);
+  },
+
+  'least-recent': (candidates, _pool, _entry, history, _performance, random) =>
+    leastRecent(candidates, history, random),
+
+  'weakness-weighted': (candidates, _pool, _entry, _history, performance, random) => {
+    const weights = candidates.map((card) => {
+      const accuracy =
+        performance.cardAccuracy?.[card.cardId] ?? performance.typeAccuracy?.[card.type] ?? UNKNOWN_ACCURACY;
+      return Math.max(MIN_WEAKNESS_WEIGHT, 1 - accuracy);
+    });
+    return candidates[weightedIndex(weights, random)];
+  },
+};
+
+// =============================================================================
+// FACTORY
+// =============================================================================
+
+/**
+ * Creates a card selector.
+ *
+ * @example
+ * ```typescript
+ * const selector = createCardSelector({ strategy: 'least-recent', seed: 42 });
+ * let history = createSelectionHistory();
+ * const card = selector.select(entry, history);
+ * history = recordCardShown(history, entry.entryId, card.cardId, new Date());
+ * ```
+ */
+export function createCardSelector(options: CardSelectorOptions = {}): CardSelector {
+  const strategy = options.strategy ?? 'random';
+  const random = options.random ?? (options.seed !== undefined ? createSeededRandom(options.seed) : Math.random);
+  const choose = STRATEGIES[strategy];
+
+  return {
+    strategy,
+    select<T extends StudyCard = Card>(
+      entry: VocabularyEntry,
+      history = createSelectionHistory(),
+      performance: CardPerformance = {},
+      cards?: readonly T[]
+    ): T {
+      const pool = cards ?? (entry.cards as readonly StudyCard[] as readonly T[]);
+      if (pool.length === 0) {
+        throw new Error(`Entry "${entry.entryId}" has no cards`);
+      }
+      const lastId = history.lastCardIds[entry.entryId];
+      const candidates = pool.length > 1 ? pool.filter((card) => card.cardId !== lastId) : [...pool];
+      return choose(candidates, pool, entry, history, performance, random);
+    },
+  };
+}
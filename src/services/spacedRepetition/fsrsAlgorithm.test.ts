@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { ReviewQuality } from '../../models';
+import {
+  toFsrsGrade,
+  retrievability,
+  nextInterval,
+  initialMemoryState,
+  nextMemoryState,
+  reviewEntryFsrs,
+  FSRS_DEFAULT_WEIGHTS,
+} from './fsrsAlgorithm';
+import { fsrsScheduler } from './scheduler';
+
+const START = new Date('2025-01-01T09:00:00Z');
+
+describe('FSRS algorithm', () => {
+  it('should map review qualities to FSRS grades, failing HARD like SM-2', () => {
+    expect(toFsrsGrade(ReviewQuality.AGAIN)).toBe(1);
+    expect(toFsrsGrade(ReviewQuality.HARD)).toBe(1);
+    expect(toFsrsGrade(ReviewQuality.GOOD)).toBe(3);
+    expect(toFsrsGrade(ReviewQuality.EASY)).toBe(4);
+  });
+
+  it('should have 90% retrievability after one stability period', () => {
+    expect(retrievability(0, 10)).toBe(1);
+    expect(retrievability(10, 10)).toBeCloseTo(0.9, 5);
+  });
+
+  it('should schedule at stability when requesting 90% retention', () => {
+    expect(nextInterval(15.4)).toBe(15);
+    expect(nextInterval(0.2)).toBe(1);
+  });
+
+  it('should seed stability from the initial weights', () => {
+    expect(initialMemoryState(3).stability).toBe(FSRS_DEFAULT_WEIGHTS[2]);
+    expect(initialMemoryState(1).difficulty).toBeGreaterThan(initialMemoryState(4).difficulty);
+  });
+
+  it('should grow stability on success and shrink it on lapse', () => {
+    const state = { stability: 10, difficulty: 5 };
+    expect(nextMemoryState(state, 3, 10).stability).toBeGreaterThan(10);
+    expect(nextMemoryState(state, 4, 10).stability).toBeGreaterThan(nextMemoryState(state, 3, 10).stability);
+    expect(nextMemoryState(state, 1, 10).stability).toBeLessThan(10);
+  });
+
+  it('should keep difficulty within 1-10', () => {
+    let state = { stability: 5, difficulty: 5 };
+    for (let i = 0; i < 50; i++) state = nextMemoryState(state, 1, 1);
+    expect(state.difficulty).toBeLessThanOrEqual(10);
+    for (let i = 0; i < 50; i++) state = nextMemoryState(state, 4, 1);
+    expect(state.difficulty).toBeGreaterThanOrEqual(1);
+  });
+
+  it('should store its memory state on the progress record', () => {
+    const progress = reviewEntryFsrs(fsrsScheduler.createInitialProgress(START), ReviewQuality.GOOD, START);
+    expect(progress.schedulerId).toBe('fsrs');
+    expect(progress.schedulerState?.stability).toBe(FSRS_DEFAULT_WEIGHTS[2]);
+    expect(progress.interval).toBe(4);
+    expect(progress.correctCount).toBe(1);
+  });
+
+  it('should produce growing intervals across a simulated schedule', () => {
+    let now = START;
+    let progress = fsrsScheduler.createInitialProgress(now);
+    const intervals: number[] = [];
+    for (let i = 0; i < 6; i++) {
+      progress = fsrsScheduler.review(progress, ReviewQuality.GOOD, now);
+      intervals.push(progress.interval);
+      now = new Date(progress.nextReview);
+    }
+    for (let i = 1; i < intervals.length; i++) {
+      expect(intervals[i]).toBeGreaterThan(intervals[i - 1]);
+    }
+    expect(progress.mastered).toBe(true);
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * FSRS (Free Spaced Repetition Scheduler) memory model.
+ * Models each entry with stability (days until retrievability drops to 90%)
+ * and difficulty (1-10), and schedules the next review at the desired retention.
+ * Uses the published FSRS-4.5 default weights.
+ */
+
+import { differenceInMilliseconds, addDays } from 'date-fns';
+import { ReviewQuality, type SchedulerState, type UserProgress } from '../../models';
+import { isPassingQuality, MASTERY_INTERVAL_DAYS } from './sm2Algorithm';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Default FSRS-4.5 model weights (w0-w16) */
+export const FSRS_DEFAULT_WEIGHTS: readonly number[] = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474, 0.1367, 1.0461, 2.1072,
+  0.0793, 0.3246, 1.587, 0.2272, 2.8755,
+];
+
+/** Probability of recall at which the next review is scheduled */
+export const FSRS_DEFAULT_RETENTION = 0.9;
+
+/** Upper bound for a scheduled interval in days */
+export const FSRS_MAXIMUM_INTERVAL = 36500;
+
+const DECAY = -0.5;
+const FACTOR = 19 / 81;
+const MIN_DIFFICULTY = 1;
+const MAX_DIFFICULTY = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * FSRS grade (1 = again, 2 = hard, 3 = good, 4 = easy).
+ */
+export type FsrsGrade = 1 | 2 | 3 | 4;
+
+/**
+ * Memory state tracked by FSRS for an entry.
+ */
+export interface FsrsMemoryState {
+  /** Interval in days at which retrievability falls to 90% */
+  stability: number;
+  /** Intrinsic difficulty of the entry (1-10) */
+  difficulty: number;
+}
+
+/**
+ * Tunable parameters for the FSRS model.
+ */
+export interface FsrsParameters {
+  /** Model weights w0-w16 */
+  weights: readonly number[];
+  /** Target probability of recall when a review is due (0-1) */
+  requestRetention: number;
+  /** Longest interval the scheduler will produce, in days */
+  maximumInterval: number;
+}
+
+/** Default FSRS parameters */
+export const DEFAULT_FSRS_PARAMETERS: FsrsParameters = {
+  weights: FSRS_DEFAULT_WEIGHTS,
+  requestRetention: FSRS_DEFAULT_RETENTION,
+  maximumInterval: FSRS_MAXIMUM_INTERVAL,
+};
+
+// =============================================================================
+// MODEL
+// =============================================================================
+
+/**
+ * Maps a ReviewQuality onto the FSRS grades. HARD is a wrong answer that was
+ * recognized once shown, so it is a lapse (Again) as it is under SM-2; the
+ * FSRS Hard grade is a successful recall and is never produced.
+ */
+export function toFsrsGrade(quality: ReviewQuality): FsrsGrade {
+  switch (quality) {
+    case ReviewQuality.AGAIN:
+    case ReviewQuality.HARD:
+      return 1;
+    case ReviewQuality.GOOD:
+      return 3;
+    case ReviewQuality.EASY:
+      return 4;
+  }
+}
+
+function clampDifficulty(difficulty: number): number {
+  return Math.min(MAX_DIFFICULTY, Math.max(MIN_DIFFICULTY, difficulty));
+}
+
+/**
+ * Probability of recall after `elapsedDays` for a memory of the given stability.
+ */
+export function retrievability(elapsedDays: number, stability: number): number {
+  return Math.pow(1 + (FACTOR * elapsedDays) / stability, DECAY);
+}
+
+/**
+ * Interval in days at which retrievability reaches the requested retention.
+ */
+export function nextInterval(stability: number, params: FsrsParameters = DEFAULT_FSRS_PARAMETERS): number {
+  const interval = (stability / FACTOR) * (Math.pow(params.requestRetention, 1 / DECAY) - 1);
+  return Math.min(params.maximumInterval, Math.max(1, Math.round(interval)));
+}
+
+/**
+ * Memory state after the very first review of an entry.
+ */
+export function initialMemoryState(
+  grade: FsrsGrade,
+  params: FsrsParameters = DEFAULT_FSRS_PARAMETERS
+): FsrsMemoryState {
+  const w = params.weights;
+  return {
+    stability: w[grade - 1],
+    difficulty: clampDifficulty(w[4] - (grade - 3) * w[5]),
+  };
+}
+
+/**
+ * Memory state after a subsequent review.
+ *
+ * @param state - Memory state before the review
+ * @param grade - FSRS grade of the review
+ * @param elapsedDays - Days since the previous review
+ */
+export function nextMemoryState(
+  state: FsrsMemoryState,
+  grade: FsrsGrade,
+  elapsedDays: number,
+  params: FsrsParameters = DEFAULT_FSRS_PARAMETERS
+): FsrsMemoryState {
+  const w = params.weights;
+  const r = retrievability(elapsedDays, state.stability);
+
+  // Difficulty moves with the grade, then reverts toward the default difficulty
+  const initialGoodDifficulty = w[4];
+  const shifted = state.difficulty - w[6] * (grade - 3);
+  const difficulty = clampDifficulty(w[7] * initialGoodDifficulty + (1 - w[7]) * shifted);
+
+  if (grade === 1) {
+    const stability =
+      w[11] *
+      Math.pow(state.difficulty, -w[12]) *
+      (Math.pow(state.stability + 1, w[13]) - 1) *
+      Math.exp(w[14] * (1 - r));
+    return { stability: Math.min(stability, state.stability), difficulty };
+  }
+
+  const hardPenalty = grade === 2 ? w[15] : 1;
+  const easyBonus = grade === 4 ? w[16] : 1;
+  const stability =
+    state.stability *
+    (Math.exp(w[8]) *
+      (11 - state.difficulty) *
+      Math.pow(state.stability, -w[9]) *
+      (Math.exp(w[10] * (1 - r)) - 1) *
+      hardPenalty *
+      easyBonus +
+      1);
+  return { stability, difficulty };
+}
+
+// =============================================================================
+// PROGRESS INTEGRATION
+// =============================================================================
+
+/**
+ * Reads the FSRS memory state out of a progress record, if present.
+ */
+export function readMemoryState(state: SchedulerState | undefined): FsrsMemoryState | null {
+  if (!state) return null;
+  const { stability, difficulty } = state;
+  if (typeof stability !== 'number' || typeof difficulty !== 'number') return null;
+  if (!(stability > 0)) return null;
+  return { stability, difficulty };
+}
+
+/**
+ * Applies a single review to an FSRS-scheduled entry and returns the next state.
+ * Counters (correct/incorrect, streak, repetitions) follow the same pass/fail
+ * rule as SM-2; `easeFactor` is carried over unchanged.
+ */
+export function reviewEntryFsrs(
+  progress: UserProgress,
+  quality: ReviewQuality,
+  now: Date,
+  params: FsrsParameters = DEFAULT_FSRS_PARAMETERS
+): UserProgress {
+  const grade = toFsrsGrade(quality);
+  const correct = isPassingQuality(quality);
+  const previous = readMemoryState(progress.schedulerState);
+
+  let memory: FsrsMemoryState;
+  if (previous && progress.lastReview) {
+    const elapsedDays = Math.max(0, differenceInMilliseconds(now, new Date(progress.lastReview)) / DAY_MS);
+    memory = nextMemoryState(previous, grade, elapsedDays, params);
+  } else {
+    memory = initialMemoryState(grade, params);
+  }
+
+  const interval = nextInterval(memory.stability, params);
+
+  return {
+    ...progress,
+    interval,
+    repetitions: correct ? progress.repetitions + 1 : 0,
+    lastReview: now.toISOString(),
+    nextReview: addDays(now, interval).toISOString(),
+    totalReviews: progress.totalReviews + 1,
+    correctCount: progress.correctCount + (correct ? 1 : 0),
+    incorrectCount: progress.incorrectCount + (correct ? 0 : 1),
+    streak: correct ? progress.streak + 1 : 0,
+    mastered: interval > MASTERY_INTERVAL_DAYS,
+    schedulerId: 'fsrs',
+    schedulerState: { stability: memory.stability, difficulty: memory.difficulty },
+  };
+}
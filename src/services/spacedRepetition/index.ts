@@ -0,0 +1,11 @@
+/**
+ * Spaced repetition scheduling.
+ */
+
+export * from './sm2Algorithm';
+export * from './fsrsAlgorithm';
+export * from './scheduler';
+export * from './cardSelector';
+export * from './cardProgress';
+export * from './reverseCards';
+export * from './reviewLog';
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CardType,
+  exampleAudioCard,
+  exampleImageCard,
+  exampleTriviaCard,
+  exampleVocabularyEntry,
+  type VocabularyEntry,
+} from '../../models';
+import { deriveReverseCards, REVERSE_PROMPTS, reverseCardId } from './reverseCards';
+
+describe('reverseCards', () => {
+  it('should derive a recognition card from each definition and image card', () => {
+    const cards = deriveReverseCards(exampleVocabularyEntry);
+
+    expect(cards.map((card) => card.cardId)).toEqual(['perro-001-img-01-rev', 'perro-001-def-01-rev']);
+    expect(cards[0]).toEqual({
+      cardId: 'perro-001-img-01-rev',
+      type: CardType.REVERSE,
+      sourceCardId: 'perro-001-img-01',
+      answerKind: 'image',
+      term: 'perro',
+      pronunciation: '/ˈpe.ro/',
+      prompt: REVERSE_PROMPTS.image,
+      expectedAnswer: exampleImageCard.imageUrl,
+      tags: exampleImageCard.tags,
+    });
+    expect(cards[1]).toMatchObject({
+      answerKind: 'definition',
+      prompt: REVERSE_PROMPTS.definition,
+      expectedAnswer: 'A domesticated carnivorous mammal that typically has a long snout and barks',
+    });
+  });
+
+  it('should attach the pronunciation audio of the entry', () => {
+    const entry: VocabularyEntry = {
+      ...exampleVocabularyEntry,
+      cards: [...exampleVocabularyEntry.cards, { ...exampleAudioCard, cardId: 'perro-001-audio-01' }],
+    };
+    expect(deriveReverseCards(entry).map((card) => card.audioUrl)).toEqual([
+      exampleAudioCard.audioUrl,
+      exampleAudioCard.audioUrl,
+    ]);
+  });
+
+  it('should derive nothing from entries without definitions or pictures', () => {
+    const entry: VocabularyEntry = { entryId: 'paella-001', term: 'paella', cards: [exampleTriviaCard] };
+    expect(deriveReverseCards(entry)).toEqual([]);
+  });
+
+  it('should build reverse card ids from the source card id', () => {
+    expect(reverseCardId('perro-001-def-01')).toBe('perro-001-def-01-rev');
+  });
+});
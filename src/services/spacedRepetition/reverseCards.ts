@@ -0,0 +1,87 @@
+/**
+ * Reverse (recognition) cards.
+ * Authored cards test production: the learner sees a meaning and recalls the
+ * term. Reverse cards are derived from an entry's DefinitionCards and
+ * ImageCards at study time and test recognition instead: the learner sees
+ * the term (and hears it, when the entry has audio) and picks its meaning.
+ * Recognition is scheduled by `VocabularyEntry.reverseProgress`, apart from
+ * the entry's production `progress`.
+ */
+
+import {
+  CardType,
+  type Card,
+  type DefinitionCard,
+  type ImageCard,
+  type ReverseCard,
+  type VocabularyEntry,
+} from '../../models';
+import { compact } from '../../utils/compact';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Suffix appended to the source card id to form a reverse card id */
+export const REVERSE_CARD_SUFFIX = '-rev';
+
+/** Prompts shown on reverse cards, by what they ask for */
+export const REVERSE_PROMPTS: Record<ReverseCard['answerKind'], string> = {
+  definition: 'What does this word mean?',
+  image: 'Which picture shows this word?',
+};
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function isReversible(card: Card): card is DefinitionCard | ImageCard {
+  return card.type === CardType.DEFINITION || card.type === CardType.IMAGE;
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Id of the reverse card derived from a card (e.g. "perro-001-def-01-rev").
+ */
+export function reverseCardId(sourceCardId: string): string {
+  return `${sourceCardId}${REVERSE_CARD_SUFFIX}`;
+}
+
+/**
+ * Builds the reverse card of a DefinitionCard or ImageCard. The term's
+ * pronunciation and the entry's first audio clip are attached so the term
+ * can be heard as well as read.
+ */
+export function createReverseCard(entry: VocabularyEntry, source: DefinitionCard | ImageCard): ReverseCard {
+  const answerKind = source.type === CardType.DEFINITION ? 'definition' : 'image';
+  const audio = entry.cards.find((card) => card.type === CardType.AUDIO);
+  return compact({
+    cardId: reverseCardId(source.cardId),
+    type: CardType.REVERSE,
+    sourceCardId: source.cardId,
+    answerKind,
+    term: entry.term,
+    pronunciation: entry.pronunciation,
+    audioUrl: audio?.audioUrl,
+    prompt: REVERSE_PROMPTS[answerKind],
+    expectedAnswer: source.type === CardType.DEFINITION ? source.definition : source.imageUrl,
+    tags: source.tags,
+  });
+}
+
+/**
+ * Derives one reverse card per DefinitionCard and ImageCard of an entry.
+ * Entries with neither have no recognition direction.
+ *
+ * @example
+ * ```typescript
+ * const [card] = deriveReverseCards(perro);
+ * // card.term: 'perro', card.expectedAnswer: 'A domesticated carnivorous mammal…'
+ * ```
+ */
+export function deriveReverseCards(entry: VocabularyEntry): ReverseCard[] {
+  return entry.cards.filter(isReversible).map((card) => createReverseCard(entry, card));
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CardType,
+  ReviewQuality,
+  exampleLearningProgress,
+  type ReviewLogEntry,
+  type UserProgress,
+} from '../../models';
+import { replayReviewLog } from './reviewLog';
+import { fsrsScheduler, sm2Scheduler } from './scheduler';
+
+function day(n: number): Date {
+  return new Date(Date.UTC(2025, 0, n, 9));
+}
+
+/** Logs answers the way the session manager does, rescheduling with SM-2 */
+function logAnswers(
+  answers: { quality: ReviewQuality; on: number; rescheduled?: boolean }[],
+  initial: UserProgress | null = null
+): ReviewLogEntry[] {
+  let progress = initial;
+  return answers.map(({ quality, on, rescheduled = true }) => {
+    const progressBefore = progress;
+    const base = progressBefore ?? sm2Scheduler.createInitialProgress(day(on));
+    progress = rescheduled ? sm2Scheduler.review(base, quality, day(on)) : base;
+    return {
+      moduleId: 'spanish-animals-basics',
+      entryId: 'perro-001',
+      cardId: 'perro-001-def-01',
+      cardType: CardType.DEFINITION,
+      direction: 'production',
+      userAnswer: 'perro',
+      confidence: 1,
+      answerMode: 'typed',
+      quality,
+      reviewedAt: day(on).toISOString(),
+      rescheduled,
+      progressBefore,
+      progressAfter: progress,
+    };
+  });
+}
+
+describe('replayReviewLog', () => {
+  const log = logAnswers([
+    { quality: ReviewQuality.GOOD, on: 1 },
+    { quality: ReviewQuality.AGAIN, on: 2 },
+    { quality: ReviewQuality.GOOD, on: 2, rescheduled: false },
+    { quality: ReviewQuality.EASY, on: 3 },
+  ]);
+
+  it('should rebuild the logged progress through the same scheduler', () => {
+    expect(replayReviewLog([...log].reverse())).toEqual(log[log.length - 1].progressAfter);
+  });
+
+  it('should ignore practice repeats', () => {
+    expect(replayReviewLog(log)?.totalReviews).toBe(3);
+  });
+
+  it('should replay the same answers through another scheduler', () => {
+    const replayed = replayReviewLog(log, { scheduler: fsrsScheduler });
+    expect(replayed).toMatchObject({ schedulerId: 'fsrs', totalReviews: 3, correctCount: 2 });
+    expect(replayed?.schedulerState).toBeDefined();
+  });
+
+  it('should start from the progress recorded before the first logged answer', () => {
+    const continued = logAnswers([{ quality: ReviewQuality.GOOD, on: 10 }], exampleLearningProgress);
+    const replayed = replayReviewLog(continued);
+    expect(replayed).toEqual(continued[0].progressAfter);
+    expect(replayed?.totalReviews).toBe(exampleLearningProgress.totalReviews + 1);
+  });
+
+  it('should return null when nothing in the direction rescheduled the entry', () => {
+    expect(replayReviewLog([])).toBeNull();
+    expect(replayReviewLog(log, { direction: 'recognition' })).toBeNull();
+  });
+});
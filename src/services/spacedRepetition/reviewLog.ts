@@ -0,0 +1,65 @@
+/**
+ * Review log replay.
+ * Progress records only keep aggregates. The review log keeps every rated
+ * answer, so an entry's UserProgress can be rebuilt from it: to repair a
+ * record, to audit a suspicious schedule, or to see what another scheduler
+ * would have done with the same answers.
+ */
+
+import type { ReviewLogEntry, StudyDirection, UserProgress } from '../../models';
+import { getSchedulerFor, migrateProgress, type Scheduler } from './scheduler';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Options for replaying a review log.
+ */
+export interface ReplayOptions {
+  /** Direction whose progress is rebuilt (default: production) */
+  direction?: StudyDirection;
+  /** Scheduler to replay through (default: the one that produced the logged progress) */
+  scheduler?: Scheduler;
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Rebuilds the progress of one entry by replaying its logged answers, in
+ * order, through a scheduler. Only answers that rescheduled the entry are
+ * replayed; practice repeats never changed its progress.
+ *
+ * Replay starts from the progress before the first logged answer, so entries
+ * reviewed before the log existed keep their earlier history (translated to
+ * the scheduler with migrateProgress). Entries first reviewed with the log in
+ * place start from fresh progress.
+ *
+ * @param log - Review log entries of a single entry, in any order
+ * @returns The rebuilt progress, or null if no answer in the direction rescheduled the entry
+ *
+ * @example
+ * ```typescript
+ * const log = await reviewLog.getEntryLog('spanish-animals-basics', 'perro-001');
+ * const asFsrs = replayReviewLog(log, { scheduler: fsrsScheduler });
+ * ```
+ */
+export function replayReviewLog(log: ReviewLogEntry[], options: ReplayOptions = {}): UserProgress | null {
+  const direction = options.direction ?? 'production';
+  const events = log
+    .filter((event) => event.direction === direction && event.rescheduled)
+    .sort((a, b) => a.reviewedAt.localeCompare(b.reviewedAt));
+  const [first] = events;
+  if (!first) return null;
+
+  const scheduler = options.scheduler ?? getSchedulerFor(first.progressAfter);
+  let progress = first.progressBefore
+    ? migrateProgress(first.progressBefore, scheduler.id)
+    : scheduler.createInitialProgress(new Date(first.reviewedAt));
+  for (const event of events) {
+    progress = scheduler.review(progress, event.quality, new Date(event.reviewedAt));
+  }
+  return progress;
+}
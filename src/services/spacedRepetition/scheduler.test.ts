@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { ReviewQuality, exampleLearningProgress } from '../../models';
+import {
+  getScheduler,
+  getSchedulerFor,
+  reviewWithScheduler,
+  migrateProgress,
+  sm2Scheduler,
+  fsrsScheduler,
+} from './scheduler';
+
+const NOW = new Date('2025-01-01T09:00:00Z');
+
+describe('Scheduler registry', () => {
+  it('should look up schedulers by id', () => {
+    expect(getScheduler('sm2')).toBe(sm2Scheduler);
+    expect(getScheduler('fsrs')).toBe(fsrsScheduler);
+  });
+
+  it('should treat legacy records without schedulerId as SM-2', () => {
+    expect(exampleLearningProgress.schedulerId).toBeUndefined();
+    expect(getSchedulerFor(exampleLearningProgress)).toBe(sm2Scheduler);
+
+    const next = reviewWithScheduler(exampleLearningProgress, ReviewQuality.GOOD, NOW);
+    expect(next.schedulerId).toBeUndefined();
+    expect(next.interval).toBe(Math.round(6 * 2.6));
+  });
+
+  it('should fail HARD answers under both schedulers', () => {
+    for (const scheduler of [sm2Scheduler, fsrsScheduler]) {
+      const learned = scheduler.review(scheduler.createInitialProgress(NOW), ReviewQuality.GOOD, NOW);
+      const later = new Date(learned.nextReview);
+      const hard = scheduler.review(learned, ReviewQuality.HARD, later);
+      const again = scheduler.review(learned, ReviewQuality.AGAIN, later);
+      expect(hard).toMatchObject({ repetitions: 0, streak: 0, incorrectCount: 1 });
+      expect(hard.interval).toBeLessThanOrEqual(learned.interval);
+      expect(hard.interval).toBe(again.interval);
+      expect(hard.schedulerState).toEqual(again.schedulerState);
+    }
+  });
+
+  it('should dispatch FSRS records to the FSRS scheduler', () => {
+    const next = reviewWithScheduler(fsrsScheduler.createInitialProgress(NOW), ReviewQuality.GOOD, NOW);
+    expect(next.schedulerState).toBeDefined();
+  });
+});
+
+describe('migrateProgress', () => {
+  it('should return the same record when already on the target scheduler', () => {
+    expect(migrateProgress(exampleLearningProgress, 'sm2')).toBe(exampleLearningProgress);
+  });
+
+  it('should seed FSRS state from SM-2 interval and ease', () => {
+    const migrated = migrateProgress(exampleLearningProgress, 'fsrs');
+    expect(migrated.schedulerId).toBe('fsrs');
+    expect(migrated.schedulerState?.stability).toBe(6);
+    expect(migrated.schedulerState?.difficulty).toBeLessThan(5);
+    expect(migrated.totalReviews).toBe(exampleLearningProgress.totalReviews);
+    expect(migrated.nextReview).toBe(exampleLearningProgress.nextReview);
+  });
+
+  it('should continue scheduling from migrated state', () => {
+    const migrated = migrateProgress(exampleLearningProgress, 'fsrs');
+    const lastReview = new Date(migrated.lastReview!);
+    const next = reviewWithScheduler(migrated, ReviewQuality.GOOD, new Date(lastReview.getTime() + 6 * 86400000));
+    expect(next.interval).toBeGreaterThan(6);
+  });
+
+  it('should round-trip back to SM-2 and drop FSRS state', () => {
+    const back = migrateProgress(migrateProgress(exampleLearningProgress, 'fsrs'), 'sm2');
+    expect(back.schedulerId).toBe('sm2');
+    expect(back.schedulerState).toBeUndefined();
+    expect(back.easeFactor).toBeCloseTo(exampleLearningProgress.easeFactor);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Pluggable scheduler abstraction.
+ * Every scheduler consumes and produces UserProgress, so progress records can
+ * move between algorithms without changing their shape.
+ */
+
+import type { ReviewQuality, SchedulerId, UserProgress } from '../../models';
+import {
+  createInitialProgress,
+  reviewEntry,
+  INITIAL_EASE_FACTOR,
+  MASTERY_INTERVAL_DAYS,
+  MIN_EASE_FACTOR,
+} from './sm2Algorithm';
+import { reviewEntryFsrs, readMemoryState } from './fsrsAlgorithm';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * A spaced repetition algorithm that schedules the next review of an entry.
+ */
+export interface Scheduler {
+  /** Identifier stored on progress records produced by this scheduler */
+  readonly id: SchedulerId;
+  /** Human-readable name */
+  readonly name: string;
+  /** Creates progress for an entry that has never been reviewed */
+  createInitialProgress(now: Date): UserProgress;
+  /** Applies a review and returns the next progress state */
+  review(progress: UserProgress, quality: ReviewQuality, now: Date): UserProgress;
+}
+
+// =============================================================================
+// IMPLEMENTATIONS
+// =============================================================================
+
+/**
+ * Classic SM-2 scheduler. Records without a `schedulerId` belong to it.
+ */
+export const sm2Scheduler: Scheduler = {
+  id: 'sm2',
+  name: 'SM-2',
+  createInitialProgress,
+  review: reviewEntry,
+};
+
+/**
+ * FSRS scheduler using stability/difficulty/retrievability.
+ */
+export const fsrsScheduler: Scheduler = {
+  id: 'fsrs',
+  name: 'FSRS',
+  createInitialProgress(now: Date): UserProgress {
+    return { ...createInitialProgress(now), schedulerId: 'fsrs' };
+  },
+  review(progress: UserProgress, quality: ReviewQuality, now: Date): UserProgress {
+    return reviewEntryFsrs(progress, quality, now);
+  },
+};
+
+const SCHEDULERS: Record<SchedulerId, Scheduler> = {
+  sm2: sm2Scheduler,
+  fsrs: fsrsScheduler,
+};
+
+// =============================================================================
+// REGISTRY
+// =============================================================================
+
+/**
+ * Looks up a scheduler by id.
+ */
+export function getScheduler(id: SchedulerId): Scheduler {
+  return SCHEDULERS[id];
+}
+
+/**
+ * Returns the scheduler that owns a progress record (SM-2 for legacy records).
+ */
+export function getSchedulerFor(progress: UserProgress): Scheduler {
+  return getScheduler(progress.schedulerId ?? 'sm2');
+}
+
+/**
+ * Reviews an entry with whichever scheduler owns its progress record.
+ */
+export function reviewWithScheduler(progress: UserProgress, quality: ReviewQuality, now: Date): UserProgress {
+  return getSchedulerFor(progress).review(progress, quality, now);
+}
+
+// =============================================================================
+// MIGRATION
+// =============================================================================
+
+/**
+ * Converts a progress record so it is owned by the target scheduler.
+ * Review history, counters and the scheduled date are preserved; only the
+ * algorithm state is translated.
+ *
+ * - SM-2 → FSRS: stability is seeded from the current interval and difficulty
+ *   from the ease factor (2.5 maps to 5, the floor of 1.3 maps to 10).
+ * - FSRS → SM-2: the ease factor is derived back from difficulty and the
+ *   FSRS state is dropped.
+ */
+export function migrateProgress(progress: UserProgress, target: SchedulerId): UserProgress {
+  const source = progress.schedulerId ?? 'sm2';
+  if (source === target) return progress;
+
+  if (target === 'fsrs') {
+    const difficulty = Math.min(10, Math.max(1, 5 + (INITIAL_EASE_FACTOR - progress.easeFactor) * (5 / 1.2)));
+    const stability = Math.max(progress.interval, 0.1);
+    return {
+      ...progress,
+      schedulerId: 'fsrs',
+      schedulerState: progress.totalReviews > 0 ? { stability, difficulty } : undefined,
+      mastered: progress.interval > MASTERY_INTERVAL_DAYS,
+    };
+  }
+
+  const memory = readMemoryState(progress.schedulerState);
+  const easeFactor = memory
+    ? Math.max(MIN_EASE_FACTOR, INITIAL_EASE_FACTOR - (memory.difficulty - 5) * (1.2 / 5))
+    : progress.easeFactor;
+  const migrated: UserProgress = { ...progress, schedulerId: 'sm2', easeFactor };
+  delete migrated.schedulerState;
+  return migrated;
+}
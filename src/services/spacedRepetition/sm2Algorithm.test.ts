@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { ReviewQuality } from '../../models';
+import {
+  createInitialProgress,
+  reviewEntry,
+  calculateEaseFactor,
+  calculateInterval,
+  isDue,
+  isPassingQuality,
+  MIN_EASE_FACTOR,
+  INITIAL_EASE_FACTOR,
+} from './sm2Algorithm';
+
+const START = new Date('2025-01-01T09:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('SM-2 algorithm', () => {
+  describe('createInitialProgress', () => {
+    it('should start with default SM-2 values and be due immediately', () => {
+      const progress = createInitialProgress(START);
+      expect(progress.interval).toBe(1);
+      expect(progress.easeFactor).toBe(INITIAL_EASE_FACTOR);
+      expect(progress.repetitions).toBe(0);
+      expect(progress.lastReview).toBeNull();
+      expect(isDue(progress, START)).toBe(true);
+    });
+  });
+
+  describe('isPassingQuality', () => {
+    it('should treat GOOD and EASY as correct', () => {
+      expect(isPassingQuality(ReviewQuality.AGAIN)).toBe(false);
+      expect(isPassingQuality(ReviewQuality.HARD)).toBe(false);
+      expect(isPassingQuality(ReviewQuality.GOOD)).toBe(true);
+      expect(isPassingQuality(ReviewQuality.EASY)).toBe(true);
+    });
+  });
+
+  describe('calculateEaseFactor', () => {
+    it('should increase ease on EASY and decrease on GOOD', () => {
+      expect(calculateEaseFactor(2.5, ReviewQuality.EASY)).toBeCloseTo(2.6);
+      expect(calculateEaseFactor(2.5, ReviewQuality.GOOD)).toBeCloseTo(2.36);
+    });
+
+    it('should never go below the 1.3 floor', () => {
+      expect(calculateEaseFactor(1.3, ReviewQuality.GOOD)).toBe(MIN_EASE_FACTOR);
+    });
+  });
+
+  describe('calculateInterval', () => {
+    it('should follow the 1, 6, interval * ease progression', () => {
+      expect(calculateInterval(0, 2.5, 1)).toBe(1);
+      expect(calculateInterval(1, 2.5, 1)).toBe(6);
+      expect(calculateInterval(2, 2.5, 6)).toBe(15);
+    });
+  });
+
+  describe('reviewEntry', () => {
+    it('should schedule the next review relative to the injected clock', () => {
+      const progress = reviewEntry(createInitialProgress(START), ReviewQuality.GOOD, START);
+      expect(progress.lastReview).toBe(START.toISOString());
+      expect(progress.nextReview).toBe(new Date(START.getTime() + DAY_MS).toISOString());
+      expect(progress.repetitions).toBe(1);
+      expect(progress.correctCount).toBe(1);
+      expect(progress.streak).toBe(1);
+    });
+
+    it('should reset interval, repetitions and streak on AGAIN', () => {
+      let progress = createInitialProgress(START);
+      progress = reviewEntry(progress, ReviewQuality.EASY, START);
+      progress = reviewEntry(progress, ReviewQuality.EASY, START);
+      progress = reviewEntry(progress, ReviewQuality.AGAIN, START);
+
+      expect(progress.interval).toBe(1);
+      expect(progress.repetitions).toBe(0);
+      expect(progress.streak).toBe(0);
+      expect(progress.incorrectCount).toBe(1);
+      expect(progress.totalReviews).toBe(3);
+      expect(progress.easeFactor).toBeCloseTo(2.5);
+    });
+
+    it('should treat HARD as a lapse', () => {
+      const progress = reviewEntry(createInitialProgress(START), ReviewQuality.HARD, START);
+      expect(progress.repetitions).toBe(0);
+      expect(progress.incorrectCount).toBe(1);
+      expect(progress.easeFactor).toBeCloseTo(2.3);
+    });
+
+    it('should not mutate the input progress', () => {
+      const initial = createInitialProgress(START);
+      const snapshot = { ...initial };
+      reviewEntry(initial, ReviewQuality.GOOD, START);
+      expect(initial).toEqual(snapshot);
+    });
+
+    it('should keep ease at the floor after repeated lapses', () => {
+      let progress = createInitialProgress(START);
+      for (let i = 0; i < 20; i++) {
+        progress = reviewEntry(progress, ReviewQuality.AGAIN, START);
+      }
+      expect(progress.easeFactor).toBe(MIN_EASE_FACTOR);
+    });
+  });
+
+  describe('simulated schedule', () => {
+    it('should produce a deterministic schedule over several months of GOOD reviews', () => {
+      let now = START;
+      let progress = createInitialProgress(now);
+      const intervals: number[] = [];
+
+      while (now.getTime() - START.getTime() < 180 * DAY_MS) {
+        progress = reviewEntry(progress, ReviewQuality.GOOD, now);
+        intervals.push(progress.interval);
+        now = new Date(progress.nextReview);
+      }
+
+      expect(intervals.slice(0, 4)).toEqual([1, 6, 13, 27]);
+      expect(progress.mastered).toBe(true);
+      expect(progress.correctCount).toBe(intervals.length);
+    });
+
+    it('should flip mastered off again after a lapse', () => {
+      let now = START;
+      let progress = createInitialProgress(now);
+      while (!progress.mastered) {
+        progress = reviewEntry(progress, ReviewQuality.EASY, now);
+        now = new Date(progress.nextReview);
+      }
+
+      progress = reviewEntry(progress, ReviewQuality.AGAIN, now);
+      expect(progress.mastered).toBe(false);
+      expect(isDue(progress, new Date(now.getTime() + DAY_MS))).toBe(true);
+      expect(isDue(progress, now)).toBe(false);
+    });
+  });
+});
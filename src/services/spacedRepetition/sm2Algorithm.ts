@@ -0,0 +1,124 @@
+/**
+ * SM-2 spaced repetition algorithm.
+ * Pure functions that compute the next UserProgress from a review outcome.
+ * The clock is always injected so schedules can be simulated deterministically.
+ */
+
+import { addDays } from 'date-fns';
+import { ReviewQuality, type UserProgress } from '../../models';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Ease factor assigned to entries that have never been reviewed */
+export const INITIAL_EASE_FACTOR = 2.5;
+
+/** Lowest ease factor SM-2 allows */
+export const MIN_EASE_FACTOR = 1.3;
+
+/** Ease penalty applied when an answer is incorrect */
+export const LAPSE_EASE_PENALTY = 0.2;
+
+/** Interval (days) after which an entry is considered mastered */
+export const MASTERY_INTERVAL_DAYS = 21;
+
+/** Minimum quality that counts as a correct recall */
+export const PASSING_QUALITY = ReviewQuality.GOOD;
+
+// =============================================================================
+// ALGORITHM
+// =============================================================================
+
+/**
+ * Creates the progress record for an entry that has never been reviewed.
+ * The entry is due immediately.
+ */
+export function createInitialProgress(now: Date): UserProgress {
+  return {
+    interval: 1,
+    easeFactor: INITIAL_EASE_FACTOR,
+    repetitions: 0,
+    lastReview: null,
+    nextReview: now.toISOString(),
+    totalReviews: 0,
+    correctCount: 0,
+    incorrectCount: 0,
+    streak: 0,
+    mastered: false,
+  };
+}
+
+/**
+ * Whether a review of the given quality counts as a correct answer.
+ */
+export function isPassingQuality(quality: ReviewQuality): boolean {
+  return quality >= PASSING_QUALITY;
+}
+
+/**
+ * Calculates the new ease factor after a correct answer.
+ * EF' = EF + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02)), floored at 1.3.
+ */
+export function calculateEaseFactor(easeFactor: number, quality: ReviewQuality): number {
+  const distance = 5 - quality;
+  const next = easeFactor + (0.1 - distance * (0.08 + distance * 0.02));
+  return Math.max(MIN_EASE_FACTOR, next);
+}
+
+/**
+ * Calculates the interval (in days) for a correct answer.
+ *
+ * @param repetitions - Consecutive correct reviews before this one
+ * @param easeFactor - Ease factor before this review
+ * @param interval - Previous interval in days
+ */
+export function calculateInterval(repetitions: number, easeFactor: number, interval: number): number {
+  if (repetitions === 0) return 1;
+  if (repetitions === 1) return 6;
+  return Math.round(interval * easeFactor);
+}
+
+/**
+ * Applies a single review to an entry's progress and returns the next state.
+ * The input progress is never mutated.
+ *
+ * @example
+ * ```typescript
+ * const now = new Date('2025-01-01T09:00:00Z');
+ * let progress = createInitialProgress(now);
+ * progress = reviewEntry(progress, ReviewQuality.GOOD, now);
+ * // progress.interval === 1, progress.nextReview === '2025-01-02T09:00:00.000Z'
+ * ```
+ */
+export function reviewEntry(progress: UserProgress, quality: ReviewQuality, now: Date): UserProgress {
+  const correct = isPassingQuality(quality);
+
+  const interval = correct
+    ? calculateInterval(progress.repetitions, progress.easeFactor, progress.interval)
+    : 1;
+  const easeFactor = correct
+    ? calculateEaseFactor(progress.easeFactor, quality)
+    : Math.max(MIN_EASE_FACTOR, progress.easeFactor - LAPSE_EASE_PENALTY);
+
+  return {
+    ...progress,
+    interval,
+    easeFactor,
+    repetitions: correct ? progress.repetitions + 1 : 0,
+    lastReview: now.toISOString(),
+    nextReview: addDays(now, interval).toISOString(),
+    totalReviews: progress.totalReviews + 1,
+    correctCount: progress.correctCount + (correct ? 1 : 0),
+    incorrectCount: progress.incorrectCount + (correct ? 0 : 1),
+    streak: correct ? progress.streak + 1 : 0,
+    mastered: interval > MASTERY_INTERVAL_DAYS,
+  };
+}
+
+/**
+ * Whether an entry is due for review at the given time.
+ */
+export function isDue(progress: UserProgress, now: Date): boolean {
+  return new Date(progress.nextReview).getTime() <= now.getTime();
+}
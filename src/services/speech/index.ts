@@ -0,0 +1,6 @@
+/**
+ * Speech recognition for speaking cards.
+ */
+
+export * from './speechRecognizer';
+export * from './webSpeechRecognizer';
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { createFakeSpeechRecognizer, SpeechErrorCode } from './speechRecognizer';
+
+describe('createFakeSpeechRecognizer', () => {
+  it('should replay scripted recognitions in order and record requests', async () => {
+    const recognizer = createFakeSpeechRecognizer([
+      'perro',
+      { transcript: 'pero', alternatives: ['perro'], confidence: 0.6 },
+      { error: SpeechErrorCode.PERMISSION_DENIED },
+    ]);
+
+    expect(await recognizer.recognize({ language: 'es' })).toEqual({ success: true, data: { transcript: 'perro' } });
+    expect(await recognizer.recognize({ language: 'es' })).toEqual({
+      success: true,
+      data: { transcript: 'pero', alternatives: ['perro'], confidence: 0.6 },
+    });
+    expect(await recognizer.recognize({ language: 'es' })).toMatchObject({
+      success: false,
+      code: SpeechErrorCode.PERMISSION_DENIED,
+    });
+    expect(recognizer.requests.map((request) => request.language)).toEqual(['es', 'es', 'es']);
+  });
+
+  it('should report no speech once the script runs out', async () => {
+    const recognizer = createFakeSpeechRecognizer();
+    expect(await recognizer.recognize({ language: 'es' })).toMatchObject({ code: SpeechErrorCode.NO_SPEECH });
+
+    recognizer.enqueue('gato');
+    expect(await recognizer.recognize({ language: 'es' })).toMatchObject({ data: { transcript: 'gato' } });
+  });
+
+  it('should honour an aborted signal without consuming the script', async () => {
+    const recognizer = createFakeSpeechRecognizer(['perro']);
+    const controller = new AbortController();
+    controller.abort();
+
+    expect(await recognizer.recognize({ language: 'es', signal: controller.signal })).toMatchObject({
+      code: SpeechErrorCode.ABORTED,
+    });
+    expect(await recognizer.recognize({ language: 'es' })).toMatchObject({ data: { transcript: 'perro' } });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Speech recognition.
+ * Speaking cards are answered aloud. A SpeechRecognizer records the learner
+ * and returns what it heard; scoring is left to validateSpokenAnswer, so any
+ * engine (the browser's Web Speech API, a server, a test double) can be
+ * plugged in. The fake recognizer here replays scripted transcripts so
+ * sessions with speaking cards build and run offline.
+ */
+
+import type { Result, SpeechRecognitionResult } from '../../models';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/**
+ * Error codes returned when nothing usable was recognized.
+ */
+export enum SpeechErrorCode {
+  /** No recognizer is available in this environment */
+  UNAVAILABLE = 'UNAVAILABLE',
+  /** The learner or the browser refused microphone access */
+  PERMISSION_DENIED = 'PERMISSION_DENIED',
+  /** Recording ended without any speech */
+  NO_SPEECH = 'NO_SPEECH',
+  /** Recognition was cancelled through its abort signal */
+  ABORTED = 'ABORTED',
+  /** Any other recognizer or network failure */
+  FAILED = 'FAILED',
+}
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * One request to listen to the learner.
+ */
+export interface SpeechRecognitionRequest {
+  /** BCP 47 language of the expected speech (e.g., "es-ES") */
+  language: string;
+  /** Cancels the recording */
+  signal?: AbortSignal;
+}
+
+/**
+ * Turns the learner's speech into text.
+ */
+export interface SpeechRecognizer {
+  /** Identifies the engine (e.g., "web-speech") */
+  readonly id: string;
+  /** Whether recognition can run in this environment */
+  isAvailable(): boolean;
+  /** Records one utterance and returns its transcripts */
+  recognize(request: SpeechRecognitionRequest): Promise<Result<SpeechRecognitionResult>>;
+}
+
+/**
+ * A scripted recognition: a transcript, a full result, or an error.
+ */
+export type FakeRecognition = string | SpeechRecognitionResult | { error: SpeechErrorCode };
+
+/**
+ * Recognizer that replays scripted recognitions in order.
+ */
+export interface FakeSpeechRecognizer extends SpeechRecognizer {
+  /** Requests received so far, oldest first */
+  readonly requests: SpeechRecognitionRequest[];
+  /** Appends recognitions to the script */
+  enqueue(...recognitions: FakeRecognition[]): void;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Builds a failed recognition.
+ */
+export function speechFailure(error: string, code: SpeechErrorCode): Result<never> {
+  return { success: false, error, code };
+}
+
+// =============================================================================
+// FACTORY
+// =============================================================================
+
+/**
+ * Creates a deterministic recognizer for tests and offline use. Each call to
+ * `recognize` consumes the next scripted recognition; once the script runs
+ * out it reports NO_SPEECH.
+ *
+ * @example
+ * ```typescript
+ * const recognizer = createFakeSpeechRecognizer(['perro', { error: SpeechErrorCode.NO_SPEECH }]);
+ * await recognizer.recognize({ language: 'es' }); // { success: true, data: { transcript: 'perro' } }
+ * ```
+ */
+export function createFakeSpeechRecognizer(recognitions: FakeRecognition[] = []): FakeSpeechRecognizer {
+  const script = [...recognitions];
+  const requests: SpeechRecognitionRequest[] = [];
+
+  return {
+    id: 'fake',
+    requests,
+    isAvailable: () => true,
+    enqueue(...more) {
+      script.push(...more);
+    },
+    recognize(request) {
+      requests.push(request);
+      if (request.signal?.aborted) {
+        return Promise.resolve(speechFailure('Speech recognition was aborted', SpeechErrorCode.ABORTED));
+      }
+      const next = script.shift();
+      if (next === undefined) {
+        return Promise.resolve(speechFailure('No speech was detected', SpeechErrorCode.NO_SPEECH));
+      }
+      if (typeof next === 'string') return Promise.resolve({ success: true, data: { transcript: next } });
+      if ('error' in next) return Promise.resolve(speechFailure(`Scripted ${next.error} failure`, next.error));
+      return Promise.resolve({ success: true, data: next });
+    },
+  };
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { SpeechErrorCode } from './speechRecognizer';
+import {
+  createWebSpeechRecognizer,
+  type WebSpeechRecognition,
+  type WebSpeechResultEvent,
+} from './webSpeechRecognizer';
+
+/** Browser recognition double; `behaviour` decides what happens on start() */
+function recognitionClass(behaviour: (recognition: WebSpeechRecognition) => void) {
+  const instances: StubRecognition[] = [];
+
+  class StubRecognition implements WebSpeechRecognition {
+    lang = '';
+    maxAlternatives = 1;
+    interimResults = true;
+    continuous = true;
+    aborted = false;
+    onresult: ((event: WebSpeechResultEvent) => void) | null = null;
+    onerror: ((event: { error: string; message?: string }) => void) | null = null;
+    onend: (() => void) | null = null;
+
+    constructor() {
+      instances.push(this);
+    }
+
+    start(): void {
+      behaviour(this);
+    }
+
+    abort(): void {
+      this.aborted = true;
+      this.onend?.();
+    }
+  }
+
+  return { StubRecognition, instances };
+}
+
+function heard(...alternatives: Array<[string, number]>): WebSpeechResultEvent {
+  return { resultIndex: 0, results: [alternatives.map(([transcript, confidence]) => ({ transcript, confidence }))] };
+}
+
+describe('createWebSpeechRecognizer', () => {
+  it('should configure the browser recognition and return its transcripts', async () => {
+    const { StubRecognition, instances } = recognitionClass((recognition) => {
+      recognition.onresult?.(heard([' perro ', 0.92], ['pero', 0.4]));
+      recognition.onend?.();
+    });
+    const recognizer = createWebSpeechRecognizer({ recognitionClass: StubRecognition, maxAlternatives: 3 });
+
+    expect(recognizer.isAvailable()).toBe(true);
+    expect(await recognizer.recognize({ language: 'es-ES' })).toEqual({
+      success: true,
+      data: { transcript: 'perro', alternatives: ['pero'], confidence: 0.92 },
+    });
+    expect(instances[0]).toMatchObject({ lang: 'es-ES', maxAlternatives: 3, interimResults: false, continuous: false });
+  });
+
+  it('should map browser errors to error codes', async () => {
+    const { StubRecognition } = recognitionClass((recognition) => {
+      recognition.onerror?.({ error: 'not-allowed' });
+      recognition.onend?.();
+    });
+    const result = await createWebSpeechRecognizer({ recognitionClass: StubRecognition }).recognize({ language: 'es' });
+    expect(result).toMatchObject({ success: false, code: SpeechErrorCode.PERMISSION_DENIED });
+  });
+
+  it('should report no speech when recognition ends without a result', async () => {
+    const { StubRecognition } = recognitionClass((recognition) => recognition.onend?.());
+    const result = await createWebSpeechRecognizer({ recognitionClass: StubRecognition }).recognize({ language: 'es' });
+    expect(result).toMatchObject({ success: false, code: SpeechErrorCode.NO_SPEECH });
+  });
+
+  it('should stop the browser recognition when aborted', async () => {
+    const { StubRecognition, instances } = recognitionClass(() => undefined);
+    const controller = new AbortController();
+    const pending = createWebSpeechRecognizer({ recognitionClass: StubRecognition }).recognize({
+      language: 'es',
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    expect(await pending).toMatchObject({ success: false, code: SpeechErrorCode.ABORTED });
+    expect(instances[0].aborted).toBe(true);
+  });
+
+  it('should be unavailable without a browser implementation', async () => {
+    const recognizer = createWebSpeechRecognizer();
+    expect(recognizer.isAvailable()).toBe(false);
+    expect(await recognizer.recognize({ language: 'es' })).toMatchObject({ code: SpeechErrorCode.UNAVAILABLE });
+  });
+});
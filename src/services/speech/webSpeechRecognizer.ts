@@ -0,0 +1,173 @@
+/**
+ * Web Speech API recognizer.
+ * Optional browser adapter over `SpeechRecognition` (`webkitSpeechRecognition`
+ * in Chromium and Safari). Browsers without it report the recognizer as
+ * unavailable, so callers can hide speaking cards or fall back to typing.
+ */
+
+import type { SpeechRecognitionResult } from '../../models';
+import { compact } from '../../utils/compact';
+import { SpeechErrorCode, speechFailure, type SpeechRecognizer } from './speechRecognizer';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Transcripts requested from the browser, the best one included */
+export const DEFAULT_MAX_ALTERNATIVES = 5;
+
+/** Web Speech error names mapped to recognizer error codes (others are FAILED) */
+const WEB_SPEECH_ERRORS: Record<string, SpeechErrorCode> = {
+  'not-allowed': SpeechErrorCode.PERMISSION_DENIED,
+  'service-not-allowed': SpeechErrorCode.PERMISSION_DENIED,
+  'no-speech': SpeechErrorCode.NO_SPEECH,
+  'audio-capture': SpeechErrorCode.UNAVAILABLE,
+  aborted: SpeechErrorCode.ABORTED,
+};
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * The parts of the browser's SpeechRecognition used by the adapter.
+ */
+export interface WebSpeechRecognition {
+  lang: string;
+  maxAlternatives: number;
+  interimResults: boolean;
+  continuous: boolean;
+  onresult: ((event: WebSpeechResultEvent) => void) | null;
+  onerror: ((event: { error: string; message?: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  abort(): void;
+}
+
+/**
+ * Final results of a recognition: one list of alternatives per utterance.
+ */
+export interface WebSpeechResultEvent {
+  resultIndex: number;
+  results: ArrayLike<ArrayLike<{ transcript: string; confidence: number }>>;
+}
+
+/** Constructor of a browser SpeechRecognition */
+export type WebSpeechRecognitionClass = new () => WebSpeechRecognition;
+
+/**
+ * Options for the Web Speech recognizer.
+ */
+export interface WebSpeechRecognizerOptions {
+  /** Recognition constructor (default: the browser's, when it has one) */
+  recognitionClass?: WebSpeechRecognitionClass;
+  /** Transcripts requested per utterance (default: DEFAULT_MAX_ALTERNATIVES) */
+  maxAlternatives?: number;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function browserRecognitionClass(): WebSpeechRecognitionClass | undefined {
+  const scope = globalThis as {
+    SpeechRecognition?: WebSpeechRecognitionClass;
+    webkitSpeechRecognition?: WebSpeechRecognitionClass;
+  };
+  return scope.SpeechRecognition ?? scope.webkitSpeechRecognition;
+}
+
+function toRecognitionResult(event: WebSpeechResultEvent): SpeechRecognitionResult | null {
+  const alternatives = Array.from(event.results[event.resultIndex] ?? [])
+    .map((alternative) => ({ ...alternative, transcript: alternative.transcript.trim() }))
+    .filter((alternative) => alternative.transcript !== '');
+  if (alternatives.length === 0) return null;
+
+  const [best, ...others] = alternatives;
+  return compact({
+    transcript: best.transcript,
+    alternatives: others.length > 0 ? others.map((alternative) => alternative.transcript) : undefined,
+    // Some browsers report 0 when they have no confidence estimate
+    confidence: best.confidence > 0 ? best.confidence : undefined,
+  });
+}
+
+// =============================================================================
+// FACTORY
+// =============================================================================
+
+/**
+ * Creates a recognizer backed by the Web Speech API. Each call records a
+ * single utterance and resolves once the browser returns a final result,
+ * reports an error, or stops listening.
+ *
+ * @example
+ * ```typescript
+ * const recognizer = createWebSpeechRecognizer();
+ * if (recognizer.isAvailable()) {
+ *   const result = await recognizer.recognize({ language: 'es-ES' });
+ * }
+ * ```
+ */
+export function createWebSpeechRecognizer(options: WebSpeechRecognizerOptions = {}): SpeechRecognizer {
+  const recognitionClass = (): WebSpeechRecognitionClass | undefined =>
+    options.recognitionClass ?? browserRecognitionClass();
+
+  return {
+    id: 'web-speech',
+    isAvailable: () => recognitionClass() !== undefined,
+    recognize({ language, signal }) {
+      const Recognition = recognitionClass();
+      if (!Recognition) {
+        return Promise.resolve(
+          speechFailure('Speech recognition is not supported in this browser', SpeechErrorCode.UNAVAILABLE)
+        );
+      }
+      if (signal?.aborted) {
+        return Promise.resolve(speechFailure('Speech recognition was aborted', SpeechErrorCode.ABORTED));
+      }
+
+      return new Promise((resolve) => {
+        const recognition = new Recognition();
+        recognition.lang = language;
+        recognition.maxAlternatives = options.maxAlternatives ?? DEFAULT_MAX_ALTERNATIVES;
+        recognition.interimResults = false;
+        recognition.continuous = false;
+
+        // The browser fires `end` after `result` and `error`; only the first outcome counts
+        let settled = false;
+        const settle: typeof resolve = (result) => {
+          if (settled) return;
+          settled = true;
+          signal?.removeEventListener('abort', onAbort);
+          resolve(result);
+        };
+        const onAbort = (): void => {
+          settle(speechFailure('Speech recognition was aborted', SpeechErrorCode.ABORTED));
+          recognition.abort();
+        };
+
+        recognition.onresult = (event) => {
+          const result = toRecognitionResult(event);
+          settle(
+            result
+              ? { success: true, data: result }
+              : speechFailure('No speech was detected', SpeechErrorCode.NO_SPEECH)
+          );
+        };
+        recognition.onerror = (event) => {
+          const code = WEB_SPEECH_ERRORS[event.error] ?? SpeechErrorCode.FAILED;
+          settle(speechFailure(event.message || `Speech recognition failed: ${event.error}`, code));
+        };
+        recognition.onend = () => settle(speechFailure('No speech was detected', SpeechErrorCode.NO_SPEECH));
+
+        signal?.addEventListener('abort', onAbort);
+        try {
+          recognition.start();
+        } catch (error) {
+          settle(speechFailure(`Speech recognition could not start: ${String(error)}`, SpeechErrorCode.FAILED));
+        }
+      });
+    },
+  };
+}
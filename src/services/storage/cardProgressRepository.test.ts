@@ -0,0 +1,69 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { CardType, ReviewQuality, type CardProgress } from '../../models';
+import { VocabOneDatabase } from './database';
+import { CardProgressRepository } from './cardProgressRepository';
+
+function stats(cardId: string, cardType: CardType, shownCount: number, correctCount: number): CardProgress {
+  return {
+    cardId,
+    cardType,
+    shownCount,
+    correctCount,
+    lastShown: '2025-03-01T00:00:00.000Z',
+    averageResponseTime: 1500,
+    lastQuality: ReviewQuality.GOOD,
+  };
+}
+
+describe('CardProgressRepository', () => {
+  let db: VocabOneDatabase;
+  let repository: CardProgressRepository;
+
+  beforeEach(() => {
+    db = new VocabOneDatabase(`test-card-progress-${Math.random()}`);
+    repository = new CardProgressRepository(db);
+  });
+
+  afterEach(async () => {
+    await db.delete();
+  });
+
+  it('should store card statistics grouped by entry', async () => {
+    const image = stats('perro-001-img-01', CardType.IMAGE, 4, 4);
+    const audio = stats('perro-001-audio-01', CardType.AUDIO, 4, 1);
+    await repository.saveCardProgress('module-a', 'perro-001', [image, audio]);
+    await repository.saveCardProgress('module-a', 'gato-002', [stats('gato-002-img-01', CardType.IMAGE, 2, 1)]);
+    await repository.saveCardProgress('module-b', 'perro-001', [stats('perro-001-img-01', CardType.IMAGE, 9, 0)]);
+
+    expect(await repository.getEntryCardProgress('module-a', 'perro-001')).toEqual({
+      'perro-001-img-01': image,
+      'perro-001-audio-01': audio,
+    });
+    expect([...(await repository.getModuleCardProgress('module-a')).keys()].sort()).toEqual(['gato-002', 'perro-001']);
+  });
+
+  it('should report the weakest card types of a module', async () => {
+    await repository.saveCardProgress('module-a', 'perro-001', [
+      stats('perro-001-img-01', CardType.IMAGE, 4, 4),
+      stats('perro-001-audio-01', CardType.AUDIO, 4, 1),
+    ]);
+    await repository.saveCardProgress('module-b', 'gato-002', [stats('gato-002-img-01', CardType.IMAGE, 10, 0)]);
+
+    const weakest = await repository.getWeakestCardTypes('module-a');
+    expect(weakest.map((s) => [s.cardType, s.accuracy])).toEqual([
+      [CardType.AUDIO, 0.25],
+      [CardType.IMAGE, 1],
+    ]);
+    expect((await repository.getModulePerformance('module-a')).typeAccuracy).toEqual({
+      [CardType.AUDIO]: 0.25,
+      [CardType.IMAGE]: 1,
+    });
+  });
+
+  it('should reset card statistics for a module', async () => {
+    await repository.saveCardProgress('module-a', 'perro-001', [stats('perro-001-img-01', CardType.IMAGE, 1, 1)]);
+    await repository.resetModuleCardProgress('module-a');
+    expect((await repository.getModuleCardProgress('module-a')).size).toBe(0);
+  });
+});
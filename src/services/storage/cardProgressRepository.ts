@@ -0,0 +1,85 @@
+/**
+ * Persistence for per-card answer statistics, keyed by moduleId + cardId.
+ */
+
+import type { CardProgress } from '../../models';
+import { toCardPerformance, weakestCardTypes, type CardTypeStats } from '../spacedRepetition/cardProgress';
+import type { CardPerformance } from '../spacedRepetition/cardSelector';
+import type { CardProgressRecord, VocabOneDatabase } from './database';
+
+/**
+ * Strips the table keys off a stored record.
+ */
+export function toCardProgress(record: CardProgressRecord): CardProgress {
+  const progress: Partial<CardProgressRecord> = { ...record };
+  delete progress.moduleId;
+  delete progress.entryId;
+  return progress as CardProgress;
+}
+
+/**
+ * Groups stored records by entry, then by card.
+ */
+export function groupCardProgress(records: CardProgressRecord[]): Map<string, Record<string, CardProgress>> {
+  const byEntry = new Map<string, Record<string, CardProgress>>();
+  for (const record of records) {
+    const cards = byEntry.get(record.entryId) ?? {};
+    cards[record.cardId] = toCardProgress(record);
+    byEntry.set(record.entryId, cards);
+  }
+  return byEntry;
+}
+
+/**
+ * Access to the `cardProgress` table.
+ */
+export class CardProgressRepository {
+  constructor(private readonly db: VocabOneDatabase) {}
+
+  /**
+   * Stores statistics for the cards of one entry, replacing previous records.
+   */
+  async saveCardProgress(moduleId: string, entryId: string, progress: CardProgress[]): Promise<void> {
+    await this.db.cardProgress.bulkPut(progress.map((card) => ({ ...card, moduleId, entryId })));
+  }
+
+  /**
+   * Loads statistics for the cards of one entry, keyed by card id.
+   */
+  async getEntryCardProgress(moduleId: string, entryId: string): Promise<Record<string, CardProgress>> {
+    const records = await this.db.cardProgress.where('[moduleId+entryId]').equals([moduleId, entryId]).toArray();
+    return groupCardProgress(records).get(entryId) ?? {};
+  }
+
+  /**
+   * Loads all card statistics for a module, keyed by entry id then card id.
+   */
+  async getModuleCardProgress(moduleId: string): Promise<Map<string, Record<string, CardProgress>>> {
+    return groupCardProgress(await this.moduleRecords(moduleId));
+  }
+
+  /**
+   * Lists a module's card types from lowest to highest accuracy.
+   */
+  async getWeakestCardTypes(moduleId: string, limit?: number): Promise<CardTypeStats[]> {
+    return weakestCardTypes(await this.moduleRecords(moduleId), limit);
+  }
+
+  /**
+   * Builds the card selector's accuracy table for a module.
+   */
+  async getModulePerformance(moduleId: string): Promise<CardPerformance> {
+    return toCardPerformance(await this.moduleRecords(moduleId));
+  }
+
+  /**
+   * Deletes all card statistics for a module.
+   */
+  async resetModuleCardProgress(moduleId: string): Promise<void> {
+    await this.db.cardProgress.where('moduleId').equals(moduleId).delete();
+  }
+
+  private moduleRecords(moduleId: string): Promise<CardProgressRecord[]> {
+    return this.db.cardProgress.where('moduleId').equals(moduleId).toArray();
+  }
+}
@@ -0,0 +1,55 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { exampleTriviaCard } from '../../models';
+import { VALIDATION_FAILED } from '../validation/modelValidator';
+import { VocabOneDatabase } from './database';
+import { CustomizationRepository } from './customizationRepository';
+
+describe('CustomizationRepository', () => {
+  let db: VocabOneDatabase;
+  let repository: CustomizationRepository;
+
+  beforeEach(() => {
+    db = new VocabOneDatabase(`test-customizations-${Math.random()}`);
+    repository = new CustomizationRepository(db);
+  });
+
+  afterEach(async () => {
+    await db.delete();
+  });
+
+  it('should save, load and delete customizations per entry', async () => {
+    const customization = {
+      moduleId: 'spanish-animals-basics',
+      entryId: 'perro-001',
+      notes: "Remember: 'perro' NOT 'pero'",
+      tags: ['review-pronunciation'],
+      updatedAt: '2025-01-10T00:00:00Z',
+    };
+    expect(await repository.saveCustomization(customization)).toEqual({ success: true, data: customization });
+
+    expect(await repository.getCustomization('spanish-animals-basics', 'perro-001')).toEqual(customization);
+    expect(await repository.getModuleCustomizations('spanish-animals-basics')).toHaveLength(1);
+
+    await repository.deleteCustomization('spanish-animals-basics', 'perro-001');
+    expect(await repository.getCustomization('spanish-animals-basics', 'perro-001')).toBeUndefined();
+  });
+
+  it('should reject invalid custom cards and extra answers', async () => {
+    const result = await repository.saveCustomization({
+      moduleId: 'spanish-animals-basics',
+      entryId: 'perro-001',
+      customCards: [{ ...exampleTriviaCard, question: '' }],
+      extraAnswers: { 'perro-001-img-01': 'perrito' as unknown as string[] },
+      updatedAt: '2025-01-10T00:00:00Z',
+    });
+
+    expect(result).toMatchObject({ success: false, code: VALIDATION_FAILED });
+    if (result.success) return;
+    expect(result.fieldErrors?.map((error) => error.path)).toEqual([
+      'extraAnswers.perro-001-img-01',
+      'customCards[0].question',
+    ]);
+    expect(await repository.getModuleCustomizations('spanish-animals-basics')).toEqual([]);
+  });
+});
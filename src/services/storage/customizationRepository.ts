@@ -0,0 +1,46 @@
+/**
+ * Persistence for user customizations, stored apart from official modules.
+ */
+
+import type { Result } from '../../models';
+import { validateCustomization } from '../validation/modelValidator';
+import type { CustomizationRecord, VocabOneDatabase } from './database';
+
+/**
+ * Access to the `customizations` table.
+ */
+export class CustomizationRepository {
+  constructor(private readonly db: VocabOneDatabase) {}
+
+  /**
+   * Validates and stores a customization, replacing any previous one for the same entry.
+   */
+  async saveCustomization(customization: CustomizationRecord): Promise<Result<CustomizationRecord>> {
+    const validation = validateCustomization(customization);
+    if (!validation.success) return validation;
+
+    await this.db.customizations.put(customization);
+    return { success: true, data: customization };
+  }
+
+  /**
+   * Loads the customization for one entry, if any.
+   */
+  async getCustomization(moduleId: string, entryId: string): Promise<CustomizationRecord | undefined> {
+    return this.db.customizations.get([moduleId, entryId]);
+  }
+
+  /**
+   * Loads all customizations for a module.
+   */
+  async getModuleCustomizations(moduleId: string): Promise<CustomizationRecord[]> {
+    return this.db.customizations.where('moduleId').equals(moduleId).toArray();
+  }
+
+  /**
+   * Removes the customization for one entry.
+   */
+  async deleteCustomization(moduleId: string, entryId: string): Promise<void> {
+    await this.db.customizations.delete([moduleId, entryId]);
+  }
+}
@@ -0,0 +1,45 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, afterEach } from 'vitest';
+import Dexie from 'dexie';
+import { VocabOneDatabase } from './database';
+import { CURRENT_DATABASE_VERSION, DATABASE_MIGRATIONS } from './migrations';
+
+describe('VocabOneDatabase', () => {
+  let db: VocabOneDatabase;
+
+  afterEach(async () => {
+    await db.delete();
+  });
+
+  it('should open at the latest schema version with all tables', async () => {
+    db = new VocabOneDatabase('test-database-open');
+    await db.open();
+    expect(db.verno).toBe(CURRENT_DATABASE_VERSION);
+    expect(db.tables.map((table) => table.name).sort()).toEqual([
+      'archivedEntries',
+      'cardProgress',
+      'customizations',
+      'media',
+      'modules',
+      'progress',
+      'reverseProgress',
+      'reviewLog',
+      'sessions',
+    ]);
+  });
+
+  it('should upgrade a database created with an older schema', async () => {
+    const name = 'test-database-upgrade';
+    const [first] = DATABASE_MIGRATIONS;
+    const legacy = new Dexie(name);
+    legacy.version(first.version).stores(first.stores);
+    await legacy.open();
+    await legacy.table('modules').put({ moduleId: 'legacy-module', title: 'Legacy' });
+    legacy.close();
+
+    db = new VocabOneDatabase(name);
+    await db.open();
+    expect(db.verno).toBe(CURRENT_DATABASE_VERSION);
+    expect(await db.modules.get('legacy-module')).toMatchObject({ title: 'Legacy' });
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * IndexedDB database definition (via Dexie).
+ * Module content is stored read-only and separately from the user's
+ * read-write data (progress, session history, review log, customizations).
+ */
+
+import Dexie, { type EntityTable } from 'dexie';
+import type {
+  CardProgress,
+  ReviewLogEntry,
+  SessionState,
+  UserCustomization,
+  UserProgress,
+  VocabularyEntry,
+  VocabularyModule,
+} from '../../models';
+import { DATABASE_MIGRATIONS } from './migrations';
+
+/** Default IndexedDB database name */
+export const DATABASE_NAME = 'vocabone';
+
+// =============================================================================
+// RECORD TYPES
+// =============================================================================
+
+/**
+ * A module as stored in IndexedDB. Entries never carry `progress`,
+ * `reverseProgress` or `cardProgress`; they live in their own tables. Media from packages lives in
+ * the `media` table and cards refer to it by package path.
+ */
+export type ModuleRecord = VocabularyModule;
+
+/**
+ * Progress for a single entry, keyed by [moduleId+entryId]. Used by both the
+ * `progress` and the `reverseProgress` (recognition direction) tables.
+ */
+export interface ProgressRecord extends UserProgress {
+  moduleId: string;
+  entryId: string;
+}
+
+/**
+ * Statistics for a single card, keyed by [moduleId+cardId].
+ */
+export interface CardProgressRecord extends CardProgress {
+  moduleId: string;
+  entryId: string;
+}
+
+/**
+ * A media file installed from a module package, keyed by [moduleId+path].
+ */
+export interface MediaRecord {
+  moduleId: string;
+  /** Path of the file inside the package (e.g. "media/perro.jpg") */
+  path: string;
+  /** File contents */
+  data: Uint8Array;
+  /** MIME type */
+  type: string;
+  /** Size in bytes */
+  size: number;
+  /** Hex-encoded SHA-256 of the contents */
+  sha256: string;
+}
+
+/**
+ * An entry removed from a module by a version upgrade, kept with the
+ * learner's progress and notes as they were at removal.
+ */
+export interface ArchivedEntryRecord {
+  moduleId: string;
+  entryId: string;
+  /** Last module version that contained the entry */
+  moduleVersion: string;
+  /** ISO 8601 timestamp of the upgrade that removed the entry */
+  archivedAt: string;
+  entry: VocabularyEntry;
+}
+
+/**
+ * Snapshot of a completed study session.
+ */
+export interface SessionRecord extends SessionState {
+  /** Auto-incremented primary key */
+  id?: number;
+}
+
+/**
+ * One rated answer of the append-only review log.
+ */
+export interface ReviewLogRecord extends ReviewLogEntry {
+  /** Auto-incremented primary key */
+  id?: number;
+}
+
+/**
+ * A user's personal additions to an entry of an official module, keyed by
+ * [moduleId+entryId].
+ */
+export type CustomizationRecord = UserCustomization;
+
+// =============================================================================
+// DATABASE
+// =============================================================================
+
+/**
+ * The VocabOne IndexedDB database.
+ *
+ * @example
+ * ```typescript
+ * const db = new VocabOneDatabase();
+ * const modules = new ModuleRepository(db);
+ * ```
+ */
+export class VocabOneDatabase extends Dexie {
+  modules!: EntityTable<ModuleRecord, 'moduleId'>;
+  progress!: Dexie.Table<ProgressRecord, [string, string]>;
+  sessions!: EntityTable<SessionRecord, 'id'>;
+  customizations!: Dexie.Table<CustomizationRecord, [string, string]>;
+  cardProgress!: Dexie.Table<CardProgressRecord, [string, string]>;
+  media!: Dexie.Table<MediaRecord, [string, string]>;
+  archivedEntries!: Dexie.Table<ArchivedEntryRecord, [string, string]>;
+  reverseProgress!: Dexie.Table<ProgressRecord, [string, string]>;
+  reviewLog!: EntityTable<ReviewLogRecord, 'id'>;
+
+  constructor(name: string = DATABASE_NAME) {
+    super(name);
+    for (const migration of DATABASE_MIGRATIONS) {
+      const version = this.version(migration.version).stores(migration.stores);
+      if (migration.upgrade) {
+        version.upgrade(migration.upgrade);
+      }
+    }
+  }
+}
+
+let defaultDatabase: VocabOneDatabase | null = null;
+
+/**
+ * Returns the shared application database, creating it on first use.
+ */
+export function getDatabase(): VocabOneDatabase {
+  defaultDatabase ??= new VocabOneDatabase();
+  return defaultDatabase;
+}
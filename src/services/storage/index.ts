@@ -0,0 +1,13 @@
+/**
+ * IndexedDB persistence.
+ */
+
+export * from './database';
+export * from './migrations';
+export * from './moduleRepository';
+export * from './progressRepository';
+export * from './cardProgressRepository';
+export * from './sessionRepository';
+export * from './reviewLogRepository';
+export * from './customizationRepository';
+export * from './mediaRepository';
@@ -0,0 +1,52 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { CardType, exampleVocabularyModule } from '../../models';
+import { createModulePackage, PackageErrorCode } from '../modules/modulePackage';
+import { VocabOneDatabase } from './database';
+import { installModulePackage, MediaRepository } from './mediaRepository';
+import { ModuleRepository } from './moduleRepository';
+
+const NOW = new Date('2025-03-01T12:00:00Z');
+const media = new Map([['/modules/spanish-animals/media/perro.jpg', new Uint8Array([1, 2, 3])]]);
+
+describe('MediaRepository', () => {
+  let db: VocabOneDatabase;
+  let repository: MediaRepository;
+
+  beforeEach(() => {
+    db = new VocabOneDatabase(`test-media-${Math.random()}`);
+    repository = new MediaRepository(db);
+  });
+
+  afterEach(async () => {
+    await db.delete();
+  });
+
+  it('should install a package and resolve its media to object URLs', async () => {
+    const result = await installModulePackage(db, await createModulePackage(exampleVocabularyModule, NOW, { media }));
+    if (!result.success) throw new Error(result.error);
+
+    const record = await repository.getMedia('spanish-animals-basics', 'media/perro.jpg');
+    expect(record).toMatchObject({ type: 'image/jpeg', size: 3 });
+    expect(Array.from(record?.data ?? [])).toEqual([1, 2, 3]);
+
+    const blobs: Blob[] = [];
+    const resolved = await repository.resolveModuleMedia(result.data, (blob) => `blob:${blobs.push(blob)}`);
+    expect(resolved.objectUrls).toEqual(['blob:1']);
+    expect(blobs[0].type).toBe('image/jpeg');
+    expect(resolved.module.entries[0].cards[0]).toMatchObject({ type: CardType.IMAGE, imageUrl: 'blob:1' });
+    expect(resolved.module.entries[1].cards[0]).toMatchObject({ imageUrl: '/modules/spanish-animals/media/gato.jpg' });
+  });
+
+  it('should store nothing from a rejected package', async () => {
+    const result = await installModulePackage(db, new Uint8Array([1, 2, 3]));
+    expect(result).toMatchObject({ success: false, code: PackageErrorCode.INVALID_PACKAGE });
+    expect(await db.modules.count()).toBe(0);
+  });
+
+  it('should delete media with its module', async () => {
+    await installModulePackage(db, await createModulePackage(exampleVocabularyModule, NOW, { media }));
+    await new ModuleRepository(db).deleteModule('spanish-animals-basics');
+    expect(await repository.getModuleMedia('spanish-animals-basics')).toEqual([]);
+  });
+});
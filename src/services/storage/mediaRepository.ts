@@ -0,0 +1,109 @@
+/**
+ * Persistence for media installed from module packages.
+ * Cards of an installed module refer to their media by package path
+ * ("media/perro.jpg"); `resolveModuleMedia` swaps those paths for object URLs
+ * before the module is shown.
+ */
+
+import type { Result, VocabularyModule } from '../../models';
+import { mapMediaUrls, mediaMimeType } from '../modules/mediaFiles';
+import { readModulePackage, sha256Hex } from '../modules/modulePackage';
+import type { MediaRecord, VocabOneDatabase } from './database';
+import { ModuleRepository } from './moduleRepository';
+
+/**
+ * A module whose media paths were replaced by object URLs. Release the URLs
+ * with `URL.revokeObjectURL` once the module is no longer shown.
+ */
+export interface ResolvedModuleMedia {
+  module: VocabularyModule;
+  objectUrls: string[];
+}
+
+/**
+ * Builds media records for files keyed by package path. Hashing is async, so
+ * this runs before any database transaction is opened.
+ */
+export async function createMediaRecords(moduleId: string, files: Map<string, Uint8Array>): Promise<MediaRecord[]> {
+  const records: MediaRecord[] = [];
+  for (const [path, data] of files) {
+    const sha256 = await sha256Hex(data);
+    records.push({ moduleId, path, data, type: mediaMimeType(path), size: data.length, sha256 });
+  }
+  return records;
+}
+
+/**
+ * Access to the `media` table.
+ */
+export class MediaRepository {
+  constructor(private readonly db: VocabOneDatabase) {}
+
+  /**
+   * Replaces all stored media of a module (see `createMediaRecords`).
+   */
+  async replaceModuleMedia(moduleId: string, records: MediaRecord[]): Promise<void> {
+    await this.db.transaction('rw', this.db.media, async () => {
+      await this.db.media.where('moduleId').equals(moduleId).delete();
+      if (records.length > 0) {
+        await this.db.media.bulkPut(records);
+      }
+    });
+  }
+
+  /**
+   * Loads one media file.
+   */
+  async getMedia(moduleId: string, path: string): Promise<MediaRecord | undefined> {
+    return this.db.media.get([moduleId, path]);
+  }
+
+  /**
+   * Loads all media files of a module.
+   */
+  async getModuleMedia(moduleId: string): Promise<MediaRecord[]> {
+    return this.db.media.where('moduleId').equals(moduleId).toArray();
+  }
+
+  /**
+   * Rewrites the card URLs of a module that point at stored media to object
+   * URLs. URLs without stored media are left untouched.
+   */
+  async resolveModuleMedia(
+    module: VocabularyModule,
+    createObjectUrl: (blob: Blob) => string = (blob) => URL.createObjectURL(blob)
+  ): Promise<ResolvedModuleMedia> {
+    const records = await this.getModuleMedia(module.moduleId);
+    const urls = new Map(
+      records.map((record) => [record.path, createObjectUrl(new Blob([record.data], { type: record.type }))])
+    );
+    return {
+      module: mapMediaUrls(module, (url) => urls.get(url) ?? url),
+      objectUrls: [...urls.values()],
+    };
+  }
+}
+
+/**
+ * Verifies a .vocabone package and installs its module and media, replacing
+ * any previous install of the same module. Nothing is stored if the package
+ * or its module fails validation.
+ */
+export async function installModulePackage(
+  db: VocabOneDatabase,
+  data: Uint8Array
+): Promise<Result<VocabularyModule>> {
+  const read = await readModulePackage(data);
+  if (!read.success) return read;
+
+  const { module, media } = read.data;
+  const records = await createMediaRecords(module.moduleId, media);
+  const tables = [db.modules, db.progress, db.reverseProgress, db.cardProgress, db.media];
+  return db.transaction('rw', tables, async () => {
+    const saved = await new ModuleRepository(db).saveModule(module);
+    if (saved.success) {
+      await new MediaRepository(db).replaceModuleMedia(module.moduleId, records);
+    }
+    return saved;
+  });
+}
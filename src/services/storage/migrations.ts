@@ -0,0 +1,112 @@
+/**
+ * Versioned IndexedDB schema.
+ * Each migration lists the full store definitions for its version; Dexie
+ * diffs consecutive versions and runs `upgrade` to transform existing rows.
+ * Append new versions — never edit one that has shipped.
+ */
+
+import type { Transaction } from 'dexie';
+
+/**
+ * One version of the database schema.
+ */
+export interface DatabaseMigration {
+  /** Dexie schema version (positive, increasing) */
+  version: number;
+  /** Store definitions in Dexie syntax (primary key first, then indexes) */
+  stores: Record<string, string | null>;
+  /** Optional data transformation run when upgrading from an older version */
+  upgrade?: (tx: Transaction) => Promise<void> | void;
+}
+
+/**
+ * Schema history, oldest first.
+ */
+export const DATABASE_MIGRATIONS: DatabaseMigration[] = [
+  {
+    version: 1,
+    stores: {
+      modules: 'moduleId, language, title',
+      progress: '[moduleId+entryId], moduleId, nextReview',
+      sessions: '++id, moduleId, startTime',
+      customizations: '[moduleId+entryId], moduleId',
+    },
+  },
+  {
+    version: 2,
+    stores: {
+      modules: 'moduleId, language, title',
+      progress: '[moduleId+entryId], moduleId, nextReview',
+      sessions: '++id, moduleId, startTime',
+      customizations: '[moduleId+entryId], moduleId',
+      cardProgress: '[moduleId+cardId], moduleId, [moduleId+entryId]',
+    },
+  },
+  {
+    version: 3,
+    stores: {
+      modules: 'moduleId, language, title',
+      progress: '[moduleId+entryId], moduleId, nextReview',
+      sessions: '++id, moduleId, startTime',
+      customizations: '[moduleId+entryId], moduleId',
+      cardProgress: '[moduleId+cardId], moduleId, [moduleId+entryId]',
+      media: '[moduleId+path], moduleId',
+    },
+  },
+  {
+    version: 4,
+    stores: {
+      modules: 'moduleId, language, title',
+      progress: '[moduleId+entryId], moduleId, nextReview',
+      sessions: '++id, moduleId, startTime',
+      customizations: '[moduleId+entryId], moduleId',
+      cardProgress: '[moduleId+cardId], moduleId, [moduleId+entryId]',
+      media: '[moduleId+path], moduleId',
+      archivedEntries: '[moduleId+entryId], moduleId',
+    },
+  },
+  {
+    version: 5,
+    stores: {
+      modules: 'moduleId, language, title',
+      progress: '[moduleId+entryId], moduleId, nextReview',
+      sessions: '++id, moduleId, startTime',
+      customizations: '[moduleId+entryId], moduleId',
+      cardProgress: '[moduleId+cardId], moduleId, [moduleId+entryId]',
+      media: '[moduleId+path], moduleId',
+      archivedEntries: '[moduleId+entryId], moduleId',
+      reverseProgress: '[moduleId+entryId], moduleId, nextReview',
+    },
+  },
+  {
+    version: 6,
+    stores: {
+      modules: 'moduleId, language, title',
+      progress: '[moduleId+entryId], moduleId, nextReview',
+      sessions: '++id, moduleId, startTime',
+      customizations: '[moduleId+entryId], moduleId',
+      cardProgress: '[moduleId+cardId], moduleId, [moduleId+entryId]',
+      media: '[moduleId+path], moduleId',
+      archivedEntries: '[moduleId+entryId], moduleId',
+      reverseProgress: '[moduleId+entryId], moduleId, nextReview',
+      reviewLog: '++id, moduleId, [moduleId+entryId], reviewedAt',
+    },
+  },
+  {
+    version: 7,
+    stores: {
+      modules: 'moduleId, language, title',
+      progress: '[moduleId+entryId], moduleId, nextReview',
+      sessions: '++id, moduleId, startTime, *moduleIds',
+      customizations: '[moduleId+entryId], moduleId',
+      cardProgress: '[moduleId+cardId], moduleId, [moduleId+entryId]',
+      media: '[moduleId+path], moduleId',
+      archivedEntries: '[moduleId+entryId], moduleId',
+      reverseProgress: '[moduleId+entryId], moduleId, nextReview',
+      reviewLog: '++id, moduleId, [moduleId+entryId], reviewedAt',
+    },
+  },
+];
+
+/** Latest schema version */
+export const CURRENT_DATABASE_VERSION = DATABASE_MIGRATIONS[DATABASE_MIGRATIONS.length - 1].version;
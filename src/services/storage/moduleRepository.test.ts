@@ -0,0 +1,205 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  CardType,
+  ReviewQuality,
+  exampleCompletedSessionState,
+  exampleVocabularyModule,
+  exampleLearningProgress,
+  exampleMasteredProgress,
+  type VocabularyModule,
+} from '../../models';
+import { planModuleUpgrade } from '../modules/moduleUpgrade';
+import { VocabOneDatabase } from './database';
+import { CustomizationRepository } from './customizationRepository';
+import { ModuleRepository, MODULE_NOT_FOUND } from './moduleRepository';
+import { ProgressRepository } from './progressRepository';
+import { ReviewLogRepository } from './reviewLogRepository';
+import { SessionRepository } from './sessionRepository';
+
+describe('ModuleRepository', () => {
+  let db: VocabOneDatabase;
+  let modules: ModuleRepository;
+
+  beforeEach(() => {
+    db = new VocabOneDatabase(`test-modules-${Math.random()}`);
+    modules = new ModuleRepository(db);
+  });
+
+  afterEach(async () => {
+    await db.delete();
+  });
+
+  it('should store modules without embedded progress', async () => {
+    const result = await modules.saveModule(exampleVocabularyModule);
+    expect(result.success).toBe(true);
+
+    const loaded = await modules.getModule(exampleVocabularyModule.moduleId);
+    if (!loaded.success) throw new Error(loaded.error);
+    expect(loaded.data.entries.every((entry) => entry.progress === undefined)).toBe(true);
+
+    const progress = await new ProgressRepository(db).getProgress(exampleVocabularyModule.moduleId, 'perro-001');
+    expect(progress).toEqual(exampleLearningProgress);
+  });
+
+  it('should reattach progress on request', async () => {
+    await modules.saveModule(exampleVocabularyModule);
+    const loaded = await modules.getModuleWithProgress(exampleVocabularyModule.moduleId);
+    expect(loaded).toEqual({ success: true, data: exampleVocabularyModule });
+  });
+
+  it('should split out and reattach card statistics', async () => {
+    const [perro, ...rest] = exampleVocabularyModule.entries;
+    const cardProgress = {
+      'perro-001-img-01': {
+        cardId: 'perro-001-img-01',
+        cardType: CardType.IMAGE,
+        shownCount: 3,
+        correctCount: 2,
+        lastShown: '2025-03-01T00:00:00.000Z',
+        averageResponseTime: 2500,
+        lastQuality: ReviewQuality.GOOD,
+      },
+    };
+    const module: VocabularyModule = { ...exampleVocabularyModule, entries: [{ ...perro, cardProgress }, ...rest] };
+    await modules.saveModule(module);
+
+    expect(await db.cardProgress.count()).toBe(1);
+    const stored = await modules.getModule(module.moduleId);
+    expect(stored.success && stored.data.entries[0].cardProgress).toBeUndefined();
+    expect(await modules.getModuleWithProgress(module.moduleId)).toEqual({ success: true, data: module });
+
+    await modules.deleteModule(module.moduleId);
+    expect(await db.cardProgress.count()).toBe(0);
+  });
+
+  it('should split out and reattach recognition progress', async () => {
+    const [perro, ...rest] = exampleVocabularyModule.entries;
+    const module: VocabularyModule = {
+      ...exampleVocabularyModule,
+      entries: [{ ...perro, reverseProgress: exampleMasteredProgress }, ...rest],
+    };
+    await modules.saveModule(module);
+
+    const recognition = new ProgressRepository(db, 'recognition');
+    expect(await recognition.getProgress(module.moduleId, 'perro-001')).toEqual(exampleMasteredProgress);
+    expect(await new ProgressRepository(db).getProgress(module.moduleId, 'perro-001')).toEqual(perro.progress);
+    expect(await modules.getModuleWithProgress(module.moduleId)).toEqual({ success: true, data: module });
+
+    await modules.deleteModule(module.moduleId);
+    expect(await db.reverseProgress.count()).toBe(0);
+  });
+
+  it('should merge customizations into the loaded module', async () => {
+    await modules.saveModule(exampleVocabularyModule);
+    await new CustomizationRepository(db).saveCustomization({
+      moduleId: exampleVocabularyModule.moduleId,
+      entryId: 'perro-001',
+      mnemonics: 'A perro purrs? No, it barks',
+      updatedAt: '2025-02-01T00:00:00Z',
+    });
+
+    const result = await modules.getCustomizedModule(exampleVocabularyModule.moduleId);
+    if (!result.success) throw new Error(result.error);
+    expect(result.data.conflicts).toEqual([]);
+    expect(result.data.module.entries[0]).toMatchObject({
+      mnemonics: 'A perro purrs? No, it barks',
+      progress: exampleLearningProgress,
+    });
+    const stored = await modules.getModule(exampleVocabularyModule.moduleId);
+    expect(stored.success && stored.data.entries[0].mnemonics).toBeUndefined();
+  });
+
+  it('should reject invalid modules', async () => {
+    const result = await modules.saveModule({ ...exampleVocabularyModule, moduleId: 'Not Kebab' });
+    expect(result.success).toBe(false);
+    expect(await modules.getAllModules()).toEqual([]);
+  });
+
+  it('should report missing modules', async () => {
+    expect(await modules.getModule('missing')).toMatchObject({ success: false, code: MODULE_NOT_FOUND });
+    expect(await modules.hasModule('missing')).toBe(false);
+  });
+
+  it('should validate records read back from the database', async () => {
+    await db.modules.put({ ...exampleVocabularyModule, language: 'spanish' });
+    const result = await modules.getModule(exampleVocabularyModule.moduleId);
+    expect(result).toMatchObject({ success: false, fieldErrors: [{ path: 'language' }] });
+  });
+
+  it('should apply an upgrade and archive removed entries', async () => {
+    await modules.saveModule(exampleVocabularyModule);
+    const installed = await modules.getModuleWithProgress(exampleVocabularyModule.moduleId);
+    if (!installed.success) throw new Error(installed.error);
+    const [perro, gato] = installed.data.entries;
+    const incoming = { ...exampleVocabularyModule, version: '1.1.0', entries: [{ ...perro, term: 'perrito' }] };
+    const plan = planModuleUpgrade(installed.data, incoming, new Date('2025-03-01T00:00:00Z'));
+    if (!plan.success) throw new Error(plan.error);
+
+    expect(await modules.applyUpgrade(plan.data, new Date('2025-03-01T00:00:00Z'))).toMatchObject({ success: true });
+    const upgraded = await modules.getModuleWithProgress(exampleVocabularyModule.moduleId);
+    expect(upgraded.success && upgraded.data.version).toBe('1.1.0');
+    expect(upgraded.success && upgraded.data.entries.map((entry) => [entry.term, entry.progress])).toEqual([
+      ['perrito', undefined],
+    ]);
+    expect(await db.progress.count()).toBe(0);
+    expect(await modules.getArchivedEntries(exampleVocabularyModule.moduleId)).toEqual([
+      {
+        moduleId: exampleVocabularyModule.moduleId,
+        entryId: 'gato-002',
+        moduleVersion: '1.0.0',
+        archivedAt: '2025-03-01T00:00:00.000Z',
+        entry: gato,
+      },
+    ]);
+  });
+
+  it('should delete a module and its user data', async () => {
+    await modules.saveModule(exampleVocabularyModule);
+    await new ReviewLogRepository(db).append([
+      {
+        moduleId: exampleVocabularyModule.moduleId,
+        entryId: 'perro-001',
+        cardId: 'perro-001-img-01',
+        cardType: CardType.IMAGE,
+        direction: 'production',
+        userAnswer: 'perro',
+        confidence: 1,
+        answerMode: 'typed',
+        quality: ReviewQuality.GOOD,
+        reviewedAt: '2025-03-01T00:00:00.000Z',
+        rescheduled: true,
+        progressBefore: null,
+        progressAfter: exampleLearningProgress,
+      },
+    ]);
+    await modules.deleteModule(exampleVocabularyModule.moduleId);
+    expect(await modules.hasModule(exampleVocabularyModule.moduleId)).toBe(false);
+    expect(await db.progress.count()).toBe(0);
+    expect(await db.reviewLog.count()).toBe(0);
+  });
+
+  it('should keep multi-module sessions without the deleted module', async () => {
+    const moduleId = exampleVocabularyModule.moduleId;
+    await modules.saveModule(exampleVocabularyModule);
+    const sessions = new SessionRepository(db);
+    const { stats } = exampleCompletedSessionState;
+    const mixed = (first: string, second: string) => ({
+      ...exampleCompletedSessionState,
+      moduleId: first,
+      moduleIds: [first, second],
+      moduleStats: { [first]: stats, [second]: stats },
+    });
+    await sessions.saveCompletedSession(mixed(moduleId, 'spanish-food'));
+    await sessions.saveCompletedSession(mixed('spanish-food', moduleId));
+    await sessions.saveCompletedSession({ ...exampleCompletedSessionState, moduleId });
+
+    await modules.deleteModule(moduleId);
+    const kept = await db.sessions.toArray();
+    expect(kept).toHaveLength(2);
+    for (const session of kept) {
+      expect(session).toMatchObject({ moduleId: 'spanish-food', moduleIds: ['spanish-food'] });
+      expect(Object.keys(session.moduleStats ?? {})).toEqual(['spanish-food']);
+    }
+  });
+});
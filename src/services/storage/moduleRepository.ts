@@ -0,0 +1,260 @@
+/**
+ * Persistence for vocabulary modules.
+ * Modules are stored without per-entry or per-card progress; progress
+ * embedded in an incoming module is split out into the progress,
+ * reverseProgress and cardProgress tables.
+ */
+
+import type { Result, VocabularyEntry, VocabularyModule } from '../../models';
+import { compact } from '../../utils/compact';
+import { applyModuleCustomizations, type CustomizedModule } from '../modules/customizationOverlay';
+import type { ModuleUpgradePlan } from '../modules/moduleUpgrade';
+import { validateModule } from '../validation/modelValidator';
+import type {
+  ArchivedEntryRecord,
+  CardProgressRecord,
+  ProgressRecord,
+  SessionRecord,
+  VocabOneDatabase,
+} from './database';
+import { toUserProgress } from './progressRepository';
+import { groupCardProgress } from './cardProgressRepository';
+
+/** Error code returned when a module id is not in the database */
+export const MODULE_NOT_FOUND = 'MODULE_NOT_FOUND';
+
+function stripProgress(entry: VocabularyEntry): VocabularyEntry {
+  const stored = { ...entry };
+  delete stored.progress;
+  delete stored.reverseProgress;
+  delete stored.cardProgress;
+  return stored;
+}
+
+/**
+ * Separates the progress embedded in a module's entries from its content.
+ */
+function splitProgress(module: VocabularyModule) {
+  const progress: ProgressRecord[] = module.entries
+    .filter((entry) => entry.progress)
+    .map((entry) => ({ ...entry.progress!, moduleId: module.moduleId, entryId: entry.entryId }));
+  const reverseProgress: ProgressRecord[] = module.entries
+    .filter((entry) => entry.reverseProgress)
+    .map((entry) => ({ ...entry.reverseProgress!, moduleId: module.moduleId, entryId: entry.entryId }));
+  const cardProgress: CardProgressRecord[] = module.entries.flatMap((entry) =>
+    Object.values(entry.cardProgress ?? {}).map((card) => ({
+      ...card,
+      moduleId: module.moduleId,
+      entryId: entry.entryId,
+    }))
+  );
+  const stored: VocabularyModule = { ...module, entries: module.entries.map(stripProgress) };
+  return { stored, progress, reverseProgress, cardProgress };
+}
+
+/**
+ * Drops a module from a multi-module session, keeping the other modules' share.
+ */
+function withoutModule(session: SessionRecord, moduleId: string): SessionRecord {
+  const moduleIds = (session.moduleIds ?? []).filter((id) => id !== moduleId);
+  const moduleStats = { ...session.moduleStats };
+  delete moduleStats[moduleId];
+  return {
+    ...session,
+    moduleId: session.moduleId === moduleId ? moduleIds[0] : session.moduleId,
+    moduleIds,
+    moduleStats,
+  };
+}
+
+/**
+ * CRUD access to the `modules` table.
+ */
+export class ModuleRepository {
+  constructor(private readonly db: VocabOneDatabase) {}
+
+  /**
+   * Validates and stores a module, replacing any module with the same id.
+   * Progress found on entries is written to the progress tables.
+   */
+  async saveModule(module: VocabularyModule): Promise<Result<VocabularyModule>> {
+    const validation = validateModule(module);
+    if (!validation.success) return validation;
+
+    const { stored, progress, reverseProgress, cardProgress } = splitProgress(module);
+
+    const tables = [this.db.modules, this.db.progress, this.db.reverseProgress, this.db.cardProgress];
+    await this.db.transaction('rw', tables, async () => {
+      await this.db.modules.put(stored);
+      if (progress.length > 0) {
+        await this.db.progress.bulkPut(progress);
+      }
+      if (reverseProgress.length > 0) {
+        await this.db.reverseProgress.bulkPut(reverseProgress);
+      }
+      if (cardProgress.length > 0) {
+        await this.db.cardProgress.bulkPut(cardProgress);
+      }
+    });
+    return { success: true, data: stored };
+  }
+
+  /**
+   * Loads a module (without progress). Records that no longer pass
+   * validation are reported as failures rather than returned.
+   */
+  async getModule(moduleId: string): Promise<Result<VocabularyModule>> {
+    const record = await this.db.modules.get(moduleId);
+    if (!record) {
+      return { success: false, error: `Module "${moduleId}" not found`, code: MODULE_NOT_FOUND };
+    }
+    return validateModule(record);
+  }
+
+  /**
+   * Loads a module with each entry's stored progress and card statistics attached.
+   */
+  async getModuleWithProgress(moduleId: string): Promise<Result<VocabularyModule>> {
+    const result = await this.getModule(moduleId);
+    if (!result.success) return result;
+
+    const records = await this.db.progress.where('moduleId').equals(moduleId).toArray();
+    const byEntry = new Map(records.map((record) => [record.entryId, toUserProgress(record)]));
+    const reverseRecords = await this.db.reverseProgress.where('moduleId').equals(moduleId).toArray();
+    const reverseByEntry = new Map(reverseRecords.map((record) => [record.entryId, toUserProgress(record)]));
+    const cardsByEntry = groupCardProgress(await this.db.cardProgress.where('moduleId').equals(moduleId).toArray());
+    return {
+      success: true,
+      data: {
+        ...result.data,
+        entries: result.data.entries.map((entry) => {
+          const progress = byEntry.get(entry.entryId);
+          const reverseProgress = reverseByEntry.get(entry.entryId);
+          const cardProgress = cardsByEntry.get(entry.entryId);
+          return compact({ ...entry, progress, reverseProgress, cardProgress });
+        }),
+      },
+    };
+  }
+
+  /**
+   * Loads a module with progress attached and the user's customizations
+   * merged into its entries, reporting customizations that no longer fit.
+   * The merged module is for studying and display; never save it back.
+   */
+  async getCustomizedModule(moduleId: string): Promise<Result<CustomizedModule>> {
+    const result = await this.getModuleWithProgress(moduleId);
+    if (!result.success) return result;
+
+    const customizations = await this.db.customizations.where('moduleId').equals(moduleId).toArray();
+    return { success: true, data: applyModuleCustomizations(result.data, customizations) };
+  }
+
+  /**
+   * Stores an upgrade planned with planModuleUpgrade: the merged module
+   * replaces the installed one, its progress replaces all progress of the
+   * module, and removed entries are archived.
+   */
+  async applyUpgrade(plan: ModuleUpgradePlan, now: Date): Promise<Result<VocabularyModule>> {
+    const validation = validateModule(plan.module);
+    if (!validation.success) return validation;
+
+    const { moduleId } = plan;
+    const { stored, progress, reverseProgress, cardProgress } = splitProgress(plan.module);
+    const archived: ArchivedEntryRecord[] = plan.archived.map((entry) => ({
+      moduleId,
+      entryId: entry.entryId,
+      moduleVersion: plan.fromVersion,
+      archivedAt: now.toISOString(),
+      entry,
+    }));
+
+    const tables = [
+      this.db.modules,
+      this.db.progress,
+      this.db.reverseProgress,
+      this.db.cardProgress,
+      this.db.archivedEntries,
+    ];
+    await this.db.transaction('rw', tables, async () => {
+      await this.db.modules.put(stored);
+      await this.db.progress.where('moduleId').equals(moduleId).delete();
+      await this.db.reverseProgress.where('moduleId').equals(moduleId).delete();
+      await this.db.cardProgress.where('moduleId').equals(moduleId).delete();
+      await this.db.progress.bulkPut(progress);
+      await this.db.reverseProgress.bulkPut(reverseProgress);
+      await this.db.cardProgress.bulkPut(cardProgress);
+      await this.db.archivedEntries.bulkPut(archived);
+    });
+    return { success: true, data: stored };
+  }
+
+  /**
+   * Lists the entries removed from a module by upgrades, most recently archived first.
+   */
+  async getArchivedEntries(moduleId: string): Promise<ArchivedEntryRecord[]> {
+    const records = await this.db.archivedEntries.where('moduleId').equals(moduleId).toArray();
+    return records.sort((a, b) => b.archivedAt.localeCompare(a.archivedAt));
+  }
+
+  /**
+   * Lists every stored module.
+   */
+  async getAllModules(): Promise<VocabularyModule[]> {
+    return this.db.modules.orderBy('title').toArray();
+  }
+
+  /**
+   * Whether a module with the given id is stored.
+   */
+  async hasModule(moduleId: string): Promise<boolean> {
+    return (await this.db.modules.where('moduleId').equals(moduleId).count()) > 0;
+  }
+
+  /**
+   * Removes a module together with its progress, customizations, sessions,
+   * review log, media and archived entries. Multi-module sessions that also
+   * drew from other modules are kept, without the removed module.
+   */
+  async deleteModule(moduleId: string): Promise<void> {
+    const {
+      modules,
+      progress,
+      reverseProgress,
+      cardProgress,
+      customizations,
+      sessions,
+      reviewLog,
+      media,
+      archivedEntries,
+    } = this.db;
+    const tables = [
+      modules,
+      progress,
+      reverseProgress,
+      cardProgress,
+      customizations,
+      sessions,
+      reviewLog,
+      media,
+      archivedEntries,
+    ];
+    await this.db.transaction('rw', tables, async () => {
+      await modules.delete(moduleId);
+      await progress.where('moduleId').equals(moduleId).delete();
+      await reverseProgress.where('moduleId').equals(moduleId).delete();
+      await cardProgress.where('moduleId').equals(moduleId).delete();
+      await customizations.where('moduleId').equals(moduleId).delete();
+      const shared = await sessions.where('moduleIds').equals(moduleId).toArray();
+      await sessions.bulkPut(
+        shared
+          .filter((session) => session.moduleIds?.some((id) => id !== moduleId))
+          .map((session) => withoutModule(session, moduleId))
+      );
+      await sessions.where('moduleId').equals(moduleId).delete();
+      await reviewLog.where('moduleId').equals(moduleId).delete();
+      await media.where('moduleId').equals(moduleId).delete();
+      await archivedEntries.where('moduleId').equals(moduleId).delete();
+    });
+  }
+}
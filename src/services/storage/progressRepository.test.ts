@@ -0,0 +1,52 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { exampleLearningProgress, exampleMasteredProgress } from '../../models';
+import { VocabOneDatabase } from './database';
+import { ProgressRepository } from './progressRepository';
+
+const NOW = new Date('2025-03-01T00:00:00Z');
+
+describe('ProgressRepository', () => {
+  let db: VocabOneDatabase;
+  let repository: ProgressRepository;
+
+  beforeEach(() => {
+    db = new VocabOneDatabase(`test-progress-${Math.random()}`);
+    repository = new ProgressRepository(db);
+  });
+
+  afterEach(async () => {
+    await db.delete();
+  });
+
+  it('should key progress by module and entry', async () => {
+    await repository.saveProgress('module-a', 'perro-001', exampleLearningProgress);
+    await repository.saveProgress('module-b', 'perro-001', exampleMasteredProgress);
+
+    expect(await repository.getProgress('module-a', 'perro-001')).toEqual(exampleLearningProgress);
+    expect(await repository.getProgress('module-b', 'perro-001')).toEqual(exampleMasteredProgress);
+    expect(await repository.getProgress('module-a', 'gato-002')).toBeUndefined();
+  });
+
+  it('should load and reset all progress for a module', async () => {
+    await repository.saveModuleProgress(
+      'module-a',
+      new Map([
+        ['perro-001', exampleLearningProgress],
+        ['gato-002', exampleMasteredProgress],
+      ])
+    );
+    expect([...(await repository.getModuleProgress('module-a')).keys()].sort()).toEqual(['gato-002', 'perro-001']);
+
+    await repository.resetModuleProgress('module-a');
+    expect((await repository.getModuleProgress('module-a')).size).toBe(0);
+  });
+
+  it('should find due progress across modules', async () => {
+    await repository.saveProgress('module-a', 'due', { ...exampleLearningProgress, nextReview: '2025-02-28T00:00:00.000Z' });
+    await repository.saveProgress('module-b', 'later', { ...exampleLearningProgress, nextReview: '2025-03-05T00:00:00.000Z' });
+
+    const due = await repository.getDueProgress(NOW);
+    expect(due.map((record) => record.entryId)).toEqual(['due']);
+  });
+});
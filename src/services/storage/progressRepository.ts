@@ -0,0 +1,78 @@
+/**
+ * Persistence for per-entry learning progress, keyed by moduleId + entryId.
+ * Each study direction has its own table: `progress` for production and
+ * `reverseProgress` for recognition.
+ */
+
+import type Dexie from 'dexie';
+import type { StudyDirection, UserProgress } from '../../models';
+import type { ProgressRecord, VocabOneDatabase } from './database';
+
+/**
+ * Strips the table keys off a stored record.
+ */
+export function toUserProgress(record: ProgressRecord): UserProgress {
+  const progress: Partial<ProgressRecord> = { ...record };
+  delete progress.moduleId;
+  delete progress.entryId;
+  return progress as UserProgress;
+}
+
+/**
+ * Access to the progress table of one study direction.
+ */
+export class ProgressRepository {
+  private readonly table: Dexie.Table<ProgressRecord, [string, string]>;
+
+  /**
+   * @param direction - Which direction's progress to access (default: production)
+   */
+  constructor(db: VocabOneDatabase, direction: StudyDirection = 'production') {
+    this.table = direction === 'recognition' ? db.reverseProgress : db.progress;
+  }
+
+  /**
+   * Stores progress for one entry, replacing any previous record.
+   */
+  async saveProgress(moduleId: string, entryId: string, progress: UserProgress): Promise<void> {
+    await this.table.put({ ...progress, moduleId, entryId });
+  }
+
+  /**
+   * Stores progress for several entries of one module in a single transaction.
+   */
+  async saveModuleProgress(moduleId: string, progress: Map<string, UserProgress>): Promise<void> {
+    const records = [...progress].map(([entryId, value]) => ({ ...value, moduleId, entryId }));
+    await this.table.bulkPut(records);
+  }
+
+  /**
+   * Loads progress for one entry, if it has been reviewed.
+   */
+  async getProgress(moduleId: string, entryId: string): Promise<UserProgress | undefined> {
+    const record = await this.table.get([moduleId, entryId]);
+    return record ? toUserProgress(record) : undefined;
+  }
+
+  /**
+   * Loads all progress for a module, keyed by entry id.
+   */
+  async getModuleProgress(moduleId: string): Promise<Map<string, UserProgress>> {
+    const records = await this.table.where('moduleId').equals(moduleId).toArray();
+    return new Map(records.map((record) => [record.entryId, toUserProgress(record)]));
+  }
+
+  /**
+   * Lists progress records across all modules that are due at `now`.
+   */
+  async getDueProgress(now: Date): Promise<ProgressRecord[]> {
+    return this.table.where('nextReview').belowOrEqual(now.toISOString()).toArray();
+  }
+
+  /**
+   * Deletes all progress for a module.
+   */
+  async resetModuleProgress(moduleId: string): Promise<void> {
+    await this.table.where('moduleId').equals(moduleId).delete();
+  }
+}
@@ -0,0 +1,57 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { CardType, ReviewQuality, exampleLearningProgress, type ReviewLogEntry } from '../../models';
+import { VocabOneDatabase } from './database';
+import { ReviewLogRepository } from './reviewLogRepository';
+
+function answer(entryId: string, reviewedAt: string, moduleId = 'spanish-animals-basics'): ReviewLogEntry {
+  return {
+    moduleId,
+    entryId,
+    cardId: `${entryId}-def-01`,
+    cardType: CardType.DEFINITION,
+    direction: 'production',
+    userAnswer: 'perro',
+    confidence: 1,
+    answerMode: 'typed',
+    quality: ReviewQuality.GOOD,
+    reviewedAt,
+    rescheduled: true,
+    progressBefore: null,
+    progressAfter: exampleLearningProgress,
+  };
+}
+
+describe('ReviewLogRepository', () => {
+  let db: VocabOneDatabase;
+  let repository: ReviewLogRepository;
+
+  beforeEach(() => {
+    db = new VocabOneDatabase(`test-review-log-${Math.random()}`);
+    repository = new ReviewLogRepository(db);
+  });
+
+  afterEach(async () => {
+    await db.delete();
+  });
+
+  it('should append answers and list them per entry, oldest first', async () => {
+    await repository.append([answer('perro-001', '2025-01-03T00:00:00Z'), answer('gato-002', '2025-01-02T00:00:00Z')]);
+    await repository.append([answer('perro-001', '2025-01-01T00:00:00Z')]);
+
+    const log = await repository.getEntryLog('spanish-animals-basics', 'perro-001');
+    expect(log.map((entry) => entry.reviewedAt)).toEqual(['2025-01-01T00:00:00Z', '2025-01-03T00:00:00Z']);
+    expect(log[0]).toMatchObject(answer('perro-001', '2025-01-01T00:00:00Z'));
+  });
+
+  it('should list a module log without answers of other modules', async () => {
+    await repository.append([
+      answer('perro-001', '2025-01-02T00:00:00Z'),
+      answer('gato-002', '2025-01-01T00:00:00Z'),
+      answer('uno-001', '2025-01-01T00:00:00Z', 'numbers'),
+    ]);
+
+    const log = await repository.getModuleLog('spanish-animals-basics');
+    expect(log.map((entry) => entry.entryId)).toEqual(['gato-002', 'perro-001']);
+  });
+});
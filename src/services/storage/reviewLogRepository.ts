@@ -0,0 +1,35 @@
+/**
+ * Persistence for the review log. Entries are only ever added: there is no
+ * way to edit or remove one, so the log stays a faithful history.
+ */
+
+import type { ReviewLogEntry } from '../../models';
+import type { ReviewLogRecord, VocabOneDatabase } from './database';
+
+/**
+ * Access to the `reviewLog` table.
+ */
+export class ReviewLogRepository {
+  constructor(private readonly db: VocabOneDatabase) {}
+
+  /**
+   * Appends rated answers (typically a finished session's `reviewLog`).
+   */
+  async append(entries: ReviewLogEntry[]): Promise<void> {
+    await this.db.reviewLog.bulkAdd(entries.map((entry) => structuredClone(entry)));
+  }
+
+  /**
+   * Lists the answers given for one entry, oldest first.
+   */
+  async getEntryLog(moduleId: string, entryId: string): Promise<ReviewLogRecord[]> {
+    return this.db.reviewLog.where('[moduleId+entryId]').equals([moduleId, entryId]).sortBy('reviewedAt');
+  }
+
+  /**
+   * Lists the answers given in a module, oldest first.
+   */
+  async getModuleLog(moduleId: string): Promise<ReviewLogRecord[]> {
+    return this.db.reviewLog.where('moduleId').equals(moduleId).sortBy('reviewedAt');
+  }
+}
@@ -0,0 +1,56 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { exampleCompletedSessionState, exampleSessionState } from '../../models';
+import { VocabOneDatabase } from './database';
+import { SessionRepository, SESSION_ACTIVE } from './sessionRepository';
+
+describe('SessionRepository', () => {
+  let db: VocabOneDatabase;
+  let repository: SessionRepository;
+
+  beforeEach(() => {
+    db = new VocabOneDatabase(`test-sessions-${Math.random()}`);
+    repository = new SessionRepository(db);
+  });
+
+  afterEach(async () => {
+    await db.delete();
+  });
+
+  it('should store completed sessions', async () => {
+    const result = await repository.saveCompletedSession(exampleCompletedSessionState);
+    expect(result.success).toBe(true);
+
+    const sessions = await repository.getModuleSessions('spanish-animals-basics');
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].stats).toEqual(exampleCompletedSessionState.stats);
+  });
+
+  it('should list multi-module sessions under each of their modules', async () => {
+    await repository.saveCompletedSession({
+      ...exampleCompletedSessionState,
+      moduleId: 'spanish-animals-basics',
+      moduleIds: ['spanish-animals-basics', 'spanish-food'],
+    });
+    await repository.saveCompletedSession({ ...exampleCompletedSessionState, moduleId: 'spanish-food' });
+
+    expect(await repository.getModuleSessions('spanish-food')).toHaveLength(2);
+    expect(await repository.getModuleSessions('spanish-animals-basics')).toHaveLength(1);
+  });
+
+  it('should refuse active sessions', async () => {
+    expect(await repository.saveCompletedSession(exampleSessionState)).toMatchObject({
+      success: false,
+      code: SESSION_ACTIVE,
+    });
+  });
+
+  it('should list recent sessions newest first', async () => {
+    await repository.saveCompletedSession({ ...exampleCompletedSessionState, startTime: '2025-01-01T00:00:00Z' });
+    await repository.saveCompletedSession({ ...exampleCompletedSessionState, startTime: '2025-01-03T00:00:00Z' });
+    await repository.saveCompletedSession({ ...exampleCompletedSessionState, startTime: '2025-01-02T00:00:00Z' });
+
+    const recent = await repository.getRecentSessions(2);
+    expect(recent.map((session) => session.startTime)).toEqual(['2025-01-03T00:00:00Z', '2025-01-02T00:00:00Z']);
+  });
+});
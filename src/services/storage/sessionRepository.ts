@@ -0,0 +1,48 @@
+/**
+ * Persistence for completed study sessions.
+ */
+
+import type { Result, SessionState } from '../../models';
+import type { SessionRecord, VocabOneDatabase } from './database';
+
+/** Error code returned when trying to store a session that has not ended */
+export const SESSION_ACTIVE = 'SESSION_ACTIVE';
+
+/**
+ * Access to the `sessions` table.
+ */
+export class SessionRepository {
+  constructor(private readonly db: VocabOneDatabase) {}
+
+  /**
+   * Stores a snapshot of a finished session and returns its id.
+   */
+  async saveCompletedSession(session: SessionState): Promise<Result<number>> {
+    if (session.isActive || session.endTime === null) {
+      return { success: false, error: 'Only completed sessions can be saved', code: SESSION_ACTIVE };
+    }
+    const id = await this.db.sessions.add(structuredClone(session));
+    return { success: true, data: id as number };
+  }
+
+  /**
+   * Lists sessions for a module, multi-module sessions that drew from it
+   * included, most recent first.
+   */
+  async getModuleSessions(moduleId: string): Promise<SessionRecord[]> {
+    const sessions = await this.db.sessions
+      .where('moduleId')
+      .equals(moduleId)
+      .or('moduleIds')
+      .equals(moduleId)
+      .sortBy('startTime');
+    return sessions.reverse();
+  }
+
+  /**
+   * Lists the most recent sessions across all modules.
+   */
+  async getRecentSessions(limit: number): Promise<SessionRecord[]> {
+    return this.db.sessions.orderBy('startTime').reverse().limit(limit).toArray();
+  }
+}
@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CardType,
+  ReviewQuality,
+  exampleImageCard,
+  exampleDefinitionCard,
+  type ClozeCard,
+  type TriviaCard,
+} from '../../models';
+import {
+  validateAnswer,
+  validateClozeAnswer,
+  normalizeAnswer,
+  suggestQuality,
+  CLOZE_ANSWER_SEPARATOR,
+  DEFAULT_VALIDATION_CONFIG,
+} from './answerValidator';
+
+const ninoCard: TriviaCard = {
+  cardId: 'nino-001-trivia-01',
+  type: CardType.TRIVIA,
+  question: 'What is the Spanish word for "boy"?',
+  expectedAnswer: 'niño',
+  alternateAnswers: ['chico'],
+};
+
+describe('answerValidator', () => {
+  describe('normalizeAnswer', () => {
+    it('should apply case, whitespace and accent rules', () => {
+      expect(normalizeAnswer('  El   Niño ', DEFAULT_VALIDATION_CONFIG)).toBe('el nino');
+      expect(
+        normalizeAnswer('  Niño ', { ...DEFAULT_VALIDATION_CONFIG, ignoreCase: false, ignoreAccents: false })
+      ).toBe('Niño');
+    });
+  });
+
+  describe('validateAnswer', () => {
+    it('should accept an exact match as EASY when answered quickly', () => {
+      const result = validateAnswer(exampleImageCard, 'perro', DEFAULT_VALIDATION_CONFIG, 2500);
+      expect(result.isCorrect).toBe(true);
+      expect(result.confidence).toBe(1);
+      expect(result.feedback).toBe('Perfect! Your answer matches exactly.');
+      expect(result.suggestedQuality).toBe(ReviewQuality.EASY);
+    });
+
+    it('should accept alternate answers', () => {
+      const result = validateAnswer(exampleImageCard, 'el perro');
+      expect(result.isCorrect).toBe(true);
+      expect(result.expectedAnswer).toBe('perro');
+      expect(result.feedback).toContain('"el perro" is accepted');
+    });
+
+    it('should accept small typos with fuzzy matching', () => {
+      const result = validateAnswer(exampleImageCard, 'pero', DEFAULT_VALIDATION_CONFIG, 4000);
+      expect(result.isCorrect).toBe(true);
+      expect(result.confidence).toBeCloseTo(0.8);
+      expect(result.feedback).toBe('Close enough! The exact spelling is "perro".');
+      expect(result.suggestedQuality).toBe(ReviewQuality.GOOD);
+    });
+
+    it('should reject typos when fuzzy matching is disabled', () => {
+      const result = validateAnswer(exampleImageCard, 'pero', { ...DEFAULT_VALIDATION_CONFIG, fuzzyMatching: false });
+      expect(result.isCorrect).toBe(false);
+      expect(result.suggestedQuality).toBe(ReviewQuality.HARD);
+    });
+
+    it('should reject answers beyond the maximum edit distance', () => {
+      const result = validateAnswer(exampleDefinitionCard, 'ubiquity', {
+        ...DEFAULT_VALIDATION_CONFIG,
+        threshold: 0.5,
+      });
+      expect(result.isCorrect).toBe(false);
+    });
+
+    it('should point out a missed accent', () => {
+      const result = validateAnswer(ninoCard, 'nino');
+      expect(result.isCorrect).toBe(true);
+      expect(result.feedback).toBe('Almost — check the accent on ñ.');
+      expect(result.confidence).toBeLessThan(1);
+      expect(result.suggestedQuality).toBe(ReviewQuality.GOOD);
+    });
+
+    it('should require accents when ignoreAccents is false', () => {
+      const strict = { ...DEFAULT_VALIDATION_CONFIG, ignoreAccents: false, fuzzyMatching: false };
+      expect(validateAnswer(ninoCard, 'nino', strict).isCorrect).toBe(false);
+      expect(validateAnswer(ninoCard, 'niño', strict).isCorrect).toBe(true);
+    });
+
+    it('should respect case sensitivity when configured', () => {
+      const strict = { ...DEFAULT_VALIDATION_CONFIG, ignoreCase: false, fuzzyMatching: false };
+      expect(validateAnswer(exampleImageCard, 'Perro', strict).isCorrect).toBe(false);
+    });
+
+    it('should reject unrelated answers as AGAIN', () => {
+      const result = validateAnswer(exampleImageCard, 'gato', DEFAULT_VALIDATION_CONFIG, 8000);
+      expect(result.isCorrect).toBe(false);
+      expect(result.feedback).toBe('Not quite. The correct answer is "perro".');
+      expect(result.suggestedQuality).toBe(ReviewQuality.AGAIN);
+    });
+
+    it('should reject empty answers', () => {
+      const result = validateAnswer(exampleImageCard, '   ');
+      expect(result.isCorrect).toBe(false);
+      expect(result.confidence).toBe(0);
+    });
+  });
+
+  describe('validateClozeAnswer', () => {
+    const serCard: ClozeCard = {
+      cardId: 'ser-001-cloze-01',
+      type: CardType.CLOZE,
+      sentence: 'Yo ___ y tú ___.',
+      blank: 'soy, eres',
+      expectedAnswer: 'soy, eres',
+      blanks: [{ answer: 'soy' }, { answer: 'eres', alternateAnswers: ['sos'] }],
+    };
+
+    it('should report the outcome of every blank', () => {
+      const result = validateClozeAnswer(serCard, ['soy', 'es'], DEFAULT_VALIDATION_CONFIG, 3000);
+      expect(result.isCorrect).toBe(false);
+      expect(result.blankResults).toEqual([
+        { isCorrect: true, confidence: 1, userAnswer: 'soy', expectedAnswer: 'soy' },
+        { isCorrect: false, confidence: 0.5, userAnswer: 'es', expectedAnswer: 'eres' },
+      ]);
+      expect(result.confidence).toBe(0.75);
+      expect(result.feedback).toBe('1 of 2 blanks correct. The missing answers are "eres".');
+      expect(result.suggestedQuality).toBe(ReviewQuality.HARD);
+    });
+
+    it('should accept alternates per blank when answers come from validateAnswer', () => {
+      const result = validateAnswer(serCard, ['soy', 'sos'].join(CLOZE_ANSWER_SEPARATOR));
+      expect(result.isCorrect).toBe(true);
+      expect(result.blankResults?.every((blank) => blank.isCorrect)).toBe(true);
+      expect(result.suggestedQuality).toBe(ReviewQuality.EASY);
+    });
+
+    it('should treat missing answers as wrong', () => {
+      const result = validateClozeAnswer(serCard, ['soy']);
+      expect(result.blankResults?.[1]).toMatchObject({ isCorrect: false, userAnswer: '' });
+    });
+  });
+
+  describe('suggestQuality', () => {
+    it('should downgrade slow exact answers to GOOD', () => {
+      expect(suggestQuality(true, 1, 12000)).toBe(ReviewQuality.GOOD);
+      expect(suggestQuality(true, 1)).toBe(ReviewQuality.EASY);
+    });
+  });
+});
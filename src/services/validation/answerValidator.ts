@@ -0,0 +1,283 @@
+/**
+ * Answer validation.
+ * Compares a user's typed answer against a card's expected and alternate
+ * answers according to a ValidationConfig, and suggests a review quality.
+ */
+
+import {
+  CardType,
+  ReviewQuality,
+  type BlankValidationResult,
+  type ClozeCard,
+  type StudyCard,
+  type ValidationConfig,
+  type ValidationResult,
+} from '../../models';
+import { levenshteinDistance, similarity, stripAccents } from './fuzzyMatcher';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/**
+ * Default validation settings: forgiving on case, accents and whitespace,
+ * with up to two typos accepted.
+ */
+export const DEFAULT_VALIDATION_CONFIG: ValidationConfig = {
+  threshold: 0.8,
+  ignoreCase: true,
+  ignoreAccents: true,
+  trimWhitespace: true,
+  fuzzyMatching: true,
+  maxEditDistance: 2,
+};
+
+/** Confidence reported when an answer differs from the expected one only by accents */
+export const ACCENT_MISMATCH_CONFIDENCE = 0.95;
+
+/** Answers faster than this (ms) with full confidence are rated EASY */
+export const FAST_RESPONSE_MS = 5000;
+
+/** Incorrect answers at or above this confidence are rated HARD rather than AGAIN */
+export const RECOGNIZED_CONFIDENCE = 0.5;
+
+/** Separates the answers to a cloze card with several blanks (one input per blank) */
+export const CLOZE_ANSWER_SEPARATOR = '\n';
+
+// =============================================================================
+// NORMALIZATION
+// =============================================================================
+
+/**
+ * Normalizes an answer for comparison according to the config.
+ */
+export function normalizeAnswer(value: string, config: ValidationConfig): string {
+  let normalized = value.normalize('NFC');
+  if (config.trimWhitespace) {
+    normalized = normalized.trim().replace(/\s+/g, ' ');
+  }
+  if (config.ignoreCase) {
+    normalized = normalized.toLocaleLowerCase();
+  }
+  if (config.ignoreAccents) {
+    normalized = stripAccents(normalized);
+  }
+  return normalized;
+}
+
+/**
+ * Finds the accented characters of `expected` that the user typed without
+ * (or with a different) accent. Both inputs must already be case/whitespace
+ * normalized and have the same length once accents are stripped.
+ */
+function findMissedAccents(userAnswer: string, expected: string): string[] {
+  const user = Array.from(userAnswer);
+  const target = Array.from(expected);
+  if (user.length !== target.length) return [];
+
+  const missed: string[] = [];
+  target.forEach((char, i) => {
+    if (char !== user[i] && stripAccents(char) !== char && !missed.includes(char)) {
+      missed.push(char);
+    }
+  });
+  return missed;
+}
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+interface CandidateMatch {
+  answer: string;
+  isPrimary: boolean;
+  confidence: number;
+  distance: number;
+  exact: boolean;
+  missedAccents: string[];
+}
+
+function matchCandidate(
+  userAnswer: string,
+  candidate: string,
+  isPrimary: boolean,
+  config: ValidationConfig
+): CandidateMatch {
+  const normalizedUser = normalizeAnswer(userAnswer, config);
+  const normalizedCandidate = normalizeAnswer(candidate, config);
+  const distance = levenshteinDistance(normalizedUser, normalizedCandidate);
+
+  if (distance === 0) {
+    // Equal after normalization — check whether accents were the only difference
+    const accentConfig = { ...config, ignoreAccents: false };
+    const missedAccents = config.ignoreAccents
+      ? findMissedAccents(normalizeAnswer(userAnswer, accentConfig), normalizeAnswer(candidate, accentConfig))
+      : [];
+    return {
+      answer: candidate,
+      isPrimary,
+      confidence: missedAccents.length > 0 ? ACCENT_MISMATCH_CONFIDENCE : 1,
+      distance,
+      exact: true,
+      missedAccents,
+    };
+  }
+
+  return {
+    answer: candidate,
+    isPrimary,
+    confidence: similarity(normalizedUser, normalizedCandidate),
+    distance,
+    exact: false,
+    missedAccents: [],
+  };
+}
+
+function isAccepted(match: CandidateMatch, config: ValidationConfig): boolean {
+  if (match.exact) return true;
+  return config.fuzzyMatching && match.distance <= config.maxEditDistance && match.confidence >= config.threshold;
+}
+
+function compareMatches(a: CandidateMatch, b: CandidateMatch, config: ValidationConfig): number {
+  const accepted = Number(isAccepted(b, config)) - Number(isAccepted(a, config));
+  if (accepted !== 0) return accepted;
+  if (b.confidence !== a.confidence) return b.confidence - a.confidence;
+  return Number(b.isPrimary) - Number(a.isPrimary);
+}
+
+/**
+ * Maps a validation outcome and response time to an SM-2 review quality.
+ */
+export function suggestQuality(isCorrect: boolean, confidence: number, responseTime?: number): ReviewQuality {
+  if (!isCorrect) {
+    return confidence >= RECOGNIZED_CONFIDENCE ? ReviewQuality.HARD : ReviewQuality.AGAIN;
+  }
+  const fast = responseTime === undefined || responseTime <= FAST_RESPONSE_MS;
+  return confidence === 1 && fast ? ReviewQuality.EASY : ReviewQuality.GOOD;
+}
+
+function buildFeedback(match: CandidateMatch | null, isCorrect: boolean, expectedAnswer: string): string {
+  if (!match) {
+    return `No answer given. The correct answer is "${expectedAnswer}".`;
+  }
+  if (!isCorrect) {
+    return `Not quite. The correct answer is "${expectedAnswer}".`;
+  }
+  if (match.missedAccents.length > 0) {
+    return `Almost — check the accent on ${match.missedAccents.join(', ')}.`;
+  }
+  if (!match.exact) {
+    return `Close enough! The exact spelling is "${match.answer}".`;
+  }
+  if (!match.isPrimary) {
+    return `Correct! "${match.answer}" is accepted; the main answer is "${expectedAnswer}".`;
+  }
+  return 'Perfect! Your answer matches exactly.';
+}
+
+/**
+ * Validates a user's answer against a card's expected answer and every
+ * alternate answer, returning the best match. Answers to cloze cards with
+ * several blanks are split on CLOZE_ANSWER_SEPARATOR and checked per blank
+ * (see validateClozeAnswer).
+ *
+ * @param card - The card being answered
+ * @param userAnswer - The raw text typed by the user
+ * @param config - Matching rules (defaults to DEFAULT_VALIDATION_CONFIG)
+ * @param responseTime - Time taken to answer in milliseconds
+ *
+ * @example
+ * ```typescript
+ * const result = validateAnswer(exampleImageCard, 'pero', DEFAULT_VALIDATION_CONFIG, 3000);
+ * // result.isCorrect === true, result.feedback === 'Close enough! The exact spelling is "perro".'
+ * ```
+ */
+export function validateAnswer(
+  card: StudyCard,
+  userAnswer: string,
+  config: ValidationConfig = DEFAULT_VALIDATION_CONFIG,
+  responseTime?: number
+): ValidationResult {
+  if (card.type === CardType.CLOZE && card.blanks && card.blanks.length > 1) {
+    return validateClozeAnswer(card, userAnswer.split(CLOZE_ANSWER_SEPARATOR), config, responseTime);
+  }
+  const expectedAnswer = card.expectedAnswer;
+
+  if (normalizeAnswer(userAnswer, { ...config, trimWhitespace: true }) === '') {
+    return {
+      isCorrect: false,
+      confidence: 0,
+      feedback: buildFeedback(null, false, expectedAnswer),
+      userAnswer,
+      expectedAnswer,
+      responseTime,
+      suggestedQuality: ReviewQuality.AGAIN,
+    };
+  }
+
+  const candidates = [
+    matchCandidate(userAnswer, expectedAnswer, true, config),
+    ...(card.alternateAnswers ?? []).map((alt) => matchCandidate(userAnswer, alt, false, config)),
+  ];
+  const best = candidates.sort((a, b) => compareMatches(a, b, config))[0];
+  const isCorrect = isAccepted(best, config);
+
+  return {
+    isCorrect,
+    confidence: best.confidence,
+    feedback: buildFeedback(best, isCorrect, expectedAnswer),
+    userAnswer,
+    expectedAnswer,
+    responseTime,
+    suggestedQuality: suggestQuality(isCorrect, best.confidence, responseTime),
+  };
+}
+
+/**
+ * Validates the answers to a cloze card with several blanks, one answer per
+ * blank in sentence order. The card is correct only if every blank is; its
+ * confidence is the mean of the blanks' confidences.
+ *
+ * @example
+ * ```typescript
+ * const result = validateClozeAnswer(card, ['perro', 'corría']);
+ * // result.blankResults: [{ isCorrect: true, … }, { isCorrect: false, expectedAnswer: 'corre', … }]
+ * ```
+ */
+export function validateClozeAnswer(
+  card: ClozeCard,
+  answers: string[],
+  config: ValidationConfig = DEFAULT_VALIDATION_CONFIG,
+  responseTime?: number
+): ValidationResult {
+  const blanks = card.blanks ?? [{ answer: card.expectedAnswer, alternateAnswers: card.alternateAnswers }];
+  const blankResults: BlankValidationResult[] = blanks.map((blank, i) => {
+    const single: ClozeCard = { ...card, expectedAnswer: blank.answer, alternateAnswers: blank.alternateAnswers };
+    delete single.blanks;
+    const result = validateAnswer(single, answers[i] ?? '', config);
+    return {
+      isCorrect: result.isCorrect,
+      confidence: result.confidence,
+      userAnswer: result.userAnswer,
+      expectedAnswer: blank.answer,
+    };
+  });
+
+  const correct = blankResults.filter((result) => result.isCorrect).length;
+  const isCorrect = correct === blankResults.length;
+  const confidence = blankResults.reduce((sum, result) => sum + result.confidence, 0) / blankResults.length;
+  const missed = blankResults.filter((result) => !result.isCorrect).map((result) => `"${result.expectedAnswer}"`);
+
+  return {
+    isCorrect,
+    confidence,
+    feedback: isCorrect
+      ? `Correct! All ${blankResults.length} blanks are right.`
+      : `${correct} of ${blankResults.length} blanks correct. The missing answers are ${missed.join(', ')}.`,
+    userAnswer: answers.join(CLOZE_ANSWER_SEPARATOR),
+    expectedAnswer: card.expectedAnswer,
+    responseTime,
+    suggestedQuality: suggestQuality(isCorrect, confidence, responseTime),
+    blankResults,
+  };
+}
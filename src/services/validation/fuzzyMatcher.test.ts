@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { levenshteinDistance, similarity, stripAccents } from './fuzzyMatcher';
+
+describe('fuzzyMatcher', () => {
+  describe('levenshteinDistance', () => {
+    it('should compute classic edit distances', () => {
+      expect(levenshteinDistance('kitten', 'sitting')).toBe(3);
+      expect(levenshteinDistance('perro', 'pero')).toBe(1);
+      expect(levenshteinDistance('', 'abc')).toBe(3);
+      expect(levenshteinDistance('same', 'same')).toBe(0);
+    });
+
+    it('should count astral code points as single characters', () => {
+      expect(levenshteinDistance('a😀b', 'ab')).toBe(1);
+    });
+  });
+
+  describe('similarity', () => {
+    it('should scale distance by the longer string', () => {
+      expect(similarity('perro', 'pero')).toBeCloseTo(0.8);
+      expect(similarity('', '')).toBe(1);
+      expect(similarity('abc', 'xyz')).toBe(0);
+    });
+  });
+
+  describe('stripAccents', () => {
+    it('should remove diacritics', () => {
+      expect(stripAccents('niño')).toBe('nino');
+      expect(stripAccents('Café crème')).toBe('Cafe creme');
+      expect(stripAccents('Über')).toBe('Uber');
+    });
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * String distance utilities used for fuzzy answer matching.
+ */
+
+/**
+ * Computes the Levenshtein edit distance between two strings
+ * (minimum number of single-character insertions, deletions or substitutions).
+ * Operates on Unicode code points, not UTF-16 units.
+ */
+export function levenshteinDistance(a: string, b: string): number {
+  const source = Array.from(a);
+  const target = Array.from(b);
+
+  if (source.length === 0) return target.length;
+  if (target.length === 0) return source.length;
+
+  // Single-row dynamic programming table
+  let previous = Array.from({ length: target.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= source.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= target.length; j++) {
+      const cost = source[i - 1] === target[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[target.length];
+}
+
+/**
+ * Converts an edit distance into a 0-1 similarity score relative to the
+ * longer of the two strings (1 = identical, 0 = nothing in common).
+ */
+export function similarity(a: string, b: string): number {
+  const longest = Math.max(Array.from(a).length, Array.from(b).length);
+  if (longest === 0) return 1;
+  return 1 - levenshteinDistance(a, b) / longest;
+}
+
+/**
+ * Removes diacritics by decomposing to NFD and dropping combining marks.
+ * "niño" → "nino", "café" → "cafe".
+ */
+export function stripAccents(value: string): string {
+  return value.normalize('NFD').replace(/\p{M}/gu, '').normalize('NFC');
+}
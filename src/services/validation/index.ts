@@ -0,0 +1,9 @@
+/**
+ * Answer and data validation.
+ */
+
+export * from './fuzzyMatcher';
+export * from './answerValidator';
+export * from './modelValidator';
+export * from './multipleChoice';
+export * from './spokenAnswer';
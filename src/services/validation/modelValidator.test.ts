@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import {
+  exampleImageCard,
+  exampleAudioCard,
+  exampleDefinitionCard,
+  exampleClozeCard,
+  exampleVideoCard,
+  exampleTriviaCard,
+  exampleVocabularyEntry,
+  exampleVocabularyModule,
+  exampleLearningProgress,
+  exampleNewProgress,
+} from '../../models';
+import { validateCard, validateEntry, validateModule, validateProgress, VALIDATION_FAILED } from './modelValidator';
+
+describe('modelValidator', () => {
+  describe('validateCard', () => {
+    it.each([
+      exampleImageCard,
+      exampleAudioCard,
+      exampleDefinitionCard,
+      exampleClozeCard,
+      exampleVideoCard,
+      exampleTriviaCard,
+    ])('should accept example $type card', (card) => {
+      expect(validateCard(card)).toEqual({ success: true, data: card });
+    });
+
+    it('should reject an image card without imageUrl', () => {
+      const card: Record<string, unknown> = { ...exampleImageCard };
+      delete card.imageUrl;
+      const result = validateCard(card);
+      expect(result.success).toBe(false);
+      if (result.success) return;
+      expect(result.code).toBe(VALIDATION_FAILED);
+      expect(result.fieldErrors).toEqual([{ path: 'imageUrl', message: 'is required' }]);
+    });
+
+    it('should reject malformed card ids and unknown types', () => {
+      expect(validateCard({ ...exampleImageCard, cardId: 'Perro 1' })).toMatchObject({
+        success: false,
+        fieldErrors: [{ path: 'cardId' }],
+      });
+      expect(validateCard({ ...exampleImageCard, type: 'hologram' })).toMatchObject({
+        success: false,
+        fieldErrors: [{ path: 'type' }],
+      });
+    });
+
+    it('should check field types', () => {
+      const result = validateCard({ ...exampleVideoCard, loop: 'yes', duration: -1, alternateAnswers: [1] });
+      expect(result.success).toBe(false);
+      if (result.success) return;
+      expect(result.fieldErrors?.map((e) => e.path).sort()).toEqual(['alternateAnswers[0]', 'duration', 'loop']);
+    });
+  });
+
+  describe('validateProgress', () => {
+    it('should accept valid progress', () => {
+      expect(validateProgress(exampleNewProgress).success).toBe(true);
+      expect(validateProgress(exampleLearningProgress).success).toBe(true);
+    });
+
+    it('should enforce the ease factor floor and ISO timestamps', () => {
+      const result = validateProgress({ ...exampleLearningProgress, easeFactor: 1.1, nextReview: 'tomorrow' });
+      expect(result.success).toBe(false);
+      if (result.success) return;
+      expect(result.fieldErrors).toEqual([
+        { path: 'easeFactor', message: 'must be at least 1.3' },
+        { path: 'nextReview', message: 'must be an ISO 8601 timestamp' },
+      ]);
+    });
+
+    it('should validate scheduler fields', () => {
+      expect(validateProgress({ ...exampleNewProgress, schedulerId: 'leitner' }).success).toBe(false);
+      expect(
+        validateProgress({ ...exampleNewProgress, schedulerId: 'fsrs', schedulerState: { stability: 'x' } }).success
+      ).toBe(false);
+    });
+  });
+
+  describe('validateEntry', () => {
+    it('should accept the example entry', () => {
+      expect(validateEntry(exampleVocabularyEntry).success).toBe(true);
+    });
+
+    it('should enforce difficulty range and report nested paths', () => {
+      const entry = {
+        ...exampleVocabularyEntry,
+        difficulty: 7,
+        cards: [{ ...exampleImageCard, prompt: '' }, exampleImageCard],
+      };
+      const result = validateEntry(entry);
+      expect(result.success).toBe(false);
+      if (result.success) return;
+      expect(result.fieldErrors).toEqual([
+        { path: 'difficulty', message: 'must be at most 5' },
+        { path: 'cards[0].prompt', message: 'must not be empty' },
+        { path: 'cards[1].cardId', message: 'is duplicated' },
+      ]);
+      expect(result.error).toBe('Invalid entry: difficulty must be at most 5 (and 2 more)');
+    });
+
+    it('should validate card statistics', () => {
+      const entry = {
+        ...exampleVocabularyEntry,
+        cardProgress: {
+          'perro-001-img-01': {
+            cardId: 'perro-001-img-01',
+            cardType: 'image',
+            shownCount: 1,
+            correctCount: 1,
+            lastShown: null,
+            averageResponseTime: 1200,
+            lastQuality: 3,
+          },
+          'perro-001-audio-01': {
+            cardId: 'other',
+            cardType: 'smell',
+            shownCount: -1,
+            correctCount: 0,
+            lastShown: null,
+            averageResponseTime: 0,
+            lastQuality: 4,
+          },
+        },
+      };
+      expect(validateEntry(entry)).toMatchObject({
+        success: false,
+        fieldErrors: [
+          { path: 'cardProgress.perro-001-audio-01.cardId', message: 'must match its key "perro-001-audio-01"' },
+          { path: 'cardProgress.perro-001-audio-01.cardType' },
+          { path: 'cardProgress.perro-001-audio-01.shownCount', message: 'must be at least 0' },
+          { path: 'cardProgress.perro-001-audio-01.lastQuality', message: 'must be a ReviewQuality or null' },
+        ],
+      });
+    });
+
+    it('should require at least one card', () => {
+      expect(validateEntry({ ...exampleVocabularyEntry, cards: [] })).toMatchObject({
+        success: false,
+        fieldErrors: [{ path: 'cards', message: 'must contain at least one card' }],
+      });
+    });
+  });
+
+  describe('validateModule', () => {
+    it('should accept the example module', () => {
+      expect(validateModule(exampleVocabularyModule).success).toBe(true);
+    });
+
+    it('should reject modules with invalid metadata', () => {
+      const result = validateModule({
+        ...exampleVocabularyModule,
+        moduleId: 'Spanish_Animals',
+        language: 'spa',
+        createdAt: 'January',
+      });
+      expect(result.success).toBe(false);
+      if (result.success) return;
+      expect(result.fieldErrors?.map((e) => e.path)).toEqual(['moduleId', 'language', 'createdAt']);
+    });
+
+    it('should handle non-object input such as a missing IndexedDB record', () => {
+      expect(validateModule(undefined)).toMatchObject({
+        success: false,
+        fieldErrors: [{ path: '(root)', message: 'must be an object' }],
+      });
+    });
+  });
+});
@@ -0,0 +1,447 @@
+/**
+ * Structural validation of domain objects.
+ * Checks untrusted data (e.g. records read back from IndexedDB) against the
+ * documented shape and constraints of each model type, reporting every
+ * problem found rather than stopping at the first.
+ */
+
+import {
+  AUTHORED_CARD_TYPES,
+  CardType,
+  ReviewQuality,
+  type Card,
+  type FieldError,
+  type Result,
+  type SchedulerId,
+  type UserCustomization,
+  type UserProgress,
+  type VocabularyEntry,
+  type VocabularyModule,
+} from '../../models';
+import { MIN_EASE_FACTOR } from '../spacedRepetition/sm2Algorithm';
+
+/** Error code returned when structural validation fails */
+export const VALIDATION_FAILED = 'VALIDATION_FAILED';
+
+/**
+ * Card id format: entry id, card type abbreviation, number (e.g. "perro-001-img-01"), plus the
+ * cloze number for cards generated from inline cloze markup (e.g. "perro-001-cloze-01-c2")
+ */
+export const CARD_ID_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*-[a-z]+-\d+(-c\d+)?$/;
+
+/** Kebab-case identifier (e.g. "spanish-animals-basics") */
+export const KEBAB_CASE_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+/** ISO 639-1 two-letter language code */
+export const LANGUAGE_CODE_PATTERN = /^[a-z]{2}$/;
+
+/** Semantic version (major.minor.patch) */
+export const SEMVER_PATTERN = /^\d+\.\d+\.\d+$/;
+
+const ISO_8601_PATTERN = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const CARD_TYPES = new Set<string>(Object.values(CardType));
+const AUTHORED_TYPES = new Set<string>(AUTHORED_CARD_TYPES);
+const SCHEDULER_IDS = new Set<string>(['sm2', 'fsrs'] satisfies SchedulerId[]);
+const REVIEW_QUALITIES = new Set<unknown>(Object.values(ReviewQuality).filter((value) => typeof value === 'number'));
+
+// =============================================================================
+// FIELD CHECKS
+// =============================================================================
+
+type Fields = Record<string, unknown>;
+
+/**
+ * Accumulates field errors for one validation pass.
+ */
+class FieldChecker {
+  readonly errors: FieldError[] = [];
+
+  add(path: string, message: string): void {
+    this.errors.push({ path, message });
+  }
+
+  object(value: unknown, path: string): Fields | null {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      this.add(path || '(root)', 'must be an object');
+      return null;
+    }
+    return value as Fields;
+  }
+
+  string(obj: Fields, key: string, path: string, required = true): string | undefined {
+    const value = obj[key];
+    const fieldPath = at(path, key);
+    if (value === undefined) {
+      if (required) this.add(fieldPath, 'is required');
+      return undefined;
+    }
+    if (typeof value !== 'string') {
+      this.add(fieldPath, 'must be a string');
+      return undefined;
+    }
+    if (required && value.trim() === '') {
+      this.add(fieldPath, 'must not be empty');
+    }
+    return value;
+  }
+
+  pattern(obj: Fields, key: string, path: string, pattern: RegExp, description: string, required = true): void {
+    const value = this.string(obj, key, path, required);
+    if (value !== undefined && value !== '' && !pattern.test(value)) {
+      this.add(at(path, key), `must be ${description}`);
+    }
+  }
+
+  timestamp(obj: Fields, key: string, path: string, required = false): void {
+    const value = this.string(obj, key, path, required);
+    if (value === undefined) return;
+    if (!ISO_8601_PATTERN.test(value) || Number.isNaN(Date.parse(value))) {
+      this.add(at(path, key), 'must be an ISO 8601 timestamp');
+    }
+  }
+
+  number(obj: Fields, key: string, path: string, options: NumberOptions = {}): void {
+    const value = obj[key];
+    const fieldPath = at(path, key);
+    if (value === undefined) {
+      if (options.required ?? true) this.add(fieldPath, 'is required');
+      return;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.add(fieldPath, 'must be a number');
+      return;
+    }
+    if (options.integer && !Number.isInteger(value)) this.add(fieldPath, 'must be an integer');
+    if (options.min !== undefined && value < options.min) this.add(fieldPath, `must be at least ${options.min}`);
+    if (options.max !== undefined && value > options.max) this.add(fieldPath, `must be at most ${options.max}`);
+  }
+
+  boolean(obj: Fields, key: string, path: string, required = true): void {
+    const value = obj[key];
+    if (value === undefined) {
+      if (required) this.add(at(path, key), 'is required');
+      return;
+    }
+    if (typeof value !== 'boolean') this.add(at(path, key), 'must be a boolean');
+  }
+
+  stringArray(obj: Fields, key: string, path: string): void {
+    const value = obj[key];
+    if (value === undefined) return;
+    if (!Array.isArray(value)) {
+      this.add(at(path, key), 'must be an array');
+      return;
+    }
+    value.forEach((item, i) => {
+      if (typeof item !== 'string') this.add(`${at(path, key)}[${i}]`, 'must be a string');
+    });
+  }
+}
+
+interface NumberOptions {
+  required?: boolean;
+  integer?: boolean;
+  min?: number;
+  max?: number;
+}
+
+function at(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function toResult<T>(value: unknown, checker: FieldChecker, label: string): Result<T> {
+  if (checker.errors.length === 0) {
+    return { success: true, data: value as T };
+  }
+  const [first] = checker.errors;
+  const summary = `${first.path} ${first.message}`;
+  const more = checker.errors.length > 1 ? ` (and ${checker.errors.length - 1} more)` : '';
+  return {
+    success: false,
+    error: `Invalid ${label}: ${summary}${more}`,
+    code: VALIDATION_FAILED,
+    fieldErrors: checker.errors,
+  };
+}
+
+// =============================================================================
+// MODEL CHECKS
+// =============================================================================
+
+function checkCard(checker: FieldChecker, value: unknown, path: string): void {
+  const card = checker.object(value, path);
+  if (!card) return;
+
+  checker.pattern(card, 'cardId', path, CARD_ID_PATTERN, 'in entry-type-number format (e.g. "perro-001-img-01")');
+  checker.string(card, 'hint', path, false);
+  checker.stringArray(card, 'tags', path);
+  checker.string(card, 'expectedAnswer', path);
+  checker.stringArray(card, 'alternateAnswers', path);
+
+  const type = card.type;
+  if (typeof type !== 'string' || !AUTHORED_TYPES.has(type)) {
+    checker.add(at(path, 'type'), `must be one of ${[...AUTHORED_TYPES].join(', ')}`);
+    return;
+  }
+
+  switch (type as CardType) {
+    case CardType.IMAGE:
+      checker.string(card, 'imageUrl', path);
+      checker.string(card, 'prompt', path);
+      checker.string(card, 'altText', path, false);
+      break;
+    case CardType.AUDIO:
+      checker.string(card, 'audioUrl', path);
+      checker.string(card, 'prompt', path);
+      checker.number(card, 'duration', path, { required: false, min: 0 });
+      break;
+    case CardType.DEFINITION:
+      checker.string(card, 'definition', path);
+      checker.string(card, 'partOfSpeech', path, false);
+      checker.string(card, 'exampleSentence', path, false);
+      break;
+    case CardType.CLOZE:
+      checker.string(card, 'sentence', path);
+      checker.string(card, 'blank', path);
+      checker.number(card, 'blankPosition', path, { required: false, integer: true, min: 0 });
+      if (card.blanks !== undefined) checkClozeBlanks(checker, card.blanks, at(path, 'blanks'));
+      break;
+    case CardType.VIDEO:
+      checker.string(card, 'videoUrl', path);
+      checker.string(card, 'prompt', path);
+      checker.number(card, 'duration', path, { required: false, min: 0 });
+      checker.boolean(card, 'loop', path, false);
+      break;
+    case CardType.TRIVIA:
+      checker.string(card, 'question', path);
+      checker.string(card, 'explanation', path, false);
+      break;
+    case CardType.SPEAKING:
+      checker.string(card, 'prompt', path);
+      checker.string(card, 'referenceAudioUrl', path, false);
+      break;
+  }
+}
+
+function checkClozeBlanks(checker: FieldChecker, value: unknown, path: string): void {
+  if (!Array.isArray(value)) {
+    checker.add(path, 'must be an array');
+    return;
+  }
+  value.forEach((item, i) => {
+    const blankPath = `${path}[${i}]`;
+    const blank = checker.object(item, blankPath);
+    if (!blank) return;
+    checker.string(blank, 'answer', blankPath);
+    checker.stringArray(blank, 'alternateAnswers', blankPath);
+    checker.string(blank, 'hint', blankPath, false);
+  });
+}
+
+function checkProgress(checker: FieldChecker, value: unknown, path: string): void {
+  const progress = checker.object(value, path);
+  if (!progress) return;
+
+  checker.number(progress, 'interval', path, { min: 0 });
+  checker.number(progress, 'easeFactor', path, { min: MIN_EASE_FACTOR });
+  checker.number(progress, 'repetitions', path, { integer: true, min: 0 });
+  if (progress.lastReview !== null) checker.timestamp(progress, 'lastReview', path, true);
+  checker.timestamp(progress, 'nextReview', path, true);
+  checker.number(progress, 'totalReviews', path, { integer: true, min: 0 });
+  checker.number(progress, 'correctCount', path, { integer: true, min: 0 });
+  checker.number(progress, 'incorrectCount', path, { integer: true, min: 0 });
+  checker.number(progress, 'streak', path, { integer: true, min: 0 });
+  checker.boolean(progress, 'mastered', path);
+
+  const schedulerId = progress.schedulerId;
+  if (schedulerId !== undefined && (typeof schedulerId !== 'string' || !SCHEDULER_IDS.has(schedulerId))) {
+    checker.add(at(path, 'schedulerId'), `must be one of ${[...SCHEDULER_IDS].join(', ')}`);
+  }
+  if (progress.schedulerState !== undefined) {
+    const statePath = at(path, 'schedulerState');
+    const state = checker.object(progress.schedulerState, statePath);
+    if (state) {
+      for (const key of Object.keys(state)) checker.number(state, key, statePath);
+    }
+  }
+}
+
+function checkCardProgress(checker: FieldChecker, value: unknown, path: string, cardId: string): void {
+  const progress = checker.object(value, path);
+  if (!progress) return;
+
+  if (progress.cardId !== cardId) checker.add(at(path, 'cardId'), `must match its key "${cardId}"`);
+  if (typeof progress.cardType !== 'string' || !CARD_TYPES.has(progress.cardType)) {
+    checker.add(at(path, 'cardType'), `must be one of ${[...CARD_TYPES].join(', ')}`);
+  }
+  checker.number(progress, 'shownCount', path, { integer: true, min: 0 });
+  checker.number(progress, 'correctCount', path, { integer: true, min: 0 });
+  if (progress.lastShown !== null) checker.timestamp(progress, 'lastShown', path, true);
+  checker.number(progress, 'averageResponseTime', path, { min: 0 });
+  checker.number(progress, 'timedCount', path, { required: false, integer: true, min: 0 });
+  if (progress.lastQuality !== null && !REVIEW_QUALITIES.has(progress.lastQuality)) {
+    checker.add(at(path, 'lastQuality'), 'must be a ReviewQuality or null');
+  }
+}
+
+function checkEntry(checker: FieldChecker, value: unknown, path: string): void {
+  const entry = checker.object(value, path);
+  if (!entry) return;
+
+  checker.string(entry, 'entryId', path);
+  checker.string(entry, 'term', path);
+  checker.string(entry, 'pronunciation', path, false);
+  checker.string(entry, 'userNotes', path, false);
+  checker.string(entry, 'mnemonics', path, false);
+  checker.stringArray(entry, 'userTags', path);
+  checker.stringArray(entry, 'customCardIds', path);
+  checker.number(entry, 'difficulty', path, { required: false, integer: true, min: 1, max: 5 });
+  checker.timestamp(entry, 'createdAt', path);
+  checker.timestamp(entry, 'updatedAt', path);
+  if (entry.progress !== undefined) checkProgress(checker, entry.progress, at(path, 'progress'));
+  if (entry.reverseProgress !== undefined) {
+    checkProgress(checker, entry.reverseProgress, at(path, 'reverseProgress'));
+  }
+  if (entry.cardProgress !== undefined) {
+    const cardProgressPath = at(path, 'cardProgress');
+    const cardProgress = checker.object(entry.cardProgress, cardProgressPath);
+    for (const [cardId, stats] of Object.entries(cardProgress ?? {})) {
+      checkCardProgress(checker, stats, at(cardProgressPath, cardId), cardId);
+    }
+  }
+
+  const cardsPath = at(path, 'cards');
+  if (!Array.isArray(entry.cards)) {
+    checker.add(cardsPath, 'must be an array');
+    return;
+  }
+  if (entry.cards.length === 0) checker.add(cardsPath, 'must contain at least one card');
+
+  const seen = new Set<unknown>();
+  entry.cards.forEach((card, i) => {
+    const cardPath = `${cardsPath}[${i}]`;
+    checkCard(checker, card, cardPath);
+    const cardId = (card as Fields | null)?.cardId;
+    if (cardId !== undefined && seen.has(cardId)) checker.add(at(cardPath, 'cardId'), 'is duplicated');
+    seen.add(cardId);
+  });
+}
+
+function checkCustomization(checker: FieldChecker, value: unknown): void {
+  const customization = checker.object(value, '');
+  if (!customization) return;
+
+  checker.string(customization, 'moduleId', '');
+  checker.string(customization, 'entryId', '');
+  checker.string(customization, 'notes', '', false);
+  checker.string(customization, 'mnemonics', '', false);
+  checker.stringArray(customization, 'tags', '');
+  checker.timestamp(customization, 'updatedAt', '', true);
+
+  const extraAnswers =
+    customization.extraAnswers === undefined ? null : checker.object(customization.extraAnswers, 'extraAnswers');
+  for (const cardId of Object.keys(extraAnswers ?? {})) {
+    checker.stringArray(extraAnswers as Fields, cardId, 'extraAnswers');
+  }
+
+  if (customization.customCards === undefined) return;
+  if (!Array.isArray(customization.customCards)) {
+    checker.add('customCards', 'must be an array');
+    return;
+  }
+  const seen = new Set<unknown>();
+  customization.customCards.forEach((card, i) => {
+    const cardPath = `customCards[${i}]`;
+    checkCard(checker, card, cardPath);
+    const cardId = (card as Fields | null)?.cardId;
+    if (cardId !== undefined && seen.has(cardId)) checker.add(at(cardPath, 'cardId'), 'is duplicated');
+    seen.add(cardId);
+  });
+}
+
+function checkModule(checker: FieldChecker, value: unknown): void {
+  const module = checker.object(value, '');
+  if (!module) return;
+
+  checker.pattern(module, 'moduleId', '', KEBAB_CASE_PATTERN, 'kebab-case (e.g. "spanish-animals-basics")');
+  checker.string(module, 'title', '');
+  checker.pattern(module, 'language', '', LANGUAGE_CODE_PATTERN, 'an ISO 639-1 code (e.g. "es")');
+  checker.pattern(module, 'version', '', SEMVER_PATTERN, 'a semantic version (e.g. "1.0.0")');
+  checker.string(module, 'description', '', false);
+  checker.string(module, 'author', '', false);
+  checker.stringArray(module, 'tags', '');
+  checker.timestamp(module, 'createdAt', '');
+  checker.timestamp(module, 'updatedAt', '');
+  checker.string(module, 'license', '', false);
+
+  if (!Array.isArray(module.entries)) {
+    checker.add('entries', 'must be an array');
+    return;
+  }
+  const seen = new Set<unknown>();
+  module.entries.forEach((entry, i) => {
+    const entryPath = `entries[${i}]`;
+    checkEntry(checker, entry, entryPath);
+    const entryId = (entry as Fields | null)?.entryId;
+    if (entryId !== undefined && seen.has(entryId)) checker.add(at(entryPath, 'entryId'), 'is duplicated');
+    seen.add(entryId);
+  });
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Validates that a value is a structurally complete Card of its declared type.
+ */
+export function validateCard(value: unknown): Result<Card> {
+  const checker = new FieldChecker();
+  checkCard(checker, value, '');
+  return toResult(value, checker, 'card');
+}
+
+/**
+ * Validates a UserProgress record.
+ */
+export function validateProgress(value: unknown): Result<UserProgress> {
+  const checker = new FieldChecker();
+  checkProgress(checker, value, '');
+  return toResult(value, checker, 'progress');
+}
+
+/**
+ * Validates a VocabularyEntry including its cards and embedded progress.
+ */
+export function validateEntry(value: unknown): Result<VocabularyEntry> {
+  const checker = new FieldChecker();
+  checkEntry(checker, value, '');
+  return toResult(value, checker, 'entry');
+}
+
+/**
+ * Validates a UserCustomization including its custom cards.
+ */
+export function validateCustomization(value: unknown): Result<UserCustomization> {
+  const checker = new FieldChecker();
+  checkCustomization(checker, value);
+  return toResult(value, checker, 'customization');
+}
+
+/**
+ * Validates a VocabularyModule and everything it contains.
+ *
+ * @example
+ * ```typescript
+ * const result = validateModule(await db.modules.get(id));
+ * if (!result.success) {
+ *   result.fieldErrors?.forEach((e) => console.warn(`${e.path}: ${e.message}`));
+ * }
+ * ```
+ */
+export function validateModule(value: unknown): Result<VocabularyModule> {
+  const checker = new FieldChecker();
+  checkModule(checker, value);
+  return toResult(value, checker, 'module');
+}
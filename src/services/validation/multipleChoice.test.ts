@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { CardType, ReviewQuality, type DefinitionCard, type VocabularyEntry } from '../../models';
+import { createSeededRandom } from '../../utils/random';
+import { deriveReverseCards } from '../spacedRepetition/reverseCards';
+import { generateMultipleChoice, hasDistractor, validateChoice } from './multipleChoice';
+
+function entry(term: string, partOfSpeech?: string, tags?: string[]): VocabularyEntry {
+  const card: DefinitionCard = {
+    cardId: `${term}-def-01`,
+    type: CardType.DEFINITION,
+    definition: `Definition of ${term}`,
+    expectedAnswer: term,
+    partOfSpeech,
+    tags,
+  };
+  return { entryId: `${term}-001`, term, cards: [card] };
+}
+
+const correr = entry('correr', 'verb', ['actions']);
+const pool = [
+  correr,
+  entry('saltar', 'verb', ['actions']),
+  entry('nadar', 'verb', ['actions']),
+  entry('comer', 'verb'),
+  entry('perro', 'noun', ['actions']),
+  entry('gato', 'noun'),
+  entry('extraordinariamente', 'adverb'),
+];
+
+describe('multipleChoice', () => {
+  it('should prefer distractors with the same part of speech, tags and length', () => {
+    const question = generateMultipleChoice(correr.cards[0], correr, pool, { random: createSeededRandom(1) });
+    expect(question).not.toBeNull();
+    expect(question!.options).toHaveLength(4);
+    expect([...question!.options].sort()).toEqual(['comer', 'correr', 'nadar', 'saltar']);
+    expect(question!.options[question!.correctIndex]).toBe('correr');
+  });
+
+  it('should never offer an accepted answer as a distractor', () => {
+    const card = { ...correr.cards[0], alternateAnswers: ['saltar'] };
+    const question = generateMultipleChoice(card, correr, [...pool, entry('Córrer')], { random: () => 0 });
+    expect(question!.options).not.toContain('saltar');
+    expect(question!.options).not.toContain('Córrer');
+  });
+
+  it('should offer fewer options in small modules and none without other entries', () => {
+    const small = generateMultipleChoice(correr.cards[0], correr, pool.slice(0, 2), { random: () => 0 });
+    expect(small!.options).toHaveLength(2);
+    expect(generateMultipleChoice(correr.cards[0], correr, [correr])).toBeNull();
+  });
+
+  it('should offer the definitions of other entries for reverse cards', () => {
+    const [reverse] = deriveReverseCards(correr);
+    const pictureOnly: VocabularyEntry = {
+      entryId: 'pez-001',
+      term: 'pez',
+      cards: [
+        { cardId: 'pez-001-img-01', type: CardType.IMAGE, imageUrl: 'pez.jpg', prompt: '?', expectedAnswer: 'pez' },
+      ],
+    };
+    const question = generateMultipleChoice(reverse, correr, [...pool, pictureOnly], { random: () => 0 });
+    expect([...question!.options].sort()).toEqual([
+      'Definition of comer',
+      'Definition of correr',
+      'Definition of nadar',
+      'Definition of saltar',
+    ]);
+    expect(question!.options[question!.correctIndex]).toBe('Definition of correr');
+    expect(generateMultipleChoice(reverse, correr, [correr, pictureOnly])).toBeNull();
+  });
+
+  it('should tell whether a question can be generated', () => {
+    const [reverse] = deriveReverseCards(correr);
+    const lookalike = { ...entry('córrer'), cards: [{ ...correr.cards[0], definition: 'DEFINITION of córrer' }] };
+    expect(hasDistractor(correr.cards[0], correr, pool)).toBe(true);
+    expect(hasDistractor(correr.cards[0], correr, [correr, entry('Córrer')])).toBe(false);
+    expect(hasDistractor(reverse, correr, [correr, lookalike])).toBe(false);
+    expect(generateMultipleChoice(reverse, correr, [correr, lookalike])).toBeNull();
+  });
+
+  it('should shuffle options reproducibly', () => {
+    const first = generateMultipleChoice(correr.cards[0], correr, pool, { random: createSeededRandom(7) });
+    const second = generateMultipleChoice(correr.cards[0], correr, pool, { random: createSeededRandom(7) });
+    expect(second).toEqual(first);
+  });
+
+  it('should rate picks less generously than typed recall', () => {
+    const question = { cardId: 'correr-def-01', options: ['saltar', 'correr'], correctIndex: 1 };
+    expect(validateChoice(question, 'correr', 1000)).toMatchObject({
+      isCorrect: true,
+      suggestedQuality: ReviewQuality.GOOD,
+      answerMode: 'multiple_choice',
+    });
+    expect(validateChoice(question, 'saltar', 1000)).toMatchObject({
+      isCorrect: false,
+      suggestedQuality: ReviewQuality.AGAIN,
+      expectedAnswer: 'correr',
+    });
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * Multiple-choice answering.
+ * Turns any card into a recognition question by pairing its expected answer
+ * with distractors drawn from other entries of the session. Distractors
+ * are chosen to be plausible: same part of speech when the card is a
+ * DefinitionCard that provides one, shared tags, and similar length.
+ * Reverse cards offer the definitions or pictures of other entries.
+ * Recognition is easier than recall, so a correct pick is rated GOOD at most.
+ */
+
+import {
+  CardType,
+  ReviewQuality,
+  type StudyCard,
+  type ValidationResult,
+  type VocabularyEntry,
+} from '../../models';
+import { DEFAULT_VALIDATION_CONFIG, normalizeAnswer } from './answerValidator';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Number of options shown, the correct one included */
+export const DEFAULT_CHOICE_COUNT = 4;
+
+/** Quality suggested for a correct pick (typed recall can earn EASY) */
+export const MULTIPLE_CHOICE_CORRECT_QUALITY = ReviewQuality.GOOD;
+
+/** Quality suggested for a wrong pick (no HARD: the answer was on screen) */
+export const MULTIPLE_CHOICE_INCORRECT_QUALITY = ReviewQuality.AGAIN;
+
+/** Distractor score weights */
+const PART_OF_SPEECH_WEIGHT = 3;
+const SHARED_TAG_WEIGHT = 1;
+const MAX_SHARED_TAGS = 2;
+const LENGTH_WEIGHT = 2;
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * A card presented as a multiple-choice question.
+ */
+export interface MultipleChoiceQuestion {
+  cardId: string;
+  /** Options in display order */
+  options: string[];
+  /** Index of the expected answer in `options` */
+  correctIndex: number;
+}
+
+/**
+ * Options for generating a question.
+ */
+export interface MultipleChoiceOptions {
+  /** Number of options, the correct one included (default: DEFAULT_CHOICE_COUNT) */
+  count?: number;
+  /** Random number source in [0, 1), used to break ties and shuffle options */
+  random?: () => number;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function normalize(value: string): string {
+  return normalizeAnswer(value, DEFAULT_VALIDATION_CONFIG);
+}
+
+/**
+ * The answer another entry offers as a distractor for a card: the expected
+ * answer of its card of the same type, or its term. For reverse cards it is
+ * the entry's definition or picture, and entries without one offer nothing.
+ */
+function distractorText(entry: VocabularyEntry, card: StudyCard): string | undefined {
+  if (card.type === CardType.REVERSE) {
+    for (const candidate of entry.cards) {
+      if (card.answerKind === 'definition' && candidate.type === CardType.DEFINITION) return candidate.definition;
+      if (card.answerKind === 'image' && candidate.type === CardType.IMAGE) return candidate.imageUrl;
+    }
+    return undefined;
+  }
+  return entry.cards.find((candidate) => candidate.type === card.type)?.expectedAnswer ?? entry.term;
+}
+
+/** Normalized answers a card accepts, which are never offered as distractors */
+function acceptedKeys(card: StudyCard): Set<string> {
+  return new Set([card.expectedAnswer, ...(card.alternateAnswers ?? [])].map(normalize));
+}
+
+function partOfSpeech(entry: VocabularyEntry): string | undefined {
+  for (const card of entry.cards) {
+    if (card.type === CardType.DEFINITION && card.partOfSpeech) return card.partOfSpeech.toLowerCase();
+  }
+  return undefined;
+}
+
+function entryTags(entry: VocabularyEntry): Set<string> {
+  return new Set(entry.cards.flatMap((card) => card.tags ?? []));
+}
+
+/**
+ * How plausible a distractor is for a card; higher is better.
+ */
+function distractorScore(
+  card: StudyCard,
+  cardPos: string | undefined,
+  tags: Set<string>,
+  candidate: VocabularyEntry,
+  text: string
+): number {
+  let score = 0;
+  if (cardPos !== undefined) {
+    const candidatePos = partOfSpeech(candidate);
+    if (candidatePos !== undefined) {
+      score += candidatePos === cardPos ? PART_OF_SPEECH_WEIGHT : -PART_OF_SPEECH_WEIGHT;
+    }
+  }
+
+  const shared = [...entryTags(candidate)].filter((tag) => tags.has(tag)).length;
+  score += Math.min(shared, MAX_SHARED_TAGS) * SHARED_TAG_WEIGHT;
+
+  const longest = Math.max(text.length, card.expectedAnswer.length, 1);
+  score += (1 - Math.abs(text.length - card.expectedAnswer.length) / longest) * LENGTH_WEIGHT;
+  return score;
+}
+
+/** Fisher-Yates shuffle driven by `random` */
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Builds a multiple-choice question for a card of `entry`, drawing
+ * distractors from `pool` (usually every entry of the module). Answers equal
+ * to any accepted answer of the card are never offered as distractors.
+ * Returns null when the pool has no usable distractor.
+ *
+ * @example
+ * ```typescript
+ * const question = generateMultipleChoice(card, entry, module.entries, { random: Math.random });
+ * // question.options: ['gato', 'perro', 'caballo', 'pájaro'], question.correctIndex: 1
+ * ```
+ */
+export function generateMultipleChoice(
+  card: StudyCard,
+  entry: VocabularyEntry,
+  pool: VocabularyEntry[],
+  options: MultipleChoiceOptions = {}
+): MultipleChoiceQuestion | null {
+  const count = options.count ?? DEFAULT_CHOICE_COUNT;
+  const random = options.random ?? Math.random;
+  const taken = acceptedKeys(card);
+  const tags = entryTags(entry);
+  const cardPos =
+    card.type === CardType.DEFINITION
+      ? card.partOfSpeech?.toLowerCase() || undefined
+      : card.type === CardType.REVERSE && card.answerKind === 'definition'
+        ? partOfSpeech(entry)
+        : undefined;
+
+  const candidates = shuffle(
+    pool.filter((candidate) => candidate.entryId !== entry.entryId),
+    random
+  ).flatMap((candidate) => {
+    const text = distractorText(candidate, card);
+    return text === undefined ? [] : [{ text, score: distractorScore(card, cardPos, tags, candidate, text) }];
+  });
+
+  const distractors: string[] = [];
+  for (const { text } of candidates.sort((a, b) => b.score - a.score)) {
+    if (distractors.length >= count - 1) break;
+    const key = normalize(text);
+    if (key === '' || taken.has(key)) continue;
+    taken.add(key);
+    distractors.push(text);
+  }
+  if (distractors.length === 0) return null;
+
+  const optionsInOrder = shuffle([card.expectedAnswer, ...distractors], random);
+  return {
+    cardId: card.cardId,
+    options: optionsInOrder,
+    correctIndex: optionsInOrder.indexOf(card.expectedAnswer),
+  };
+}
+
+/**
+ * Whether `pool` offers at least one usable distractor for a card of
+ * `entry`, that is whether generateMultipleChoice returns a question.
+ */
+export function hasDistractor(card: StudyCard, entry: VocabularyEntry, pool: VocabularyEntry[]): boolean {
+  const taken = acceptedKeys(card);
+  return pool.some((candidate) => {
+    if (candidate.entryId === entry.entryId) return false;
+    const text = distractorText(candidate, card);
+    if (text === undefined) return false;
+    const key = normalize(text);
+    return key !== '' && !taken.has(key);
+  });
+}
+
+/**
+ * Checks the option the learner picked. Unlike typed answers there is no
+ * partial credit: a correct pick suggests GOOD, a wrong one AGAIN.
+ *
+ * @param question - The question shown for the card
+ * @param choice - The text of the picked option
+ * @param responseTime - Time taken to answer in milliseconds
+ */
+export function validateChoice(
+  question: MultipleChoiceQuestion,
+  choice: string,
+  responseTime?: number
+): ValidationResult {
+  const expectedAnswer = question.options[question.correctIndex];
+  const isCorrect = choice === expectedAnswer;
+  return {
+    isCorrect,
+    confidence: isCorrect ? 1 : 0,
+    feedback: isCorrect ? 'Correct!' : `Not quite. The correct answer is "${expectedAnswer}".`,
+    userAnswer: choice,
+    expectedAnswer,
+    responseTime,
+    suggestedQuality: isCorrect ? MULTIPLE_CHOICE_CORRECT_QUALITY : MULTIPLE_CHOICE_INCORRECT_QUALITY,
+    answerMode: 'multiple_choice',
+  };
+}
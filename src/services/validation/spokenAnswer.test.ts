@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { ReviewQuality, exampleSpeakingCard } from '../../models';
+import { DEFAULT_VALIDATION_CONFIG } from './answerValidator';
+import { validateSpokenAnswer } from './spokenAnswer';
+
+describe('validateSpokenAnswer', () => {
+  it('should score a clear transcript like a typed answer', () => {
+    const result = validateSpokenAnswer(exampleSpeakingCard, { transcript: 'Perro', confidence: 0.9 });
+    expect(result).toMatchObject({
+      isCorrect: true,
+      userAnswer: 'Perro',
+      answerMode: 'spoken',
+      suggestedQuality: ReviewQuality.EASY,
+    });
+  });
+
+  it('should accept a match among the alternatives but not rate it EASY', () => {
+    const result = validateSpokenAnswer(exampleSpeakingCard, { transcript: 'pedro', alternatives: ['el perro'] });
+    expect(result).toMatchObject({ isCorrect: true, userAnswer: 'el perro', suggestedQuality: ReviewQuality.GOOD });
+    expect(result.feedback).toContain('more clearly');
+  });
+
+  it('should not rate an unsure recognition EASY', () => {
+    const result = validateSpokenAnswer(exampleSpeakingCard, { transcript: 'perro', confidence: 0.5 });
+    expect(result.suggestedQuality).toBe(ReviewQuality.GOOD);
+  });
+
+  it('should apply the validation settings to transcripts', () => {
+    const strict = { ...DEFAULT_VALIDATION_CONFIG, fuzzyMatching: false };
+    expect(validateSpokenAnswer(exampleSpeakingCard, { transcript: 'pero' }).isCorrect).toBe(true);
+    expect(validateSpokenAnswer(exampleSpeakingCard, { transcript: 'pero' }, strict).isCorrect).toBe(false);
+  });
+
+  it('should point to the reference pronunciation on a miss', () => {
+    const result = validateSpokenAnswer(exampleSpeakingCard, { transcript: 'gato' }, undefined, 2000, '/ˈpe.ro/');
+    expect(result.isCorrect).toBe(false);
+    expect(result.feedback).toBe('Not quite. The correct answer is "perro". It is pronounced /ˈpe.ro/.');
+  });
+
+  it('should fail when nothing was heard', () => {
+    const result = validateSpokenAnswer(exampleSpeakingCard, { transcript: ' ' });
+    expect(result).toMatchObject({ isCorrect: false, suggestedQuality: ReviewQuality.AGAIN, answerMode: 'spoken' });
+    expect(result.feedback).toContain('Nothing was heard');
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Spoken answer scoring.
+ * A SpeechRecognizer turns the learner's recording into a transcript and a
+ * few less likely alternatives. Each is checked with the regular answer
+ * validation settings and the best one counts, so recognizer mistakes on
+ * similar-sounding words are forgiven the same way typos are. EASY is kept
+ * for answers heard clearly: as the top transcript, with high confidence.
+ */
+
+import {
+  ReviewQuality,
+  type SpeechRecognitionResult,
+  type StudyCard,
+  type ValidationConfig,
+  type ValidationResult,
+} from '../../models';
+import { DEFAULT_VALIDATION_CONFIG, validateAnswer } from './answerValidator';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Recognizer confidence below which a correct answer is not rated EASY */
+export const CLEAR_SPEECH_CONFIDENCE = 0.75;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function isBetter(candidate: ValidationResult, best: ValidationResult): boolean {
+  if (candidate.isCorrect !== best.isCorrect) return candidate.isCorrect;
+  return candidate.confidence > best.confidence;
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Scores what the learner said against a card's expected and alternate
+ * answers. The transcript and every alternative are validated like typed
+ * answers and the best match is kept (the transcript wins ties).
+ *
+ * @param card - The card being answered (usually a SpeakingCard)
+ * @param recognition - What the recognizer heard
+ * @param config - Matching rules (defaults to DEFAULT_VALIDATION_CONFIG)
+ * @param responseTime - Time taken to answer in milliseconds
+ * @param pronunciation - Reference pronunciation shown when the answer is missed
+ *
+ * @example
+ * ```typescript
+ * const result = validateSpokenAnswer(card, { transcript: 'pero', alternatives: ['perro'] });
+ * // result.isCorrect === true, result.userAnswer === 'perro', result.suggestedQuality === ReviewQuality.GOOD
+ * ```
+ */
+export function validateSpokenAnswer(
+  card: StudyCard,
+  recognition: SpeechRecognitionResult,
+  config: ValidationConfig = DEFAULT_VALIDATION_CONFIG,
+  responseTime?: number,
+  pronunciation?: string
+): ValidationResult {
+  const heard = [recognition.transcript, ...(recognition.alternatives ?? [])].filter((text) => text.trim() !== '');
+  if (heard.length === 0) {
+    return {
+      ...validateAnswer(card, '', config, responseTime),
+      feedback: `Nothing was heard. The correct answer is "${card.expectedAnswer}".`,
+      answerMode: 'spoken',
+    };
+  }
+
+  let best = validateAnswer(card, heard[0], config, responseTime);
+  let bestIndex = 0;
+  heard.slice(1).forEach((text, i) => {
+    const result = validateAnswer(card, text, config, responseTime);
+    if (isBetter(result, best)) {
+      best = result;
+      bestIndex = i + 1;
+    }
+  });
+
+  const clear = bestIndex === 0 && (recognition.confidence ?? 1) >= CLEAR_SPEECH_CONFIDENCE;
+  let feedback = best.feedback;
+  if (best.isCorrect && !clear) {
+    feedback = `Correct! Try saying "${card.expectedAnswer}" a little more clearly.`;
+  } else if (!best.isCorrect && pronunciation) {
+    feedback = `${best.feedback} It is pronounced ${pronunciation}.`;
+  }
+
+  return {
+    ...best,
+    feedback,
+    suggestedQuality:
+      best.suggestedQuality === ReviewQuality.EASY && !clear ? ReviewQuality.GOOD : best.suggestedQuality,
+    answerMode: 'spoken',
+  };
+}
@@ -0,0 +1,8 @@
+/**
+ * Returns a shallow copy of `value` without keys whose value is undefined.
+ * Keeps mapped objects structurally equal to hand-written ones, where optional
+ * fields are simply absent.
+ */
+export function compact<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+}
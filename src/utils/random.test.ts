@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { createSeededRandom, weightedIndex } from './random';
+
+describe('random utilities', () => {
+  it('should produce the same sequence for the same seed', () => {
+    const a = createSeededRandom(42);
+    const b = createSeededRandom(42);
+    const sequence = Array.from({ length: 5 }, () => a());
+    expect(Array.from({ length: 5 }, () => b())).toEqual(sequence);
+    expect(sequence.every((value) => value >= 0 && value < 1)).toBe(true);
+    expect(createSeededRandom(43)()).not.toBe(sequence[0]);
+  });
+
+  it('should pick indexes proportionally to weight', () => {
+    expect(weightedIndex([0, 1, 0], () => 0.99)).toBe(1);
+    expect(weightedIndex([1, 3], () => 0.2)).toBe(0);
+    expect(weightedIndex([1, 3], () => 0.3)).toBe(1);
+    expect(weightedIndex([0, 0], () => 0.6)).toBe(1);
+  });
+});
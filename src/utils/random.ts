@@ -0,0 +1,34 @@
+/**
+ * Deterministic random number generation.
+ */
+
+/**
+ * Creates a seeded pseudo-random number generator (mulberry32) returning
+ * values in [0, 1). The same seed always yields the same sequence.
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Picks an index with probability proportional to its weight.
+ * Falls back to a uniform pick when all weights are zero.
+ */
+export function weightedIndex(weights: number[], random: () => number): number {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (total <= 0) return Math.floor(random() * weights.length);
+
+  let threshold = random() * total;
+  for (let i = 0; i < weights.length; i++) {
+    threshold -= weights[i];
+    if (threshold < 0) return i;
+  }
+  return weights.length - 1;
+}
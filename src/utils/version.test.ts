@@ -0,0 +1,16 @@
+import { describe, it, expect } from 'vitest';
+import { compareVersions, isSameMinorVersion } from './version';
+
+describe('version utilities', () => {
+  it('should compare semantic versions numerically', () => {
+    expect(compareVersions('1.10.0', '1.9.0')).toBeGreaterThan(0);
+    expect(compareVersions('1.0.0', '1.0.0')).toBe(0);
+    expect(compareVersions('0.9.9', '1.0.0')).toBeLessThan(0);
+  });
+
+  it('should tell patch-level differences apart from minor ones', () => {
+    expect(isSameMinorVersion('1.0.0', '1.0.7')).toBe(true);
+    expect(isSameMinorVersion('1.0.0', '1.1.0')).toBe(false);
+    expect(isSameMinorVersion('1.0.0', '2.0.0')).toBe(false);
+  });
+});
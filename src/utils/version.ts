@@ -0,0 +1,26 @@
+/**
+ * Semantic version helpers.
+ */
+
+/**
+ * Compares two "major.minor.patch" versions numerically.
+ * Returns a negative number, zero or a positive number like a sort comparator.
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const difference = (left[i] ?? 0) - (right[i] ?? 0);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+}
+
+/**
+ * Whether two versions share major and minor, i.e. differ at most by patch.
+ */
+export function isSameMinorVersion(a: string, b: string): boolean {
+  const [leftMajor, leftMinor] = a.split('.');
+  const [rightMajor, rightMinor] = b.split('.');
+  return leftMajor === rightMajor && leftMinor === rightMinor;
+}